@@ -0,0 +1,42 @@
+/**
+ * Al-Biruni EDU - Curriculum Export
+ *
+ * Writes knowledge components and lessons as a curriculum bundle that can be
+ * edited and imported again with curriculum:import.
+ *
+ * Usage: npm run curriculum:export -- [file.yaml|file.json] [--subject=Math]
+ * Prints YAML to stdout when no file is given.
+ * Requires NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.
+ */
+
+import { writeFileSync } from 'fs';
+import { exportCurriculumBundle, serializeCurriculumBundle } from '@/lib/curriculum/exporter';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  const subject = args.find((arg) => arg.startsWith('--subject='))?.slice('--subject='.length);
+
+  const { bundle, skippedLessons } = await exportCurriculumBundle({ subject });
+  const text = serializeCurriculumBundle(bundle, file && /\.json$/i.test(file) ? 'json' : 'yaml');
+
+  for (const lesson of skippedLessons) {
+    console.error(`⚠️  Skipped lesson ${lesson.slug}: ${lesson.reason}`);
+  }
+
+  if (!file) {
+    process.stdout.write(text);
+    return;
+  }
+
+  writeFileSync(file, text);
+  console.log(
+    `✅ Exported ${bundle.knowledge_components.length} knowledge components and ` +
+      `${bundle.lessons.length} lessons to ${file}`
+  );
+}
+
+main().catch((error) => {
+  console.error('❌ Export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Al-Biruni EDU - Curriculum Import
+ *
+ * Validates a curriculum bundle (JSON or YAML) and upserts its knowledge
+ * components (by code) and lessons (by slug).
+ *
+ * Usage: npm run curriculum:import -- <file> [--dry-run] [--skip-conflicts]
+ * Requires NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and
+ * SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  parseCurriculumBundle,
+  CurriculumValidationError,
+} from '@/lib/curriculum/schema';
+import { importCurriculumBundle, type ImportCounts } from '@/lib/curriculum/importer';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+
+  if (!file) {
+    console.error('Usage: npm run curriculum:import -- <file> [--dry-run] [--skip-conflicts]');
+    process.exit(1);
+  }
+
+  const format = /\.json$/i.test(file) ? 'json' : /\.ya?ml$/i.test(file) ? 'yaml' : undefined;
+  const bundle = parseCurriculumBundle(readFileSync(file, 'utf8'), format);
+  const result = await importCurriculumBundle(bundle, {
+    dryRun: args.includes('--dry-run'),
+    onConflict: args.includes('--skip-conflicts') ? 'skip' : 'update',
+  });
+
+  console.log(`📚 Importing ${file}${result.dryRun ? ' (dry run)' : ''}...`);
+  printCounts('Knowledge components', result.knowledgeComponents);
+  printCounts('Lessons', result.lessons);
+
+  for (const conflict of result.conflicts) {
+    console.log(
+      `⚠️  ${conflict.kind} ${conflict.key} differs in ${conflict.fields.join(', ')} (${conflict.resolution})`
+    );
+  }
+
+  for (const error of result.errors) {
+    console.error(`❌ ${error}`);
+  }
+
+  if (result.errors.length > 0) {
+    console.error('Nothing was written.');
+  }
+
+  process.exit(result.errors.length > 0 ? 1 : 0);
+}
+
+function printCounts(label: string, counts: ImportCounts) {
+  console.log(
+    `✅ ${label}: ${counts.created.length} created, ${counts.updated.length} updated, ` +
+      `${counts.unchanged.length} unchanged, ${counts.skipped.length} skipped`
+  );
+}
+
+main().catch((error) => {
+  if (error instanceof CurriculumValidationError) {
+    console.error(`❌ ${error.message}:`);
+    for (const issue of error.issues) {
+      console.error(`   ${issue}`);
+    }
+  } else {
+    console.error('❌ Import failed:', error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * Al-Biruni EDU - Knowledge Base Ingestion
+ *
+ * Chunks and embeds published lessons and knowledge components into
+ * knowledge_chunks. Safe to re-run: unchanged chunks are skipped.
+ *
+ * Usage: npm run kb:ingest [-- --subject=Math]
+ * Requires NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY,
+ * SUPABASE_SERVICE_ROLE_KEY and GEMINI_API_KEY.
+ */
+
+import { ingestKnowledgeBase } from '@/lib/knowledge/ingest';
+
+async function main() {
+  const subject = process.argv
+    .find((arg) => arg.startsWith('--subject='))
+    ?.slice('--subject='.length);
+
+  console.log(`📚 Ingesting knowledge base${subject ? ` (${subject})` : ''}...`);
+
+  const result = await ingestKnowledgeBase({ subject });
+
+  console.log(`✅ Sources: ${result.sources}`);
+  console.log(`✅ Chunks: ${result.chunks} (${result.embedded} embedded)`);
+
+  if (result.removed > 0) {
+    console.log(`🧹 Sources with stale chunks removed: ${result.removed}`);
+  }
+
+  for (const error of result.errors) {
+    console.error(`❌ ${error.sourceType} ${error.sourceId}: ${error.error}`);
+  }
+
+  process.exit(result.errors.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Ingestion failed:', error);
+  process.exit(1);
+});
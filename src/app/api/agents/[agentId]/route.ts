@@ -2,34 +2,54 @@
  * Agent Execution API
  *
  * POST /api/agents/[agentId]
- * Executes a specific agent with the given input
+ * Executes a specific agent with the given input for the signed-in student
+ *
+ * Set `options.stream: true` to receive SSE events (token, visualization, question, usage, done, error)
+ *
+ * `conversationHistory` is untrusted: system messages are dropped, and only
+ * the most recent messages (up to MAX_HISTORY_MESSAGES / MAX_HISTORY_CHARS)
+ * are kept
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAgent } from '@/lib/agents/registry';
 import { contextManager } from '@/lib/agents/base/context';
-import type { AgentContext, ChatMessage } from '@/lib/agents/base/types';
+import { loadStudentProfile } from '@/lib/agents/base/profile';
+import { getServerUser } from '@/lib/supabase/auth';
+import { resolveBudgetStatus } from '@/lib/usage/budget';
+import { rateLimitResponse } from '@/lib/api/errors';
+import { tagContext } from '@/lib/learning/kc-tagger';
+import { recordStudyActivity } from '@/lib/learning/study-sessions';
+import { evaluateAchievements, AGENT_TURN_EVENTS, type UnlockedAchievement } from '@/lib/achievements';
+import { createAgentEventStream } from '@/lib/gemini/streaming';
+import { UsageMeter } from '@/lib/llm';
+import { AgentError, AgentErrorCode } from '@/lib/agents/base/types';
+import type {
+  AgentContext,
+  AgentExecutionOptions,
+  AgentResponse,
+  ChatMessage,
+  GeminiModel,
+} from '@/lib/agents/base/types';
 
 /**
  * Request body schema
  */
 interface ExecuteAgentRequest {
   input: string;
-  userId: string;
   conversationHistory?: ChatMessage[];
-  dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
-  profile?: {
-    displayName?: string;
-    gradeLevel?: number;
-    learningStyle?: 'visual' | 'auditory' | 'kinesthetic' | 'reading';
-  };
   options?: {
-    model?: 'flash-lite' | 'flash' | 'pro';
+    model?: GeminiModel;
     temperature?: number;
     stream?: boolean;
   };
 }
 
+const CLIENT_MODELS: GeminiModel[] = ['flash-lite', 'flash', 'pro'];
+
+const MAX_HISTORY_MESSAGES = 40;
+const MAX_HISTORY_CHARS = 40_000;
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { agentId: string } }
@@ -37,17 +57,61 @@ export async function POST(
   try {
     const { agentId } = params;
 
+    // Resolve the student from the session cookie
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
     // Parse request body
     const body: ExecuteAgentRequest = await request.json();
 
     // Validate required fields
-    if (!body.input || !body.userId) {
+    if (!body.input) {
       return NextResponse.json(
         {
           success: false,
           error: {
             code: 'INVALID_REQUEST',
-            message: 'Missing required fields: input, userId',
+            message: 'Missing required field: input',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only these options come from the client; the rest are set by the server
+    const options = parseClientOptions(body.options);
+    if (typeof options === 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: options,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversationHistory = parseClientHistory(body.conversationHistory);
+    if (typeof conversationHistory === 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: conversationHistory,
           },
         },
         { status: 400 }
@@ -69,49 +133,79 @@ export async function POST(
       );
     }
 
-    // Build context
+    const profile = await loadStudentProfile(user.id);
+
+    // Check the usage budget up front (over budget: 429)
+    const budgetStatus = await resolveBudgetStatus(user.id, agentId, profile.plan);
+
+    // Rate limits are also checked up front so streaming callers get a 429
+    await agent.checkRateLimit(user.id, { ...options, budgetStatus });
+
+    // Build context (profile and dialect come from user_profiles)
     const context: AgentContext = contextManager.buildContext({
-      userId: body.userId,
+      userId: user.id,
       input: body.input,
-      profile: body.profile,
-      conversationHistory: body.conversationHistory,
+      profile,
+      conversationHistory,
     });
 
-    // Add dialect if provided
-    if (body.dialect) {
-      context.dialect = body.dialect;
+    // Tag the message with its KCs and load student mastery (BKT p_know per KC);
+    // the tagging embedding counts toward the turn's usage
+    const usageMeter = new UsageMeter();
+    await usageMeter.run(() => tagContext(context, body.input));
+
+    // Asking for help is study activity (opens or extends the study session)
+    await recordStudyActivity(context.userId, { kcIds: context.activeKnowledgeComponents });
+
+    // Streaming mode: forward agent events as SSE
+    if (options.stream) {
+      return createAgentEventStream(
+        async (emit) => {
+          const response = await agent.executeWithPipeline(body.input, context, {
+            ...options,
+            stream: true,
+            onEvent: emit,
+            budgetStatus,
+            rateLimitChecked: true,
+            usageMeter,
+          });
+
+          emit({
+            type: 'usage',
+            model: response.model,
+            tokensUsed: response.tokensUsed,
+            costUsd: response.cost.usd,
+            durationMs: response.durationMs,
+          });
+          const achievements = await evaluateAchievements(context.userId, AGENT_TURN_EVENTS);
+          emit({ type: 'done', data: buildAgentPayload(response, achievements) });
+        },
+        (error) => {
+          console.error(`[API] Agent stream error:`, error);
+          return {
+            code: error instanceof AgentError ? error.code : 'AGENT_EXECUTION_ERROR',
+            message: error.message,
+          };
+        }
+      );
     }
 
     // Execute agent
     const response = await agent.executeWithPipeline(
       body.input,
       context,
-      body.options || {}
+      { ...options, budgetStatus, rateLimitChecked: true, usageMeter }
     );
 
+    const achievements = await evaluateAchievements(context.userId, AGENT_TURN_EVENTS);
+
     // Return response
-    return NextResponse.json({
-      success: true,
-      agent: {
-        id: response.agentId,
-        name: response.agentName,
-      },
-      response: {
-        content: response.content,
-        visualizations: response.visualizations,
-        questions: response.questions,
-        confidence: response.confidence,
-      },
-      usage: {
-        model: response.model,
-        tokensUsed: response.tokensUsed,
-        cost: response.cost,
-        durationMs: response.durationMs,
-      },
-      metadata: response.metadata,
-      timestamp: response.timestamp,
-    });
+    return NextResponse.json(buildAgentPayload(response, achievements));
   } catch (error) {
+    if (error instanceof AgentError && error.code === AgentErrorCode.RATE_LIMIT) {
+      return rateLimitResponse(error);
+    }
+
     console.error(`[API] Error executing agent:`, error);
 
     return NextResponse.json(
@@ -127,3 +221,94 @@ export async function POST(
     );
   }
 }
+
+/**
+ * Execution options a client may set (model, temperature, stream), or an
+ * error message when one is invalid
+ */
+function parseClientOptions(options: ExecuteAgentRequest['options']): AgentExecutionOptions | string {
+  if (options === undefined || options === null) return {};
+  if (typeof options !== 'object') return 'options must be an object';
+
+  const { model, temperature, stream } = options;
+  if (model !== undefined && !CLIENT_MODELS.includes(model)) {
+    return `Invalid model: ${model}`;
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    return 'temperature must be a number between 0 and 2';
+  }
+  if (stream !== undefined && typeof stream !== 'boolean') {
+    return 'stream must be a boolean';
+  }
+
+  return { model, temperature, stream };
+}
+
+/**
+ * Student and agent messages from the client's history, newest kept within
+ * the caps, or an error message when the history is malformed. System
+ * messages are dropped: instructions come from the server only
+ */
+function parseClientHistory(history: unknown): ChatMessage[] | string {
+  if (history === undefined || history === null) return [];
+  if (!Array.isArray(history)) return 'conversationHistory must be an array';
+
+  const messages: ChatMessage[] = [];
+  for (const entry of history) {
+    if (
+      typeof entry !== 'object' ||
+      entry === null ||
+      !['user', 'agent', 'system'].includes(entry.role) ||
+      typeof entry.content !== 'string'
+    ) {
+      return 'conversationHistory entries need a role (user, agent) and string content';
+    }
+    if (entry.role === 'system') continue;
+
+    const timestamp = new Date(entry.timestamp);
+    messages.push({
+      role: entry.role,
+      content: entry.content,
+      timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+      ...(typeof entry.agentId === 'string' && { agentId: entry.agentId }),
+    });
+  }
+
+  const kept: ChatMessage[] = [];
+  let chars = 0;
+  for (const message of messages.slice(-MAX_HISTORY_MESSAGES).reverse()) {
+    chars += message.content.length;
+    if (chars > MAX_HISTORY_CHARS) break;
+    kept.unshift(message);
+  }
+
+  return kept;
+}
+
+/**
+ * Build the agent response payload (JSON body, or the final SSE 'done' event)
+ */
+function buildAgentPayload(response: AgentResponse, achievements: UnlockedAchievement[]) {
+  return {
+    success: true,
+    agent: {
+      id: response.agentId,
+      name: response.agentName,
+    },
+    response: {
+      content: response.content,
+      visualizations: response.visualizations,
+      questions: response.questions,
+      confidence: response.confidence,
+    },
+    usage: {
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost,
+      durationMs: response.durationMs,
+    },
+    metadata: response.metadata,
+    achievements,
+    timestamp: response.timestamp,
+  };
+}
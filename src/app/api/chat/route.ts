@@ -3,43 +3,93 @@
  *
  * POST /api/chat
  * Uses Maestro agent to orchestrate responses from specialized agents
+ *
+ * Requires a signed-in Supabase session; the student's profile and dialect
+ * are loaded from user_profiles. Send `dialect` to override the dialect for a
+ * turn; when neither the request, the conversation nor the profile sets one,
+ * it is identified from the student's messages (reported in
+ * metadata.orchestration.dialect)
+ *
+ * Conversations are stored server-side: send the `sessionId` returned by the
+ * first turn with each new message (omit it to start a new conversation)
+ *
+ * Send `stream: true` (or `Accept: text/event-stream`) to receive SSE events:
+ * routing, agent_start, token, visualization, question, usage, done, error
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAgent } from '@/lib/agents/registry';
 import { contextManager } from '@/lib/agents/base/context';
-import type { AgentContext, ChatMessage } from '@/lib/agents/base/types';
+import { loadStudentProfile } from '@/lib/agents/base/profile';
+import { getServerUser } from '@/lib/supabase/auth';
+import { resolveBudgetStatus } from '@/lib/usage/budget';
+import { rateLimitResponse } from '@/lib/api/errors';
+import { tagContext } from '@/lib/learning/kc-tagger';
+import { recordStudyActivity } from '@/lib/learning/study-sessions';
+import { evaluateAchievements, AGENT_TURN_EVENTS, type UnlockedAchievement } from '@/lib/achievements';
+import {
+  resolveConversation,
+  loadConversationHistory,
+  saveConversationMessage,
+} from '@/lib/chat/conversations';
+import { createAgentEventStream } from '@/lib/gemini/streaming';
+import { UsageMeter } from '@/lib/llm';
+import { ARABIC_DIALECTS, DIALECT_MIN_CONFIDENCE, detectConversationDialect } from '@/lib/dialect';
+import { AgentError, AgentErrorCode } from '@/lib/agents/base/types';
+import type { AgentContext, AgentResponse, ArabicDialect, ChatMessage } from '@/lib/agents/base/types';
 
 /**
  * Chat request schema
  */
 interface ChatRequest {
   message: string;
-  userId: string;
-  conversationHistory?: ChatMessage[];
-  sessionId?: string;
-  dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
-  profile?: {
-    displayName?: string;
-    preferredDialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
-    learningStyle?: 'visual' | 'auditory' | 'kinesthetic' | 'reading';
-    gradeLevel?: number;
-  };
+  sessionId?: string; // Conversation ID from a previous turn
+  dialect?: ArabicDialect; // Overrides the conversation and profile dialect
+  stream?: boolean;
 }
 
 export async function POST(request: NextRequest) {
   try {
+    // Resolve the student from the session cookie
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
     // Parse request body
     const body: ChatRequest = await request.json();
 
     // Validate required fields
-    if (!body.message || !body.userId) {
+    if (!body.message) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Missing required field: message',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.dialect !== undefined && !ARABIC_DIALECTS.includes(body.dialect)) {
       return NextResponse.json(
         {
           success: false,
           error: {
             code: 'INVALID_REQUEST',
-            message: 'Missing required fields: message, userId',
+            message: `Invalid dialect: ${body.dialect}`,
+            details: { allowed: ARABIC_DIALECTS },
           },
         },
         { status: 400 }
@@ -61,67 +111,132 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const profile = await loadStudentProfile(user.id);
+
+    // Check the usage budget up front (over budget: 429 before anything is stored)
+    const budgetStatus = await resolveBudgetStatus(user.id, 'maestro', profile.plan);
+
+    // Rate limits are also checked up front so streaming callers get a 429
+    await maestro.checkRateLimit(user.id, { budgetStatus });
+
+    // Load (or start) the conversation
+    const conversation = await resolveConversation(
+      user.id,
+      body.sessionId,
+      body.message,
+      body.dialect ?? profile.preferredDialect
+    );
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: `Conversation ${body.sessionId} not found`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
     // Build context
     const context: AgentContext = contextManager.buildContext({
-      userId: body.userId,
+      userId: user.id,
       input: body.message,
-      profile: body.profile,
-      conversationHistory: body.conversationHistory || [],
-      sessionId: body.sessionId,
+      profile,
+      conversationHistory: await loadConversationHistory(user.id, conversation.id),
+      sessionId: conversation.id,
     });
 
-    // Set dialect
+    // Set dialect (request, conversation dialect, profile preference, then
+    // identified from the student's messages)
     if (body.dialect) {
-      context.dialect = body.dialect;
-    } else if (body.profile?.preferredDialect) {
-      context.dialect = body.profile.preferredDialect;
+      context.dialectDecision = { dialect: body.dialect, source: 'request' };
+    } else if (conversation.dialect) {
+      context.dialectDecision = { dialect: conversation.dialect, source: 'conversation' };
+    } else if (profile.preferredDialect) {
+      context.dialectDecision = { dialect: profile.preferredDialect, source: 'profile' };
     } else {
-      // Auto-detect from conversation history
-      const detectedDialect = contextManager.detectDialect(
-        context.conversationHistory
+      const classification = detectConversationDialect(context.conversationHistory);
+      const confident = classification && classification.confidence >= DIALECT_MIN_CONFIDENCE;
+
+      context.dialectDecision = {
+        dialect: confident ? classification.dialect : null,
+        source: confident ? 'detected' : 'none',
+        ...(classification && { classification }),
+      };
+    }
+    context.dialect = context.dialectDecision.dialect ?? undefined;
+
+    // Tag the message with its KCs and load student mastery (BKT p_know per KC);
+    // the tagging embedding counts toward the turn's usage
+    const usageMeter = new UsageMeter();
+    await usageMeter.run(() => tagContext(context, body.message));
+
+    // Asking for help is study activity (opens or extends the study session)
+    await recordStudyActivity(context.userId, { kcIds: context.activeKnowledgeComponents });
+
+    // Persist the student's message before running the agents
+    const userMessage = context.conversationHistory[context.conversationHistory.length - 1];
+    if (userMessage) {
+      await saveConversationMessage(context.userId, conversation.id, userMessage);
+    }
+
+    // Streaming mode: forward agent events as SSE
+    const wantsStream =
+      body.stream === true ||
+      request.headers.get('accept')?.includes('text/event-stream');
+
+    if (wantsStream) {
+      return createAgentEventStream(
+        async (emit) => {
+          const response = await maestro.executeWithPipeline(body.message, context, {
+            stream: true,
+            onEvent: emit,
+            budgetStatus,
+            rateLimitChecked: true,
+            usageMeter,
+          });
+
+          const message = await saveAgentMessage(response, context);
+
+          emit({
+            type: 'usage',
+            model: response.model,
+            tokensUsed: response.tokensUsed,
+            costUsd: response.cost.usd,
+            durationMs: response.durationMs,
+          });
+          const achievements = await evaluateAchievements(context.userId, AGENT_TURN_EVENTS);
+          emit({ type: 'done', data: buildChatPayload(response, message, context, achievements) });
+        },
+        (error) => {
+          console.error('[API] Chat stream error:', error);
+          return {
+            code: error instanceof AgentError ? error.code : 'CHAT_ERROR',
+            message: error.message,
+          };
+        }
       );
-      if (detectedDialect) {
-        context.dialect = detectedDialect;
-      }
     }
 
     // Execute Maestro orchestration
-    const response = await maestro.executeWithPipeline(body.message, context);
-
-    // Build conversation history for next turn
-    const updatedHistory = [
-      ...context.conversationHistory,
-      {
-        role: 'agent' as const,
-        content: response.content,
-        timestamp: response.timestamp,
-        agentId: response.agentId,
-      },
-    ];
+    const response = await maestro.executeWithPipeline(body.message, context, {
+      budgetStatus,
+      rateLimitChecked: true,
+      usageMeter,
+    });
+    const message = await saveAgentMessage(response, context);
+    const achievements = await evaluateAchievements(context.userId, AGENT_TURN_EVENTS);
 
     // Return response
-    return NextResponse.json({
-      success: true,
-      message: {
-        role: 'agent',
-        content: response.content,
-        agentId: response.agentId,
-        agentName: response.agentName,
-        timestamp: response.timestamp,
-      },
-      visualizations: response.visualizations || [],
-      questions: response.questions || [],
-      conversationHistory: updatedHistory,
-      sessionId: context.sessionId,
-      usage: {
-        model: response.model,
-        tokensUsed: response.tokensUsed,
-        cost: response.cost,
-        durationMs: response.durationMs,
-      },
-      orchestration: response.metadata?.orchestration,
-    });
+    return NextResponse.json(buildChatPayload(response, message, context, achievements));
   } catch (error) {
+    if (error instanceof AgentError && error.code === AgentErrorCode.RATE_LIMIT) {
+      return rateLimitResponse(error);
+    }
+
     console.error('[API] Chat error:', error);
 
     return NextResponse.json(
@@ -137,3 +252,58 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Persist the agent's answer to the conversation
+ */
+async function saveAgentMessage(
+  response: AgentResponse,
+  context: AgentContext
+): Promise<ChatMessage> {
+  return saveConversationMessage(context.userId, context.sessionId, {
+    role: 'agent',
+    content: response.content,
+    timestamp: response.timestamp,
+    agentId: response.agentId,
+    metadata: {
+      agentName: response.agentName,
+      visualizations: response.visualizations || [],
+      questions: response.questions || [],
+      agentSessionIds: response.metadata?.agentSessionIds ?? [],
+    },
+  });
+}
+
+/**
+ * Build the chat response payload (JSON body, or the final SSE 'done' event)
+ */
+function buildChatPayload(
+  response: AgentResponse,
+  message: ChatMessage,
+  context: AgentContext,
+  achievements: UnlockedAchievement[]
+) {
+  return {
+    success: true,
+    message: {
+      id: message.metadata?.messageId,
+      role: 'agent',
+      content: response.content,
+      agentId: response.agentId,
+      agentName: response.agentName,
+      timestamp: response.timestamp,
+      agentSessionIds: response.metadata?.agentSessionIds ?? [],
+    },
+    visualizations: response.visualizations || [],
+    questions: response.questions || [],
+    sessionId: context.sessionId,
+    usage: {
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost,
+      durationMs: response.durationMs,
+    },
+    orchestration: response.metadata?.orchestration,
+    achievements,
+  };
+}
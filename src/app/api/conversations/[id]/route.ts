@@ -0,0 +1,80 @@
+/**
+ * Conversation API - Resume a past chat
+ *
+ * GET /api/conversations/[id]
+ * Returns the conversation and its messages, oldest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation } from '@/lib/supabase/database';
+import { getServerUser } from '@/lib/supabase/auth';
+import { loadConversationHistory } from '@/lib/chat/conversations';
+
+const MAX_MESSAGES = 200;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const conversation = await getConversation(user.id, id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: `Conversation ${id} not found`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const messages = await loadConversationHistory(user.id, conversation.id, MAX_MESSAGES);
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        dialect: conversation.dialect,
+        messageCount: conversation.message_count,
+        lastMessageAt: conversation.last_message_at,
+        createdAt: conversation.created_at,
+      },
+      messages,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching conversation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CONVERSATION_FETCH_ERROR',
+          message: 'Failed to fetch conversation',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
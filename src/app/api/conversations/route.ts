@@ -0,0 +1,59 @@
+/**
+ * Conversations API - List a student's past chats
+ *
+ * GET /api/conversations?limit=20
+ * Returns conversations, most recently active first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversations } from '@/lib/supabase/database';
+import { getServerUser } from '@/lib/supabase/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || 20;
+
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const conversations = await getConversations(user.id, Math.min(limit, 100));
+
+    return NextResponse.json({
+      success: true,
+      count: conversations.length,
+      conversations: conversations.map((conversation) => ({
+        id: conversation.id,
+        title: conversation.title,
+        dialect: conversation.dialect,
+        messageCount: conversation.message_count,
+        lastMessageAt: conversation.last_message_at,
+        createdAt: conversation.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching conversations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'CONVERSATIONS_FETCH_ERROR',
+          message: 'Failed to fetch conversations',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Dashboard API - Student progress overview
+ *
+ * GET /api/dashboard
+ * Returns overall and per-subject mastery, the study streak calendar, due
+ * flashcards, achievements and per-agent interaction history
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { getDashboardSummary } from '@/lib/learning/dashboard';
+
+export async function GET() {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const dashboard = await getDashboardSummary(user.id);
+
+    return NextResponse.json({ success: true, ...dashboard });
+  } catch (error) {
+    console.error('[API] Error building dashboard:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'DASHBOARD_ERROR',
+          message: 'Failed to load dashboard',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import * as auth from '@/lib/supabase/auth';
+import * as db from '@/lib/supabase/database';
+import { GET, POST } from '../route';
+
+vi.mock('@/lib/supabase/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase/auth')>()),
+  getServerUser: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/database', () => ({
+  updateAgentSessionFeedback: vi.fn(),
+  getAgentFeedbackStats: vi.fn(),
+}));
+
+const STUDENT = { id: 'student-1', app_metadata: {}, user_metadata: { role: 'admin' } } as unknown as User;
+const ADMIN = { id: 'admin-1', app_metadata: { role: 'admin' }, user_metadata: {} } as unknown as User;
+
+function postFeedback(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/feedback', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('/api/feedback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET', () => {
+    it('requires a signed-in user', async () => {
+      vi.mocked(auth.getServerUser).mockResolvedValue(null);
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+      expect(db.getAgentFeedbackStats).not.toHaveBeenCalled();
+    });
+
+    it('refuses students, whatever their user_metadata says', async () => {
+      vi.mocked(auth.getServerUser).mockResolvedValue(STUDENT);
+
+      const response = await GET();
+
+      expect(response.status).toBe(403);
+      expect(db.getAgentFeedbackStats).not.toHaveBeenCalled();
+    });
+
+    it('returns per-agent aggregates to admins', async () => {
+      vi.mocked(auth.getServerUser).mockResolvedValue(ADMIN);
+      vi.mocked(db.getAgentFeedbackStats).mockResolvedValue([
+        {
+          agent_type: 'problem_decomposer',
+          total_sessions: 10,
+          rated_sessions: 4,
+          average_rating: 4.5,
+          helpful_count: 3,
+          not_helpful_count: 1,
+          helpful_ratio: 0.75,
+        },
+      ] as Awaited<ReturnType<typeof db.getAgentFeedbackStats>>);
+
+      const response = await GET();
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.agents).toEqual([
+        expect.objectContaining({ agentId: 'problem-decomposer', averageRating: 4.5, helpfulRatio: 0.75 }),
+      ]);
+    });
+  });
+
+  describe('POST', () => {
+    it('validates the rating', async () => {
+      vi.mocked(auth.getServerUser).mockResolvedValue(STUDENT);
+
+      const response = await postFeedback({ sessionIds: ['s-1'], rating: 7 });
+
+      expect(response.status).toBe(400);
+      expect(db.updateAgentSessionFeedback).not.toHaveBeenCalled();
+    });
+
+    it("updates only the student's own sessions", async () => {
+      vi.mocked(auth.getServerUser).mockResolvedValue(STUDENT);
+      vi.mocked(db.updateAgentSessionFeedback).mockResolvedValue([]);
+
+      const response = await postFeedback({ sessionIds: ['s-1'], helpful: true });
+
+      expect(db.updateAgentSessionFeedback).toHaveBeenCalledWith('student-1', ['s-1'], {
+        was_helpful: true,
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+});
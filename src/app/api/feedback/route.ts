@@ -0,0 +1,207 @@
+/**
+ * Feedback API - Student ratings of agent answers
+ *
+ * POST /api/feedback
+ * Records a star rating (1-5) and/or thumbs up/down on the agent_sessions
+ * rows that produced an answer
+ *
+ * GET /api/feedback
+ * Returns feedback aggregates per agent (across all students; admins only,
+ * i.e. app_metadata.role = 'admin')
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateAgentSessionFeedback, getAgentFeedbackStats } from '@/lib/supabase/database';
+import { fromAgentType } from '@/lib/agents/base/utils';
+import { getServerUser, isAdmin } from '@/lib/supabase/auth';
+
+/**
+ * Feedback request schema
+ */
+interface FeedbackRequest {
+  sessionIds: string[]; // agent_sessions row IDs from the chat response
+  rating?: number; // 1-5 stars
+  helpful?: boolean; // thumbs up/down
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body: FeedbackRequest = await request.json();
+
+    // Validate required fields
+    if (
+      !Array.isArray(body.sessionIds) ||
+      body.sessionIds.length === 0 ||
+      !body.sessionIds.every((id) => typeof id === 'string')
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Missing required field: sessionIds',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.rating === undefined && body.helpful === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Provide a rating, helpful, or both',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.rating !== undefined &&
+      (!Number.isInteger(body.rating) || body.rating < 1 || body.rating > 5)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'rating must be an integer between 1 and 5',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.helpful !== undefined && typeof body.helpful !== 'boolean') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'helpful must be a boolean',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateAgentSessionFeedback(user.id, body.sessionIds, {
+      ...(body.rating !== undefined && { student_feedback: body.rating }),
+      ...(body.helpful !== undefined && { was_helpful: body.helpful }),
+    });
+
+    if (updated.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'No agent sessions found for this user',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      updated: updated.map((session) => ({
+        id: session.id,
+        agentId: fromAgentType(session.agent_type),
+        rating: session.student_feedback,
+        helpful: session.was_helpful,
+      })),
+    });
+  } catch (error) {
+    console.error('[API] Error recording feedback:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FEEDBACK_ERROR',
+          message: 'Failed to record feedback',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Feedback stats are available to administrators only',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const stats = await getAgentFeedbackStats();
+
+    return NextResponse.json({
+      success: true,
+      agents: stats.map((row) => ({
+        agentId: fromAgentType(row.agent_type),
+        totalSessions: row.total_sessions,
+        ratedSessions: row.rated_sessions,
+        averageRating: row.average_rating,
+        helpfulCount: row.helpful_count,
+        notHelpfulCount: row.not_helpful_count,
+        helpfulRatio: row.helpful_ratio,
+      })),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching feedback stats:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FEEDBACK_STATS_ERROR',
+          message: 'Failed to fetch feedback stats',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Learning Path API - Prerequisite-aware route to a knowledge component
+ *
+ * GET /api/learning-path?target=KC_CODE
+ * Returns the target's prerequisites in learning order with the student's
+ * mastery, and the missing prerequisites in the order to revisit them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { getLearningPath } from '@/lib/learning/kc-graph';
+import type { Database } from '@/types/supabase';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const target = request.nextUrl.searchParams.get('target')?.trim();
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'target (knowledge component code) is required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const path = await getLearningPath(user.id, target);
+    if (!path) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'KC_NOT_FOUND',
+            message: `Unknown knowledge component: ${target}`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      target: toSummary(path.target),
+      steps: path.steps.map((step) => ({
+        ...toSummary(step.kc),
+        pKnow: step.pKnow,
+        isMastered: step.isMastered,
+      })),
+      missingPrerequisites: path.missingPrerequisites.map((missing) => ({
+        ...toSummary(missing.kc),
+        pKnow: missing.pKnow,
+        distance: missing.distance,
+        ready: missing.ready,
+      })),
+      cycles: path.cycles,
+    });
+  } catch (error) {
+    console.error('[API] Error building learning path:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'LEARNING_PATH_ERROR',
+          message: 'Failed to build learning path',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function toSummary(kc: KnowledgeComponent) {
+  return {
+    id: kc.id,
+    code: kc.code,
+    nameAr: kc.name_ar,
+    nameEn: kc.name_en,
+    subject: kc.subject,
+    topic: kc.topic,
+    difficulty: kc.difficulty,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Lesson Progress API - Save lesson player progress
+ *
+ * POST /api/lessons/[slug]/progress
+ * Body: { position?: { section, block }, timeSpentSeconds?, exercise?: { id, answer } }
+ * Saves position, time on task and graded exercise results to student_progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { getLessonBySlug } from '@/lib/supabase/database';
+import { parseLessonContent } from '@/lib/lessons/content';
+import {
+  recordLessonProgress,
+  LessonProgressError,
+  type LessonProgressUpdate,
+} from '@/lib/lessons/progress';
+import { evaluateAchievements } from '@/lib/achievements';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { slug } = params;
+
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body: LessonProgressUpdate = await request.json();
+
+    const answer = body.exercise?.answer;
+    if (
+      body.exercise &&
+      (typeof body.exercise.id !== 'string' ||
+        (typeof answer !== 'string' && typeof answer !== 'number'))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'exercise must have an id and a string or number answer',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const lesson = await getLessonBySlug(slug);
+    const content = lesson ? parseLessonContent(lesson.content) : null;
+    if (!lesson || !content) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LESSON_NOT_FOUND',
+            message: `Lesson '${slug}' not found`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await recordLessonProgress(user.id, lesson, content, {
+      position: body.position,
+      timeSpentSeconds: body.timeSpentSeconds,
+      exercise: body.exercise,
+    });
+
+    const achievements = await evaluateAchievements(user.id, [
+      'lesson_progress',
+      'study_activity',
+      ...(outcome.exercise?.mastery ? (['mastery'] as const) : []),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      progress: {
+        status: outcome.progress.status,
+        progressPercent: outcome.progress.progress_percent,
+        timeSpentSeconds: outcome.progress.time_spent_seconds,
+        state: outcome.state,
+      },
+      exercise: outcome.exercise,
+      achievements,
+    });
+  } catch (error) {
+    if (error instanceof LessonProgressError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('[API] Error saving lesson progress:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'PROGRESS_SAVE_ERROR',
+          message: 'Failed to save lesson progress',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
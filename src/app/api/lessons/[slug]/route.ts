@@ -0,0 +1,102 @@
+/**
+ * Lesson API - Lesson content for the player
+ *
+ * GET /api/lessons/[slug]
+ * Returns a published lesson (exercise answers removed) and the signed-in
+ * student's progress and player state
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { getLessonBySlug, getStudentProgress } from '@/lib/supabase/database';
+import { parseLessonContent, toPlayerContent } from '@/lib/lessons/content';
+import { readPlayerState } from '@/lib/lessons/progress';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { slug } = params;
+
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const lesson = await getLessonBySlug(slug);
+    if (!lesson) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LESSON_NOT_FOUND',
+            message: `Lesson '${slug}' not found`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const content = parseLessonContent(lesson.content);
+    if (!content) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_LESSON_CONTENT',
+            message: `Lesson '${slug}' content does not match the lesson schema`,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    const progress = await getStudentProgress(user.id, lesson.id);
+
+    return NextResponse.json({
+      success: true,
+      lesson: {
+        id: lesson.id,
+        slug: lesson.slug,
+        titleAr: lesson.title_ar,
+        titleEn: lesson.title_en,
+        descriptionAr: lesson.description_ar,
+        subject: lesson.subject,
+        topic: lesson.topic,
+        difficulty: lesson.difficulty,
+        estimatedDurationMinutes: lesson.estimated_duration_minutes,
+        content: toPlayerContent(content),
+      },
+      progress: {
+        status: progress?.status ?? 'not_started',
+        progressPercent: progress?.progress_percent ?? 0,
+        timeSpentSeconds: progress?.time_spent_seconds ?? 0,
+        state: readPlayerState(progress?.last_position),
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error fetching lesson:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'LESSON_FETCH_ERROR',
+          message: 'Failed to fetch lesson',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Study Sessions API - Streak and daily goal progress
+ *
+ * GET /api/study-sessions
+ * Returns the study streak, today's study minutes against the daily goal and
+ * the session in progress (sessions idle past the timeout are closed first)
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { getStudySummary } from '@/lib/learning/study-sessions';
+
+export async function GET() {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const summary = await getStudySummary(user.id);
+    const session = summary.currentSession;
+
+    return NextResponse.json({
+      success: true,
+      streakDays: summary.streakDays,
+      today: {
+        minutes: summary.todayMinutes,
+        goalMinutes: summary.dailyGoalMinutes,
+        goalProgress: summary.goalProgress,
+        goalReached: summary.goalReached,
+        sessions: summary.sessionsToday,
+      },
+      currentSession: session && {
+        id: session.id,
+        startedAt: session.started_at,
+        lastActivityAt: session.last_activity_at,
+        activeSeconds: session.active_seconds,
+        lessons: session.lesson_ids?.length ?? 0,
+        knowledgeComponents: session.kc_ids?.length ?? 0,
+        exercises: session.total_exercises,
+        correctExercises: session.correct_exercises,
+        flashcardsReviewed: session.flashcards_reviewed,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error fetching study sessions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'STUDY_SESSIONS_ERROR',
+          message: 'Failed to fetch study sessions',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
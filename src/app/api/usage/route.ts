@@ -0,0 +1,54 @@
+/**
+ * Usage API - Remaining budget for the signed-in student
+ *
+ * GET /api/usage
+ * Returns plan, budget status and daily/monthly usage, limits and remaining quota
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerUser } from '@/lib/supabase/auth';
+import { loadStudentProfile } from '@/lib/agents/base/profile';
+import { getBudgetSummary } from '@/lib/usage/budget';
+
+export async function GET() {
+  try {
+    const user = await getServerUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const profile = await loadStudentProfile(user.id);
+    const summary = await getBudgetSummary(user.id, profile.plan);
+
+    return NextResponse.json({
+      success: true,
+      plan: summary.plan,
+      status: summary.status,
+      daily: summary.daily,
+      monthly: summary.monthly,
+    });
+  } catch (error) {
+    console.error('[API] Error fetching usage:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'USAGE_FETCH_ERROR',
+          message: 'Failed to fetch usage',
+          details: (error as Error).message,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
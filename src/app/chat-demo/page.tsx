@@ -1,7 +1,7 @@
 /**
  * Chat Demo Page
  *
- * Test the chat interface with all agents
+ * Test the chat interface with all agents (requires a signed-in student)
  */
 
 import { ChatContainer } from '@/components/chat';
@@ -10,7 +10,7 @@ export default function ChatDemoPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-neutral-950 via-neutral-900 to-neutral-950 p-4">
       <div className="container mx-auto max-w-4xl h-[calc(100vh-2rem)]">
-        <ChatContainer userId="demo-user" dialect="MSA" />
+        <ChatContainer />
       </div>
     </div>
   );
@@ -0,0 +1,17 @@
+/**
+ * Dashboard Page
+ *
+ * Student progress overview (requires a signed-in student)
+ */
+
+import { StudentDashboard } from '@/components/dashboard';
+
+export default function DashboardPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-neutral-950 via-neutral-900 to-neutral-950 p-4">
+      <div className="container mx-auto max-w-6xl py-8">
+        <StudentDashboard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Lesson Page
+ *
+ * Lesson player for a published lesson (requires a signed-in student)
+ */
+
+import { LessonPlayer } from '@/components/lessons';
+
+export default async function LessonPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-neutral-950 via-neutral-900 to-neutral-950 p-4">
+      <div className="container mx-auto max-w-3xl py-8">
+        <LessonPlayer slug={slug} />
+      </div>
+    </div>
+  );
+}
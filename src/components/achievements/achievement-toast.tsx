@@ -0,0 +1,36 @@
+/**
+ * Achievement Toasts
+ *
+ * Announces newly unlocked achievements (returned by the chat, agent and
+ * lesson progress APIs) through the app's Toaster
+ */
+
+'use client';
+
+import { toast } from 'sonner';
+import { Trophy } from 'lucide-react';
+import type { UnlockedAchievement } from '@/lib/achievements/evaluator';
+
+/**
+ * Show one toast per unlocked achievement
+ */
+export function showAchievementToasts(achievements: UnlockedAchievement[] | undefined) {
+  for (const achievement of achievements ?? []) {
+    toast.success(`🏆 إنجاز جديد: ${achievement.nameAr}`, {
+      id: `achievement-${achievement.code}`,
+      description: [
+        achievement.descriptionAr,
+        achievement.points > 0 ? `+${achievement.points} نقطة` : null,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      icon: (
+        <Trophy
+          className="h-5 w-5"
+          style={achievement.color ? { color: achievement.color } : undefined}
+        />
+      ),
+      duration: 6000,
+    });
+  }
+}
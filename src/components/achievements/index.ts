@@ -0,0 +1,5 @@
+/**
+ * Achievement Components
+ */
+
+export { showAchievementToasts } from './achievement-toast';
@@ -1,41 +1,94 @@
 /**
  * Chat Container Component
  *
- * Main chat interface with message history and input
+ * Main chat interface with message history and input.
+ * Responses are streamed over SSE and rendered token by token.
+ * Conversations are stored server-side; only the session ID and new message are sent.
+ * The student is identified by the Supabase session cookie.
  */
 
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { MessageBubble } from './message-bubble';
+import { toast } from 'sonner';
+import { MessageBubble, type MessageFeedback } from './message-bubble';
 import { MessageInput } from './message-input';
 import { Loading } from '@/components/ui/loading';
+import { showAchievementToasts } from '@/components/achievements';
 import { cn } from '@/lib/utils/cn';
-import type { ChatMessage } from '@/lib/agents/base/types';
+import { consumeAgentEventStream } from '@/lib/streaming/consume';
+import type { AgentStreamEvent, ChatMessage } from '@/lib/agents/base/types';
+import type { UnlockedAchievement } from '@/lib/achievements/evaluator';
 
 interface ChatContainerProps {
-  userId: string;
   sessionId?: string;
-  dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
   className?: string;
 }
 
-export function ChatContainer({
-  userId,
-  sessionId,
-  dialect = 'MSA',
-  className,
-}: ChatContainerProps) {
+export function ChatContainer({ sessionId, className }: ChatContainerProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activeAgent, setActiveAgent] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | undefined>(sessionId);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Resume a stored conversation
+  useEffect(() => {
+    setConversationId(sessionId);
+    if (!sessionId) {
+      setMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadConversation = async () => {
+      try {
+        const response = await fetch(`/api/conversations/${sessionId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to load conversation');
+        }
+
+        if (!cancelled) {
+          setMessages(
+            (data.messages as ChatMessage[]).map((msg) => ({
+              ...msg,
+              timestamp: new Date(msg.timestamp),
+            }))
+          );
+        }
+      } catch (err) {
+        console.error('Conversation load error:', err);
+        if (!cancelled) setError((err as Error).message);
+      }
+    };
+
+    loadConversation();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  /**
+   * Update the agent message currently being streamed (always the last one)
+   */
+  const updateStreamingMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== 'agent') return prev;
+      return [...prev.slice(0, -1), update(last)];
+    });
+  };
+
   const handleSend = async (message: string) => {
     // Add user message to history
     const userMessage: ChatMessage = {
@@ -44,23 +97,115 @@ export function ChatContainer({
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // Empty agent message that fills in as tokens arrive
+    const agentMessage: ChatMessage = {
+      role: 'agent',
+      content: '',
+      timestamp: new Date(),
+      metadata: { visualizations: [], questions: [] },
+    };
+
+    setMessages((prev) => [...prev, userMessage, agentMessage]);
     setLoading(true);
     setError(null);
+    setActiveAgent(null);
+
+    // Streamed text per agent (sequential/parallel strategies stream several agents)
+    const sections = new Map<string, string>();
+
+    const handleEvent = (event: AgentStreamEvent) => {
+      switch (event.type) {
+        case 'agent_start':
+          setActiveAgent(event.arabicName);
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            agentId: msg.agentId ?? event.agentId,
+            metadata: { ...msg.metadata, agentName: msg.metadata?.agentName ?? event.arabicName },
+          }));
+          break;
+
+        case 'token':
+          sections.set(event.agentId, (sections.get(event.agentId) ?? '') + event.token);
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            content: Array.from(sections.values()).join('\n\n'),
+          }));
+          break;
+
+        case 'visualization':
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            metadata: {
+              ...msg.metadata,
+              visualizations: [...((msg.metadata?.visualizations as unknown[]) || []), event.visualization],
+            },
+          }));
+          break;
+
+        case 'question':
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            metadata: {
+              ...msg.metadata,
+              questions: [...((msg.metadata?.questions as unknown[]) || []), event.question],
+            },
+          }));
+          break;
+
+        case 'done': {
+          // Final payload replaces the streamed draft
+          const data = event.data as {
+            message: {
+              content: string;
+              timestamp: string;
+              agentId: string;
+              agentName: string;
+              agentSessionIds: string[];
+            };
+            visualizations: unknown[];
+            questions: unknown[];
+            usage: unknown;
+            orchestration?: unknown;
+            sessionId: string;
+            achievements?: UnlockedAchievement[];
+          };
+          setConversationId(data.sessionId);
+          showAchievementToasts(data.achievements);
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            content: data.message.content,
+            timestamp: new Date(data.message.timestamp),
+            agentId: data.message.agentId,
+            metadata: {
+              ...msg.metadata,
+              agentName: msg.metadata?.agentName ?? data.message.agentName,
+              visualizations: data.visualizations,
+              questions: data.questions,
+              usage: data.usage,
+              orchestration: data.orchestration,
+              agentSessionIds: data.message.agentSessionIds,
+            },
+          }));
+          break;
+        }
+
+        case 'error':
+          throw new Error(event.error.message);
+      }
+    };
 
     try {
-      // Call API
+      // Call API (SSE)
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
           message,
-          userId,
-          sessionId,
-          dialect,
-          conversationHistory: messages,
+          sessionId: conversationId,
+          stream: true,
         }),
       });
 
@@ -69,40 +214,68 @@ export function ChatContainer({
         throw new Error(errorData.error?.message || 'Failed to send message');
       }
 
-      const data = await response.json();
-
-      // Add agent response to history
-      const agentMessage: ChatMessage = {
-        role: 'agent',
-        content: data.message.content,
-        timestamp: new Date(data.message.timestamp),
-        agentId: data.message.agentId,
-        metadata: {
-          agentName: data.message.agentName,
-          visualizations: data.visualizations,
-          questions: data.questions,
-          usage: data.usage,
-        },
-      };
-
-      setMessages((prev) => [...prev, agentMessage]);
+      await consumeAgentEventStream(response, handleEvent);
     } catch (err) {
       console.error('Chat error:', err);
       setError((err as Error).message);
 
-      // Add error message
+      // Replace the empty draft (if nothing arrived) with an error message
       const errorMessage: ChatMessage = {
         role: 'system',
         content: `حدث خطأ: ${(err as Error).message}`,
         timestamp: new Date(),
       };
 
-      setMessages((prev) => [...prev, errorMessage]);
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        const base = last?.role === 'agent' && !last.content ? prev.slice(0, -1) : prev;
+        return [...base, errorMessage];
+      });
     } finally {
       setLoading(false);
+      setActiveAgent(null);
     }
   };
 
+  /**
+   * Rate an agent answer (optimistic; reverts if the request fails)
+   */
+  const handleFeedback = async (index: number, feedback: MessageFeedback) => {
+    const target = messages[index];
+    const sessionIds = target?.metadata?.agentSessionIds as string[] | undefined;
+    if (!target || !sessionIds?.length) return;
+
+    const previous = target.metadata?.feedback as MessageFeedback | undefined;
+    const setFeedback = (value: MessageFeedback | undefined) =>
+      setMessages((prev) =>
+        prev.map((msg, i) =>
+          i === index ? { ...msg, metadata: { ...msg.metadata, feedback: value } } : msg
+        )
+      );
+
+    setFeedback({ ...previous, ...feedback });
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionIds, ...feedback }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to send feedback');
+      }
+    } catch (err) {
+      console.error('Feedback error:', err);
+      setFeedback(previous);
+      toast.error('تعذّر حفظ تقييمك، حاول مرة أخرى');
+    }
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const awaitingFirstToken = loading && (!lastMessage || !lastMessage.content);
+
   return (
     <div
       className={cn(
@@ -119,7 +292,7 @@ export function ChatContainer({
           <h2 className="text-lg font-semibold">البيروني</h2>
         </div>
         <div className="text-sm text-muted-foreground">
-          {loading ? 'يكتب...' : 'متصل'}
+          {loading ? `${activeAgent ?? ''} يكتب...`.trim() : 'متصل'}
         </div>
       </div>
 
@@ -138,17 +311,25 @@ export function ChatContainer({
             </div>
           )}
 
-          {/* Message history */}
-          {messages.map((msg, index) => (
-            <MessageBubble
-              key={index}
-              message={msg}
-              agentName={msg.metadata?.agentName as string}
-            />
-          ))}
+          {/* Message history (skip the empty draft while waiting for the first token) */}
+          {messages.map((msg, index) =>
+            msg.role === 'agent' && !msg.content ? null : (
+              <MessageBubble
+                key={index}
+                message={msg}
+                agentName={msg.metadata?.agentName as string}
+                feedback={msg.metadata?.feedback as MessageFeedback | undefined}
+                onFeedback={
+                  msg.metadata?.agentSessionIds
+                    ? (feedback) => handleFeedback(index, feedback)
+                    : undefined
+                }
+              />
+            )
+          )}
 
           {/* Loading indicator */}
-          {loading && (
+          {awaitingFirstToken && (
             <div className="flex items-center gap-2 text-muted-foreground">
               <Loading size="sm" />
               <span className="text-sm">جارٍ التفكير...</span>
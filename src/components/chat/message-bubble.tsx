@@ -6,17 +6,34 @@
 
 'use client';
 
+import { ThumbsUp, ThumbsDown, Star } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 import { Badge } from '@/components/ui/badge';
 import type { ChatMessage } from '@/lib/agents/base/types';
 
+/**
+ * Student feedback on an agent answer
+ */
+export interface MessageFeedback {
+  rating?: number; // 1-5 stars
+  helpful?: boolean;
+}
+
 interface MessageBubbleProps {
   message: ChatMessage;
   agentName?: string;
+  feedback?: MessageFeedback;
+  onFeedback?: (feedback: MessageFeedback) => void;
   className?: string;
 }
 
-export function MessageBubble({ message, agentName, className }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  agentName,
+  feedback,
+  onFeedback,
+  className,
+}: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const isAgent = message.role === 'agent';
   const isSystem = message.role === 'system';
@@ -66,6 +83,61 @@ export function MessageBubble({ message, agentName, className }: MessageBubblePr
           {formatTime(message.timestamp)}
         </div>
       </div>
+
+      {/* Feedback controls (agent answers only) */}
+      {isAgent && onFeedback && (
+        <div className="flex items-center gap-3 text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              aria-label="مفيد"
+              aria-pressed={feedback?.helpful === true}
+              onClick={() => onFeedback({ helpful: true })}
+              className={cn(
+                'rounded-md p-1 transition-colors hover:text-foreground',
+                feedback?.helpful === true && 'text-primary'
+              )}
+            >
+              <ThumbsUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              aria-label="غير مفيد"
+              aria-pressed={feedback?.helpful === false}
+              onClick={() => onFeedback({ helpful: false })}
+              className={cn(
+                'rounded-md p-1 transition-colors hover:text-foreground',
+                feedback?.helpful === false && 'text-destructive'
+              )}
+            >
+              <ThumbsDown className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center" role="radiogroup" aria-label="تقييم الإجابة">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={feedback?.rating === value}
+                aria-label={`${value} من 5`}
+                onClick={() => onFeedback({ rating: value })}
+                className="p-0.5 transition-colors hover:text-yellow-500"
+              >
+                <Star
+                  className={cn(
+                    'h-4 w-4',
+                    feedback?.rating !== undefined &&
+                      value <= feedback.rating &&
+                      'fill-yellow-400 text-yellow-500'
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+/**
+ * Agent History Component
+ *
+ * The student's interactions with each agent: how often, how recently,
+ * their average rating, and the latest questions asked
+ */
+
+'use client';
+
+import { Star, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AgentHistory as AgentHistoryEntry } from '@/lib/learning/dashboard';
+
+interface AgentHistoryProps {
+  agents: AgentHistoryEntry[];
+  className?: string;
+}
+
+export function AgentHistory({ agents, className }: AgentHistoryProps) {
+  return (
+    <Card variant="glass" className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">تفاعلاتك مع المساعدين</CardTitle>
+      </CardHeader>
+
+      <CardContent className="flex flex-col gap-4">
+        {agents.length === 0 && (
+          <p className="text-sm text-muted-foreground">لم تتحدث مع أي مساعد بعد</p>
+        )}
+
+        {agents.map((agent) => (
+          <div key={agent.agentId} className="flex flex-col gap-2 border-b border-border/50 pb-3 last:border-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">{agent.arabicName}</span>
+              <Badge variant="secondary">{agent.interactions} تفاعل</Badge>
+              {agent.averageRating !== null && (
+                <Badge variant="outline" className="gap-1">
+                  <Star className="h-3 w-3" />
+                  {agent.averageRating.toFixed(1)}
+                </Badge>
+              )}
+              <span className="ms-auto text-xs text-muted-foreground">
+                آخر تفاعل: {formatDate(agent.lastInteractionAt)}
+              </span>
+            </div>
+
+            <ul className="flex flex-col gap-1">
+              {agent.recent.map((interaction) => (
+                <li key={interaction.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {interaction.wasHelpful === true && <ThumbsUp className="h-3 w-3 shrink-0 text-success" />}
+                  {interaction.wasHelpful === false && <ThumbsDown className="h-3 w-3 shrink-0 text-warning" />}
+                  <span className="truncate">{interaction.input}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatDate(value: string): string {
+  return value ? new Date(value).toLocaleDateString('ar', { day: 'numeric', month: 'short' }) : '';
+}
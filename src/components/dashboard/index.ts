@@ -0,0 +1,7 @@
+/**
+ * Dashboard Components
+ */
+
+export { StudentDashboard } from './student-dashboard';
+export { StreakCalendar } from './streak-calendar';
+export { AgentHistory } from './agent-history';
@@ -0,0 +1,75 @@
+/**
+ * Streak Calendar Component
+ *
+ * Study minutes for each of the last weeks, one cell per day, shaded by how
+ * much of the daily goal was reached
+ */
+
+'use client';
+
+import { Flame } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { StudyDay } from '@/lib/learning/dashboard';
+
+interface StreakCalendarProps {
+  days: StudyDay[];
+  streakDays: number;
+  dailyGoalMinutes: number;
+  className?: string;
+}
+
+const WEEKDAYS = ['أحد', 'إثنين', 'ثلاثاء', 'أربعاء', 'خميس', 'جمعة', 'سبت'];
+
+export function StreakCalendar({ days, streakDays, dailyGoalMinutes, className }: StreakCalendarProps) {
+  // Pad the first week so every column is a weekday
+  const firstWeekday = days[0] ? new Date(`${days[0].date}T00:00:00Z`).getUTCDay() : 0;
+  const cells: Array<StudyDay | null> = [...Array(firstWeekday).fill(null), ...days];
+
+  return (
+    <Card variant="glass" className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">سجل المذاكرة</CardTitle>
+          <span className="flex items-center gap-1 text-sm font-semibold text-warning">
+            <Flame className="h-4 w-4" />
+            {streakDays} يوم متتالي
+          </span>
+        </div>
+        <CardDescription>الهدف اليومي: {dailyGoalMinutes} دقيقة</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1.5">
+          {WEEKDAYS.map((weekday) => (
+            <span key={weekday} className="text-center text-xs text-muted-foreground">
+              {weekday}
+            </span>
+          ))}
+
+          {cells.map((day, index) =>
+            day ? (
+              <div
+                key={day.date}
+                title={`${day.date}: ${day.minutes} دقيقة`}
+                className={cn(
+                  'aspect-square rounded-md border border-border/50',
+                  cellShade(day, dailyGoalMinutes)
+                )}
+              />
+            ) : (
+              <div key={`pad-${index}`} />
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function cellShade(day: StudyDay, dailyGoalMinutes: number): string {
+  if (day.goalReached) return 'bg-primary';
+  if (day.minutes >= dailyGoalMinutes / 2) return 'bg-primary/50';
+  if (day.minutes > 0) return 'bg-primary/25';
+  return 'bg-muted/40';
+}
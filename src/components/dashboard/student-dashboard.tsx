@@ -0,0 +1,266 @@
+/**
+ * Student Dashboard Component
+ *
+ * Progress overview for the signed-in student: overall and per-subject
+ * mastery, study streak, flashcards due, achievements and agent history
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Brain, Clock, Flame, Layers, Trophy } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { StreakCalendar } from './streak-calendar';
+import { AgentHistory } from './agent-history';
+import type { DashboardSummary } from '@/lib/learning/dashboard';
+
+interface StudentDashboardProps {
+  className?: string;
+}
+
+export function StudentDashboard({ className }: StudentDashboardProps) {
+  const [dashboard, setDashboard] = useState<DashboardSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDashboard = async () => {
+      try {
+        const response = await fetch('/api/dashboard');
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to load dashboard');
+        }
+
+        if (!cancelled) setDashboard(data);
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      }
+    };
+
+    loadDashboard();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className={cn('glass rounded-lg p-6 text-center', className)} dir="rtl">
+        <p className="text-destructive">تعذّر تحميل لوحة التقدم</p>
+        <p className="mt-2 text-sm text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className={cn('flex flex-col gap-6', className)} dir="rtl">
+        <Skeleton className="h-10 w-1/3" />
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {Array.from({ length: 4 }, (_, index) => (
+            <Skeleton key={index} className="h-24" />
+          ))}
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <Skeleton className="h-64" />
+          <Skeleton className="h-64" />
+        </div>
+        <Skeleton className="h-48" />
+      </div>
+    );
+  }
+
+  const { study, review, achievements } = dashboard;
+
+  return (
+    <div className={cn('flex flex-col gap-6', className)} dir="rtl">
+      <h1 className="text-3xl font-heading font-bold">لوحة التقدم</h1>
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <StatCard
+          icon={<Brain className="h-5 w-5 text-primary" />}
+          label="الإتقان العام"
+          value={`${Math.round(dashboard.overallMastery * 100)}%`}
+        />
+        <StatCard
+          icon={<Flame className="h-5 w-5 text-warning" />}
+          label="أيام متتالية"
+          value={String(study.streakDays)}
+        />
+        <StatCard
+          icon={<Clock className="h-5 w-5 text-info" />}
+          label="مذاكرة اليوم"
+          value={`${study.todayMinutes} / ${study.dailyGoalMinutes} د`}
+          progress={study.goalProgress}
+        />
+        <StatCard
+          icon={<Layers className="h-5 w-5 text-success" />}
+          label="بطاقات للمراجعة"
+          value={String(review.flashcardsDue.length)}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Per-subject mastery */}
+        <Card variant="glass">
+          <CardHeader>
+            <CardTitle className="text-lg">الإتقان حسب المادة</CardTitle>
+            <CardDescription>المفاهيم المتقنة من مجموع مفاهيم كل مادة</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {dashboard.subjects.length === 0 && (
+              <p className="text-sm text-muted-foreground">لا توجد مفاهيم بعد</p>
+            )}
+            {dashboard.subjects.map((subject) => (
+              <div key={subject.subject} className="flex flex-col gap-1.5">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-semibold">{subject.subject}</span>
+                  <span className="text-muted-foreground">
+                    {subject.masteredKcs} / {subject.totalKcs} مفهوم
+                  </span>
+                </div>
+                <ProgressBar value={subject.totalKcs > 0 ? subject.masteredKcs / subject.totalKcs : 0} />
+                {subject.practicedKcs > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    متوسط الإتقان لما تدربت عليه: {Math.round(subject.averageMastery * 100)}%
+                  </span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <StreakCalendar
+          days={study.calendar}
+          streakDays={study.streakDays}
+          dailyGoalMinutes={study.dailyGoalMinutes}
+        />
+
+        {/* Flashcards due */}
+        <Card variant="glass">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg">بطاقات مستحقة للمراجعة</CardTitle>
+              {review.kcsNeedingReview > 0 && (
+                <Badge variant="warning">{review.kcsNeedingReview} مفهوم يحتاج مراجعة</Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            {review.flashcardsDue.length === 0 && (
+              <p className="text-sm text-muted-foreground">لا توجد بطاقات مستحقة الآن 🎉</p>
+            )}
+            {review.flashcardsDue.map((card) => (
+              <div
+                key={card.id}
+                className="flex items-center justify-between gap-2 rounded-md border border-border/50 px-3 py-2"
+              >
+                <span className="truncate text-sm">{card.front}</span>
+                {card.kcName && <Badge variant="outline">{card.kcName}</Badge>}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Achievements */}
+        <Card variant="glass">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg">الإنجازات</CardTitle>
+              <Badge variant="info">
+                {achievements.unlocked} / {achievements.total} · {achievements.points} نقطة
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {achievements.recent.length === 0 ? (
+              <p className="text-sm text-muted-foreground">لم تحصل على إنجازات بعد</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {achievements.recent.map((achievement) => (
+                  <Badge
+                    key={achievement.id}
+                    variant="success"
+                    className="gap-1"
+                    title={achievement.descriptionAr ?? undefined}
+                  >
+                    <Trophy className="h-3 w-3" />
+                    {achievement.nameAr}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {achievements.next.length > 0 && (
+              <div className="flex flex-col gap-3">
+                <span className="text-sm text-muted-foreground">الإنجازات القادمة</span>
+                {achievements.next.map((achievement) => (
+                  <div key={achievement.id} className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span>{achievement.nameAr}</span>
+                      <span className="text-muted-foreground">
+                        {Math.round(achievement.progress * 100)}%
+                      </span>
+                    </div>
+                    <ProgressBar value={achievement.progress} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AgentHistory agents={dashboard.agents} />
+    </div>
+  );
+}
+
+function StatCard({
+  icon,
+  label,
+  value,
+  progress,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  progress?: number;
+}) {
+  return (
+    <Card variant="elevated">
+      <CardContent className="flex flex-col gap-2 pt-6">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {icon}
+          {label}
+        </div>
+        <span className="text-2xl font-bold">{value}</span>
+        {progress !== undefined && <ProgressBar value={progress} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ProgressBar({ value }: { value: number }) {
+  const percent = Math.round(Math.min(1, Math.max(0, value)) * 100);
+
+  return (
+    <div
+      className="h-2 w-full overflow-hidden rounded-full bg-muted"
+      role="progressbar"
+      aria-valuenow={percent}
+      aria-valuemin={0}
+      aria-valuemax={100}
+    >
+      <div className="h-full bg-primary transition-all duration-500" style={{ width: `${percent}%` }} />
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Lesson Components
+ */
+
+export { LessonBlock } from './lesson-block';
+export { LessonPlayer } from './lesson-player';
@@ -0,0 +1,266 @@
+/**
+ * Lesson Block Component
+ *
+ * Renders one lesson content block (text, equation, visualization,
+ * exercise, agent prompt)
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, XCircle, Lightbulb, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { PlayerExerciseBlock, PlayerLessonBlock } from '@/lib/lessons/content';
+import type { ExerciseResult } from '@/lib/lessons/progress';
+
+/**
+ * Feedback for the latest answer to an exercise
+ */
+export interface ExerciseFeedback {
+  correct: boolean;
+  explanation?: string;
+}
+
+interface LessonBlockProps {
+  block: PlayerLessonBlock;
+  result?: ExerciseResult;
+  feedback?: ExerciseFeedback;
+  onAnswer?: (exerciseId: string, answer: string | number) => Promise<void>;
+  onAskAgent?: (agentId: string, prompt: string) => Promise<string>;
+  className?: string;
+}
+
+export function LessonBlock({
+  block,
+  result,
+  feedback,
+  onAnswer,
+  onAskAgent,
+  className,
+}: LessonBlockProps) {
+  switch (block.type) {
+    case 'text':
+      return (
+        <div className={cn('whitespace-pre-wrap leading-relaxed text-start', className)}>
+          {block.text}
+        </div>
+      );
+
+    case 'equation':
+      return (
+        <figure className={cn('glass rounded-lg px-4 py-3 text-center', className)}>
+          <div dir="ltr" className="overflow-x-auto font-mono text-lg">
+            {block.latex}
+          </div>
+          {block.caption && (
+            <figcaption className="mt-2 text-sm text-muted-foreground">{block.caption}</figcaption>
+          )}
+        </figure>
+      );
+
+    case 'visualization':
+      return (
+        <Card variant="glass" className={className}>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Badge variant="info">{block.spec.type}</Badge>
+              <CardTitle className="text-lg">{block.spec.title}</CardTitle>
+            </div>
+            {block.spec.description && (
+              <p className="text-sm text-muted-foreground">{block.spec.description}</p>
+            )}
+          </CardHeader>
+          {(block.spec.code || block.caption) && (
+            <CardContent>
+              {block.spec.code && (
+                <pre dir="ltr" className="overflow-x-auto rounded-md bg-muted p-3 text-sm">
+                  <code>{block.spec.code}</code>
+                </pre>
+              )}
+              {block.caption && (
+                <p className="mt-2 text-sm text-muted-foreground">{block.caption}</p>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      );
+
+    case 'exercise':
+      return (
+        <ExerciseView
+          exercise={block}
+          result={result}
+          feedback={feedback}
+          onAnswer={onAnswer}
+          className={className}
+        />
+      );
+
+    case 'agent_prompt':
+      return (
+        <AgentPromptView
+          agentId={block.agent}
+          prompt={block.prompt}
+          label={block.label}
+          onAskAgent={onAskAgent}
+          className={className}
+        />
+      );
+  }
+}
+
+function ExerciseView({
+  exercise,
+  result,
+  feedback,
+  onAnswer,
+  className,
+}: {
+  exercise: PlayerExerciseBlock;
+  result?: ExerciseResult;
+  feedback?: ExerciseFeedback;
+  onAnswer?: (exerciseId: string, answer: string | number) => Promise<void>;
+  className?: string;
+}) {
+  const [answer, setAnswer] = useState<string>(result ? String(result.answer) : '');
+  const [hintsShown, setHintsShown] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+
+  const correct = feedback?.correct ?? result?.correct;
+
+  const submit = async () => {
+    if (!onAnswer || answer.trim() === '') return;
+
+    setSubmitting(true);
+    try {
+      await onAnswer(exercise.id, exercise.kind === 'multiple_choice' ? Number(answer) : answer.trim());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card variant="outline" className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">تمرين</CardTitle>
+          {correct !== undefined && (
+            <Badge variant={correct ? 'success' : 'warning'}>
+              {correct ? 'إجابة صحيحة' : 'حاول مرة أخرى'}
+            </Badge>
+          )}
+        </div>
+        <p className="whitespace-pre-wrap">{exercise.prompt}</p>
+      </CardHeader>
+
+      <CardContent className="flex flex-col gap-3">
+        {exercise.kind === 'multiple_choice' && exercise.choices ? (
+          <div className="flex flex-col gap-2" role="radiogroup">
+            {exercise.choices.map((choice, index) => (
+              <label
+                key={index}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 rounded-md border border-border px-3 py-2',
+                  answer === String(index) && 'border-primary bg-primary/5'
+                )}
+              >
+                <input
+                  type="radio"
+                  name={exercise.id}
+                  value={index}
+                  checked={answer === String(index)}
+                  onChange={() => setAnswer(String(index))}
+                />
+                <span>{choice}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <Input
+            value={answer}
+            onChange={(event) => setAnswer(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && submit()}
+            inputMode={exercise.kind === 'numeric' ? 'decimal' : 'text'}
+            placeholder={exercise.kind === 'numeric' ? 'أدخل الناتج' : 'اكتب إجابتك'}
+          />
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button onClick={submit} disabled={submitting || answer.trim() === ''}>
+            {submitting ? 'جارٍ التحقق...' : 'تحقق'}
+          </Button>
+          {exercise.hints && hintsShown < exercise.hints.length && (
+            <Button variant="ghost" onClick={() => setHintsShown((count) => count + 1)}>
+              <Lightbulb className="h-4 w-4" />
+              تلميح
+            </Button>
+          )}
+        </div>
+
+        {exercise.hints?.slice(0, hintsShown).map((hint, index) => (
+          <p key={index} className="text-sm text-muted-foreground">
+            💡 {hint}
+          </p>
+        ))}
+
+        {feedback && (
+          <div className="flex items-start gap-2 text-sm">
+            {feedback.correct ? (
+              <CheckCircle2 className="h-5 w-5 shrink-0 text-success" />
+            ) : (
+              <XCircle className="h-5 w-5 shrink-0 text-warning" />
+            )}
+            {feedback.explanation && <p className="whitespace-pre-wrap">{feedback.explanation}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AgentPromptView({
+  agentId,
+  prompt,
+  label,
+  onAskAgent,
+  className,
+}: {
+  agentId: string;
+  prompt: string;
+  label?: string;
+  onAskAgent?: (agentId: string, prompt: string) => Promise<string>;
+  className?: string;
+}) {
+  const [reply, setReply] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const ask = async () => {
+    if (!onAskAgent) return;
+
+    setLoading(true);
+    try {
+      setReply(await onAskAgent(agentId, prompt));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card variant="glass" className={className}>
+      <CardContent className="flex flex-col gap-3 pt-6">
+        {reply === null ? (
+          <Button variant="glass" onClick={ask} disabled={loading || !onAskAgent}>
+            <Sparkles className="h-4 w-4" />
+            {loading ? 'جارٍ التفكير...' : label || 'اسأل المساعد'}
+          </Button>
+        ) : (
+          <div className="whitespace-pre-wrap leading-relaxed">{reply}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
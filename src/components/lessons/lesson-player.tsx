@@ -0,0 +1,303 @@
+/**
+ * Lesson Player Component
+ *
+ * Shows a lesson one section at a time and saves progress: position when the
+ * student moves between sections, time on task (only while the tab is
+ * visible), and exercise answers, which are graded on the server.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { showAchievementToasts } from '@/components/achievements';
+import { LessonBlock, type ExerciseFeedback } from './lesson-block';
+import type { PlayerLessonContent, LessonPosition } from '@/lib/lessons/content';
+import type { LessonPlayerState } from '@/lib/lessons/progress';
+
+interface PlayerLesson {
+  id: string;
+  slug: string;
+  titleAr: string;
+  descriptionAr: string | null;
+  subject: string;
+  topic: string;
+  estimatedDurationMinutes: number;
+  content: PlayerLessonContent;
+}
+
+interface PlayerProgress {
+  status: 'not_started' | 'in_progress' | 'completed' | 'mastered';
+  progressPercent: number;
+  timeSpentSeconds: number;
+  state: LessonPlayerState;
+}
+
+interface LessonPlayerProps {
+  slug: string;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<PlayerProgress['status'], string> = {
+  not_started: 'لم يبدأ',
+  in_progress: 'قيد التعلم',
+  completed: 'مكتمل',
+  mastered: 'متقن',
+};
+
+// Time on task is flushed at least this often
+const TIME_FLUSH_INTERVAL_MS = 30_000;
+
+export function LessonPlayer({ slug, className }: LessonPlayerProps) {
+  const [lesson, setLesson] = useState<PlayerLesson | null>(null);
+  const [progress, setProgress] = useState<PlayerProgress | null>(null);
+  const [section, setSection] = useState(0);
+  const [feedback, setFeedback] = useState<Record<string, ExerciseFeedback>>({});
+  const [error, setError] = useState<string | null>(null);
+  const pendingSeconds = useRef(0);
+
+  // Load the lesson and resume at the saved section
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLesson = async () => {
+      try {
+        const response = await fetch(`/api/lessons/${slug}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to load lesson');
+        }
+
+        if (!cancelled) {
+          const sections = (data.lesson as PlayerLesson).content.sections.length;
+          setLesson(data.lesson);
+          setProgress(data.progress);
+          setSection(Math.min(data.progress.state.section, sections - 1));
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      }
+    };
+
+    loadLesson();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  const saveProgress = useCallback(
+    async (update: { position?: LessonPosition; exercise?: { id: string; answer: string | number } }) => {
+      const timeSpentSeconds = pendingSeconds.current;
+      pendingSeconds.current = 0;
+
+      const response = await fetch(`/api/lessons/${slug}/progress`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...update, timeSpentSeconds }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        pendingSeconds.current += timeSpentSeconds;
+        throw new Error(data.error?.message || 'Failed to save progress');
+      }
+
+      setProgress((previous) => {
+        if (previous && previous.status !== data.progress.status) {
+          if (data.progress.status === 'completed') toast.success('أحسنت! أكملت الدرس 🎉');
+          if (data.progress.status === 'mastered') toast.success('رائع! أتقنت مفاهيم هذا الدرس 🏆');
+        }
+        return data.progress;
+      });
+      showAchievementToasts(data.achievements);
+
+      return data;
+    },
+    [slug]
+  );
+
+  // Count time only while the lesson is visible; flush periodically and when hidden
+  useEffect(() => {
+    if (!lesson) return;
+
+    const tick = setInterval(() => {
+      if (document.visibilityState === 'visible') pendingSeconds.current += 1;
+    }, 1000);
+
+    const flush = setInterval(() => {
+      if (pendingSeconds.current > 0) saveProgress({}).catch(() => undefined);
+    }, TIME_FLUSH_INTERVAL_MS);
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden' || pendingSeconds.current === 0) return;
+
+      navigator.sendBeacon(
+        `/api/lessons/${slug}/progress`,
+        new Blob([JSON.stringify({ timeSpentSeconds: pendingSeconds.current })], {
+          type: 'application/json',
+        })
+      );
+      pendingSeconds.current = 0;
+    };
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      clearInterval(tick);
+      clearInterval(flush);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [lesson, slug, saveProgress]);
+
+  const goToSection = async (next: number, lastBlock = false) => {
+    if (!lesson) return;
+
+    const blocks = lesson.content.sections[next]?.blocks.length ?? 1;
+    setSection(next);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+
+    try {
+      await saveProgress({ position: { section: next, block: lastBlock ? blocks - 1 : 0 } });
+    } catch {
+      toast.error('تعذّر حفظ تقدمك، سنحاول مجدداً');
+    }
+  };
+
+  const answerExercise = async (exerciseId: string, answer: string | number) => {
+    try {
+      const data = await saveProgress({ exercise: { id: exerciseId, answer } });
+      setFeedback((previous) => ({ ...previous, [exerciseId]: data.exercise }));
+    } catch {
+      toast.error('تعذّر التحقق من إجابتك، حاول مرة أخرى');
+    }
+  };
+
+  const askAgent = async (agentId: string, prompt: string) => {
+    const response = await fetch(`/api/agents/${agentId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input: prompt }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      toast.error('المساعد غير متاح الآن، حاول لاحقاً');
+      throw new Error(data.error?.message || 'Agent request failed');
+    }
+
+    showAchievementToasts(data.achievements);
+
+    return data.response.content as string;
+  };
+
+  if (error) {
+    return (
+      <div className={cn('glass rounded-lg p-6 text-center', className)} dir="rtl">
+        <p className="text-destructive">تعذّر تحميل الدرس</p>
+        <p className="mt-2 text-sm text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  if (!lesson || !progress) {
+    return (
+      <div className={cn('flex flex-col gap-4', className)} dir="rtl">
+        <Skeleton className="h-10 w-2/3" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  const sections = lesson.content.sections;
+  const current = sections[section];
+  const isLast = section === sections.length - 1;
+
+  return (
+    <article className={cn('flex flex-col gap-6', className)} dir="rtl">
+      {/* Header */}
+      <header className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{lesson.subject}</Badge>
+          <Badge variant="outline">{lesson.topic}</Badge>
+          <Badge variant={progress.status === 'mastered' ? 'success' : 'info'}>
+            {STATUS_LABELS[progress.status]}
+          </Badge>
+          <span className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            {lesson.estimatedDurationMinutes} دقيقة
+          </span>
+        </div>
+        <h1 className="text-3xl font-heading font-bold">{lesson.titleAr}</h1>
+        {lesson.descriptionAr && <p className="text-muted-foreground">{lesson.descriptionAr}</p>}
+
+        {/* Progress bar */}
+        <div
+          className="h-2 w-full overflow-hidden rounded-full bg-muted"
+          role="progressbar"
+          aria-valuenow={progress.progressPercent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div
+            className="h-full bg-primary transition-all duration-500"
+            style={{ width: `${progress.progressPercent}%` }}
+          />
+        </div>
+      </header>
+
+      {/* Current section */}
+      {current && (
+        <section className="flex flex-col gap-4">
+          <h2 className="text-xl font-heading font-semibold">
+            {section + 1}. {current.title_ar}
+          </h2>
+
+          {current.blocks.map((block, index) => (
+            <LessonBlock
+              key={`${section}-${index}`}
+              block={block}
+              result={block.type === 'exercise' ? progress.state.exercises[block.id] : undefined}
+              feedback={block.type === 'exercise' ? feedback[block.id] : undefined}
+              onAnswer={answerExercise}
+              onAskAgent={askAgent}
+            />
+          ))}
+        </section>
+      )}
+
+      {/* Navigation */}
+      <nav className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          onClick={() => goToSection(section - 1)}
+          disabled={section === 0}
+        >
+          <ChevronRight className="h-4 w-4" />
+          السابق
+        </Button>
+
+        <span className="text-sm text-muted-foreground">
+          {section + 1} / {sections.length}
+        </span>
+
+        {isLast ? (
+          <Button onClick={() => goToSection(section, true)}>إنهاء الدرس</Button>
+        ) : (
+          <Button onClick={() => goToSection(section + 1)}>
+            التالي
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+        )}
+      </nav>
+    </article>
+  );
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AchievementCriteriaError,
+  criteriaMetrics,
+  isAffectedBy,
+  parseAchievementCriteria,
+} from '../criteria';
+
+describe('achievement criteria', () => {
+  it('normalizes agent names to agent types', () => {
+    expect(
+      parseAchievementCriteria({ type: 'agent_interactions', count: 5, agent: 'problem-decomposer' })
+    ).toEqual({ type: 'agent_interactions', count: 5, agent: 'problem_decomposer' });
+  });
+
+  it('reports every invalid rule of a combination', () => {
+    const criteria = {
+      type: 'all',
+      rules: [
+        { type: 'streak', days: 0 },
+        { type: 'agent_interactions', count: 1, agent: 'tutor' },
+      ],
+    };
+
+    const parse = () => parseAchievementCriteria(criteria);
+
+    expect(parse).toThrow(AchievementCriteriaError);
+    expect(parse).toThrow(expect.objectContaining({ issues: [expect.any(String), expect.any(String)] }));
+  });
+
+  it('is affected only by events that change its metrics', () => {
+    const criteria = parseAchievementCriteria({
+      type: 'any',
+      rules: [
+        { type: 'streak', days: 7 },
+        { type: 'mastered_kcs', count: 10, subject: 'Math' },
+      ],
+    });
+
+    expect(criteriaMetrics(criteria)).toEqual(['streak', 'mastered_kcs']);
+    expect(isAffectedBy(criteria, ['mastery'])).toBe(true);
+    expect(isAffectedBy(criteria, ['lesson_progress', 'flashcard_review'])).toBe(false);
+  });
+});
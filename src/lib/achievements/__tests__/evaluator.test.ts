@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import { evaluateAchievements, getAchievementStatuses } from '../evaluator';
+
+vi.mock('@/lib/supabase/database', () => ({
+  getAchievements: vi.fn(),
+  getStudentAchievements: vi.fn(),
+  unlockAchievement: vi.fn(),
+  getStudentMasteryRows: vi.fn(),
+  getCompletedLessonIds: vi.fn(),
+  getAllLessons: vi.fn(),
+  countFlashcardReviews: vi.fn(),
+  countAgentSessions: vi.fn(),
+  getStudyStreak: vi.fn(),
+}));
+
+vi.mock('@/lib/learning/kc-graph', () => ({
+  getKnowledgeGraph: vi.fn(),
+}));
+
+const USER_ID = 'student-1';
+
+type Achievement = Awaited<ReturnType<typeof db.getAchievements>>[number];
+type StudentAchievement = Awaited<ReturnType<typeof db.getStudentAchievements>>[number];
+type UnlockRow = NonNullable<Awaited<ReturnType<typeof db.unlockAchievement>>>;
+
+function achievement(id: string, criteria: unknown): Achievement {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name_ar: id,
+    name_en: id,
+    description_ar: null,
+    description_en: null,
+    icon_url: null,
+    color: null,
+    points: 10,
+    criteria,
+  } as Achievement;
+}
+
+describe('evaluateAchievements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getStudentAchievements).mockResolvedValue([]);
+    vi.mocked(db.getStudyStreak).mockResolvedValue(7);
+    vi.mocked(db.countFlashcardReviews).mockResolvedValue(3);
+    vi.mocked(db.unlockAchievement).mockImplementation(
+      async () => ({ unlocked_at: '2026-01-01T00:00:00Z' }) as UnlockRow
+    );
+  });
+
+  it('unlocks the achievements that are met, loading each metric once', async () => {
+    vi.mocked(db.getAchievements).mockResolvedValue([
+      achievement('week', { type: 'streak', days: 7 }),
+      achievement('month', { type: 'streak', days: 30 }),
+      achievement('both', {
+        type: 'all',
+        rules: [
+          { type: 'streak', days: 3 },
+          { type: 'flashcards_reviewed', count: 3 },
+        ],
+      }),
+    ]);
+
+    const unlocked = await evaluateAchievements(USER_ID);
+
+    expect(unlocked.map((a) => a.id)).toEqual(['week', 'both']);
+    expect(db.getStudyStreak).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips achievements already unlocked, unaffected or with invalid criteria', async () => {
+    vi.mocked(db.getAchievements).mockResolvedValue([
+      achievement('week', { type: 'streak', days: 7 }),
+      achievement('cards', { type: 'flashcards_reviewed', count: 1 }),
+      achievement('broken', { type: 'streak' }),
+    ]);
+    vi.mocked(db.getStudentAchievements).mockResolvedValue([
+      { achievement_id: 'week', unlocked_at: '2025-12-01T00:00:00Z' } as StudentAchievement,
+    ]);
+
+    const unlocked = await evaluateAchievements(USER_ID, ['study_activity']);
+
+    expect(unlocked).toEqual([]);
+    expect(db.unlockAchievement).not.toHaveBeenCalled();
+  });
+
+  it('returns nothing when the unlock already exists', async () => {
+    vi.mocked(db.getAchievements).mockResolvedValue([
+      achievement('week', { type: 'streak', days: 7 }),
+    ]);
+    vi.mocked(db.unlockAchievement).mockResolvedValue(null);
+
+    await expect(evaluateAchievements(USER_ID)).resolves.toEqual([]);
+  });
+
+  it('never fails the request that triggered it', async () => {
+    vi.mocked(db.getAchievements).mockRejectedValue(new Error('connection reset'));
+
+    await expect(evaluateAchievements(USER_ID)).resolves.toEqual([]);
+  });
+});
+
+describe('getAchievementStatuses', () => {
+  it('reports progress towards locked achievements', async () => {
+    vi.mocked(db.getAchievements).mockResolvedValue([
+      achievement('cards', { type: 'flashcards_reviewed', count: 12 }),
+    ]);
+    vi.mocked(db.getStudentAchievements).mockResolvedValue([]);
+    vi.mocked(db.countFlashcardReviews).mockResolvedValue(3);
+
+    const [status] = await getAchievementStatuses(USER_ID);
+
+    expect(status).toMatchObject({ id: 'cards', unlocked: false, progress: 0.25 });
+  });
+});
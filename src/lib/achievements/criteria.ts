@@ -0,0 +1,149 @@
+/**
+ * Achievement Criteria
+ *
+ * Typed, Zod-validated language for achievements.criteria. A criterion is a
+ * threshold on one student metric, or a combination of criteria:
+ *
+ *   { "type": "streak", "days": 7 }
+ *   { "type": "mastered_kcs", "count": 10, "subject": "Math" }
+ *   { "type": "lessons_completed", "count": 1 }
+ *   { "type": "flashcards_reviewed", "count": 100 }
+ *   { "type": "agent_interactions", "count": 20, "agent": "socratic" }
+ *   { "type": "all", "rules": [ ... ] }   (every rule met)
+ *   { "type": "any", "rules": [ ... ] }   (at least one rule met)
+ *
+ * Agents are named by registry id ("problem-decomposer") or agent_type
+ * ("problem_decomposer"); without one, every agent interaction counts.
+ */
+
+import { z } from 'zod';
+import { toAgentType, type AgentType } from '@/lib/agents/base/utils';
+
+/**
+ * Student metrics a criterion can test
+ */
+export type AchievementMetric =
+  | 'streak'
+  | 'mastered_kcs'
+  | 'lessons_completed'
+  | 'flashcards_reviewed'
+  | 'agent_interactions';
+
+/**
+ * Events after which achievements are evaluated
+ */
+export type AchievementEvent =
+  | 'study_activity'
+  | 'mastery'
+  | 'lesson_progress'
+  | 'flashcard_review'
+  | 'agent_interaction';
+
+/**
+ * Events that can change each metric (only affected achievements are evaluated)
+ */
+export const METRIC_EVENTS: Record<AchievementMetric, AchievementEvent[]> = {
+  streak: ['study_activity'],
+  mastered_kcs: ['mastery'],
+  lessons_completed: ['lesson_progress'],
+  flashcards_reviewed: ['flashcard_review'],
+  agent_interactions: ['agent_interaction'],
+};
+
+const countSchema = z.number().int().positive();
+
+const agentSchema = z
+  .string()
+  .transform((agent, ctx): AgentType => {
+    const agentType = toAgentType(agent);
+    if (!agentType) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown agent: ${agent}` });
+      return z.NEVER;
+    }
+    return agentType;
+  });
+
+export type AchievementCriteria =
+  | { type: 'streak'; days: number }
+  | { type: 'mastered_kcs'; count: number; subject?: string }
+  | { type: 'lessons_completed'; count: number; subject?: string }
+  | { type: 'flashcards_reviewed'; count: number }
+  | { type: 'agent_interactions'; count: number; agent?: AgentType }
+  | { type: 'all'; rules: AchievementCriteria[] }
+  | { type: 'any'; rules: AchievementCriteria[] };
+
+export const achievementCriteriaSchema: z.ZodType<AchievementCriteria, z.ZodTypeDef, unknown> =
+  z.lazy(() =>
+    z.discriminatedUnion('type', [
+      z.object({ type: z.literal('streak'), days: countSchema }),
+      z.object({
+        type: z.literal('mastered_kcs'),
+        count: countSchema,
+        subject: z.string().min(1).optional(),
+      }),
+      z.object({
+        type: z.literal('lessons_completed'),
+        count: countSchema,
+        subject: z.string().min(1).optional(),
+      }),
+      z.object({ type: z.literal('flashcards_reviewed'), count: countSchema }),
+      z.object({
+        type: z.literal('agent_interactions'),
+        count: countSchema,
+        agent: agentSchema.optional(),
+      }),
+      z.object({ type: z.literal('all'), rules: z.array(achievementCriteriaSchema).min(1) }),
+      z.object({ type: z.literal('any'), rules: z.array(achievementCriteriaSchema).min(1) }),
+    ])
+  );
+
+/**
+ * Invalid achievements.criteria value
+ */
+export class AchievementCriteriaError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'AchievementCriteriaError';
+  }
+}
+
+/**
+ * Validate an achievements.criteria value
+ */
+export function parseAchievementCriteria(value: unknown): AchievementCriteria {
+  const result = achievementCriteriaSchema.safeParse(value);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(criteria)'}: ${issue.message}`
+    );
+    throw new AchievementCriteriaError('Invalid achievement criteria', issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Metrics a criterion depends on
+ */
+export function criteriaMetrics(criteria: AchievementCriteria): AchievementMetric[] {
+  switch (criteria.type) {
+    case 'all':
+    case 'any':
+      return Array.from(new Set(criteria.rules.flatMap(criteriaMetrics)));
+    default:
+      return [criteria.type];
+  }
+}
+
+/**
+ * Whether any of the events can change the criterion's outcome
+ */
+export function isAffectedBy(criteria: AchievementCriteria, events: AchievementEvent[]): boolean {
+  return criteriaMetrics(criteria).some((metric) =>
+    METRIC_EVENTS[metric].some((event) => events.includes(event))
+  );
+}
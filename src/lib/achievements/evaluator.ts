@@ -0,0 +1,261 @@
+/**
+ * Achievement Evaluation
+ *
+ * Evaluates achievements.criteria against a student's metrics after the
+ * events that can change them, and unlocks the achievements that are met.
+ * Unlocking is idempotent: student_achievements is unique per student and
+ * achievement, an unlock that already exists is ignored, and only the
+ * achievements unlocked by this evaluation are returned (for the toast).
+ */
+
+import { MASTERY_THRESHOLD } from '@/lib/learning/bkt';
+import { getKnowledgeGraph } from '@/lib/learning/kc-graph';
+import {
+  getAchievements,
+  getStudentAchievements,
+  unlockAchievement,
+  getStudentMasteryRows,
+  getCompletedLessonIds,
+  getAllLessons,
+  countFlashcardReviews,
+  countAgentSessions,
+  getStudyStreak,
+} from '@/lib/supabase/database';
+import {
+  parseAchievementCriteria,
+  isAffectedBy,
+  AchievementCriteriaError,
+  type AchievementCriteria,
+  type AchievementEvent,
+} from './criteria';
+import type { AgentType } from '@/lib/agents/base/utils';
+import type { Database } from '@/types/supabase';
+
+type Achievement = Database['public']['Tables']['achievements']['Row'];
+
+/**
+ * Achievement as shown to the student
+ */
+export interface AchievementSummary {
+  id: string;
+  code: string;
+  nameAr: string;
+  nameEn: string;
+  descriptionAr: string | null;
+  descriptionEn: string | null;
+  iconUrl: string | null;
+  color: string | null;
+  points: number;
+}
+
+/**
+ * Achievement unlocked by an evaluation
+ */
+export interface UnlockedAchievement extends AchievementSummary {
+  unlockedAt: string;
+}
+
+/**
+ * Achievement with the student's progress towards it
+ */
+export interface AchievementStatus extends AchievementSummary {
+  unlocked: boolean;
+  unlockedAt: string | null;
+  progress: number; // 0-1
+}
+
+/**
+ * Events that an agent turn can cause
+ */
+export const AGENT_TURN_EVENTS: AchievementEvent[] = [
+  'agent_interaction',
+  'study_activity',
+  'mastery',
+  'flashcard_review',
+];
+
+interface CriteriaProgress {
+  met: boolean;
+  progress: number; // 0-1
+}
+
+/**
+ * Evaluate the achievements affected by the events (all when omitted) and
+ * unlock those that are met. Evaluation never fails the request that
+ * triggered it: errors are logged and nothing is returned.
+ */
+export async function evaluateAchievements(
+  userId: string,
+  events?: AchievementEvent[]
+): Promise<UnlockedAchievement[]> {
+  try {
+    const [achievements, unlocked] = await Promise.all([
+      getAchievements(),
+      getStudentAchievements(userId),
+    ]);
+
+    const unlockedIds = new Set(unlocked.map((row) => row.achievement_id));
+    const metrics = createMetricLoader(userId);
+    const newlyUnlocked: UnlockedAchievement[] = [];
+
+    for (const achievement of achievements) {
+      if (unlockedIds.has(achievement.id)) continue;
+
+      const criteria = readCriteria(achievement);
+      if (!criteria || (events && !isAffectedBy(criteria, events))) continue;
+
+      const { met } = await measure(criteria, metrics);
+      if (!met) continue;
+
+      const row = await unlockAchievement(userId, achievement.id);
+      if (row) {
+        newlyUnlocked.push({ ...toSummary(achievement), unlockedAt: row.unlocked_at });
+      }
+    }
+
+    return newlyUnlocked;
+  } catch (error) {
+    console.error('Failed to evaluate achievements:', error);
+    return [];
+  }
+}
+
+/**
+ * Every achievement with whether the student has unlocked it and their
+ * progress towards the ones still locked
+ */
+export async function getAchievementStatuses(userId: string): Promise<AchievementStatus[]> {
+  const [achievements, unlocked] = await Promise.all([
+    getAchievements(),
+    getStudentAchievements(userId),
+  ]);
+
+  const unlockedAt = new Map(unlocked.map((row) => [row.achievement_id, row.unlocked_at]));
+  const metrics = createMetricLoader(userId);
+  const statuses: AchievementStatus[] = [];
+
+  for (const achievement of achievements) {
+    const at = unlockedAt.get(achievement.id) ?? null;
+    const criteria = at ? null : readCriteria(achievement);
+    const progress = at ? 1 : criteria ? (await measure(criteria, metrics)).progress : 0;
+
+    statuses.push({ ...toSummary(achievement), unlocked: at !== null, unlockedAt: at, progress });
+  }
+
+  return statuses;
+}
+
+/**
+ * Whether the criteria are met, and how close the student is
+ */
+async function measure(
+  criteria: AchievementCriteria,
+  metrics: MetricLoader
+): Promise<CriteriaProgress> {
+  switch (criteria.type) {
+    case 'all':
+    case 'any': {
+      const results = await Promise.all(criteria.rules.map((rule) => measure(rule, metrics)));
+      const progress = results.map((result) => result.progress);
+
+      return criteria.type === 'all'
+        ? {
+            met: results.every((result) => result.met),
+            progress: progress.reduce((sum, value) => sum + value, 0) / progress.length,
+          }
+        : { met: results.some((result) => result.met), progress: Math.max(...progress) };
+    }
+
+    case 'streak':
+      return threshold(await metrics.streak(), criteria.days);
+
+    case 'mastered_kcs':
+      return threshold(await metrics.masteredKcs(criteria.subject), criteria.count);
+
+    case 'lessons_completed':
+      return threshold(await metrics.lessonsCompleted(criteria.subject), criteria.count);
+
+    case 'flashcards_reviewed':
+      return threshold(await metrics.flashcardsReviewed(), criteria.count);
+
+    case 'agent_interactions':
+      return threshold(await metrics.agentInteractions(criteria.agent), criteria.count);
+  }
+}
+
+function threshold(current: number, target: number): CriteriaProgress {
+  return { met: current >= target, progress: Math.min(1, current / target) };
+}
+
+type MetricLoader = ReturnType<typeof createMetricLoader>;
+
+/**
+ * Student metrics, each loaded at most once per evaluation
+ */
+function createMetricLoader(userId: string) {
+  const cache = new Map<string, Promise<number>>();
+  const once = (key: string, load: () => Promise<number>) => {
+    let value = cache.get(key);
+    if (!value) {
+      value = load();
+      cache.set(key, value);
+    }
+    return value;
+  };
+
+  return {
+    streak: () => once('streak', () => getStudyStreak(userId)),
+
+    masteredKcs: (subject?: string) =>
+      once(`mastered_kcs:${subject ?? ''}`, async () => {
+        const rows = await getStudentMasteryRows(userId);
+        const mastered = rows.filter((row) => row.is_mastered || row.p_know >= MASTERY_THRESHOLD);
+        if (!subject) return mastered.length;
+
+        const graph = await getKnowledgeGraph();
+        return mastered.filter((row) => graph.get(row.kc_id)?.subject === subject).length;
+      }),
+
+    lessonsCompleted: (subject?: string) =>
+      once(`lessons_completed:${subject ?? ''}`, async () => {
+        const lessonIds = await getCompletedLessonIds(userId);
+        if (!subject) return lessonIds.length;
+
+        const inSubject = new Set((await getAllLessons(subject)).map((lesson) => lesson.id));
+        return lessonIds.filter((id) => inSubject.has(id)).length;
+      }),
+
+    flashcardsReviewed: () => once('flashcards_reviewed', () => countFlashcardReviews(userId)),
+
+    agentInteractions: (agent?: AgentType) =>
+      once(`agent_interactions:${agent ?? ''}`, () => countAgentSessions(userId, agent)),
+  };
+}
+
+/**
+ * Parsed criteria, or null (logged) when an achievement's criteria are invalid
+ */
+function readCriteria(achievement: Achievement): AchievementCriteria | null {
+  try {
+    return parseAchievementCriteria(achievement.criteria);
+  } catch (error) {
+    if (!(error instanceof AchievementCriteriaError)) throw error;
+
+    console.error(`Invalid criteria for achievement ${achievement.code}:`, error.issues);
+    return null;
+  }
+}
+
+function toSummary(achievement: Achievement): AchievementSummary {
+  return {
+    id: achievement.id,
+    code: achievement.code,
+    nameAr: achievement.name_ar,
+    nameEn: achievement.name_en,
+    descriptionAr: achievement.description_ar,
+    descriptionEn: achievement.description_en,
+    iconUrl: achievement.icon_url,
+    color: achievement.color,
+    points: achievement.points,
+  };
+}
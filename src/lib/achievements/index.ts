@@ -0,0 +1,9 @@
+/**
+ * Achievements
+ *
+ * Criteria language for achievements.criteria and the evaluator that
+ * unlocks achievements after student activity
+ */
+
+export * from './criteria';
+export * from './evaluator';
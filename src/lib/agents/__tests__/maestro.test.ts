@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScriptedLLMProvider, setLLMProvider } from '@/lib/llm';
+import { getAgent } from '@/lib/agents/registry';
+import { contextManager } from '@/lib/agents/base/context';
+import { InMemoryAgentMemoryStore } from '@/lib/agents/base/memory-store';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const PIPELINE = { budgetStatus: 'ok', rateLimitChecked: true } as const;
+
+describe('Maestro', () => {
+  let llm: ScriptedLLMProvider;
+
+  beforeEach(() => {
+    llm = new ScriptedLLMProvider({ fallback: { text: 'الكسر جزء من كل، مثل نصف التفاحة.' } });
+    setLLMProvider(llm);
+    contextManager.setMemoryStore(new InMemoryAgentMemoryStore());
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('hands the turn to the agent chosen by the routing call', async () => {
+    llm.enqueue({
+      functionCalls: [{ name: 'handoff_to_agent', args: { agent_id: 'narrator', reason: 'شرح مفهوم' } }],
+    });
+
+    const input = 'اشرح لي الكسور';
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    const result = await getAgent('maestro')!.executeWithPipeline(input, context, PIPELINE);
+
+    expect(result.agentId).toBe('narrator');
+    expect(result.content).toContain('الكسر');
+    expect(llm.calls[0]).toMatchObject({ method: 'generateWithFunctionCalling' });
+    expect(llm.calls[0]!.toolNames).toContain('handoff_to_agent');
+    expect(llm.calls.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('counts the routing call in the turn usage', async () => {
+    llm.enqueue({
+      functionCalls: [{ name: 'handoff_to_agent', args: { agent_id: 'narrator', reason: 'شرح مفهوم' } }],
+      tokensInput: 100,
+      tokensOutput: 10,
+    });
+
+    const input = 'اشرح لي الكسور';
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    const result = await getAgent('maestro')!.executeWithPipeline(input, context, PIPELINE);
+
+    expect(result.tokensUsed.input).toBeGreaterThanOrEqual(100);
+    expect(result.tokensUsed.output).toBeGreaterThanOrEqual(10);
+  });
+});
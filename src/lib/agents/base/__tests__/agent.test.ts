@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScriptedLLMProvider, setLLMProvider } from '@/lib/llm';
+import { getAgent } from '@/lib/agents/registry';
+import { contextManager } from '../context';
+import { InMemoryAgentMemoryStore } from '../memory-store';
+import * as db from '@/lib/supabase/database';
+
+vi.mock('@/lib/supabase/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase/database')>()),
+  logAgentSession: vi.fn(),
+}));
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const PIPELINE = { budgetStatus: 'ok', rateLimitChecked: true } as const;
+
+type AgentSession = Awaited<ReturnType<typeof db.logAgentSession>>;
+
+describe('Agent session logging', () => {
+  let llm: ScriptedLLMProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    llm = new ScriptedLLMProvider({ fallback: { text: 'الكسر جزء من كل.' } });
+    setLLMProvider(llm);
+    contextManager.setMemoryStore(new InMemoryAgentMemoryStore());
+
+    let rows = 0;
+    vi.mocked(db.logAgentSession).mockImplementation(
+      async () => ({ id: `session-${++rows}` }) as AgentSession
+    );
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  function run(agentId: string, options = {}) {
+    const input = 'اشرح الكسور';
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    return getAgent(agentId)!.executeWithPipeline(input, context, { ...PIPELINE, ...options });
+  }
+
+  it('logs the turn and each agent it ran', async () => {
+    llm.enqueue({
+      functionCalls: [
+        { name: 'handoff_to_agent', args: { agent_id: 'narrator', reason: 'شرح مفهوم' } },
+      ],
+    });
+
+    const result = await run('maestro');
+
+    const rows = vi.mocked(db.logAgentSession).mock.calls.map(([, session]) => session);
+    expect(rows.map((row) => row.agent_type)).toEqual(['narrator', 'maestro']);
+    expect(rows[0]!.context).toMatchObject({ parentAgentId: 'maestro' });
+    expect(rows[1]!.context).toMatchObject({ parentAgentId: null });
+    expect(result.metadata?.agentSessionIds).toEqual(['session-1', 'session-2']);
+  });
+
+  it('logs a failed call with its error', async () => {
+    llm.enqueue({ error: 'model unavailable' });
+
+    await expect(run('narrator', { stream: true })).rejects.toThrow(); // Streamed: no retries
+
+    expect(db.logAgentSession).toHaveBeenCalledWith(
+      USER_ID,
+      expect.objectContaining({
+        agent_type: 'narrator',
+        output: null,
+        error_message: expect.any(String),
+      })
+    );
+  });
+
+  it('answers when the session cannot be logged', async () => {
+    vi.mocked(db.logAgentSession).mockRejectedValue(new Error('connection reset'));
+
+    const result = await run('narrator');
+
+    expect(result.content).toContain('الكسر');
+    expect(result.metadata?.agentSessionIds).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScriptedLLMProvider } from '@/lib/llm';
+import { ContextManager } from '../context';
+import { InMemoryAgentMemoryStore } from '../memory-store';
+import type { ChatMessage } from '../types';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const CONVERSATION_ID = '00000000-0000-0000-0000-0000000000c1';
+const SENT_AT = new Date('2026-01-01T00:00:00Z'); // Same timestamp for every turn
+
+function history(count: number, stored: boolean): ChatMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'agent',
+    content: `رسالة ${i} ${'x'.repeat(2_000)}`,
+    timestamp: SENT_AT,
+    ...(stored && { metadata: { messageId: `m${i}` } }),
+  }));
+}
+
+describe('ContextManager.compactHistory', () => {
+  let llm: ScriptedLLMProvider;
+  let manager: ContextManager;
+
+  beforeEach(() => {
+    llm = new ScriptedLLMProvider({ fallback: { text: 'المواضيع: الكسور' } });
+    manager = new ContextManager(new InMemoryAgentMemoryStore());
+  });
+
+  function buildContext(conversationHistory: ChatMessage[], sessionId?: string) {
+    return manager.buildContext({ userId: USER_ID, input: 'التالي', conversationHistory, sessionId });
+  }
+
+  it('summarizes only the turns after the last summarized message', async () => {
+    const first = await manager.compactHistory(buildContext(history(10, true), CONVERSATION_ID), llm);
+    expect(first.summarizedMessages).toBe(8);
+
+    const second = await manager.compactHistory(buildContext(history(16, true), CONVERSATION_ID), llm);
+
+    expect(second.summarizedMessages).toBe(6);
+    expect(llm.calls[1]!.prompt).toContain('رسالة 8');
+    expect(llm.calls[1]!.prompt).not.toContain('رسالة 7');
+    expect(second.context.conversationHistory[0]).toMatchObject({ role: 'system' });
+  });
+
+  it('does not store a summary for a history without a stored conversation', async () => {
+    await manager.compactHistory(buildContext(history(10, false)), llm);
+    const next = await manager.compactHistory(buildContext(history(10, false)), llm);
+
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[1]!.prompt).not.toContain('الملخص السابق');
+    expect(next.summarizedMessages).toBe(8);
+  });
+
+  it('keeps only the recent turns when summarization fails', async () => {
+    llm.enqueue({ error: 'model unavailable' });
+
+    const compaction = await manager.compactHistory(buildContext(history(10, true), CONVERSATION_ID), llm);
+
+    expect(compaction.summarizedMessages).toBe(0);
+    expect(manager.isContextTooLarge(compaction.context)).toBe(false);
+    expect(compaction.context.conversationHistory.at(-1)!.content).toBe('التالي');
+  });
+});
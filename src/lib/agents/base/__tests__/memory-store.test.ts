@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import {
+  InMemoryAgentMemoryStore,
+  MAX_MEMORIES_PER_KEY,
+  SupabaseAgentMemoryStore,
+} from '../memory-store';
+import type { AgentMemory } from '../types';
+
+vi.mock('@/lib/supabase/database', () => ({
+  storeAgentMemory: vi.fn(),
+  getAgentMemories: vi.fn(),
+  deleteAgentMemories: vi.fn(),
+}));
+
+const USER_ID = 'student-1';
+
+function memory(key: string, value: unknown, fields: Partial<AgentMemory> = {}): AgentMemory {
+  return { userId: USER_ID, agentId: 'socratic', key, value, timestamp: new Date(), ...fields };
+}
+
+describe('InMemoryAgentMemoryStore', () => {
+  let store: InMemoryAgentMemoryStore;
+
+  beforeEach(() => {
+    store = new InMemoryAgentMemoryStore();
+  });
+
+  it('keeps the newest entries per key, oldest first', async () => {
+    for (let i = 0; i < MAX_MEMORIES_PER_KEY + 2; i++) {
+      await store.store(memory('turn', i));
+    }
+    await store.store(memory('topic', 'الكسور'));
+
+    const turns = await store.get(USER_ID, 'socratic', 'turn');
+
+    expect(turns).toHaveLength(MAX_MEMORIES_PER_KEY);
+    expect(turns[0]!.value).toBe(2);
+    expect(await store.get(USER_ID, 'socratic', 'topic')).toHaveLength(1);
+  });
+
+  it('does not return expired entries', async () => {
+    await store.store(memory('turn', 'old', { expiresAt: new Date(Date.now() - 1_000) }));
+    await store.store(memory('turn', 'new', { expiresAt: new Date(Date.now() + 60_000) }));
+
+    expect((await store.get(USER_ID, 'socratic')).map((m) => m.value)).toEqual(['new']);
+  });
+
+  it('keeps agents and students apart', async () => {
+    await store.store(memory('turn', 1));
+    await store.store(memory('turn', 2, { agentId: 'narrator' }));
+    await store.clear(USER_ID, 'socratic');
+
+    expect(await store.get(USER_ID, 'socratic')).toEqual([]);
+    expect(await store.get(USER_ID, 'narrator')).toHaveLength(1);
+    expect(await store.get('student-2', 'narrator')).toEqual([]);
+  });
+});
+
+describe('SupabaseAgentMemoryStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores entries with the per-key cap', async () => {
+    const timestamp = new Date('2026-01-01T00:00:00Z');
+
+    await new SupabaseAgentMemoryStore().store(memory('turn', { topic: 'الكسور' }, { timestamp }));
+
+    expect(db.storeAgentMemory).toHaveBeenCalledWith({
+      userId: USER_ID,
+      agentId: 'socratic',
+      key: 'turn',
+      value: { topic: 'الكسور' },
+      createdAt: timestamp,
+      expiresAt: undefined,
+      maxEntries: MAX_MEMORIES_PER_KEY,
+    });
+  });
+
+  it('reads rows back as agent memories', async () => {
+    vi.mocked(db.getAgentMemories).mockResolvedValue([
+      {
+        id: 'memory-1',
+        user_id: USER_ID,
+        agent_id: 'socratic',
+        key: 'turn',
+        value: { topic: 'الكسور' },
+        created_at: '2026-01-01T00:00:00Z',
+        expires_at: '2026-02-01T00:00:00Z',
+      },
+    ]);
+
+    const [stored] = await new SupabaseAgentMemoryStore().get(USER_ID, 'socratic', 'turn');
+
+    expect(db.getAgentMemories).toHaveBeenCalledWith(USER_ID, 'socratic', 'turn');
+    expect(stored).toEqual({
+      userId: USER_ID,
+      agentId: 'socratic',
+      key: 'turn',
+      value: { topic: 'الكسور' },
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+      expiresAt: new Date('2026-02-01T00:00:00Z'),
+    });
+  });
+});
@@ -5,51 +5,96 @@
  * Implements core functionality: execution, self-reflection, memory, and metrics.
  */
 
-import { GeminiClient } from '@/lib/gemini/client';
-import { ContextCacheManager } from '@/lib/gemini/context-cache';
+import { GEMINI_MODELS, type GeminiFunctionCall } from '@/lib/gemini/client';
+import {
+  executeFunctionCall,
+  formatFunctionResult,
+  type FunctionImplementation,
+} from '@/lib/gemini/function-calling';
+import {
+  getLLMProvider,
+  meterProvider,
+  currentUsageMeter,
+  UsageMeter,
+  type LLMProvider,
+} from '@/lib/llm';
+import {
+  searchKnowledgeBase,
+  formatPassagesForPrompt,
+  DEFAULT_SEARCH_LIMIT,
+} from '@/lib/knowledge/search';
+import type { Content } from '@google/generative-ai';
 import { contextManager } from './context';
 import {
   calculateCost,
   validateResponse,
   sanitizeInput,
   retryWithBackoff,
-  RateLimiter,
   logAgentActivity,
+  toAgentType,
+  toJson,
 } from './utils';
+import { logAgentSession } from '@/lib/supabase/database';
+import { resolveBudgetStatus, downgradeModel } from '@/lib/usage/budget';
+import { enforceRateLimits } from '@/lib/usage/rate-limiter';
+import {
+  recordMasteryObservation,
+  resolveKnowledgeComponentId,
+  type MasteryObservation,
+  type MasteryUpdate,
+} from '@/lib/learning/mastery';
+import { recordStudyActivity } from '@/lib/learning/study-sessions';
+import {
+  checkDialect,
+  protectTechnicalSegments,
+  restoreTechnicalSegments,
+  preservesTechnicalContent,
+  buildDialectRewritePrompt,
+  DIALECT_REWRITE_SYSTEM_PROMPT,
+} from '@/lib/dialect/rewrite';
 
+import { AgentError, AgentErrorCode } from './types';
 import type {
   AgentConfig,
   AgentContext,
   AgentResponse,
   AgentExecutionOptions,
+  AgentStreamEvent,
   ValidationResult,
-  AgentError,
-  AgentErrorCode,
   GeminiModel,
   ChatMessage,
+  ToolCallTrace,
+  ToolLoopStep,
+  ToolLoopResult,
 } from './types';
 
+const DEFAULT_MAX_TOOL_STEPS = 5;
+const DIALECT_REWRITE_MODEL: GeminiModel = 'flash-lite';
+const HISTORY_SUMMARY_MODEL: GeminiModel = 'flash-lite';
+
 /**
  * Abstract base class for all agents
  */
 export abstract class Agent {
   protected config: AgentConfig;
-  protected gemini: GeminiClient;
-  protected cacheManager: ContextCacheManager;
-  protected rateLimiter: RateLimiter | null = null;
+  private provider: LLMProvider | null = null;
 
   constructor(config: AgentConfig) {
     this.config = config;
-    this.gemini = new GeminiClient(config.defaultModel);
-    this.cacheManager = new ContextCacheManager();
-
-    // Setup rate limiter if configured
-    if (config.maxRequestsPerMinute) {
-      this.rateLimiter = new RateLimiter(
-        config.maxRequestsPerMinute,
-        60 * 1000 // 1 minute
-      );
-    }
+  }
+
+  /**
+   * Model backend (the shared provider unless overridden for this agent)
+   */
+  protected get llm(): LLMProvider {
+    return this.provider ?? getLLMProvider();
+  }
+
+  /**
+   * Use a specific provider for this agent (e.g., a ScriptedLLMProvider in tests)
+   */
+  setLLMProvider(provider: LLMProvider | null): void {
+    this.provider = provider && meterProvider(provider);
   }
 
   /**
@@ -69,7 +114,15 @@ export abstract class Agent {
     context: AgentContext,
     options: AgentExecutionOptions = {}
   ): Promise<AgentResponse> {
+    // Meter every model call of the turn, sub-agents included (from the top level)
+    const isTopLevel = !options.metadata?.parentAgentId;
+    if (isTopLevel && !currentUsageMeter()) {
+      const meter = options.usageMeter ?? new UsageMeter();
+      return meter.run(() => this.executeWithPipeline(input, context, { ...options, usageMeter: meter }));
+    }
+
     const startTime = Date.now();
+    let sanitizedInput = input;
 
     try {
       // Log activity
@@ -79,23 +132,70 @@ export abstract class Agent {
       });
 
       // 1. Sanitize input
-      const sanitizedInput = sanitizeInput(input);
+      sanitizedInput = sanitizeInput(input);
 
-      // 2. Check rate limit
-      if (this.rateLimiter) {
-        await this.rateLimiter.acquire();
+      // 2. Check usage budget (once per top-level call; sub-agents inherit the status)
+      const budgetOptions: AgentExecutionOptions = {
+        ...options,
+        budgetStatus:
+          options.budgetStatus ??
+          (await resolveBudgetStatus(context.userId, this.config.id, context.profile?.plan)),
+        rateLimitChecked: false, // Sub-agents count their own calls
+      };
+
+      // 3. Check rate limits (unless the caller already did)
+      if (!options.rateLimitChecked) {
+        await this.checkRateLimit(context.userId, budgetOptions);
       }
 
-      // 3. Execute with retry
+      // Summarize older turns when the history is over budget (once per turn;
+      // sub-agents get the compacted history)
+      const compaction = isTopLevel
+        ? await contextManager.compactHistory(context, this.llm)
+        : { context, summarizedMessages: 0 };
+      const executionContext = compaction.context;
+
+      // Streaming: track events already sent (including by nested agents)
+      const emitted = new Set<AgentStreamEvent['type']>();
+      const executionOptions: AgentExecutionOptions = options.stream
+        ? {
+            ...budgetOptions,
+            onEvent: (event) => {
+              emitted.add(event.type);
+              options.onEvent?.(event);
+            },
+          }
+        : budgetOptions;
+
+      // 4. Execute with retry (a partially streamed answer cannot be retried)
       const response = await retryWithBackoff(
-        () => this.execute(sanitizedInput, context, options),
+        () => this.execute(sanitizedInput, executionContext, executionOptions),
         {
-          maxRetries: 2,
+          maxRetries: options.stream ? 0 : 2,
           initialDelayMs: 1000,
         }
       );
 
-      // 4. Self-reflection (if enabled)
+      // 5. Rewrite into the student's dialect (once per turn, on the combined answer;
+      //    a streamed draft is replaced by the content in the done event)
+      if (options.enforceDialect !== false && isTopLevel) {
+        await this.enforceDialect(response, context);
+      }
+
+      if (compaction.tokensUsed) {
+        this.addUsage(response, HISTORY_SUMMARY_MODEL, compaction.tokensUsed);
+        response.metadata = {
+          ...response.metadata,
+          historySummary: { summarizedMessages: compaction.summarizedMessages },
+        };
+      }
+
+      // Send whatever the agent did not stream itself
+      if (options.stream) {
+        this.emitResponseEvents(response, emitted, executionOptions);
+      }
+
+      // 6. Self-reflection (if enabled)
       if (options.enableSelfReflection !== false) {
         const validation = await this.selfReflect(response);
         if (!validation.isValid) {
@@ -107,7 +207,7 @@ export abstract class Agent {
         response.uncertainties = validation.issues;
       }
 
-      // 5. Update memory (if enabled)
+      // 7. Update memory (if enabled)
       if (options.updateMemory !== false) {
         await this.updateMemory(context, response);
       }
@@ -119,6 +219,23 @@ export abstract class Agent {
         cost: response.cost.usd,
       });
 
+      // 8. Persist the session; the row IDs let the student rate this answer
+      const sessionRowId = await this.logSession(sanitizedInput, context, options, {
+        response,
+        durationMs: Date.now() - startTime,
+      });
+
+      if (sessionRowId) {
+        const previousIds = response.metadata?.agentSessionIds;
+        response.metadata = {
+          ...response.metadata,
+          agentSessionIds: [
+            ...(Array.isArray(previousIds) ? previousIds : []),
+            sessionRowId,
+          ],
+        };
+      }
+
       return response;
     } catch (error) {
       // Log error
@@ -127,10 +244,215 @@ export abstract class Agent {
         durationMs: Date.now() - startTime,
       });
 
+      await this.logSession(sanitizedInput, context, options, {
+        error: error as Error,
+        durationMs: Date.now() - startTime,
+      });
+
       throw error;
     }
   }
 
+  /**
+   * Count this call against the student's limit for this agent and the model quota
+   * Throws a RATE_LIMIT AgentError with retryAfterSeconds when a limit is reached
+   */
+  async checkRateLimit(userId: string, options: AgentExecutionOptions = {}): Promise<void> {
+    await enforceRateLimits({
+      userId,
+      agentId: this.config.id,
+      model: this.selectModel(options),
+      maxRequestsPerMinute: this.config.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Model for this call: the override or default, one tier cheaper near the usage budget
+   */
+  protected selectModel(options?: AgentExecutionOptions): GeminiModel {
+    const model = options?.model || this.config.defaultModel;
+    return options?.budgetStatus === 'near_limit' ? downgradeModel(model) : model;
+  }
+
+  /**
+   * Record the execution in agent_sessions and return the row ID
+   * Logging failures are reported but never fail the turn
+   */
+  private async logSession(
+    input: string,
+    context: AgentContext,
+    options: AgentExecutionOptions,
+    outcome: { response?: AgentResponse; error?: Error; durationMs: number }
+  ): Promise<string | null> {
+    const agentType = toAgentType(this.config.id);
+    if (!agentType) return null;
+
+    const { response, error, durationMs } = outcome;
+    // A top-level row carries the whole turn, failed and retried calls included
+    const turnUsage = options.metadata?.parentAgentId ? undefined : currentUsageMeter()?.usage;
+
+    try {
+      const session = await logAgentSession(context.userId, {
+        agent_type: agentType,
+        input,
+        output: response
+          ? toJson({
+              content: response.content,
+              agentId: response.agentId,
+              visualizations: response.visualizations,
+              questions: response.questions,
+              assessments: response.assessments,
+              handoff: response.handoff,
+              uncertainties: response.uncertainties,
+              metadata: response.metadata,
+            })
+          : null,
+        context: toJson({
+          sessionId: context.sessionId,
+          parentAgentId: options.metadata?.parentAgentId ?? null,
+          currentTopic: context.currentTopic ?? null,
+          activeKnowledgeComponents: context.activeKnowledgeComponents ?? [],
+          historyLength: context.conversationHistory.length,
+          stream: options.stream ?? false,
+        }),
+        model_used: response ? GEMINI_MODELS[response.model].name : null,
+        duration_ms: durationMs,
+        tokens_input: turnUsage?.input ?? response?.tokensUsed.input ?? null,
+        tokens_output: turnUsage?.output ?? response?.tokensUsed.output ?? null,
+        cost_usd: turnUsage?.costUsd ?? response?.cost.usd ?? null,
+        self_reflection_score: response?.confidence ?? null,
+        dialect_used: context.dialect ?? null,
+        error_message: error ? error.message : null,
+      });
+
+      return session.id;
+    } catch (logError) {
+      logAgentActivity(this.config.id, 'session_log_error', {
+        error: (logError as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Rewrite the answer with flash-lite when the classifier finds it is not in
+   * context.dialect. Code, equations and technical terms must survive the
+   * rewrite unchanged; otherwise (or when the call fails) the original is kept.
+   * The outcome is reported in metadata.dialectRewrite.
+   */
+  private async enforceDialect(response: AgentResponse, context: AgentContext): Promise<void> {
+    if (!context.dialect || !response.content) return;
+
+    const check = checkDialect(response.content, context.dialect);
+    if (check.matches || !check.classification) return;
+
+    const report = {
+      target: context.dialect,
+      detected: check.classification.dialect,
+      confidence: check.classification.confidence,
+      rewritten: false,
+    };
+
+    try {
+      const { text, segments } = protectTechnicalSegments(response.content);
+      const result = await this.llm.generateText(buildDialectRewritePrompt(text, context.dialect), {
+        model: DIALECT_REWRITE_MODEL,
+        systemInstruction: DIALECT_REWRITE_SYSTEM_PROMPT,
+        temperature: 0.3,
+      });
+
+      this.addUsage(response, DIALECT_REWRITE_MODEL, {
+        input: result.tokensInput,
+        output: result.tokensOutput,
+      });
+
+      const rewritten = restoreTechnicalSegments(result.text.trim(), segments);
+      if (rewritten && preservesTechnicalContent(response.content, rewritten)) {
+        response.content = rewritten;
+        report.rewritten = true;
+      } else {
+        logAgentActivity(this.config.id, 'dialect_rewrite_rejected', { ...report });
+      }
+    } catch (error) {
+      logAgentActivity(this.config.id, 'dialect_rewrite_error', {
+        error: (error as Error).message,
+      });
+    }
+
+    response.metadata = { ...response.metadata, dialectRewrite: report };
+  }
+
+  /**
+   * Add the usage of an extra model call (routing, rewrite, summary) to a response
+   */
+  protected addUsage(
+    response: AgentResponse,
+    model: GeminiModel,
+    tokensUsed: { input: number; output: number }
+  ): void {
+    response.tokensUsed = {
+      ...response.tokensUsed,
+      input: response.tokensUsed.input + tokensUsed.input,
+      output: response.tokensUsed.output + tokensUsed.output,
+    };
+    response.cost = {
+      usd: response.cost.usd + calculateCost(model, tokensUsed.input, tokensUsed.output),
+    };
+  }
+
+  /**
+   * Emit content, visualizations and questions that were not streamed during execution
+   */
+  private emitResponseEvents(
+    response: AgentResponse,
+    emitted: Set<AgentStreamEvent['type']>,
+    options: AgentExecutionOptions
+  ): void {
+    if (!emitted.has('token') && response.content) {
+      options.onChunk?.(response.content);
+      this.emitEvent(options, {
+        type: 'token',
+        agentId: response.agentId,
+        token: response.content,
+      });
+    }
+
+    if (!emitted.has('visualization')) {
+      for (const visualization of response.visualizations || []) {
+        this.emitEvent(options, { type: 'visualization', agentId: response.agentId, visualization });
+      }
+    }
+
+    if (!emitted.has('question')) {
+      for (const question of response.questions || []) {
+        this.emitEvent(options, { type: 'question', agentId: response.agentId, question });
+      }
+    }
+  }
+
+  /**
+   * Send a stream event (no-op when the caller is not streaming)
+   */
+  protected emitEvent(options: AgentExecutionOptions | undefined, event: AgentStreamEvent): void {
+    if (options?.stream) {
+      options.onEvent?.(event);
+    }
+  }
+
+  /**
+   * Token callback for model calls, or undefined when not streaming
+   */
+  protected createTokenHandler(
+    options: AgentExecutionOptions | undefined
+  ): ((token: string) => void) | undefined {
+    if (!options?.stream) return undefined;
+
+    return (token) => {
+      options.onChunk?.(token);
+      this.emitEvent(options, { type: 'token', agentId: this.config.id, token });
+    };
+  }
+
   /**
    * Self-reflection: validate own output
    */
@@ -179,6 +501,15 @@ export abstract class Agent {
       timestamp: new Date(),
     });
 
+    // Update the student model from graded answers (BKT)
+    const observations = response.metadata?.masteryObservations as
+      | MasteryObservation[]
+      | undefined;
+    if (observations && observations.length > 0) {
+      const masteryUpdates = await this.recordMastery(context, observations);
+      response.metadata = { ...response.metadata, masteryUpdates };
+    }
+
     // Agent-specific memory updates (can be overridden)
     await this.customMemoryUpdate(context, response);
   }
@@ -194,7 +525,288 @@ export abstract class Agent {
   }
 
   /**
-   * Generate content using Gemini
+   * Whether the student is partway through a multi-turn session with this
+   * agent (Maestro routes their next message back to it) - override in subclasses
+   */
+  async hasActiveSession(context: AgentContext): Promise<boolean> {
+    // Default: every turn stands alone
+    return false;
+  }
+
+  /**
+   * Record graded observations and refresh context.masteryLevels
+   * Failures are logged, not thrown - a tracking error should not fail the turn
+   */
+  protected async recordMastery(
+    context: AgentContext,
+    observations: MasteryObservation[]
+  ): Promise<MasteryUpdate[]> {
+    const updates: MasteryUpdate[] = [];
+
+    for (const observation of observations) {
+      try {
+        const kcId = await resolveKnowledgeComponentId(observation.kcId);
+        if (!kcId) {
+          logAgentActivity(this.config.id, 'mastery_skipped', { kcId: observation.kcId });
+          continue;
+        }
+
+        const update = await recordMasteryObservation(context.userId, { ...observation, kcId });
+        context.masteryLevels = { ...context.masteryLevels, [update.kcId]: update.pKnowAfter };
+        updates.push(update);
+
+        logAgentActivity(this.config.id, 'mastery_updated', {
+          kcId: update.kcId,
+          correct: update.correct,
+          pKnow: update.pKnowAfter,
+        });
+      } catch (error) {
+        logAgentActivity(this.config.id, 'mastery_error', {
+          kcId: observation.kcId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (updates.length > 0) {
+      await recordStudyActivity(context.userId, {
+        kcIds: updates.map((update) => update.kcId),
+        exercises: {
+          total: updates.length,
+          correct: updates.filter((update) => update.correct).length,
+        },
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * Extract graded observations from update_student_mastery function calls
+   */
+  protected extractMasteryObservations(
+    functionCalls: GeminiFunctionCall[]
+  ): MasteryObservation[] {
+    return functionCalls
+      .filter((call) => call.name === 'update_student_mastery')
+      .filter((call) => typeof call.args.kc_id === 'string' && typeof call.args.correct === 'boolean')
+      .map((call) => ({
+        kcId: call.args.kc_id,
+        correct: call.args.correct,
+        responseTimeSeconds:
+          typeof call.args.time_taken_seconds === 'number'
+            ? call.args.time_taken_seconds
+            : undefined,
+      }));
+  }
+
+  /**
+   * Prompt instructions for grading the student's previous answer
+   */
+  protected buildGradingInstructions(context: AgentContext): string {
+    const lines = [
+      'تقييم الإجابة:',
+      'إذا كانت رسالة الطالب إجابة على سؤال أو خطوة سابقة، قيّمها باستدعاء update_student_mastery',
+      '(correct = true إذا كانت صحيحة، false إذا كانت خاطئة). لا تستدعها إذا لم يُجب الطالب عن شيء.',
+    ];
+
+    if (context.activeKnowledgeComponents?.length) {
+      lines.push(`المكونات المعرفية النشطة (kc_id): ${context.activeKnowledgeComponents.join('، ')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Function-calling turn: run the requested tools, send their results back to
+   * the model, and repeat until it answers without calls (or maxToolSteps is hit)
+   * A stopOnTools call ends the turn after the step's other calls have run
+   * A failing tool aborts the turn with a TOOL_EXECUTION_FAILED error
+   */
+  protected async runToolLoop(
+    prompt: string,
+    implementations: Record<string, FunctionImplementation>,
+    options: {
+      model: GeminiModel;
+      temperature?: number;
+      maxOutputTokens?: number;
+      onToken?: (token: string) => void;
+      maxSteps?: number;
+      stopOnTools?: string[]; // Calls that end the turn (not executed, e.g. handoff_to_agent)
+    }
+  ): Promise<ToolLoopResult> {
+    const maxSteps = options.maxSteps ?? this.config.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
+    const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    const result: ToolLoopResult = {
+      content: '',
+      functionCalls: [],
+      steps: [],
+      tokensUsed: { input: 0, output: 0 },
+      model: options.model,
+      completed: false,
+    };
+
+    for (let step = 1; step <= maxSteps; step++) {
+      const stepStart = Date.now();
+
+      let response;
+      try {
+        response = await this.llm.generateWithFunctionCalling(contents, {
+          model: options.model,
+          systemInstruction: this.config.systemPrompt,
+          tools: this.config.tools,
+          temperature: options.temperature ?? this.config.temperature,
+          maxOutputTokens: options.maxOutputTokens,
+          onToken: options.onToken,
+        });
+      } catch (error) {
+        throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
+      }
+
+      result.model = response.model;
+      result.tokensUsed.input += response.tokensUsed.input;
+      result.tokensUsed.output += response.tokensUsed.output;
+      result.functionCalls.push(...response.functionCalls);
+      if (response.content) {
+        result.content = result.content ? `${result.content}\n\n${response.content}` : response.content;
+      }
+
+      const traceStep: ToolLoopStep = {
+        step,
+        content: response.content,
+        calls: [],
+        tokensUsed: response.tokensUsed,
+        durationMs: 0,
+      };
+      result.steps.push(traceStep);
+
+      // Final answer
+      if (response.functionCalls.length === 0) {
+        traceStep.durationMs = Date.now() - stepStart;
+        result.completed = true;
+        this.traceToolStep(traceStep);
+        break;
+      }
+
+      // A call the caller handles itself ends the turn; the rest of the step
+      // still runs (e.g. a mastery update alongside a handoff)
+      const stops = response.functionCalls.some((call) => options.stopOnTools?.includes(call.name));
+
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(response.content ? [{ text: response.content }] : []),
+          ...response.functionCalls.map((call) => ({
+            functionCall: { name: call.name, args: call.args },
+          })),
+        ],
+      });
+
+      const responseParts = [];
+      for (const call of response.functionCalls) {
+        if (options.stopOnTools?.includes(call.name)) continue;
+
+        const trace = await this.executeTool(call.name, call.args, implementations);
+        traceStep.calls.push(trace);
+
+        if (trace.error !== undefined) {
+          traceStep.durationMs = Date.now() - stepStart;
+          this.traceToolStep(traceStep);
+          throw new AgentError(
+            `Tool ${call.name} failed: ${trace.error}`,
+            this.config.id,
+            AgentErrorCode.TOOL_EXECUTION_FAILED,
+            { tool: call.name, args: call.args, step, toolTrace: result.steps }
+          );
+        }
+
+        responseParts.push(formatFunctionResult(call.name, toFunctionResponse(trace.result)));
+      }
+
+      traceStep.durationMs = Date.now() - stepStart;
+      this.traceToolStep(traceStep);
+
+      if (stops) {
+        result.completed = true;
+        break;
+      }
+
+      contents.push({ role: 'function', parts: responseParts });
+    }
+
+    if (!result.completed) {
+      logAgentActivity(this.config.id, 'tool_loop_max_steps', { maxSteps });
+    }
+
+    return result;
+  }
+
+  /**
+   * search_knowledge_base implementation: found passages are added to
+   * context.knowledgePassages and numbered for citation
+   */
+  protected createKnowledgeSearchTool(context: AgentContext): FunctionImplementation {
+    return async (args) => {
+      const passages = await searchKnowledgeBase(
+        {
+          query: String(args.query ?? ''),
+          subject: typeof args.subject === 'string' ? args.subject : undefined,
+          limit: typeof args.limit === 'number' ? args.limit : DEFAULT_SEARCH_LIMIT,
+        },
+        this.llm
+      );
+
+      const known = context.knowledgePassages ?? [];
+      const added = passages.filter((passage) => !known.some((p) => p.id === passage.id));
+      context.knowledgePassages = [...known, ...added];
+
+      return {
+        passages: passages.map((passage) => ({
+          citation: `[${context.knowledgePassages!.findIndex((p) => p.id === passage.id) + 1}]`,
+          reference: passage.source.reference,
+          title: passage.source.title,
+          content: passage.content,
+          similarity: passage.similarity,
+        })),
+      };
+    };
+  }
+
+  /**
+   * Execute one tool call and time it (errors are captured in the trace)
+   */
+  private async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    implementations: Record<string, FunctionImplementation>
+  ): Promise<ToolCallTrace> {
+    const startTime = Date.now();
+
+    try {
+      const result = await executeFunctionCall(name, args, implementations);
+      return { name, args, result, durationMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        name,
+        args,
+        error: (error as Error).message,
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  private traceToolStep(step: ToolLoopStep): void {
+    logAgentActivity(this.config.id, 'tool_step', {
+      step: step.step,
+      tools: step.calls.map((call) => call.name),
+      failed: step.calls.filter((call) => call.error !== undefined).map((call) => call.name),
+      tokensUsed: step.tokensUsed.input + step.tokensUsed.output,
+      durationMs: step.durationMs,
+    });
+  }
+
+  /**
+   * Generate content using Gemini (streams tokens to onToken when provided)
    */
   protected async generateContent(
     prompt: string,
@@ -203,6 +815,7 @@ export abstract class Agent {
       temperature?: number;
       maxTokens?: number;
       useCache?: boolean;
+      onToken?: (token: string) => void;
     } = {}
   ): Promise<{
     content: string;
@@ -214,18 +827,17 @@ export abstract class Agent {
 
     try {
       // Use cached system prompt if enabled
-      let systemInstruction = this.config.systemPrompt;
+      const systemInstruction = this.config.systemPrompt;
       let cachedTokens = 0;
 
       if (options.useCache && this.config.cachedSystemPrompt) {
         const cacheKey = `${this.config.id}_system_prompt`;
         try {
-          await this.cacheManager.getOrCreateCache(
+          cachedTokens = await this.llm.cacheSystemInstruction(
             cacheKey,
             this.config.systemPrompt,
-            { ttlSeconds: 3600 }
+            3600
           );
-          cachedTokens = Math.floor(this.config.systemPrompt.length / 4);
         } catch (error) {
           // Cache failed, use regular prompt
           logAgentActivity(this.config.id, 'cache_error', {
@@ -234,27 +846,45 @@ export abstract class Agent {
         }
       }
 
-      // Generate content
-      const response = await this.gemini.generate(prompt, {
+      const generateOptions = {
         model,
         systemInstruction,
         temperature: options.temperature ?? this.config.temperature ?? 0.7,
-        maxTokens: options.maxTokens ?? this.config.maxTokens,
-      });
+        maxOutputTokens: options.maxTokens ?? this.config.maxTokens,
+      };
+
+      // Generate content
+      let content = '';
+      let usage: { tokensInput: number; tokensOutput: number };
+
+      if (options.onToken) {
+        const stream = this.llm.streamText(prompt, generateOptions);
+        let next = await stream.next();
+        while (!next.done) {
+          content += next.value;
+          options.onToken(next.value);
+          next = await stream.next();
+        }
+        usage = next.value;
+      } else {
+        const response = await this.llm.generateText(prompt, generateOptions);
+        content = response.text;
+        usage = response;
+      }
 
       const durationMs = Date.now() - startTime;
 
       return {
-        content: response.content,
+        content,
         tokensUsed: {
-          input: response.tokensUsed.input,
-          output: response.tokensUsed.output,
+          input: usage.tokensInput,
+          output: usage.tokensOutput,
           cached: cachedTokens,
         },
         durationMs,
       };
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
@@ -272,18 +902,18 @@ export abstract class Agent {
     const model = options.model || this.config.defaultModel;
 
     try {
-      const stream = await this.gemini.stream(prompt, {
+      const stream = this.llm.streamText(prompt, {
         model,
         systemInstruction: this.config.systemPrompt,
         temperature: options.temperature ?? this.config.temperature ?? 0.7,
-        maxTokens: options.maxTokens ?? this.config.maxTokens,
+        maxOutputTokens: options.maxTokens ?? this.config.maxTokens,
       });
 
       for await (const chunk of stream) {
         yield chunk;
       }
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
@@ -299,15 +929,19 @@ export abstract class Agent {
       parts.push(contextPrefix);
     }
 
-    // Add conversation history (recent messages only)
-    const recentHistory = contextManager.trimHistory(
-      context.conversationHistory.slice(0, -1), // Exclude current input
-      this.config.conversationMemorySize || 10
-    );
+    // Add retrieved sources
+    const sources = formatPassagesForPrompt(context.knowledgePassages || []);
+    if (sources) {
+      parts.push(sources);
+    }
+
+    // Add conversation history (already compacted by compactHistory: older
+    // turns summarized, recent ones word for word)
+    const previousMessages = context.conversationHistory.slice(0, -1); // Exclude current input
 
-    if (recentHistory.length > 0) {
+    if (previousMessages.length > 0) {
       parts.push('### المحادثة السابقة:');
-      parts.push(contextManager.formatHistory(recentHistory));
+      parts.push(contextManager.formatHistory(previousMessages));
       parts.push('');
     }
 
@@ -352,6 +986,11 @@ export abstract class Agent {
    * Wrap error with agent context
    */
   protected wrapError(error: Error, code: AgentErrorCode): AgentError {
+    // Keep the code of errors that are already agent errors (e.g., TOOL_EXECUTION_FAILED)
+    if (error instanceof AgentError) {
+      return error;
+    }
+
     const agentError = new Error(error.message) as AgentError;
     agentError.name = 'AgentError';
     agentError.agentId = this.config.id;
@@ -468,3 +1107,13 @@ export class AgentRegistry {
  * Global agent registry
  */
 export const agentRegistry = new AgentRegistry();
+
+/**
+ * Function responses must be JSON objects; wrap other results
+ */
+function toFunctionResponse(result: unknown): Record<string, unknown> {
+  if (result && typeof result === 'object' && !Array.isArray(result)) {
+    return result as Record<string, unknown>;
+  }
+  return { result: result ?? null };
+}
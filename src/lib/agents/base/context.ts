@@ -12,12 +12,72 @@ import type {
   AgentMemory,
   ArabicDialect,
 } from './types';
+import { createAgentMemoryStore, type AgentMemoryStore } from './memory-store';
+import { detectConversationDialect, DIALECT_MIN_CONFIDENCE } from '@/lib/dialect/classifier';
+import { DIALECT_NAMES_AR } from '@/lib/dialect/rewrite';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
+import { estimateTokens } from './utils';
+
+/**
+ * Estimated tokens of conversation history (current input included) above
+ * which older turns are summarized
+ */
+export const HISTORY_TOKEN_BUDGET = 3000;
+
+/**
+ * Estimated tokens of the most recent turns kept word for word when
+ * summarizing (at least HISTORY_MIN_RECENT_MESSAGES messages)
+ */
+export const HISTORY_RECENT_TOKENS = 1500;
+export const HISTORY_MIN_RECENT_MESSAGES = 2;
+
+const HISTORY_SUMMARY_MODEL = 'flash-lite';
+const MAX_CACHED_SUMMARIES = 1000;
+
+// Summaries are persisted in agent memory (one key per conversation)
+const HISTORY_SUMMARY_AGENT_ID = 'conversation';
+const HISTORY_SUMMARY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HISTORY_SUMMARY_SYSTEM_PROMPT = `أنت تلخص محادثات تعليمية بين طالب ووكلاء تعليميين.
+اكتب ملخصاً موجزاً بالعربية بثلاثة أقسام:
+- المواضيع التي تمت تغطيتها: المفاهيم والأمثلة التي شُرحت.
+- المفاهيم الخاطئة: أخطاء الطالب وسوء فهمه، وهل تم تصحيحها.
+- أسئلة مفتوحة: ما زال الطالب يسأل عنه أو لم يفهمه بعد.
+احتفظ بالمصطلحات والمعادلات كما هي. اكتب "لا يوجد" للقسم الفارغ. لا تضف أي شيء آخر.`;
+
+/**
+ * Rolling summary of a session's older turns
+ */
+interface HistorySummary {
+  message: ChatMessage; // System message holding the summary
+  coveredThroughId: string; // Stored ID of the last summarized message
+}
+
+/**
+ * Summary as stored in agent memory
+ */
+interface StoredHistorySummary {
+  content: string;
+  createdAt: string;
+  coveredThroughId: string;
+}
+
+/**
+ * Result of compacting a context's history
+ */
+export interface HistoryCompaction {
+  context: AgentContext;
+  summarizedMessages: number; // Turns folded into the summary this call (0: cached or none)
+  tokensUsed?: { input: number; output: number }; // Summarization call, when one was made
+}
 
 /**
  * Context manager for agent execution
  */
 export class ContextManager {
-  private memoryStore: Map<string, AgentMemory[]> = new Map();
+  private historySummaries: Map<string, HistorySummary> = new Map(); // By session ID (cache of stored summaries)
+
+  constructor(private memoryStore: AgentMemoryStore = createAgentMemoryStore()) {}
 
   /**
    * Build agent context from request
@@ -50,7 +110,11 @@ export class ContextManager {
       userId,
       profile,
       dialect: profile?.preferredDialect,
-      conversationHistory: [...conversationHistory, currentMessage],
+      // Timestamps of client-sent history arrive as strings
+      conversationHistory: [
+        ...conversationHistory.map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+        currentMessage,
+      ],
       sessionId,
       timestamp: new Date(),
       metadata,
@@ -147,56 +211,44 @@ export class ContextManager {
 
   /**
    * Store agent memory
+   * A storage failure is logged, not thrown - losing a memory should not fail the turn
    */
   async storeMemory(memory: AgentMemory): Promise<void> {
-    const key = `${memory.userId}:${memory.agentId}`;
-    const memories = this.memoryStore.get(key) || [];
-
-    // Add new memory
-    memories.push(memory);
-
-    // Remove expired memories
-    const now = new Date();
-    const validMemories = memories.filter(
-      (m) => !m.expiresAt || m.expiresAt > now
-    );
-
-    this.memoryStore.set(key, validMemories);
-
-    // In production, persist to database
-    // await supabase.from('agent_memories').insert(memory);
+    try {
+      await this.memoryStore.store(memory);
+    } catch (error) {
+      console.error(`Failed to store ${memory.agentId} memory "${memory.key}":`, error);
+    }
   }
 
   /**
-   * Retrieve agent memory
+   * Retrieve agent memory (unexpired entries, oldest first)
    */
   async getMemory(
     userId: string,
     agentId: string,
     key?: string
   ): Promise<AgentMemory[]> {
-    const memoryKey = `${userId}:${agentId}`;
-    const memories = this.memoryStore.get(memoryKey) || [];
-
-    if (key) {
-      return memories.filter((m) => m.key === key);
+    try {
+      return await this.memoryStore.get(userId, agentId, key);
+    } catch (error) {
+      console.error(`Failed to load ${agentId} memory:`, error);
+      return [];
     }
-
-    return memories;
   }
 
   /**
    * Clear agent memory
    */
   async clearMemory(userId: string, agentId: string): Promise<void> {
-    const key = `${userId}:${agentId}`;
-    this.memoryStore.delete(key);
-
-    // In production, delete from database
-    // await supabase.from('agent_memories')
-    //   .delete()
-    //   .eq('user_id', userId)
-    //   .eq('agent_id', agentId);
+    await this.memoryStore.clear(userId, agentId);
+  }
+
+  /**
+   * Replace the memory store (e.g., an InMemoryAgentMemoryStore in tests)
+   */
+  setMemoryStore(store: AgentMemoryStore): void {
+    this.memoryStore = store;
   }
 
   /**
@@ -207,34 +259,15 @@ export class ContextManager {
   }
 
   /**
-   * Detect dialect from conversation history
+   * Detect dialect from the student's recent messages (null when the
+   * classifier is not confident enough)
    */
   detectDialect(conversationHistory: ChatMessage[]): ArabicDialect | null {
-    // In production, this would use the dialect detection service
-    // For now, return null (will use user profile default)
-
-    // Simple keyword-based detection (placeholder)
-    const recentText = conversationHistory
-      .slice(-3)
-      .map((m) => m.content)
-      .join(' ');
-
-    // Egyptian indicators
-    if (recentText.includes('ازيك') || recentText.includes('عامل ايه')) {
-      return 'Egyptian';
-    }
-
-    // Gulf indicators
-    if (recentText.includes('شلونك') || recentText.includes('وش')) {
-      return 'Gulf';
-    }
+    const classification = detectConversationDialect(conversationHistory);
 
-    // Levantine indicators
-    if (recentText.includes('كيفك') || recentText.includes('شو')) {
-      return 'Levantine';
-    }
-
-    return null;
+    return classification && classification.confidence >= DIALECT_MIN_CONFIDENCE
+      ? classification.dialect
+      : null;
   }
 
   /**
@@ -288,14 +321,7 @@ export class ContextManager {
 
     // Dialect
     if (context.dialect) {
-      const dialectNames: Record<ArabicDialect, string> = {
-        MSA: 'الفصحى',
-        Egyptian: 'المصري',
-        Gulf: 'الخليجي',
-        Levantine: 'الشامي',
-        Maghrebi: 'المغربي',
-      };
-      parts.push(`اللهجة المفضلة: ${dialectNames[context.dialect]}`);
+      parts.push(`اللهجة المفضلة: ${DIALECT_NAMES_AR[context.dialect]}`);
     }
 
     // Current topic
@@ -325,34 +351,200 @@ export class ContextManager {
   /**
    * Check if context is too large
    */
-  isContextTooLarge(context: AgentContext, maxTokens: number = 30000): boolean {
-    // Rough estimation: 1 token ≈ 4 characters for Arabic
-    const historyText = context.conversationHistory
-      .map((m) => m.content)
-      .join(' ');
-    const estimatedTokens = historyText.length / 4;
-
-    return estimatedTokens > maxTokens;
+  isContextTooLarge(context: AgentContext, maxTokens: number = HISTORY_TOKEN_BUDGET): boolean {
+    return this.estimateHistoryTokens(context.conversationHistory) > maxTokens;
   }
 
   /**
-   * Summarize old conversation history
+   * Summarize older turns into a system message (folding in the previous
+   * summary, if any). Throws when the model call fails.
    */
   async summarizeHistory(
-    conversationHistory: ChatMessage[]
-  ): Promise<ChatMessage> {
-    // In production, use an LLM to summarize
-    // For now, create a simple summary
-
-    const summary = `تم إجراء ${conversationHistory.length} رسالة سابقة. ` +
-      `المواضيع المطروحة: ${this.extractTopics(conversationHistory).slice(0, 3).join('، ')}.`;
+    conversationHistory: ChatMessage[],
+    options: { previousSummary?: string; llm?: LLMProvider } = {}
+  ): Promise<{ message: ChatMessage; tokensUsed: { input: number; output: number } }> {
+    const { previousSummary, llm = getLLMProvider() } = options;
+
+    const prompt = [
+      previousSummary ? `### الملخص السابق:\n${previousSummary}\n` : '',
+      '### الرسائل الجديدة:',
+      this.formatHistory(conversationHistory),
+    ].join('\n');
+
+    const response = await llm.generateText(prompt, {
+      model: HISTORY_SUMMARY_MODEL,
+      systemInstruction: HISTORY_SUMMARY_SYSTEM_PROMPT,
+      temperature: 0.2,
+    });
 
     return {
-      role: 'system',
-      content: summary,
-      timestamp: new Date(),
+      message: {
+        role: 'system',
+        content: `ملخص المحادثة السابقة:\n${response.text.trim()}`,
+        timestamp: new Date(),
+        metadata: { summary: true },
+      },
+      tokensUsed: { input: response.tokensInput, output: response.tokensOutput },
     };
   }
+
+  /**
+   * Replace older turns with a rolling summary when the history is over
+   * HISTORY_TOKEN_BUDGET. Summaries are stored per conversation (agent
+   * memory, cached in process) and extended with the turns that have aged out
+   * of the recent window since. Coverage is tracked by stored message ID, so
+   * a history without IDs (sent by the client, no stored conversation) is
+   * summarized for the turn only. A failed summarization is logged and only
+   * the recent turns are kept next to the stored summary, if any.
+   */
+  async compactHistory(context: AgentContext, llm?: LLMProvider): Promise<HistoryCompaction> {
+    const previousMessages = context.conversationHistory.slice(0, -1);
+    const currentMessages = context.conversationHistory.slice(-1);
+    const stored = previousMessages.every((m) => storedMessageId(m));
+    const cached = stored ? await this.loadSummary(context) : undefined;
+
+    // Turns after the last summarized one (all of them once it has left the loaded window)
+    const coveredIndex = cached
+      ? previousMessages.findIndex((m) => storedMessageId(m) === cached.coveredThroughId)
+      : -1;
+    const unsummarized = previousMessages.slice(coveredIndex + 1);
+    const withCachedSummary = [
+      ...(cached ? [cached.message] : []),
+      ...unsummarized,
+      ...currentMessages,
+    ];
+
+    const unchanged: HistoryCompaction = {
+      context: cached ? { ...context, conversationHistory: withCachedSummary } : context,
+      summarizedMessages: 0,
+    };
+
+    if (this.estimateHistoryTokens(withCachedSummary) <= HISTORY_TOKEN_BUDGET) {
+      return unchanged;
+    }
+
+    // Keep the most recent turns word for word, summarize the rest
+    let recentCount = 0;
+    let recentTokens = 0;
+    for (let i = unsummarized.length - 1; i >= 0; i--) {
+      recentTokens += estimateTokens(unsummarized[i]!.content);
+      if (recentCount >= HISTORY_MIN_RECENT_MESSAGES && recentTokens > HISTORY_RECENT_TOKENS) break;
+      recentCount++;
+    }
+
+    const older = unsummarized.slice(0, unsummarized.length - recentCount);
+    const recent = unsummarized.slice(unsummarized.length - recentCount);
+    const lastOlder = older[older.length - 1];
+    if (!lastOlder) {
+      return unchanged;
+    }
+
+    try {
+      const { message, tokensUsed } = await this.summarizeHistory(older, {
+        previousSummary: cached?.message.content,
+        llm,
+      });
+      const coveredThroughId = storedMessageId(lastOlder);
+      if (coveredThroughId) {
+        await this.saveSummary(context, { message, coveredThroughId });
+      }
+
+      return {
+        context: { ...context, conversationHistory: [message, ...recent, ...currentMessages] },
+        summarizedMessages: older.length,
+        tokensUsed,
+      };
+    } catch (error) {
+      console.error(`Failed to summarize history for session ${context.sessionId}:`, error);
+      return {
+        context: {
+          ...context,
+          conversationHistory: [...(cached ? [cached.message] : []), ...recent, ...currentMessages],
+        },
+        summarizedMessages: 0,
+      };
+    }
+  }
+
+  /**
+   * A conversation's summary: cached, else from agent memory
+   */
+  private async loadSummary(context: AgentContext): Promise<HistorySummary | undefined> {
+    const cached = this.historySummaries.get(context.sessionId);
+    if (cached) return cached;
+
+    const memories = await this.getMemory(
+      context.userId,
+      HISTORY_SUMMARY_AGENT_ID,
+      historySummaryKey(context.sessionId)
+    );
+    const stored = memories[memories.length - 1]?.value as StoredHistorySummary | undefined;
+    if (!stored?.content || !stored.coveredThroughId) return undefined;
+
+    const summary: HistorySummary = {
+      message: {
+        role: 'system',
+        content: stored.content,
+        timestamp: new Date(stored.createdAt),
+        metadata: { summary: true },
+      },
+      coveredThroughId: stored.coveredThroughId,
+    };
+    this.cacheSummary(context.sessionId, summary);
+    return summary;
+  }
+
+  /**
+   * Store a conversation's summary in agent memory and the cache
+   */
+  private async saveSummary(context: AgentContext, summary: HistorySummary): Promise<void> {
+    this.cacheSummary(context.sessionId, summary);
+
+    const now = new Date();
+    const value: StoredHistorySummary = {
+      content: summary.message.content,
+      createdAt: summary.message.timestamp.toISOString(),
+      coveredThroughId: summary.coveredThroughId,
+    };
+
+    await this.storeMemory({
+      userId: context.userId,
+      agentId: HISTORY_SUMMARY_AGENT_ID,
+      key: historySummaryKey(context.sessionId),
+      value,
+      timestamp: now,
+      expiresAt: new Date(now.getTime() + HISTORY_SUMMARY_TTL_MS),
+    });
+  }
+
+  /**
+   * Remember a session's summary (oldest sessions are evicted first)
+   */
+  private cacheSummary(sessionId: string, summary: HistorySummary): void {
+    this.historySummaries.delete(sessionId);
+    this.historySummaries.set(sessionId, summary);
+
+    if (this.historySummaries.size > MAX_CACHED_SUMMARIES) {
+      const oldest = this.historySummaries.keys().next().value;
+      if (oldest !== undefined) this.historySummaries.delete(oldest);
+    }
+  }
+
+  private estimateHistoryTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  }
+}
+
+function historySummaryKey(sessionId: string): string {
+  return `history_summary:${sessionId}`;
+}
+
+/**
+ * ID of a message loaded from a stored conversation (see toChatMessage)
+ */
+function storedMessageId(message: ChatMessage): string | undefined {
+  const id = message.metadata?.messageId;
+  return typeof id === 'string' ? id : undefined;
 }
 
 /**
@@ -9,6 +9,16 @@ export { Agent, AgentRegistry, agentRegistry } from './agent';
 
 // Context management
 export { ContextManager, contextManager } from './context';
+export {
+  InMemoryAgentMemoryStore,
+  SupabaseAgentMemoryStore,
+  createAgentMemoryStore,
+  MAX_MEMORIES_PER_KEY,
+  type AgentMemoryStore,
+} from './memory-store';
+
+// Student profile
+export { loadStudentProfile, toStudentProfile } from './profile';
 
 // Utility functions
 export {
@@ -22,7 +32,6 @@ export {
   formatCost,
   formatTokens,
   retryWithBackoff,
-  RateLimiter,
   mergeConversations,
   calculateMetrics,
   generateId,
@@ -0,0 +1,115 @@
+/**
+ * Agent Memory Storage
+ *
+ * Where ContextManager keeps AgentMemory entries. The Supabase store
+ * (agent_memories) survives redeploys and is shared by every server
+ * instance; the in-memory store is for tests and offline runs.
+ * AGENT_MEMORY_STORE=memory selects the in-memory store.
+ *
+ * Both stores keep entries in the order they were stored, never return
+ * entries past expiresAt, and keep at most MAX_MEMORIES_PER_KEY entries per
+ * student, agent and key.
+ */
+
+import {
+  storeAgentMemory,
+  getAgentMemories,
+  deleteAgentMemories,
+} from '@/lib/supabase/database';
+import { toJson } from './utils';
+import type { AgentMemory } from './types';
+
+/**
+ * Storage backend for agent memories
+ */
+export interface AgentMemoryStore {
+  store(memory: AgentMemory): Promise<void>;
+  get(userId: string, agentId: string, key?: string): Promise<AgentMemory[]>; // Oldest first
+  clear(userId: string, agentId: string): Promise<void>;
+}
+
+/**
+ * Entries kept per student, agent and key (older ones are dropped)
+ */
+export const MAX_MEMORIES_PER_KEY = 20;
+
+/**
+ * Process-local store
+ */
+export class InMemoryAgentMemoryStore implements AgentMemoryStore {
+  private memories: Map<string, AgentMemory[]> = new Map();
+
+  async store(memory: AgentMemory): Promise<void> {
+    const storeKey = this.storeKey(memory.userId, memory.agentId);
+    const now = new Date();
+
+    const memories = [...this.unexpired(this.memories.get(storeKey) ?? [], now), memory];
+    const sameKey = memories.filter((m) => m.key === memory.key);
+    const dropped = new Set(sameKey.slice(0, Math.max(0, sameKey.length - MAX_MEMORIES_PER_KEY)));
+
+    this.memories.set(
+      storeKey,
+      memories.filter((m) => !dropped.has(m))
+    );
+  }
+
+  async get(userId: string, agentId: string, key?: string): Promise<AgentMemory[]> {
+    const memories = this.unexpired(this.memories.get(this.storeKey(userId, agentId)) ?? [], new Date());
+    return key ? memories.filter((m) => m.key === key) : memories;
+  }
+
+  async clear(userId: string, agentId: string): Promise<void> {
+    this.memories.delete(this.storeKey(userId, agentId));
+  }
+
+  private storeKey(userId: string, agentId: string): string {
+    return `${userId}:${agentId}`;
+  }
+
+  private unexpired(memories: AgentMemory[], now: Date): AgentMemory[] {
+    return memories.filter((m) => !m.expiresAt || m.expiresAt > now);
+  }
+}
+
+/**
+ * agent_memories table (values are stored as JSON)
+ */
+export class SupabaseAgentMemoryStore implements AgentMemoryStore {
+  async store(memory: AgentMemory): Promise<void> {
+    await storeAgentMemory({
+      userId: memory.userId,
+      agentId: memory.agentId,
+      key: memory.key,
+      value: toJson(memory.value),
+      createdAt: memory.timestamp,
+      expiresAt: memory.expiresAt,
+      maxEntries: MAX_MEMORIES_PER_KEY,
+    });
+  }
+
+  async get(userId: string, agentId: string, key?: string): Promise<AgentMemory[]> {
+    const rows = await getAgentMemories(userId, agentId, key);
+
+    return rows.map((row) => ({
+      userId: row.user_id,
+      agentId: row.agent_id,
+      key: row.key,
+      value: row.value,
+      timestamp: new Date(row.created_at),
+      ...(row.expires_at && { expiresAt: new Date(row.expires_at) }),
+    }));
+  }
+
+  async clear(userId: string, agentId: string): Promise<void> {
+    await deleteAgentMemories(userId, agentId);
+  }
+}
+
+/**
+ * Store selected by the environment
+ */
+export function createAgentMemoryStore(): AgentMemoryStore {
+  return process.env.AGENT_MEMORY_STORE === 'memory'
+    ? new InMemoryAgentMemoryStore()
+    : new SupabaseAgentMemoryStore();
+}
@@ -0,0 +1,51 @@
+/**
+ * Student Profile Loading
+ *
+ * Builds the StudentProfile given to agents from user_profiles, so profile
+ * fields and dialect always come from the database rather than the client.
+ */
+
+import { getOrCreateUserProfile } from '@/lib/supabase/database';
+import type { Database } from '@/types/supabase';
+import type { StudentProfile, LearningStyle } from './types';
+
+type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+
+/**
+ * Load (or create on first use) the student's profile
+ */
+export async function loadStudentProfile(userId: string): Promise<StudentProfile> {
+  const row: UserProfile = await getOrCreateUserProfile(userId);
+  return toStudentProfile(row);
+}
+
+/**
+ * Map a user_profiles row to the agent-facing profile
+ */
+export function toStudentProfile(row: UserProfile): StudentProfile {
+  const gradeLevel = row.education_level ? parseInt(row.education_level, 10) : NaN;
+
+  return {
+    userId: row.id,
+    displayName: row.display_name ?? undefined,
+    preferredDialect: row.preferred_dialect ?? undefined,
+    learningStyle: toLearningStyle(row.learning_style),
+    gradeLevel: Number.isFinite(gradeLevel) ? gradeLevel : undefined,
+    timezone: row.timezone,
+    plan: row.plan,
+  };
+}
+
+/**
+ * Database learning styles include 'reading_writing' and 'mixed' (no single preference)
+ */
+function toLearningStyle(style: UserProfile['learning_style']): LearningStyle | undefined {
+  switch (style) {
+    case 'reading_writing':
+      return 'reading';
+    case 'mixed':
+      return undefined;
+    default:
+      return style;
+  }
+}
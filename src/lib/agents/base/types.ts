@@ -6,6 +6,9 @@
  */
 
 import type { Tool } from '@google/generative-ai';
+import type { KnowledgePassage } from '@/lib/knowledge/search';
+import type { DialectDecision } from '@/lib/dialect/classifier';
+import type { UsageMeter } from '@/lib/llm/usage';
 
 /**
  * Arabic dialect types supported by the platform
@@ -79,6 +82,7 @@ export interface StudentProfile {
   gradeLevel?: number;
   subjects?: string[];
   timezone?: string;
+  plan?: 'free' | 'student' | 'premium';
 }
 
 /**
@@ -92,6 +96,7 @@ export interface AgentContext {
 
   // Language preferences
   dialect?: ArabicDialect;
+  dialectDecision?: DialectDecision; // How dialect was chosen (reported in orchestration metadata)
 
   // Conversation state
   conversationHistory: ChatMessage[];
@@ -100,6 +105,7 @@ export interface AgentContext {
   // Knowledge state
   masteryLevels?: Record<string, number>; // KC ID -> mastery (0-1)
   activeKnowledgeComponents?: string[];
+  knowledgePassages?: KnowledgePassage[]; // Retrieved sources, cited as [1], [2], ...
 
   // Session metadata
   sessionId: string;
@@ -233,16 +239,52 @@ export interface AgentConfig {
   topP?: number;
   topK?: number;
 
-  // Rate limiting
+  // Rate limiting (per student, shared across instances)
   maxRequestsPerMinute?: number;
 
+  // Function calling: model/tool round trips per turn (default 5)
+  maxToolSteps?: number;
+
   // Memory
-  conversationMemorySize?: number; // Number of messages to keep
+  conversationMemorySize?: number; // Messages kept when the history could not be summarized
 
   // Additional settings
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Events emitted while streaming an execution (sent to the client over SSE)
+ */
+export type AgentStreamEvent =
+  | {
+      type: 'routing';
+      intent: string;
+      complexity: number;
+      strategy: 'single' | 'sequential' | 'parallel';
+      agentIds: string[];
+      reasoning: string;
+    }
+  | {
+      type: 'agent_start';
+      agentId: string;
+      agentName: string;
+      arabicName: string;
+      step: number; // 1-based position in the strategy
+      totalSteps: number;
+    }
+  | { type: 'token'; agentId: string; token: string }
+  | { type: 'visualization'; agentId: string; visualization: VisualizationSpec }
+  | { type: 'question'; agentId: string; question: SocraticQuestion }
+  | {
+      type: 'usage';
+      model: GeminiModel;
+      tokensUsed: { input: number; output: number; cached?: number };
+      costUsd: number;
+      durationMs: number;
+    }
+  | { type: 'done'; data: Record<string, unknown> } // Same payload as the JSON response
+  | { type: 'error'; error: { code: string; message: string } };
+
 /**
  * Agent execution options
  */
@@ -250,9 +292,19 @@ export interface AgentExecutionOptions {
   // Model override
   model?: GeminiModel;
 
+  // Usage budget state (checked once per top-level call, inherited by sub-agents)
+  budgetStatus?: 'ok' | 'near_limit' | 'exceeded';
+
+  // Set when the caller already counted this call against the rate limits
+  rateLimitChecked?: boolean;
+
+  // Model usage of the turn (the caller's, to include work done before the call)
+  usageMeter?: UsageMeter;
+
   // Streaming
   stream?: boolean;
   onChunk?: (chunk: string) => void;
+  onEvent?: (event: AgentStreamEvent) => void;
 
   // Temperature override
   temperature?: number;
@@ -269,6 +321,9 @@ export interface AgentExecutionOptions {
   // Memory update
   updateMemory?: boolean;
 
+  // Rewrite the answer into context.dialect when it is written in another dialect
+  enforceDialect?: boolean;
+
   // Timeout
   timeoutMs?: number;
 
@@ -302,6 +357,46 @@ export interface AgentMetrics {
   lastUpdated: Date;
 }
 
+/**
+ * One tool call executed in the tool loop
+ */
+export interface ToolCallTrace {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * One model round of the tool loop and the calls it requested
+ */
+export interface ToolLoopStep {
+  step: number;
+  content: string;
+  calls: ToolCallTrace[];
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  durationMs: number;
+}
+
+/**
+ * Outcome of a function-calling turn
+ */
+export interface ToolLoopResult {
+  content: string; // Text of all steps
+  functionCalls: Array<{ name: string; args: Record<string, any> }>; // Calls from all steps, in order
+  steps: ToolLoopStep[];
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  model: GeminiModel;
+  completed: boolean; // False when maxToolSteps ended the loop
+}
+
 /**
  * Agent error types
  */
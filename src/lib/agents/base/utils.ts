@@ -12,6 +12,33 @@ import type {
   ChatMessage,
   AgentContext,
 } from './types';
+import type { Database, Json } from '@/types/supabase';
+
+/**
+ * Database agent_type enum value
+ */
+export type AgentType = Database['public']['Enums']['agent_type'];
+
+/**
+ * All agent_type enum values (registry ids are the same names with hyphens)
+ */
+const AGENT_TYPES: AgentType[] = [
+  'visualizer',
+  'narrator',
+  'problem_decomposer',
+  'simulator',
+  'socratic',
+  'spaced_repetition',
+  'adaptive_assessor',
+  'cognitive_mirror',
+  'memory_architect',
+  'context_weaver',
+  'research_companion',
+  'language_coach',
+  'engagement_monitor',
+  'wellbeing',
+  'maestro',
+];
 
 /**
  * Cost per 1M tokens (USD)
@@ -22,6 +49,21 @@ const MODEL_COSTS: Record<GeminiModel, { input: number; output: number; cached:
   'pro': { input: 1.25, output: 5.00, cached: 0.3125 },
 };
 
+/**
+ * Map a registry id ("problem-decomposer") to its agent_type ("problem_decomposer")
+ */
+export function toAgentType(agentId: string): AgentType | null {
+  const agentType = agentId.replace(/-/g, '_');
+  return AGENT_TYPES.find((type) => type === agentType) ?? null;
+}
+
+/**
+ * Map an agent_type ("problem_decomposer") to its registry id ("problem-decomposer")
+ */
+export function fromAgentType(agentType: string): string {
+  return agentType.replace(/_/g, '-');
+}
+
 /**
  * Calculate cost based on token usage
  */
@@ -124,7 +166,7 @@ export function extractCodeBlocks(text: string): Array<{ language: string; code:
   while ((match = codeBlockRegex.exec(text)) !== null) {
     blocks.push({
       language: match[1] || 'text',
-      code: match[2].trim(),
+      code: (match[2] ?? '').trim(),
     });
   }
 
@@ -143,7 +185,7 @@ export function extractEquations(text: string): Array<{ inline: boolean; equatio
   while ((match = blockRegex.exec(text)) !== null) {
     equations.push({
       inline: false,
-      equation: match[1].trim(),
+      equation: (match[1] ?? '').trim(),
     });
   }
 
@@ -154,7 +196,7 @@ export function extractEquations(text: string): Array<{ inline: boolean; equatio
     if (!text.substring(match.index - 1, match.index).includes('$')) {
       equations.push({
         inline: true,
-        equation: match[1].trim(),
+        equation: (match[1] ?? '').trim(),
       });
     }
   }
@@ -227,40 +269,6 @@ export async function retryWithBackoff<T>(
   throw lastError;
 }
 
-/**
- * Rate limiter
- */
-export class RateLimiter {
-  private requests: number[] = [];
-
-  constructor(
-    private maxRequests: number,
-    private windowMs: number
-  ) {}
-
-  async acquire(): Promise<void> {
-    const now = Date.now();
-
-    // Remove old requests outside the window
-    this.requests = this.requests.filter((timestamp) => now - timestamp < this.windowMs);
-
-    // Check if we're at the limit
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = this.requests[0];
-      const waitMs = this.windowMs - (now - oldestRequest);
-      await new Promise((resolve) => setTimeout(resolve, waitMs));
-      return this.acquire(); // Retry
-    }
-
-    // Record this request
-    this.requests.push(now);
-  }
-
-  reset(): void {
-    this.requests = [];
-  }
-}
-
 /**
  * Merge conversation histories
  */
@@ -306,7 +314,7 @@ export function calculateMetrics(
     };
   }
 
-  const agentId = responses[0].agentId;
+  const agentId = responses[0]?.agentId ?? 'unknown';
   const totalRequests = responses.length;
   const totalTokens = responses.reduce(
     (sum, r) => sum + r.tokensUsed.input + r.tokensUsed.output,
@@ -377,6 +385,13 @@ export function safeJSONParse<T>(json: string, fallback: T): T {
   }
 }
 
+/**
+ * Convert a value to plain JSON for JSONB columns (drops undefined, serializes Dates)
+ */
+export function toJson(value: unknown): Json {
+  return JSON.parse(JSON.stringify(value ?? null)) as Json;
+}
+
 /**
  * Build error message with context
  */
@@ -10,9 +10,12 @@
 
 import { Agent, agentRegistry } from '../base/agent';
 import { contextManager } from '../base/context';
-import { estimateTokens, generateId, logAgentActivity } from '../base/utils';
+import { estimateTokens, generateId, logAgentActivity, fromAgentType } from '../base/utils';
 import { AGENT_TOOLS } from '@/lib/gemini/function-calling';
+import { getKnowledgeGraph } from '@/lib/learning/kc-graph';
+import { MASTERY_THRESHOLD } from '@/lib/learning/bkt';
 
+import { AgentErrorCode } from '../base/types';
 import type {
   AgentConfig,
   AgentContext,
@@ -23,6 +26,8 @@ import type {
   GeminiModel,
 } from '../base/types';
 
+const ROUTING_MODEL: GeminiModel = 'flash';
+
 /**
  * Intent categories for user queries
  */
@@ -49,6 +54,7 @@ interface AgentSelection {
   reasoning: string;
   confidence: number;
   strategy: 'single' | 'sequential' | 'parallel';
+  tokensUsed?: { input: number; output: number }; // Of the routing call
 }
 
 /**
@@ -65,6 +71,27 @@ interface ComplexityAnalysis {
   };
 }
 
+/**
+ * Prerequisite a struggling student should revisit first
+ */
+interface PrerequisiteHint {
+  kcId: string;
+  code: string;
+  nameAr: string;
+  pKnow: number;
+  forKc: { kcId: string; code: string; nameAr: string };
+}
+
+/**
+ * Mastery below which a student counts as struggling with an active KC
+ */
+const STRUGGLING_MASTERY = 0.4;
+
+/**
+ * Phrases of a student saying they are stuck
+ */
+const STRUGGLE_PATTERN = /لا أفهم|لا افهم|لم أفهم|لم افهم|ما فهمت|مش فاهم|صعب|محتار|تائه|ضايع/;
+
 /**
  * Maestro Agent Configuration
  */
@@ -159,33 +186,65 @@ export class MaestroAgent extends Agent {
         confidence: selection.confidence,
       });
 
-      // 4. Execute strategy
+      this.emitEvent(options, {
+        type: 'routing',
+        intent,
+        complexity: complexity.score,
+        strategy: selection.strategy,
+        agentIds: selection.agentIds,
+        reasoning: selection.reasoning,
+      });
+
+      // 4. Check for a prerequisite to revisit (struggling students only)
+      const prerequisiteHint = await this.findPrerequisiteToRevisit(input, context);
+      if (prerequisiteHint) {
+        logAgentActivity(this.config.id, 'prerequisite_hint', { ...prerequisiteHint });
+      }
+
+      // 5. Execute strategy (sub-agent sessions are logged with Maestro as parent)
+      const agentOptions: AgentExecutionOptions = {
+        ...options,
+        metadata: { ...options?.metadata, parentAgentId: this.config.id },
+      };
       let result: AgentResponse;
 
       if (selection.strategy === 'single') {
         result = await this.executeSingleAgent(
-          selection.agentIds[0],
+          selection.agentIds[0] ?? 'narrator',
           input,
           context,
-          options
+          agentOptions
         );
       } else if (selection.strategy === 'sequential') {
         result = await this.executeSequential(
           selection.agentIds,
           input,
           context,
-          options
+          agentOptions
         );
       } else {
         result = await this.executeParallel(
           selection.agentIds,
           input,
           context,
-          options
+          agentOptions
         );
       }
 
-      // 5. Add orchestration metadata
+      // A sub-agent handed the turn on (e.g. Socratic to the visualizer)
+      if (result.handoff) {
+        result = await this.followHandoff(result, input, context, selection.agentIds, agentOptions);
+      }
+
+      if (selection.tokensUsed) {
+        this.addUsage(result, ROUTING_MODEL, selection.tokensUsed);
+      }
+
+      if (prerequisiteHint) {
+        result.content += `\n\n💡 يبدو أن "${prerequisiteHint.forKc.nameAr}" ما زال صعباً عليك. أنصحك بمراجعة "${prerequisiteHint.nameAr}" أولاً، فهو أساس هذا الموضوع.`;
+      }
+
+      // 6. Add orchestration metadata
       const durationMs = Date.now() - startTime;
       result.metadata = {
         ...result.metadata,
@@ -196,12 +255,20 @@ export class MaestroAgent extends Agent {
           strategy: selection.strategy,
           reasoning: selection.reasoning,
           totalDurationMs: durationMs,
+          ...(context.dialectDecision && { dialect: context.dialectDecision }),
         },
+        ...(prerequisiteHint && { prerequisiteHint }),
+        ...(context.knowledgePassages && context.knowledgePassages.length > 0 && {
+          knowledgeSources: context.knowledgePassages.map((passage, index) => ({
+            citation: `[${index + 1}]`,
+            ...passage.source,
+          })),
+        }),
       };
 
       return result;
     } catch (error) {
-      throw this.wrapError(error as Error, 'UNKNOWN');
+      throw this.wrapError(error as Error, AgentErrorCode.UNKNOWN);
     }
   }
 
@@ -322,6 +389,17 @@ export class MaestroAgent extends Agent {
     complexity: ComplexityAnalysis,
     intent: QueryIntent
   ): Promise<AgentSelection> {
+    // An agent waiting for the student's answer (e.g. an assessment item) gets it
+    const sessionAgentId = await this.findActiveSessionAgent(context);
+    if (sessionAgentId) {
+      return {
+        agentIds: [sessionAgentId],
+        reasoning: 'متابعة جلسة جارية',
+        confidence: 1,
+        strategy: 'single',
+      };
+    }
+
     // Build selection prompt
     const prompt = `حلل السؤال التالي واختر الوكلاء المناسبين:
 
@@ -330,34 +408,37 @@ export class MaestroAgent extends Agent {
 التعقيد: ${(complexity.score * 100).toFixed(0)}%
 النية: ${intent}
 
+إذا احتجت إلى مصادر من المنهج، ابحث في قاعدة المعرفة (search_knowledge_base) قبل الاختيار.
 اختر الوكيل أو الوكلاء المناسبين واستخدم function calling.`;
 
     try {
-      // Use Gemini to select agents
-      const response = await this.gemini.generateWithFunctionCalling(
+      // Use Gemini to select agents (it may search the knowledge base first;
+      // found passages stay in the context for the selected agents to cite)
+      const response = await this.runToolLoop(
         prompt,
+        { search_knowledge_base: this.createKnowledgeSearchTool(context) },
         {
-          model: 'flash',
-          systemInstruction: this.config.systemPrompt,
-          tools: this.config.tools,
+          model: ROUTING_MODEL,
+          maxSteps: 3,
+          stopOnTools: ['handoff_to_agent'],
         }
       );
 
       // Parse function call
-      if (response.functionCalls && response.functionCalls.length > 0) {
-        const call = response.functionCalls[0];
-        if (call.name === 'handoff_to_agent') {
-          return {
-            agentIds: [call.args.agent_id as string],
-            reasoning: call.args.reason as string,
-            confidence: 0.9,
-            strategy: 'single',
-          };
-        }
+      const call = response.functionCalls.find((c) => c.name === 'handoff_to_agent');
+      if (call) {
+        return {
+          // handoff_to_agent uses agent_type values (problem_decomposer)
+          agentIds: [fromAgentType(call.args.agent_id as string)],
+          reasoning: call.args.reason as string,
+          confidence: 0.9,
+          strategy: 'single',
+          tokensUsed: response.tokensUsed,
+        };
       }
 
       // Fallback: rule-based selection
-      return this.fallbackSelection(intent, complexity);
+      return { ...this.fallbackSelection(intent, complexity), tokensUsed: response.tokensUsed };
     } catch (error) {
       logAgentActivity(this.config.id, 'selection_error', {
         error: (error as Error).message,
@@ -368,6 +449,77 @@ export class MaestroAgent extends Agent {
     }
   }
 
+  /**
+   * Agent with a multi-turn session in progress for this student, if any
+   */
+  private async findActiveSessionAgent(context: AgentContext): Promise<string | null> {
+    for (const agent of agentRegistry.getAll()) {
+      if (agent === this) continue;
+
+      try {
+        if (await agent.hasActiveSession(context)) {
+          return agent.getId();
+        }
+      } catch (error) {
+        // Routing continues as if there were no session
+        logAgentActivity(this.config.id, 'session_check_error', {
+          agentId: agent.getId(),
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Weakest missing prerequisite of an active KC the student is struggling
+   * with (low mastery, or the student says they are stuck)
+   */
+  private async findPrerequisiteToRevisit(
+    input: string,
+    context: AgentContext
+  ): Promise<PrerequisiteHint | null> {
+    const masteryLevels = context.masteryLevels ?? {};
+    const saysStuck = STRUGGLE_PATTERN.test(input);
+
+    const struggling = (context.activeKnowledgeComponents ?? [])
+      .filter((kcId) => {
+        const pKnow = masteryLevels[kcId];
+        return saysStuck
+          ? (pKnow ?? 0) < MASTERY_THRESHOLD
+          : pKnow !== undefined && pKnow < STRUGGLING_MASTERY;
+      })
+      .sort((a, b) => (masteryLevels[a] ?? 0) - (masteryLevels[b] ?? 0));
+
+    if (struggling.length === 0) return null;
+
+    try {
+      const graph = await getKnowledgeGraph();
+
+      for (const kcId of struggling) {
+        const kc = graph.get(kcId);
+        const [missing] = kc ? graph.missingPrerequisites(kc.id, masteryLevels, 1) : [];
+        if (!kc || !missing) continue;
+
+        return {
+          kcId: missing.kc.id,
+          code: missing.kc.code,
+          nameAr: missing.kc.name_ar,
+          pKnow: missing.pKnow,
+          forKc: { kcId: kc.id, code: kc.code, nameAr: kc.name_ar },
+        };
+      }
+    } catch (error) {
+      // The hint is optional; routing continues without it
+      logAgentActivity(this.config.id, 'prerequisite_hint_error', {
+        error: (error as Error).message,
+      });
+    }
+
+    return null;
+  }
+
   /**
    * Fallback rule-based agent selection
    */
@@ -461,9 +613,60 @@ export class MaestroAgent extends Agent {
       return this.handleMissingAgent(agentId, input, context);
     }
 
+    this.emitAgentStart(agent, 1, 1, options);
     return await agent.executeWithPipeline(input, context, options);
   }
 
+  /**
+   * Run the agent a sub-agent handed off to (one hop per turn, never back to
+   * an agent that already ran); its answer follows the handing-off agent's
+   */
+  private async followHandoff(
+    result: AgentResponse,
+    input: string,
+    context: AgentContext,
+    ranAgentIds: string[],
+    options?: AgentExecutionOptions
+  ): Promise<AgentResponse> {
+    const handoff = result.handoff!;
+    const agent = agentRegistry.get(handoff.toAgentId);
+
+    if (!agent || agent === this || ranAgentIds.includes(handoff.toAgentId)) {
+      logAgentActivity(this.config.id, 'handoff_ignored', {
+        fromAgentId: result.agentId,
+        toAgentId: handoff.toAgentId,
+      });
+      return result;
+    }
+
+    logAgentActivity(this.config.id, 'handoff', {
+      fromAgentId: result.agentId,
+      toAgentId: handoff.toAgentId,
+      reason: handoff.reason,
+    });
+
+    this.emitAgentStart(agent, 2, 2, options);
+    const next = await agent.executeWithPipeline(
+      input,
+      contextManager.updateContext(context, result.content, result.agentId),
+      options
+    );
+
+    const merged = this.buildResponse(
+      [result.content, next.content].filter(Boolean).join('\n\n'),
+      {
+        input: result.tokensUsed.input + next.tokensUsed.input,
+        output: result.tokensUsed.output + next.tokensUsed.output,
+      },
+      result.durationMs + next.durationMs,
+      next.model,
+      { strategy: 'handoff', agents: [result.agentId, next.agentId], handoff }
+    );
+    merged.cost = { usd: result.cost.usd + next.cost.usd };
+
+    return this.mergeAgentOutputs(merged, [result, next]);
+  }
+
   /**
    * Execute agents sequentially
    */
@@ -475,13 +678,15 @@ export class MaestroAgent extends Agent {
   ): Promise<AgentResponse> {
     let currentContext = context;
     let combinedContent = '';
-    let totalTokens = { input: 0, output: 0 };
+    const totalTokens = { input: 0, output: 0 };
     let totalCost = 0;
+    const responses: AgentResponse[] = [];
 
-    for (const agentId of agentIds) {
+    for (const [index, agentId] of agentIds.entries()) {
       const agent = agentRegistry.get(agentId);
       if (!agent) continue;
 
+      this.emitAgentStart(agent, index + 1, agentIds.length, options);
       const response = await agent.executeWithPipeline(
         input,
         currentContext,
@@ -492,6 +697,7 @@ export class MaestroAgent extends Agent {
       totalTokens.input += response.tokensUsed.input;
       totalTokens.output += response.tokensUsed.output;
       totalCost += response.cost.usd;
+      responses.push(response);
 
       // Update context with response
       currentContext = contextManager.updateContext(
@@ -501,13 +707,15 @@ export class MaestroAgent extends Agent {
       );
     }
 
-    return this.buildResponse(
+    const result = this.buildResponse(
       combinedContent.trim(),
       totalTokens,
       Date.now(),
       'flash',
       { strategy: 'sequential', agents: agentIds }
     );
+
+    return this.mergeAgentOutputs(result, responses);
   }
 
   /**
@@ -519,10 +727,11 @@ export class MaestroAgent extends Agent {
     context: AgentContext,
     options?: AgentExecutionOptions
   ): Promise<AgentResponse> {
-    const promises = agentIds.map(async (agentId) => {
+    const promises = agentIds.map(async (agentId, index) => {
       const agent = agentRegistry.get(agentId);
       if (!agent) return null;
 
+      this.emitAgentStart(agent, index + 1, agentIds.length, options);
       return await agent.executeWithPipeline(input, context, options);
     });
 
@@ -541,13 +750,54 @@ export class MaestroAgent extends Agent {
     );
     const totalCost = responses.reduce((acc, r) => acc + r.cost.usd, 0);
 
-    return this.buildResponse(
+    const result = this.buildResponse(
       combinedContent,
       totalTokens,
       Date.now(),
       'flash',
       { strategy: 'parallel', agents: agentIds }
     );
+
+    return this.mergeAgentOutputs(result, responses);
+  }
+
+  /**
+   * Carry visualizations, questions and session rows from sub-agents into the combined response
+   */
+  private mergeAgentOutputs(result: AgentResponse, responses: AgentResponse[]): AgentResponse {
+    const visualizations = responses.flatMap((r) => r.visualizations || []);
+    const questions = responses.flatMap((r) => r.questions || []);
+    const agentSessionIds = responses.flatMap((r) => {
+      const ids = r.metadata?.agentSessionIds;
+      return Array.isArray(ids) ? (ids as string[]) : [];
+    });
+
+    if (visualizations.length > 0) result.visualizations = visualizations;
+    if (questions.length > 0) result.questions = questions;
+    if (agentSessionIds.length > 0) {
+      result.metadata = { ...result.metadata, agentSessionIds };
+    }
+
+    return result;
+  }
+
+  /**
+   * Announce the agent about to run (agent switch in multi-agent strategies)
+   */
+  private emitAgentStart(
+    agent: Agent,
+    step: number,
+    totalSteps: number,
+    options?: AgentExecutionOptions
+  ): void {
+    this.emitEvent(options, {
+      type: 'agent_start',
+      agentId: agent.getId(),
+      agentName: agent.getConfig().name,
+      arabicName: agent.getArabicName(),
+      step,
+      totalSteps,
+    });
   }
 
   /**
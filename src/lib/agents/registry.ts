@@ -18,6 +18,9 @@ import {
   NarratorAgent,
 } from './tier1-content';
 
+// Tier 2: Learning Optimization
+import { SpacedRepetitionAgent, AdaptiveAssessorAgent } from './tier2-learning';
+
 /**
  * Initialize all agents and register them
  */
@@ -40,6 +43,13 @@ export function initializeAgents(): void {
   agentRegistry.register(problemDecomposer);
   agentRegistry.register(narrator);
 
+  // Tier 2: Learning Optimization
+  const spacedRepetition = new SpacedRepetitionAgent();
+  const adaptiveAssessor = new AdaptiveAssessorAgent();
+
+  agentRegistry.register(spacedRepetition);
+  agentRegistry.register(adaptiveAssessor);
+
   // Log initialization
   console.log(`[Agents] Initialized ${agentRegistry.count()} agents:`);
   agentRegistry.getAll().forEach((agent) => {
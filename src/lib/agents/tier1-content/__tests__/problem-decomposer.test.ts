@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptedLLMProvider } from '@/lib/llm';
+import { contextManager } from '@/lib/agents/base/context';
+import { ProblemDecomposerAgent } from '../problem-decomposer';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+describe('ProblemDecomposerAgent', () => {
+  it('runs the tool loop and reports graded answers as mastery observations', async () => {
+    const llm = new ScriptedLLMProvider().enqueue(
+      { functionCalls: [{ name: 'update_student_mastery', args: { kc_id: 'kc-1', correct: true } }] },
+      { text: 'الخطوة 1: نطرح 2 من الطرفين.\nالحل: x = 2' }
+    );
+    const agent = new ProblemDecomposerAgent();
+    agent.setLLMProvider(llm);
+
+    const input = 'حل المعادلة x + 2 = 4';
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    const result = await agent.execute(input, context);
+
+    expect(result.content).toContain('x = 2');
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[0]!.toolNames).toContain('update_student_mastery');
+    expect(result.metadata?.masteryObservations).toEqual([
+      { kcId: 'kc-1', correct: true, responseTimeSeconds: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScriptedLLMProvider, setLLMProvider } from '@/lib/llm';
+import { getAgent } from '@/lib/agents/registry';
+import { contextManager } from '@/lib/agents/base/context';
+import { InMemoryAgentMemoryStore } from '@/lib/agents/base/memory-store';
+import { SocraticAgent } from '../socratic';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const PIPELINE = { budgetStatus: 'ok', rateLimitChecked: true } as const;
+
+const HANDOFF_STEP = {
+  text: 'سأطلب من الراوي شرح الفكرة أولاً.',
+  functionCalls: [
+    { name: 'update_student_mastery', args: { kc_id: 'kc-1', correct: false } },
+    { name: 'handoff_to_agent', args: { agent_id: 'narrator', reason: 'يحتاج شرحاً قبل الأسئلة' } },
+  ],
+};
+
+describe('SocraticAgent handoff', () => {
+  let llm: ScriptedLLMProvider;
+
+  beforeEach(() => {
+    llm = new ScriptedLLMProvider({ fallback: { text: 'الكسر جزء من كل.' } });
+    setLLMProvider(llm);
+    contextManager.setMemoryStore(new InMemoryAgentMemoryStore());
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('runs the other calls of the step, then stops at the handoff', async () => {
+    llm.enqueue(HANDOFF_STEP);
+    const agent = new SocraticAgent();
+
+    const input = 'لا أفهم الكسور';
+    const result = await agent.execute(input, contextManager.buildContext({ userId: USER_ID, input }));
+
+    expect(llm.calls).toHaveLength(1);
+    expect(result.handoff).toMatchObject({ toAgentId: 'narrator' });
+    expect(result.metadata?.masteryObservations).toEqual([
+      { kcId: 'kc-1', correct: false, responseTimeSeconds: undefined },
+    ]);
+    const [step] = result.metadata?.toolTrace as Array<{ calls: Array<{ name: string }> }>;
+    expect(step!.calls.map((call) => call.name)).toEqual(['update_student_mastery']);
+  });
+
+  it('is followed by Maestro', async () => {
+    llm.enqueue(
+      { functionCalls: [{ name: 'handoff_to_agent', args: { agent_id: 'socratic', reason: 'تمرين' } }] },
+      HANDOFF_STEP
+    );
+
+    const input = 'لا أفهم الكسور';
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    const result = await getAgent('maestro')!.executeWithPipeline(input, context, PIPELINE);
+
+    expect(result.metadata).toMatchObject({ strategy: 'handoff', agents: ['socratic', 'narrator'] });
+    expect(result.content).toContain('سأطلب من الراوي');
+    expect(result.content).toContain('الكسر جزء من كل');
+  });
+});
@@ -9,7 +9,15 @@
  */
 
 import { Agent } from '../base/agent';
-
+import {
+  retrieveFromCorpus,
+  buildCitations,
+  formatCitationsForPrompt,
+  findUnsupportedClaims,
+  type Citation,
+} from '@/lib/knowledge/citations';
+
+import { AgentErrorCode } from '../base/types';
 import type {
   AgentConfig,
   AgentContext,
@@ -290,17 +298,26 @@ export class NarratorAgent extends Agent {
     // Find relevant historical figure
     const relevantFigure = this.findRelevantFigure(input);
 
+    // Retrieve sources for dates and achievements (the figure's name helps matching)
+    const citations = buildCitations(
+      context.knowledgePassages || [],
+      retrieveFromCorpus(
+        [input, relevantFigure?.name, relevantFigure?.nameEn].filter(Boolean).join(' ')
+      )
+    );
+
     // Build prompt
-    const prompt = this.buildNarratorPrompt(input, context, relevantFigure);
+    const prompt = this.buildNarratorPrompt(input, context, relevantFigure, citations);
 
     try {
       // Generate narrative
       const { content, tokensUsed, durationMs } = await this.generateContent(
         prompt,
         {
-          model: options?.model || this.config.defaultModel,
+          model: this.selectModel(options),
           temperature: options?.temperature ?? this.config.temperature,
           useCache: options?.useCache ?? true,
+          onToken: this.createTokenHandler(options),
         }
       );
 
@@ -309,13 +326,13 @@ export class NarratorAgent extends Agent {
         content,
         tokensUsed,
         durationMs,
-        options?.model || this.config.defaultModel,
-        { relevantFigure: relevantFigure?.name }
+        this.selectModel(options),
+        { relevantFigure: relevantFigure?.name, citations }
       );
 
       return agentResponse;
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
@@ -379,7 +396,8 @@ export class NarratorAgent extends Agent {
   private buildNarratorPrompt(
     input: string,
     context: AgentContext,
-    figure: typeof HISTORICAL_FIGURES[keyof typeof HISTORICAL_FIGURES] | null
+    figure: typeof HISTORICAL_FIGURES[keyof typeof HISTORICAL_FIGURES] | null,
+    citations: Citation[]
   ): string {
     const parts: string[] = [];
 
@@ -398,9 +416,15 @@ export class NarratorAgent extends Agent {
       parts.push(`**القصة:** ${figure.story}\n`);
     }
 
-    // Add base prompt
+    // Add base prompt (includes knowledge base passages, numbered first)
     parts.push(this.buildPrompt(input, context));
 
+    // Add curated sources
+    const sources = formatCitationsForPrompt(citations, (context.knowledgePassages?.length ?? 0) + 1);
+    if (sources) {
+      parts.push(sources);
+    }
+
     // Add instructions
     parts.push(`
 
@@ -410,7 +434,9 @@ export class NarratorAgent extends Agent {
 3. اشرح المفهوم بالتفصيل
 4. اختم بتأثير هذا العالم على العلم الحديث
 5. استخدم لغة سردية جذابة ومشوقة
-6. كن دقيقاً تاريخياً ولا تبالغ`);
+6. كن دقيقاً تاريخياً ولا تبالغ
+7. خذ التواريخ والأرقام والإنجازات من المصادر الموثقة فقط، واذكر رقم المصدر بعد المعلومة مثل [1]
+8. إذا لم تجد المعلومة في المصادر فلا تذكر تاريخاً أو رقماً محدداً`);
 
     return parts.join('\n');
   }
@@ -445,6 +471,10 @@ export class NarratorAgent extends Agent {
       issues.push('Narrative too short for storytelling');
     }
 
+    // Dates, figures and cited statements must be backed by a retrieved source
+    const citations = (response.metadata?.citations as Citation[] | undefined) || [];
+    issues.push(...findUnsupportedClaims(response.content, citations, { checkDates: true }));
+
     const confidence = Math.max(0, 1 - issues.length * 0.2);
 
     return {
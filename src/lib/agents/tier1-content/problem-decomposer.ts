@@ -9,7 +9,16 @@
  */
 
 import { Agent } from '../base/agent';
-
+import { AGENT_TOOLS, type FunctionImplementation } from '@/lib/gemini/function-calling';
+import {
+  retrieveFromCorpus,
+  buildCitations,
+  formatCitationsForPrompt,
+  findUnsupportedClaims,
+  type Citation,
+} from '@/lib/knowledge/citations';
+
+import { AgentErrorCode } from '../base/types';
 import type {
   AgentConfig,
   AgentContext,
@@ -227,6 +236,7 @@ const PROBLEM_DECOMPOSER_CONFIG: AgentConfig = {
 
 استجب دائماً بخطوات واضحة ومنظمة.`,
   capabilities: [],
+  tools: [AGENT_TOOLS.problem_decomposer],
   temperature: 0.3, // Low temperature for accuracy
   maxTokens: 4000, // Allow for detailed solutions
   cachedSystemPrompt: true,
@@ -253,39 +263,60 @@ export class ProblemDecomposerAgent extends Agent {
     // Detect problem type
     const problemType = this.detectProblemType(input);
 
+    // Retrieve the formulas and rules the solution may rely on
+    const citations = buildCitations(
+      context.knowledgePassages || [],
+      retrieveFromCorpus(`${input} ${problemType}`, {
+        subjects: ['math', 'physics', 'chemistry'],
+        limit: 2,
+      })
+    );
+
     // Build prompt
-    const prompt = this.buildDecomposerPrompt(input, context, problemType);
+    const prompt = this.buildDecomposerPrompt(input, context, problemType, citations);
 
     try {
-      // Generate step-by-step solution
-      const { content, tokensUsed, durationMs } = await this.generateContent(
-        prompt,
-        {
-          model: options?.model || this.config.defaultModel,
-          temperature: options?.temperature ?? this.config.temperature,
-          maxTokens: options?.maxTokens ?? this.config.maxTokens,
-          useCache: options?.useCache ?? true,
-        }
-      );
+      // Generate step-by-step solution (function calling grades student attempts;
+      // tool results go back to the model so it still writes the solution)
+      const response = await this.runToolLoop(prompt, this.buildToolImplementations(), {
+        model: this.selectModel(options),
+        temperature: options?.temperature,
+        maxOutputTokens: options?.maxTokens ?? this.config.maxTokens,
+        onToken: this.createTokenHandler(options),
+      });
 
       // Parse steps from response
-      const decomposition = this.parseDecomposition(content);
+      const decomposition = this.parseDecomposition(response.content);
+
+      // Graded solution attempts (applied to BKT in updateMemory)
+      const masteryObservations = this.extractMasteryObservations(response.functionCalls);
 
       // Build response
+      const durationMs = Date.now() - startTime;
       const agentResponse = this.buildResponse(
-        content,
-        tokensUsed,
+        response.content,
+        response.tokensUsed,
         durationMs,
-        options?.model || this.config.defaultModel,
-        { problemType, decomposition }
+        response.model,
+        { problemType, decomposition, masteryObservations, citations, toolTrace: response.steps }
       );
 
       return agentResponse;
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
+  /**
+   * Implementations for AGENT_TOOLS.problem_decomposer
+   * Mastery is recorded in updateMemory, after the answer
+   */
+  private buildToolImplementations(): Record<string, FunctionImplementation> {
+    return {
+      update_student_mastery: async (args) => ({ status: 'pending', kc_id: args.kc_id }),
+    };
+  }
+
   /**
    * Detect problem type
    */
@@ -335,7 +366,8 @@ export class ProblemDecomposerAgent extends Agent {
   private buildDecomposerPrompt(
     input: string,
     context: AgentContext,
-    problemType: string
+    problemType: string,
+    citations: Citation[]
   ): string {
     const parts: string[] = [];
 
@@ -347,15 +379,21 @@ export class ProblemDecomposerAgent extends Agent {
       parts.push(`اللهجة المفضلة: ${context.dialect}`);
     }
 
-    // Add base prompt
+    // Add base prompt (includes knowledge base passages, numbered first)
     parts.push(this.buildPrompt(input, context));
 
+    // Add curated sources
+    const sources = formatCitationsForPrompt(citations, (context.knowledgePassages?.length ?? 0) + 1);
+    if (sources) {
+      parts.push(sources);
+    }
+
     // Add specific instructions
     parts.push(`
 
 تعليمات:
 1. ابدأ بفهم المسألة: ما المعطيات؟ ما المطلوب؟
-2. حدد الاستراتيجية والصيغ المطلوبة
+2. حدد الاستراتيجية والصيغ المطلوبة (إذا أخذت صيغة أو قاعدة من المصادر فاذكر رقمها مثل [1])
 3. حلّل المسألة إلى خطوات واضحة
 4. اشرح كل خطوة بالتفصيل مع الحسابات
 5. تحقق من الحل النهائي
@@ -367,6 +405,8 @@ export class ProblemDecomposerAgent extends Agent {
 [الحسابات]
 [النتيجة]`);
 
+    parts.push(this.buildGradingInstructions(context));
+
     return parts.join('\n');
   }
 
@@ -382,7 +422,7 @@ export class ProblemDecomposerAgent extends Agent {
     let stepNumber = 1;
 
     while ((match = stepRegex.exec(content)) !== null) {
-      const title = match[2].trim();
+      const title = (match[2] ?? '').trim();
 
       steps.push({
         stepNumber,
@@ -398,7 +438,7 @@ export class ProblemDecomposerAgent extends Agent {
 
     // Extract final answer
     const finalAnswerMatch = content.match(/الحل النهائي:(.+?)(?:\n|$)/);
-    const finalAnswer = finalAnswerMatch ? finalAnswerMatch[1].trim() : '';
+    const finalAnswer = finalAnswerMatch?.[1]?.trim() ?? '';
 
     return {
       problemType: 'general',
@@ -428,10 +468,15 @@ export class ProblemDecomposerAgent extends Agent {
 
     // Check for mathematical notation
     const hasMath = /\d+|[+\-*/=()]/.test(response.content);
-    if (!hasMath && response.metadata?.problemType?.includes('رياضية')) {
+    const problemType = response.metadata?.problemType;
+    if (!hasMath && typeof problemType === 'string' && problemType.includes('رياضية')) {
       issues.push('Mathematical problem missing calculations');
     }
 
+    // Cited formulas and rules must match the cited source
+    const citations = (response.metadata?.citations as Citation[] | undefined) || [];
+    issues.push(...findUnsupportedClaims(response.content, citations));
+
     const confidence = Math.max(0, 1 - issues.length * 0.2);
 
     return {
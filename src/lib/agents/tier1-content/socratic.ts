@@ -9,8 +9,10 @@
  */
 
 import { Agent } from '../base/agent';
-import { AGENT_TOOLS } from '@/lib/gemini/function-calling';
+import { fromAgentType } from '../base/utils';
+import { AGENT_TOOLS, type FunctionImplementation } from '@/lib/gemini/function-calling';
 
+import { AgentErrorCode } from '../base/types';
 import type {
   AgentConfig,
   AgentContext,
@@ -189,20 +191,20 @@ export class SocraticAgent extends Agent {
     const prompt = this.buildSocraticPrompt(input, context, studentLevel);
 
     try {
-      // Generate Socratic questions using function calling
-      const response = await this.gemini.generateWithFunctionCalling(
-        prompt,
-        {
-          model: options?.model || this.config.defaultModel,
-          systemInstruction: this.config.systemPrompt,
-          tools: this.config.tools,
-          temperature: options?.temperature ?? this.config.temperature,
-        }
-      );
+      // Generate Socratic questions using function calling (tool results go back to the model)
+      const response = await this.runToolLoop(prompt, this.buildToolImplementations(), {
+        model: this.selectModel(options),
+        temperature: options?.temperature,
+        onToken: this.createTokenHandler(options),
+        stopOnTools: ['handoff_to_agent'], // Maestro runs the agent handed to
+      });
 
       // Parse questions from function calls
       const questions = this.parseQuestions(response.functionCalls || []);
 
+      // Graded answers to earlier questions (applied to BKT in updateMemory)
+      const masteryObservations = this.extractMasteryObservations(response.functionCalls || []);
+
       // Build response
       const durationMs = Date.now() - startTime;
       const agentResponse = this.buildResponse(
@@ -210,17 +212,42 @@ export class SocraticAgent extends Agent {
         response.tokensUsed,
         durationMs,
         response.model,
-        { questions, studentLevel }
+        { questions, studentLevel, masteryObservations, toolTrace: response.steps }
       );
 
       agentResponse.questions = questions;
 
+      const handoff = response.functionCalls.find((call) => call.name === 'handoff_to_agent');
+      if (handoff) {
+        agentResponse.handoff = {
+          // handoff_to_agent uses agent_type values (problem_decomposer)
+          toAgentId: fromAgentType(String(handoff.args.agent_id)),
+          reason: String(handoff.args.reason ?? ''),
+          context: (handoff.args.context as Record<string, unknown> | undefined) ?? {},
+        };
+      }
+
       return agentResponse;
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
+  /**
+   * Implementations for AGENT_TOOLS.socratic
+   * Questions are collected from the calls; mastery is recorded in updateMemory;
+   * handoff_to_agent ends the loop and is followed by Maestro
+   */
+  private buildToolImplementations(): Record<string, FunctionImplementation> {
+    let questionCount = 0;
+
+    return {
+      ask_socratic_question: async () => ({ shown: true, questionNumber: ++questionCount }),
+      // Recorded after the answer (updateMemory), so the update is still pending here
+      update_student_mastery: async (args) => ({ status: 'pending', kc_id: args.kc_id }),
+    };
+  }
+
   /**
    * Determine student level from context
    */
@@ -291,6 +318,8 @@ export class SocraticAgent extends Agent {
 5. قدم تلميحات إذا لزم الأمر
 6. استخدم function calling لإرجاع الأسئلة`);
 
+    parts.push(this.buildGradingInstructions(context));
+
     return parts.join('\n');
   }
 
@@ -10,8 +10,9 @@
  */
 
 import { Agent } from '../base/agent';
-import { AGENT_TOOLS } from '@/lib/gemini/function-calling';
+import { AGENT_TOOLS, type FunctionImplementation } from '@/lib/gemini/function-calling';
 
+import { AgentErrorCode } from '../base/types';
 import type {
   AgentConfig,
   AgentContext,
@@ -168,16 +169,12 @@ export class VisualizerAgent extends Agent {
     const prompt = this.buildVisualizerPrompt(input, context);
 
     try {
-      // Generate visualization using function calling
-      const response = await this.gemini.generateWithFunctionCalling(
-        prompt,
-        {
-          model: options?.model || this.config.defaultModel,
-          systemInstruction: this.config.systemPrompt,
-          tools: this.config.tools,
-          temperature: options?.temperature ?? this.config.temperature,
-        }
-      );
+      // Generate visualization using function calling (tool results go back to the model)
+      const response = await this.runToolLoop(prompt, this.buildToolImplementations(), {
+        model: this.selectModel(options),
+        temperature: options?.temperature,
+        onToken: this.createTokenHandler(options),
+      });
 
       // Parse visualizations from function calls
       const visualizations = this.parseVisualizations(response.functionCalls || []);
@@ -189,17 +186,31 @@ export class VisualizerAgent extends Agent {
         response.tokensUsed,
         durationMs,
         response.model,
-        { visualizations }
+        { visualizations, toolTrace: response.steps }
       );
 
       agentResponse.visualizations = visualizations;
 
       return agentResponse;
     } catch (error) {
-      throw this.wrapError(error as Error, 'MODEL_ERROR');
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
     }
   }
 
+  /**
+   * Implementations for AGENT_TOOLS.visualizer
+   * Visualizations are rendered client-side; the tool confirms what will be shown
+   */
+  private buildToolImplementations(): Record<string, FunctionImplementation> {
+    return {
+      generate_visualization: async (args) => ({
+        rendered: true,
+        type: args.type,
+        title: args.title,
+      }),
+    };
+  }
+
   /**
    * Build visualizer-specific prompt
    */
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScriptedLLMProvider, setLLMProvider } from '@/lib/llm';
+import { contextManager } from '@/lib/agents/base/context';
+import { InMemoryAgentMemoryStore } from '@/lib/agents/base/memory-store';
+import { getAgent } from '@/lib/agents/registry';
+import * as db from '@/lib/supabase/database';
+import * as mastery from '@/lib/learning/mastery';
+import { AdaptiveAssessorAgent } from '../adaptive-assessor';
+
+vi.mock('@/lib/supabase/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase/database')>()),
+  getKnowledgeComponentsByIds: vi.fn(),
+}));
+
+vi.mock('@/lib/learning/mastery', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/learning/mastery')>()),
+  recordMasteryObservation: vi.fn(async (_userId: string, observation: { kcId: string; correct: boolean }) => ({
+    kcId: observation.kcId,
+    correct: observation.correct,
+    pKnowBefore: 0.5,
+    pKnowAfter: 0.6,
+  })),
+  resolveKnowledgeComponentId: vi.fn(async (kcId: unknown) => (typeof kcId === 'string' ? kcId : null)),
+}));
+
+vi.mock('@/lib/learning/study-sessions', () => ({
+  recordStudyActivity: vi.fn(),
+}));
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const KC_ID = '00000000-0000-0000-0000-0000000000aa';
+const PIPELINE = { budgetStatus: 'ok', rateLimitChecked: true } as const;
+
+type KnowledgeComponent = Awaited<ReturnType<typeof db.getKnowledgeComponentsByIds>>[number];
+
+const KC = {
+  id: KC_ID,
+  code: 'MATH_QUADRATIC',
+  name_ar: 'المعادلات التربيعية',
+  name_en: 'Quadratic equations',
+  subject: 'math',
+  topic: 'algebra',
+  prerequisites: [],
+  difficulty: 'intermediate',
+  learning_objectives: [],
+  common_misconceptions: [],
+} as unknown as KnowledgeComponent;
+
+const ITEM = { text: '{"question": "حل x² = 9", "answer": "x = ±3"}' };
+
+describe('AdaptiveAssessorAgent', () => {
+  let llm: ScriptedLLMProvider;
+  let agent: AdaptiveAssessorAgent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    llm = new ScriptedLLMProvider();
+    setLLMProvider(llm);
+    contextManager.setMemoryStore(new InMemoryAgentMemoryStore());
+    agent = new AdaptiveAssessorAgent();
+    vi.mocked(db.getKnowledgeComponentsByIds).mockResolvedValue([KC]);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  function buildContext(input: string) {
+    const context = contextManager.buildContext({ userId: USER_ID, input });
+    context.activeKnowledgeComponents = [KC_ID];
+    return context;
+  }
+
+  it('starts on the KC the message was tagged with', async () => {
+    llm.enqueue(ITEM);
+
+    const context = buildContext('قيّمني في المعادلات التربيعية');
+    const result = await agent.execute('قيّمني في المعادلات التربيعية', context);
+
+    expect(result.metadata).toMatchObject({ assessmentStatus: 'in_progress', targetKcId: KC_ID });
+    expect(await agent.hasActiveSession(context)).toBe(true);
+  });
+
+  it('keeps the state and records nothing when the turn fails after grading', async () => {
+    llm.enqueue(ITEM);
+    await agent.execute('ابدأ', buildContext('ابدأ'));
+
+    // Graded, then the next item cannot be generated
+    llm.enqueue({ text: '1' }, { error: 'model unavailable' });
+    await expect(agent.execute('x = ±3', buildContext('x = ±3'))).rejects.toThrow();
+    expect(mastery.recordMasteryObservation).not.toHaveBeenCalled();
+
+    // The retry grades the same item once
+    llm.enqueue({ text: '1' }, ITEM);
+    const retried = await agent.execute('x = ±3', buildContext('x = ±3'));
+
+    expect(retried.metadata).toMatchObject({ lastAnswerCorrect: true, itemsAsked: 2 });
+    expect(mastery.recordMasteryObservation).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the state when the closing summary cannot load its KCs', async () => {
+    llm.enqueue(ITEM);
+    const context = buildContext('ابدأ');
+    await agent.execute('ابدأ', context);
+
+    vi.mocked(db.getKnowledgeComponentsByIds).mockRejectedValueOnce(new Error('connection reset'));
+    await expect(agent.execute('توقف', buildContext('توقف'))).rejects.toThrow();
+    expect(await agent.hasActiveSession(context)).toBe(true);
+
+    const finished = await agent.execute('توقف', buildContext('توقف'));
+    expect(finished.metadata?.assessmentStatus).toBe('completed');
+    expect(await agent.hasActiveSession(context)).toBe(false);
+  });
+
+  it('is chosen by Maestro while an item waits for an answer', async () => {
+    llm.enqueue(ITEM);
+    await getAgent('adaptive-assessor')!.execute('ابدأ', buildContext('ابدأ'));
+
+    llm.enqueue({ text: '1' }, ITEM);
+    const result = await getAgent('maestro')!.executeWithPipeline(
+      'x = ±3',
+      buildContext('x = ±3'),
+      PIPELINE
+    );
+
+    expect(result.agentId).toBe('adaptive-assessor');
+    expect(llm.calls.every((call) => call.method !== 'generateWithFunctionCalling')).toBe(true);
+  });
+});
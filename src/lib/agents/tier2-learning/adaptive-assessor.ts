@@ -0,0 +1,649 @@
+/**
+ * Adaptive Assessor Agent - المُقَيِّم
+ *
+ * Runs short adaptive assessments for a knowledge component.
+ * Asks one question at a time, raises or lowers item difficulty based on the
+ * student's answers, drops down to weak prerequisites when the target KC looks
+ * unknown, and stops as soon as the estimate is confident enough.
+ *
+ * Arabic Name: المُقَيِّم (The Assessor)
+ * Tier: 2 - Learning Optimization
+ */
+
+import { Agent } from '../base/agent';
+import { contextManager } from '../base/context';
+import { logAgentActivity, safeJSONParse } from '../base/utils';
+import { updateKnowledge } from '@/lib/learning/bkt';
+import { resolveKnowledgeComponentId, type MasteryObservation } from '@/lib/learning/mastery';
+import { getKnowledgeComponentsByIds } from '@/lib/supabase/database';
+
+import { AgentErrorCode } from '../base/types';
+import type { Database } from '@/types/supabase';
+import type {
+  AgentConfig,
+  AgentContext,
+  AgentResponse,
+  AgentExecutionOptions,
+  AssessmentResult,
+  GeminiModel,
+  ValidationResult,
+} from '../base/types';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+type DifficultyLevel = Database['public']['Enums']['difficulty_level'];
+
+/**
+ * Item difficulty (each level has its own slip/guess rates)
+ */
+type ItemDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Question currently awaiting an answer
+ */
+interface AssessmentItem {
+  kcId: string;
+  difficulty: ItemDifficulty;
+  question: string;
+  expectedAnswer: string;
+  askedAt: string;
+}
+
+/**
+ * Running estimate for one knowledge component
+ */
+interface KCEstimate {
+  kcId: string;
+  estimate: number; // P(known) from this assessment
+  evidenceCount: number;
+  correctCount: number;
+  difficulty: ItemDifficulty; // Difficulty of the next item
+}
+
+/**
+ * Assessment session state (persisted between turns in agent memory)
+ */
+interface AssessmentState {
+  targetKcId: string;
+  queue: string[]; // KCs to assess, in order
+  estimates: Record<string, KCEstimate>;
+  currentItem: AssessmentItem | null;
+  itemsAsked: number;
+  startedAt: string;
+}
+
+const STATE_KEY = 'assessment_state';
+const STATE_TTL_MS = 2 * 60 * 60 * 1000;
+
+const CONFIDENCE_THRESHOLD = 0.9; // Stop assessing a KC at this confidence
+const MIN_ITEMS_PER_KC = 2;
+const MAX_ITEMS_PER_KC = 5;
+const MAX_ITEMS_TOTAL = 12;
+const WEAK_ESTIMATE = 0.3; // Below this, probe prerequisites
+const PRIOR_ESTIMATE = 0.5; // Prior for KCs without history
+
+const DIFFICULTY_ORDER: ItemDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Starting item difficulty for a KC's difficulty level
+ */
+const LEVEL_DIFFICULTY: Record<DifficultyLevel, ItemDifficulty> = {
+  beginner: 'easy',
+  intermediate: 'medium',
+  advanced: 'hard',
+  expert: 'hard',
+};
+
+/**
+ * Slip/guess rates per item difficulty (harder items: more slips, fewer guesses)
+ */
+const ITEM_PARAMETERS: Record<ItemDifficulty, { pSlip: number; pGuess: number }> = {
+  easy: { pSlip: 0.05, pGuess: 0.35 },
+  medium: { pSlip: 0.1, pGuess: 0.25 },
+  hard: { pSlip: 0.2, pGuess: 0.15 },
+};
+
+const DIFFICULTY_LABELS: Record<ItemDifficulty, string> = {
+  easy: 'سهل',
+  medium: 'متوسط',
+  hard: 'صعب',
+};
+
+const STOP_PATTERN = /^(توقف|أوقف|انهِ|إنهاء|كفى|stop|quit)(?!\p{L})/iu; // \b is ASCII-only
+
+/**
+ * Adaptive Assessor Agent Configuration
+ */
+const ADAPTIVE_ASSESSOR_CONFIG: AgentConfig = {
+  id: 'adaptive-assessor',
+  name: 'Adaptive Assessor',
+  arabicName: 'المُقَيِّم',
+  description: 'Assesses knowledge adaptively, adjusting difficulty and probing prerequisites',
+  tier: 'tier2-learning',
+  defaultModel: 'flash',
+  systemPrompt: `أنت المُقَيِّم - مسؤول التقييم التكيفي في منصة البيروني التعليمية.
+
+## دورك:
+تقيس مدى إتقان الطالب لمكوّن معرفي محدد بأقل عدد ممكن من الأسئلة.
+
+## قواعد كتابة الأسئلة:
+✅ سؤال واحد واضح يقيس المكوّن المعرفي المطلوب فقط
+✅ مستوى صعوبة مطابق للمطلوب (سهل / متوسط / صعب)
+✅ إجابة قصيرة يمكن تقييمها بوضوح
+✅ استهدف الأخطاء الشائعة في الأسئلة المتوسطة والصعبة
+
+❌ لا تكشف الإجابة في نص السؤال
+❌ لا تكرر سؤالاً سبق طرحه
+❌ لا تكتب أسئلة نعم/لا
+
+## التقييم:
+قيّم إجابة الطالب بإنصاف: الإجابة الصحيحة بصياغة مختلفة تُعد صحيحة.`,
+  capabilities: ['assessment'],
+  temperature: 0.4,
+  cachedSystemPrompt: true,
+};
+
+/**
+ * Adaptive Assessor Agent
+ */
+export class AdaptiveAssessorAgent extends Agent {
+  constructor() {
+    super(ADAPTIVE_ASSESSOR_CONFIG);
+  }
+
+  /**
+   * Execute an assessment turn
+   */
+  async execute(
+    input: string,
+    context: AgentContext,
+    options?: AgentExecutionOptions
+  ): Promise<AgentResponse> {
+    // The session state and graded answers are persisted only once nothing else
+    // in the turn can fail: a failed turn is retried and would otherwise grade
+    // the answer against a state that has already moved on
+    const observations: MasteryObservation[] = [];
+
+    try {
+      const turn = await this.runTurn(input, context, this.selectModel(options), observations);
+      await this.setState(context, turn.state);
+      await this.recordMastery(context, observations);
+      return turn.response;
+    } catch (error) {
+      throw this.wrapError(error as Error, AgentErrorCode.MODEL_ERROR);
+    }
+  }
+
+  /**
+   * Grade the pending answer, then ask the next item or finish
+   * (graded answers are added to observations, and the state to save is
+   * returned; nothing is persisted here)
+   */
+  private async runTurn(
+    input: string,
+    context: AgentContext,
+    model: GeminiModel,
+    observations: MasteryObservation[]
+  ): Promise<{ response: AgentResponse; state: AssessmentState | null }> {
+    const startTime = Date.now();
+    const tokensUsed = { input: 0, output: 0 };
+    const parts: string[] = [];
+
+    let state = await this.getState(context);
+    let lastAnswerCorrect: boolean | undefined;
+
+    // 1. Grade the answer to the current item
+    if (state?.currentItem) {
+      if (STOP_PATTERN.test(input.trim())) {
+        state.currentItem = null;
+        return { response: await this.finish(state, parts, tokensUsed, startTime, model), state: null };
+      }
+
+      const graded = await this.gradeAnswer(state.currentItem, input);
+      tokensUsed.input += graded.tokensUsed.input;
+      tokensUsed.output += graded.tokensUsed.output;
+      lastAnswerCorrect = graded.correct;
+
+      observations.push(await this.applyAnswer(state, state.currentItem, context, graded.correct));
+      parts.push(
+        graded.correct
+          ? '✅ إجابة صحيحة!'
+          : `❌ ليست صحيحة تماماً. الإجابة المتوقعة: ${state.currentItem.expectedAnswer}`
+      );
+      state.currentItem = null;
+    }
+
+    // 2. Start a new assessment
+    if (!state) {
+      state = await this.startAssessment(input, context);
+      if (!state) {
+        const durationMs = Date.now() - startTime;
+        const response = this.buildResponse(
+          'حدّد المهارة أو الموضوع الذي تريد تقييمه (مثلاً: "قيّمني في المعادلات التربيعية").',
+          tokensUsed,
+          durationMs,
+          model,
+          { assessmentStatus: 'needs_topic' }
+        );
+        return { response, state: null };
+      }
+      parts.push('📝 لنبدأ تقييماً قصيراً. أجب عن كل سؤال بأفضل ما تستطيع، واكتب "توقف" لإنهاء التقييم.');
+    }
+
+    // 3. Pick the next KC, or stop when confident
+    const nextKc = this.selectNextKC(state);
+    if (!nextKc) {
+      return { response: await this.finish(state, parts, tokensUsed, startTime, model), state: null };
+    }
+
+    // 4. Generate the next item
+    const kc = (await getKnowledgeComponentsByIds([nextKc.kcId]))[0];
+    if (!kc) {
+      state.queue = state.queue.filter((id) => id !== nextKc.kcId);
+      return { response: await this.finish(state, parts, tokensUsed, startTime, model), state: null };
+    }
+
+    // The first item of a KC starts from the KC's own difficulty
+    if (nextKc.evidenceCount === 0) {
+      nextKc.difficulty = this.startingDifficulty(kc, nextKc.estimate);
+    }
+
+    const item = await this.generateItem(kc, nextKc.difficulty, context, model);
+    tokensUsed.input += item.tokensUsed.input;
+    tokensUsed.output += item.tokensUsed.output;
+
+    state.currentItem = item.item;
+    state.itemsAsked += 1;
+
+    parts.push(this.formatItem(kc, item.item, state.itemsAsked));
+
+    const durationMs = Date.now() - startTime;
+    const response = this.buildResponse(parts.join('\n\n'), tokensUsed, durationMs, model, {
+      assessmentStatus: 'in_progress',
+      targetKcId: state.targetKcId,
+      currentKcId: item.item.kcId,
+      itemDifficulty: item.item.difficulty,
+      itemsAsked: state.itemsAsked,
+      lastAnswerCorrect,
+    });
+    return { response, state };
+  }
+
+  /**
+   * Resolve the target KC and seed the assessment queue. The target is a KC
+   * code named in the message, otherwise the KC the message was tagged with
+   * ("قيّمني في المعادلات التربيعية" is routed here by Maestro and tagged)
+   */
+  private async startAssessment(
+    input: string,
+    context: AgentContext
+  ): Promise<AssessmentState | null> {
+    const code = input.trim().split(/\s+/).find((word) => /^[A-Z][A-Z0-9_]+$/.test(word));
+    const targetKcId =
+      (code ? await resolveKnowledgeComponentId(code) : null) ??
+      context.activeKnowledgeComponents?.[0] ??
+      null;
+    if (!targetKcId) return null;
+
+    const state: AssessmentState = {
+      targetKcId,
+      queue: [targetKcId],
+      estimates: {},
+      currentItem: null,
+      itemsAsked: 0,
+      startedAt: new Date().toISOString(),
+    };
+    state.estimates[targetKcId] = this.createEstimate(targetKcId, context);
+
+    logAgentActivity(this.config.id, 'assessment_started', { targetKcId });
+    return state;
+  }
+
+  /**
+   * Seed an estimate from known mastery (kept away from 0/1 so evidence can move it);
+   * the item difficulty is set from the KC before its first item
+   */
+  private createEstimate(kcId: string, context: AgentContext): KCEstimate {
+    const known = context.masteryLevels?.[kcId];
+    const estimate =
+      typeof known === 'number' && known > 0
+        ? Math.min(0.9, Math.max(0.1, known))
+        : PRIOR_ESTIMATE;
+
+    return {
+      kcId,
+      estimate,
+      evidenceCount: 0,
+      correctCount: 0,
+      difficulty: 'medium',
+    };
+  }
+
+  /**
+   * First item difficulty: the KC's difficulty level, one step easier or
+   * harder when the student's mastery is already low or high
+   */
+  private startingDifficulty(kc: KnowledgeComponent, estimate: number): ItemDifficulty {
+    const base = DIFFICULTY_ORDER.indexOf(LEVEL_DIFFICULTY[kc.difficulty ?? 'beginner']);
+    const level = base + (estimate >= 0.7 ? 1 : estimate <= 0.3 ? -1 : 0);
+
+    return DIFFICULTY_ORDER[Math.min(DIFFICULTY_ORDER.length - 1, Math.max(0, level))] ?? 'medium';
+  }
+
+  /**
+   * Update the estimate and adapt difficulty; returns the observation to record
+   */
+  private async applyAnswer(
+    state: AssessmentState,
+    item: AssessmentItem,
+    context: AgentContext,
+    correct: boolean
+  ): Promise<MasteryObservation> {
+    const estimate = state.estimates[item.kcId] ?? this.createEstimate(item.kcId, context);
+
+    // No learning transition: a question alone does not teach the KC
+    const update = updateKnowledge(
+      { pKnow: estimate.estimate, pLearn: 0, ...ITEM_PARAMETERS[item.difficulty] },
+      correct
+    );
+
+    estimate.estimate = update.pKnowAfter;
+    estimate.evidenceCount += 1;
+    estimate.correctCount += correct ? 1 : 0;
+
+    const level = DIFFICULTY_ORDER.indexOf(item.difficulty) + (correct ? 1 : -1);
+    estimate.difficulty =
+      DIFFICULTY_ORDER[Math.min(DIFFICULTY_ORDER.length - 1, Math.max(0, level))] ?? 'medium';
+
+    state.estimates[item.kcId] = estimate;
+
+    // A KC that looks unknown: probe its prerequisites to find the gap
+    if (
+      estimate.evidenceCount >= MIN_ITEMS_PER_KC &&
+      estimate.estimate < WEAK_ESTIMATE
+    ) {
+      await this.enqueuePrerequisites(state, item.kcId, context);
+    }
+
+    return {
+      kcId: item.kcId,
+      correct,
+      responseTimeSeconds: Math.round((Date.now() - new Date(item.askedAt).getTime()) / 1000),
+    };
+  }
+
+  /**
+   * Add unmastered prerequisites, weakest first
+   */
+  private async enqueuePrerequisites(
+    state: AssessmentState,
+    kcId: string,
+    context: AgentContext
+  ): Promise<void> {
+    const [kc] = await getKnowledgeComponentsByIds([kcId]);
+    if (!kc?.prerequisites?.length) return;
+
+    const candidates = kc.prerequisites
+      .filter((id) => !state.queue.includes(id))
+      .filter((id) => (context.masteryLevels?.[id] ?? 0) < 0.95)
+      .sort((a, b) => (context.masteryLevels?.[a] ?? 0) - (context.masteryLevels?.[b] ?? 0));
+
+    for (const id of candidates) {
+      state.queue.push(id);
+      state.estimates[id] = this.createEstimate(id, context);
+    }
+
+    if (candidates.length > 0) {
+      logAgentActivity(this.config.id, 'prerequisites_enqueued', {
+        kcId,
+        prerequisites: candidates,
+      });
+    }
+  }
+
+  /**
+   * Next KC that still needs evidence (null when the assessment should stop)
+   */
+  private selectNextKC(state: AssessmentState): KCEstimate | null {
+    if (state.itemsAsked >= MAX_ITEMS_TOTAL) return null;
+
+    for (const kcId of state.queue) {
+      const estimate = state.estimates[kcId];
+      if (!estimate) continue;
+      if (estimate.evidenceCount >= MAX_ITEMS_PER_KC) continue;
+      if (
+        estimate.evidenceCount >= MIN_ITEMS_PER_KC &&
+        this.getConfidence(estimate) >= CONFIDENCE_THRESHOLD
+      ) {
+        continue;
+      }
+      return estimate;
+    }
+
+    return null;
+  }
+
+  /**
+   * Confidence = posterior probability of the more likely state (known / unknown)
+   */
+  private getConfidence(estimate: KCEstimate): number {
+    if (estimate.evidenceCount === 0) return 0;
+    return Math.max(estimate.estimate, 1 - estimate.estimate);
+  }
+
+  /**
+   * Generate one question for a KC at the given difficulty
+   */
+  private async generateItem(
+    kc: KnowledgeComponent,
+    difficulty: ItemDifficulty,
+    context: AgentContext,
+    model: GeminiModel
+  ): Promise<{ item: AssessmentItem; tokensUsed: { input: number; output: number } }> {
+    const parts: string[] = [
+      `المكوّن المعرفي: ${kc.name_ar} (${kc.code})`,
+      `المادة: ${kc.subject} - ${kc.topic}`,
+      `مستوى الصعوبة المطلوب: ${DIFFICULTY_LABELS[difficulty]}`,
+    ];
+
+    if (kc.description_ar) parts.push(`الوصف: ${kc.description_ar}`);
+    if (kc.learning_objectives?.length) {
+      parts.push(`أهداف التعلم: ${kc.learning_objectives.join('، ')}`);
+    }
+    if (kc.common_misconceptions?.length) {
+      parts.push(`أخطاء شائعة: ${kc.common_misconceptions.join('، ')}`);
+    }
+    if (context.dialect) parts.push(`اللهجة المفضلة: ${context.dialect}`);
+
+    parts.push(`
+اكتب سؤال تقييم واحداً. أجب بصيغة JSON فقط:
+{"question": "نص السؤال", "answer": "الإجابة الصحيحة المختصرة"}`);
+
+    const { content, tokensUsed } = await this.generateContent(parts.join('\n'), {
+      model,
+      temperature: this.config.temperature,
+    });
+
+    const json = content.match(/\{[\s\S]*\}/)?.[0] ?? '';
+    const parsed = safeJSONParse<{ question?: string; answer?: string }>(json, {});
+
+    if (!parsed.question || !parsed.answer) {
+      throw new Error('Failed to generate assessment item');
+    }
+
+    return {
+      item: {
+        kcId: kc.id,
+        difficulty,
+        question: parsed.question,
+        expectedAnswer: parsed.answer,
+        askedAt: new Date().toISOString(),
+      },
+      tokensUsed,
+    };
+  }
+
+  /**
+   * Grade a free-text answer against the expected answer
+   */
+  private async gradeAnswer(
+    item: AssessmentItem,
+    answer: string
+  ): Promise<{ correct: boolean; tokensUsed: { input: number; output: number } }> {
+    const prompt = `قيّم إجابة الطالب.
+
+السؤال: ${item.question}
+الإجابة الصحيحة: ${item.expectedAnswer}
+إجابة الطالب: ${answer}
+
+أجب بـ 1 إذا كانت الإجابة صحيحة، أو 0 إذا كانت خاطئة. رقم واحد فقط.`;
+
+    const { content, tokensUsed } = await this.generateContent(prompt, {
+      model: 'flash-lite',
+      temperature: 0,
+      maxTokens: 5,
+    });
+
+    return { correct: content.trim().startsWith('1'), tokensUsed };
+  }
+
+  /**
+   * Build AssessmentResult[] for the closing turn (the caller clears the state)
+   */
+  private async finish(
+    state: AssessmentState,
+    parts: string[],
+    tokensUsed: { input: number; output: number },
+    startTime: number,
+    model: GeminiModel
+  ): Promise<AgentResponse> {
+    const assessments = this.buildResults(state);
+    const kcs = await getKnowledgeComponentsByIds(assessments.map((a) => a.knowledgeComponentId));
+    parts.push(this.formatSummary(assessments, kcs));
+
+    logAgentActivity(this.config.id, 'assessment_completed', {
+      targetKcId: state.targetKcId,
+      itemsAsked: state.itemsAsked,
+      results: assessments.length,
+    });
+
+    const durationMs = Date.now() - startTime;
+    const response = this.buildResponse(parts.join('\n\n'), tokensUsed, durationMs, model, {
+      assessmentStatus: 'completed',
+      targetKcId: state.targetKcId,
+      itemsAsked: state.itemsAsked,
+    });
+    response.assessments = assessments;
+
+    return response;
+  }
+
+  private buildResults(state: AssessmentState): AssessmentResult[] {
+    return state.queue
+      .map((kcId) => state.estimates[kcId])
+      .filter((estimate): estimate is KCEstimate => !!estimate && estimate.evidenceCount > 0)
+      .map((estimate) => ({
+        knowledgeComponentId: estimate.kcId,
+        masteryEstimate: estimate.estimate,
+        confidence: this.getConfidence(estimate),
+        evidenceCount: estimate.evidenceCount,
+        recommendedNextReview: this.recommendNextReview(estimate.estimate),
+      }));
+  }
+
+  /**
+   * Weak KCs come back soon; solid ones can wait
+   */
+  private recommendNextReview(estimate: number): Date {
+    const days = estimate >= 0.9 ? 7 : estimate >= 0.6 ? 3 : 1;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private formatItem(kc: KnowledgeComponent, item: AssessmentItem, index: number): string {
+    return [
+      `### ❓ السؤال ${index} (${DIFFICULTY_LABELS[item.difficulty]}) - ${kc.name_ar}`,
+      item.question,
+    ].join('\n');
+  }
+
+  private formatSummary(assessments: AssessmentResult[], kcs: KnowledgeComponent[]): string {
+    if (assessments.length === 0) {
+      return 'انتهى التقييم قبل جمع إجابات كافية. يمكنك البدء من جديد في أي وقت.';
+    }
+
+    const names = new Map(kcs.map((kc) => [kc.id, kc.name_ar]));
+    const lines = ['### 📊 نتيجة التقييم'];
+
+    for (const result of assessments) {
+      const percent = Math.round(result.masteryEstimate * 100);
+      const icon = result.masteryEstimate >= 0.8 ? '🟢' : result.masteryEstimate >= 0.5 ? '🟡' : '🔴';
+      lines.push(
+        `${icon} **${names.get(result.knowledgeComponentId) ?? result.knowledgeComponentId}**: ${percent}% (${result.evidenceCount} أسئلة)`
+      );
+    }
+
+    const weakest = assessments.reduce((a, b) => (b.masteryEstimate < a.masteryEstimate ? b : a));
+    if (weakest.masteryEstimate < 0.5) {
+      lines.push(
+        `💡 أنصحك بمراجعة **${names.get(weakest.knowledgeComponentId) ?? weakest.knowledgeComponentId}** أولاً.`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * An item is waiting for the student's answer
+   */
+  async hasActiveSession(context: AgentContext): Promise<boolean> {
+    const state = await this.getState(context);
+    return !!state?.currentItem;
+  }
+
+  private async getState(context: AgentContext): Promise<AssessmentState | null> {
+    const memories = await contextManager.getMemory(context.userId, this.config.id, STATE_KEY);
+    const latest = memories[memories.length - 1];
+    const state = (latest?.value as AssessmentState | null | undefined) ?? null;
+
+    // A copy: the turn edits the state, which is saved only if the turn succeeds
+    return state && structuredClone(state);
+  }
+
+  private async setState(context: AgentContext, state: AssessmentState | null): Promise<void> {
+    const now = new Date();
+
+    await contextManager.storeMemory({
+      userId: context.userId,
+      agentId: this.config.id,
+      key: STATE_KEY,
+      value: state,
+      timestamp: now,
+      expiresAt: new Date(now.getTime() + STATE_TTL_MS),
+    });
+  }
+
+  /**
+   * Custom validation for assessment turns
+   */
+  protected async customValidation(response: AgentResponse): Promise<ValidationResult> {
+    const issues: string[] = [];
+
+    if (response.metadata?.assessmentStatus === 'completed') {
+      for (const result of response.assessments || []) {
+        if (result.evidenceCount < MIN_ITEMS_PER_KC) {
+          issues.push(`Low evidence for ${result.knowledgeComponentId} (${result.evidenceCount} item)`);
+        }
+        if (result.confidence < CONFIDENCE_THRESHOLD) {
+          issues.push(`Estimate for ${result.knowledgeComponentId} below confidence threshold`);
+        }
+      }
+    }
+
+    const confidence = Math.max(0, 1 - issues.length * 0.1);
+
+    return {
+      isValid: issues.length === 0,
+      confidence,
+      issues: issues.length > 0 ? issues : undefined,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Tier 2: Learning Optimization Agents
+ *
+ * Agents responsible for retention, assessment, and adapting
+ * the learning experience to each student's mastery.
+ */
+
+export { SpacedRepetitionAgent } from './spaced-repetition';
+export { AdaptiveAssessorAgent } from './adaptive-assessor';
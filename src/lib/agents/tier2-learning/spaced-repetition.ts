@@ -0,0 +1,529 @@
+/**
+ * Spaced Repetition Agent - المُكَرِّر
+ *
+ * Runs flashcard review sessions scheduled with FSRS (Free Spaced Repetition Scheduler).
+ * Presents due cards, grades the student's answers on the 1-4 rating scale,
+ * reschedules each card, and generates new flashcards when nothing is due.
+ *
+ * Arabic Name: المُكَرِّر (The Repeater)
+ * Tier: 2 - Learning Optimization
+ */
+
+import { Agent } from '../base/agent';
+import { contextManager } from '../base/context';
+import { logAgentActivity } from '../base/utils';
+import { AGENT_TOOLS, type FunctionImplementation } from '@/lib/gemini/function-calling';
+import {
+  fsrs,
+  Rating,
+  parseCardState,
+  toStoredDifficulty,
+  fromStoredDifficulty,
+  type FSRSCard,
+  type SchedulingResult,
+} from '@/lib/learning/fsrs';
+import { recordMasteryObservation, resolveKnowledgeComponentId } from '@/lib/learning/mastery';
+import { recordStudyActivity } from '@/lib/learning/study-sessions';
+import {
+  getFlashcard,
+  getFlashcardsDue,
+  findFlashcardByFront,
+  createFlashcard,
+  updateFlashcard,
+  logFlashcardReview,
+  getStudentMastery,
+  updateStudentMastery,
+} from '@/lib/supabase/database';
+
+import { AgentErrorCode } from '../base/types';
+import type { Database } from '@/types/supabase';
+import type {
+  AgentConfig,
+  AgentContext,
+  AgentResponse,
+  AgentExecutionOptions,
+  GeminiModel,
+  ToolLoopStep,
+} from '../base/types';
+
+type Flashcard = Database['public']['Tables']['flashcards']['Row'];
+
+/**
+ * Card currently shown to the student, awaiting an answer
+ */
+interface PendingFlashcard {
+  flashcardId: string | null;
+  shownAt: string;
+}
+
+const PENDING_CARD_KEY = 'pending_flashcard';
+const PENDING_CARD_TTL_MS = 24 * 60 * 60 * 1000;
+
+const RATING_LABELS: Record<Rating, string> = {
+  [Rating.Again]: 'مرة أخرى',
+  [Rating.Hard]: 'صعب',
+  [Rating.Good]: 'جيد',
+  [Rating.Easy]: 'سهل',
+};
+
+/**
+ * Spaced Repetition Agent Configuration
+ */
+const SPACED_REPETITION_CONFIG: AgentConfig = {
+  id: 'spaced-repetition',
+  name: 'Spaced Repetition Engine',
+  arabicName: 'المُكَرِّر',
+  description: 'Schedules flashcard reviews with FSRS and generates new flashcards',
+  tier: 'tier2-learning',
+  defaultModel: 'flash-lite', // Grading and card generation are lightweight
+  systemPrompt: `أنت المُكَرِّر - مدير المراجعة المتباعدة في منصة البيروني التعليمية.
+
+## دورك:
+تساعد الطالب على تثبيت المعلومات في الذاكرة طويلة المدى من خلال بطاقات مراجعة
+تُجدوَل بخوارزمية FSRS في اللحظة التي يوشك فيها الطالب على النسيان.
+
+## مهامك:
+1. إنشاء بطاقات مراجعة قصيرة ودقيقة (create_flashcard)
+2. تحديث مستوى إتقان الطالب بعد كل إجابة (update_student_mastery)
+3. تقييم إجابات الطالب بمقياس من 1 إلى 4
+
+## قواعد كتابة البطاقات:
+✅ سؤال واحد واضح في الوجه الأمامي
+✅ إجابة قصيرة ومحددة في الوجه الخلفي
+✅ معلومة ذرية واحدة لكل بطاقة
+✅ تلميحات تساعد دون أن تكشف الإجابة
+
+❌ لا تكتب بطاقات طويلة أو متعددة الأسئلة
+❌ لا تكتب أسئلة نعم/لا
+❌ لا تكرر بطاقة موجودة
+
+## مقياس التقييم:
+1 = مرة أخرى (لم يتذكر أو إجابة خاطئة)
+2 = صعب (إجابة صحيحة جزئياً أو بعد جهد كبير)
+3 = جيد (إجابة صحيحة)
+4 = سهل (إجابة صحيحة وفورية وكاملة)
+
+استخدم function calling لإنشاء البطاقات وتحديث الإتقان.`,
+  capabilities: ['memory_management', 'assessment'],
+  tools: [AGENT_TOOLS.spaced_repetition],
+  temperature: 0.3, // Consistent grading and card quality
+  cachedSystemPrompt: true,
+};
+
+/**
+ * Spaced Repetition Agent
+ */
+export class SpacedRepetitionAgent extends Agent {
+  constructor() {
+    super(SPACED_REPETITION_CONFIG);
+  }
+
+  /**
+   * Execute a review turn
+   */
+  async execute(
+    input: string,
+    context: AgentContext,
+    options?: AgentExecutionOptions
+  ): Promise<AgentResponse> {
+    const startTime = Date.now();
+    const model = this.selectModel(options);
+    const tokensUsed = { input: 0, output: 0 };
+    const parts: string[] = [];
+
+    try {
+      // 1. Grade the card the student was answering (if any). The review is
+      //    saved before anything else in the turn can fail: a failed turn is
+      //    retried, and a card already reviewed since it was shown is skipped
+      let review: SchedulingResult | null = null;
+
+      const pending = await this.getPendingCard(context);
+      const target = pending ? await this.resolveReviewTarget(context, pending) : null;
+      if (target) {
+        let rating = this.parseRating(input);
+        if (rating === null) {
+          const graded = await this.gradeAnswer(target.card, input, model);
+          rating = graded.rating;
+          tokensUsed.input += graded.tokensUsed.input;
+          tokensUsed.output += graded.tokensUsed.output;
+        }
+
+        review = fsrs.review(this.toFSRSCard(target.card), rating, new Date());
+        await this.applyReview(context, target.card, review, target.timeTakenSeconds);
+        parts.push(this.formatReviewFeedback(target.card, review));
+      }
+
+      // 2. Find the next due card
+      const dueCards = (await getFlashcardsDue(context.userId)).filter(
+        (card) => card.id !== target?.card.id
+      );
+      let nextCard = dueCards[0] ?? null;
+      let toolTrace: ToolLoopStep[] | undefined;
+
+      // 3. Nothing due and no card being answered: generate new flashcards
+      if (!nextCard && !pending?.flashcardId) {
+        const generation = await this.generateFlashcards(input, context, model);
+        tokensUsed.input += generation.tokensUsed.input;
+        tokensUsed.output += generation.tokensUsed.output;
+        toolTrace = generation.steps;
+
+        if (generation.content) {
+          parts.push(generation.content);
+        }
+
+        if (generation.cards.length > 0) {
+          parts.push(`أنشأتُ ${generation.cards.length} بطاقة مراجعة جديدة.`);
+          nextCard = generation.cards[0] ?? null;
+        }
+      }
+
+      // 4. Present the next card (or close the session)
+      if (nextCard) {
+        parts.push(this.formatCard(nextCard, dueCards.length));
+      } else {
+        parts.push('🎉 أحسنت! لا توجد بطاقات مستحقة للمراجعة الآن. عُد لاحقاً لمواصلة التثبيت.');
+      }
+
+      await this.setPendingCard(context, nextCard?.id ?? null);
+
+      const durationMs = Date.now() - startTime;
+      return this.buildResponse(parts.join('\n\n'), tokensUsed, durationMs, model, {
+        review: review && target
+          ? {
+              flashcardId: target.card.id,
+              kcId: target.card.kc_id,
+              rating: review.rating,
+              state: review.card.state,
+              dueDate: review.card.due.toISOString(),
+              scheduledDays: review.card.scheduledDays,
+              retrievability: review.retrievability,
+            }
+          : undefined,
+        nextFlashcardId: nextCard?.id,
+        dueCount: dueCards.length,
+        toolTrace,
+      });
+    } catch (error) {
+      throw this.wrapError(error as Error, AgentErrorCode.TOOL_EXECUTION_FAILED);
+    }
+  }
+
+  /**
+   * Load the card the input is answering: the last card shown, unless it was
+   * already reviewed after being shown (a retried turn whose review was saved)
+   */
+  private async resolveReviewTarget(
+    context: AgentContext,
+    pending: PendingFlashcard
+  ): Promise<{ card: Flashcard; timeTakenSeconds: number } | null> {
+    if (!pending.flashcardId) return null;
+
+    const card = await getFlashcard(context.userId, pending.flashcardId);
+    if (!card) return null;
+
+    if (card.last_reviewed_at && new Date(card.last_reviewed_at) >= new Date(pending.shownAt)) {
+      return null;
+    }
+
+    return {
+      card,
+      timeTakenSeconds: Math.round((Date.now() - new Date(pending.shownAt).getTime()) / 1000),
+    };
+  }
+
+  /**
+   * Parse a self-rating ("3", "سهل", "again"...) from short inputs
+   */
+  private parseRating(input: string): Rating | null {
+    const normalized = input
+      .trim()
+      .replace(/[١٢٣٤]/g, (d) => String('١٢٣٤'.indexOf(d) + 1))
+      .toLowerCase();
+
+    if (normalized.split(/\s+/).length > 3) return null;
+
+    if (/^[1-4]$/.test(normalized)) return Number(normalized) as Rating;
+    if (/مرة أخرى|نسيت|لا أتذكر|again/.test(normalized)) return Rating.Again;
+    if (/صعب|hard/.test(normalized)) return Rating.Hard;
+    if (/سهل|easy/.test(normalized)) return Rating.Easy;
+    if (/جيد|تذكرت|good/.test(normalized)) return Rating.Good;
+
+    return null;
+  }
+
+  /**
+   * Grade a free-text answer against the card's back side
+   */
+  private async gradeAnswer(
+    card: Flashcard,
+    answer: string,
+    model: GeminiModel
+  ): Promise<{ rating: Rating; tokensUsed: { input: number; output: number } }> {
+    const prompt = `قيّم إجابة الطالب على بطاقة المراجعة التالية.
+
+السؤال: ${card.front_text}
+الإجابة الصحيحة: ${card.back_text}
+إجابة الطالب: ${answer}
+
+أجب برقم واحد فقط من 1 إلى 4 حسب مقياس التقييم.`;
+
+    const { content, tokensUsed } = await this.generateContent(prompt, {
+      model,
+      temperature: 0,
+      maxTokens: 5,
+    });
+
+    const match = content.match(/[1-4]/);
+    return {
+      rating: match ? (Number(match[0]) as Rating) : Rating.Hard,
+      tokensUsed,
+    };
+  }
+
+  /**
+   * Persist an FSRS review: the new card state, the graded observation, the
+   * review log and the KC schedule. The card is written first, so a retried
+   * turn sees it as reviewed
+   */
+  private async applyReview(
+    context: AgentContext,
+    card: Flashcard,
+    result: SchedulingResult,
+    timeTakenSeconds?: number
+  ): Promise<void> {
+    const { rating, reviewedAt: now } = result;
+
+    await updateFlashcard(context.userId, card.id, {
+      state: result.card.state,
+      stability: result.card.stability,
+      difficulty: toStoredDifficulty(result.card.difficulty),
+      due_date: result.card.due.toISOString(),
+      elapsed_days: result.card.elapsedDays,
+      scheduled_days: result.card.scheduledDays,
+      reps: result.card.reps,
+      lapses: result.card.lapses,
+      last_reviewed_at: now.toISOString(),
+    });
+
+    await this.recordGradedAnswer(context, card.kc_id, rating !== Rating.Again, timeTakenSeconds);
+
+    await logFlashcardReview({
+      user_id: context.userId,
+      flashcard_id: card.id,
+      rating,
+      time_taken_seconds: timeTakenSeconds,
+      state_before: card.state,
+      stability_before: card.stability,
+      difficulty_before: card.difficulty,
+      state_after: result.card.state,
+      stability_after: result.card.stability,
+      difficulty_after: toStoredDifficulty(result.card.difficulty),
+    });
+
+    await recordStudyActivity(context.userId, { kcIds: [card.kc_id], flashcardsReviewed: 1 });
+
+    // Mirror the card's schedule onto the knowledge component
+    const mastery = await getStudentMastery(context.userId, card.kc_id);
+    await updateStudentMastery(context.userId, card.kc_id, {
+      stability: result.card.stability,
+      difficulty: toStoredDifficulty(result.card.difficulty),
+      retrievability: result.retrievability || 1,
+      next_review_at: result.card.due.toISOString(),
+      review_count: (mastery?.review_count ?? 0) + 1,
+      last_reviewed_at: now.toISOString(),
+    });
+
+    logAgentActivity(this.config.id, 'flashcard_reviewed', {
+      flashcardId: card.id,
+      rating,
+      stateAfter: result.card.state,
+      scheduledDays: result.card.scheduledDays,
+    });
+  }
+
+  /**
+   * Ask the model to create flashcards for the requested topic
+   */
+  private async generateFlashcards(
+    input: string,
+    context: AgentContext,
+    model: GeminiModel
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number };
+    cards: Flashcard[];
+    steps: ToolLoopStep[];
+  }> {
+    const parts: string[] = [];
+
+    if (context.activeKnowledgeComponents?.length) {
+      parts.push(`المكونات المعرفية النشطة (kc_id): ${context.activeKnowledgeComponents.join('، ')}`);
+    }
+
+    parts.push(this.buildPrompt(input, context));
+    parts.push(`
+
+تعليمات:
+1. لا توجد بطاقات مستحقة للمراجعة حالياً
+2. أنشئ من 3 إلى 5 بطاقات مراجعة عن الموضوع المطلوب باستخدام create_flashcard
+3. استخدم kc_id من المكونات المعرفية النشطة إن وُجدت
+4. اكتب رسالة قصيرة ومشجعة للطالب`);
+
+    const cards: Flashcard[] = [];
+    const response = await this.runToolLoop(
+      parts.join('\n'),
+      this.buildToolImplementations(context, cards),
+      { model }
+    );
+
+    return {
+      content: response.content,
+      tokensUsed: response.tokensUsed,
+      cards,
+      steps: response.steps,
+    };
+  }
+
+  /**
+   * Implementations for the tools declared in AGENT_TOOLS.spaced_repetition
+   * Newly created cards are appended to `created`
+   */
+  private buildToolImplementations(
+    context: AgentContext,
+    created: Flashcard[]
+  ): Record<string, FunctionImplementation> {
+    return {
+      create_flashcard: async (args) => {
+        // Same front as an existing card (a retried turn or a repeated fact)
+        const existing = await findFlashcardByFront(context.userId, args.front);
+        if (existing) {
+          return { id: existing.id, duplicate: true };
+        }
+
+        const kcId = await this.resolveKnowledgeComponentId(args.kc_id);
+        const difficulty = { easy: 0.2, medium: 0.4, hard: 0.7 }[
+          args.difficulty as 'easy' | 'medium' | 'hard'
+        ] ?? 0.4;
+
+        const card = await createFlashcard({
+          user_id: context.userId,
+          kc_id: kcId,
+          front_text: args.front,
+          back_text: args.back,
+          hints: args.hints || [],
+          difficulty,
+          state: 'new',
+          due_date: new Date().toISOString(),
+        });
+
+        created.push(card);
+        return card;
+      },
+
+      update_student_mastery: async (args) => {
+        const kcId = await this.resolveKnowledgeComponentId(args.kc_id);
+        return await this.recordGradedAnswer(
+          context,
+          kcId,
+          Boolean(args.correct),
+          args.time_taken_seconds
+        );
+      },
+    };
+  }
+
+  /**
+   * Apply a graded answer to the student's BKT mastery
+   */
+  private async recordGradedAnswer(
+    context: AgentContext,
+    kcId: string,
+    correct: boolean,
+    responseTimeSeconds?: number
+  ) {
+    const update = await recordMasteryObservation(context.userId, {
+      kcId,
+      correct,
+      responseTimeSeconds,
+    });
+
+    context.masteryLevels = { ...context.masteryLevels, [update.kcId]: update.pKnowAfter };
+    return update;
+  }
+
+  /**
+   * Accept a KC UUID or code; unknown knowledge components are rejected
+   */
+  private async resolveKnowledgeComponentId(kcIdOrCode: unknown): Promise<string> {
+    const kcId = await resolveKnowledgeComponentId(kcIdOrCode);
+    if (kcId) return kcId;
+
+    throw new Error(`Unknown knowledge component: ${String(kcIdOrCode)}`);
+  }
+
+  private toFSRSCard(card: Flashcard): FSRSCard {
+    const state = parseCardState(card.state);
+
+    return {
+      state,
+      stability: card.stability,
+      difficulty: fromStoredDifficulty(card.difficulty),
+      due: new Date(card.due_date),
+      lastReview: card.last_reviewed_at ? new Date(card.last_reviewed_at) : undefined,
+      elapsedDays: card.elapsed_days,
+      scheduledDays: card.scheduled_days,
+      reps: card.reps,
+      lapses: card.lapses,
+    };
+  }
+
+  private async getPendingCard(context: AgentContext): Promise<PendingFlashcard | null> {
+    const memories = await contextManager.getMemory(
+      context.userId,
+      this.config.id,
+      PENDING_CARD_KEY
+    );
+    const latest = memories[memories.length - 1];
+    return (latest?.value as PendingFlashcard | undefined) ?? null;
+  }
+
+  private async setPendingCard(context: AgentContext, flashcardId: string | null): Promise<void> {
+    const now = new Date();
+    const pending: PendingFlashcard = { flashcardId, shownAt: now.toISOString() };
+
+    await contextManager.storeMemory({
+      userId: context.userId,
+      agentId: this.config.id,
+      key: PENDING_CARD_KEY,
+      value: pending,
+      timestamp: now,
+      expiresAt: new Date(now.getTime() + PENDING_CARD_TTL_MS),
+    });
+  }
+
+  private formatReviewFeedback(card: Flashcard, review: SchedulingResult): string {
+    const lines = [
+      `**التقييم:** ${RATING_LABELS[review.rating]}`,
+      `**الإجابة الصحيحة:** ${card.back_text}`,
+    ];
+
+    if (review.card.scheduledDays > 0) {
+      lines.push(`📅 سنراجع هذه البطاقة بعد ${review.card.scheduledDays} يوم.`);
+    } else {
+      lines.push('🔁 سنعيد هذه البطاقة بعد دقائق لتثبيتها.');
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatCard(card: Flashcard, dueCount: number): string {
+    const lines = [`### 🃏 بطاقة المراجعة${dueCount > 1 ? ` (متبقٍ ${dueCount})` : ''}`, card.front_text];
+
+    if (card.hints?.length) {
+      lines.push(`💡 تلميح: ${card.hints[0]}`);
+    }
+
+    lines.push('اكتب إجابتك، أو قيّم تذكّرك: 1 (مرة أخرى)، 2 (صعب)، 3 (جيد)، 4 (سهل)');
+    return lines.join('\n');
+  }
+}
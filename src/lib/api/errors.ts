@@ -0,0 +1,33 @@
+/**
+ * API Error Responses
+ *
+ * Shared JSON error responses for route handlers
+ */
+
+import { NextResponse } from 'next/server';
+import type { AgentError } from '@/lib/agents/base/types';
+
+/**
+ * 429 response for a RATE_LIMIT AgentError, with Retry-After when known
+ */
+export function rateLimitResponse(error: AgentError): NextResponse {
+  const retryAfterSeconds = error.metadata?.retryAfterSeconds;
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'RATE_LIMIT',
+        message: error.message,
+        details: error.metadata,
+      },
+    },
+    {
+      status: 429,
+      headers:
+        typeof retryAfterSeconds === 'number'
+          ? { 'Retry-After': String(retryAfterSeconds) }
+          : undefined,
+    }
+  );
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import {
+  loadConversationHistory,
+  resolveConversation,
+  saveConversationMessage,
+} from '../conversations';
+
+vi.mock('@/lib/supabase/database', () => ({
+  createConversation: vi.fn(async (conversation: object) => ({
+    id: 'conversation-new',
+    ...conversation,
+  })),
+  getConversation: vi.fn(),
+  getConversationMessages: vi.fn(),
+  addConversationMessage: vi.fn(async (message: object) => ({
+    id: 'message-new',
+    ...message,
+  })),
+}));
+
+const USER_ID = 'student-1';
+
+type MessageRow = Awaited<ReturnType<typeof db.getConversationMessages>>[number];
+
+describe('conversations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads an existing conversation for its owner only', async () => {
+    vi.mocked(db.getConversation).mockResolvedValue(null);
+
+    const conversation = await resolveConversation(USER_ID, 'conversation-1', 'مرحبا');
+
+    expect(db.getConversation).toHaveBeenCalledWith(USER_ID, 'conversation-1');
+    expect(db.createConversation).not.toHaveBeenCalled();
+    expect(conversation).toBeNull();
+  });
+
+  it('titles a new conversation after the first message', async () => {
+    const message = `اشرح   لي\nالكسور ${'و'.repeat(100)}`;
+
+    await resolveConversation(USER_ID, undefined, message, 'Egyptian');
+
+    const [created] = vi.mocked(db.createConversation).mock.calls[0]!;
+    expect(created).toMatchObject({ user_id: USER_ID, dialect: 'Egyptian' });
+    expect(created.title).toHaveLength(80);
+    expect(created.title!.startsWith('اشرح لي الكسور')).toBe(true);
+    expect(created.title!.endsWith('…')).toBe(true);
+  });
+
+  it('loads stored messages as chat messages with their IDs', async () => {
+    vi.mocked(db.getConversationMessages).mockResolvedValue([
+      {
+        id: 'message-1',
+        conversation_id: 'conversation-1',
+        user_id: USER_ID,
+        role: 'agent',
+        content: 'الكسر جزء من كل',
+        agent_id: 'narrator',
+        metadata: { confidence: 0.9 },
+        created_at: '2026-01-01T00:00:00Z',
+      } as MessageRow,
+    ]);
+
+    const history = await loadConversationHistory(USER_ID, 'conversation-1');
+
+    expect(history).toEqual([
+      {
+        role: 'agent',
+        content: 'الكسر جزء من كل',
+        timestamp: new Date('2026-01-01T00:00:00Z'),
+        agentId: 'narrator',
+        metadata: { confidence: 0.9, messageId: 'message-1' },
+      },
+    ]);
+  });
+
+  it('saves a message to its conversation', async () => {
+    const timestamp = new Date('2026-01-01T00:00:05Z');
+
+    const saved = await saveConversationMessage(USER_ID, 'conversation-1', {
+      role: 'user',
+      content: 'شكراً',
+      timestamp,
+    });
+
+    expect(db.addConversationMessage).toHaveBeenCalledWith({
+      conversation_id: 'conversation-1',
+      user_id: USER_ID,
+      role: 'user',
+      content: 'شكراً',
+      agent_id: null,
+      metadata: {},
+      created_at: timestamp.toISOString(),
+    });
+    expect(saved.metadata).toEqual({ messageId: 'message-new' });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Conversation Persistence
+ *
+ * Stores chat threads in Supabase so the client only sends the session ID and
+ * the new message. The conversation ID doubles as the agent sessionId.
+ */
+
+import {
+  createConversation,
+  getConversation,
+  getConversationMessages,
+  addConversationMessage,
+} from '@/lib/supabase/database';
+import { toJson } from '@/lib/agents/base/utils';
+import type { ChatMessage } from '@/lib/agents/base/types';
+import type { Database } from '@/types/supabase';
+
+type Conversation = Database['public']['Tables']['conversations']['Row'];
+type ConversationMessageRow = Database['public']['Tables']['conversation_messages']['Row'];
+type Dialect = NonNullable<Conversation['dialect']>;
+
+/**
+ * Number of past messages loaded into the agent context
+ */
+export const CONVERSATION_HISTORY_LIMIT = 40;
+
+const TITLE_MAX_LENGTH = 80;
+
+/**
+ * Load a conversation owned by the user, or start a new one titled after the first message
+ * Returns null when the given conversation does not exist for this user
+ */
+export async function resolveConversation(
+  userId: string,
+  conversationId: string | undefined,
+  firstMessage: string,
+  dialect?: Dialect
+): Promise<Conversation | null> {
+  if (conversationId) {
+    return getConversation(userId, conversationId);
+  }
+
+  return createConversation({
+    user_id: userId,
+    title: buildTitle(firstMessage),
+    dialect: dialect ?? null,
+  });
+}
+
+/**
+ * Load the recent history of a user's conversation as chat messages
+ */
+export async function loadConversationHistory(
+  userId: string,
+  conversationId: string,
+  limit = CONVERSATION_HISTORY_LIMIT
+): Promise<ChatMessage[]> {
+  const rows = await getConversationMessages(userId, conversationId, limit);
+  return rows.map(toChatMessage);
+}
+
+/**
+ * Persist one chat message
+ */
+export async function saveConversationMessage(
+  userId: string,
+  conversationId: string,
+  message: ChatMessage
+): Promise<ChatMessage> {
+  const row = await addConversationMessage({
+    conversation_id: conversationId,
+    user_id: userId,
+    role: message.role,
+    content: message.content,
+    agent_id: message.agentId ?? null,
+    metadata: toJson(message.metadata ?? {}),
+    created_at: message.timestamp.toISOString(),
+  });
+
+  return toChatMessage(row);
+}
+
+/**
+ * Convert a stored message to a ChatMessage
+ */
+export function toChatMessage(row: ConversationMessageRow): ChatMessage {
+  const metadata =
+    row.metadata && typeof row.metadata === 'object' && !Array.isArray(row.metadata)
+      ? (row.metadata as Record<string, unknown>)
+      : {};
+
+  return {
+    role: row.role,
+    content: row.content,
+    timestamp: new Date(row.created_at),
+    ...(row.agent_id && { agentId: row.agent_id }),
+    metadata: { ...metadata, messageId: row.id },
+  };
+}
+
+/**
+ * Conversation title from the first student message
+ */
+function buildTitle(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim();
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title;
+}
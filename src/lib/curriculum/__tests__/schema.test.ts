@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRICULUM_BUNDLE_VERSION,
+  CurriculumValidationError,
+  parseCurriculumBundle,
+} from '../schema';
+
+const YAML_BUNDLE = `
+version: 1
+subjects:
+  - code: Math
+    name_ar: الرياضيات
+knowledge_components:
+  - code: MATH_ALGEBRA_LINEAR_EQUATIONS
+    subject: Math
+    topic: Algebra
+    name_en: Linear equations
+    name_ar: المعادلات الخطية
+lessons:
+  - slug: linear-equations
+    subject: Math
+    topic: Algebra
+    title_en: Linear equations
+    title_ar: المعادلات الخطية
+    knowledge_components: [MATH_ALGEBRA_LINEAR_EQUATIONS]
+    content:
+      sections:
+        - title_ar: ما المعادلة الخطية؟
+          blocks:
+            - type: text
+              text: المعادلة الخطية هي معادلة من الدرجة الأولى.
+            - type: exercise
+              id: ex-1
+              kind: multiple_choice
+              prompt: ما حل x + 2 = 4؟
+              choices: ['1', '2', '3']
+              answer: 1
+`;
+
+function bundle(overrides: Record<string, unknown> = {}) {
+  return { version: CURRICULUM_BUNDLE_VERSION, subjects: [{ code: 'Math' }], ...overrides };
+}
+
+function issuesOf(text: string): string[] {
+  try {
+    parseCurriculumBundle(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CurriculumValidationError);
+    return (error as CurriculumValidationError).issues;
+  }
+  throw new Error('Expected the bundle to be rejected');
+}
+
+describe('parseCurriculumBundle', () => {
+  it('parses YAML and applies defaults', () => {
+    const parsed = parseCurriculumBundle(YAML_BUNDLE);
+    const [kc] = parsed.knowledge_components;
+    const [lesson] = parsed.lessons;
+
+    expect(kc).toMatchObject({ difficulty: 'intermediate', prerequisites: [], related: [] });
+    expect(lesson).toMatchObject({ difficulty: 'beginner', published: false, estimated_duration_minutes: 30 });
+    expect(lesson!.content.sections[0]!.blocks).toHaveLength(2);
+  });
+
+  it('detects JSON from the first character', () => {
+    const parsed = parseCurriculumBundle(JSON.stringify(bundle()));
+
+    expect(parsed.subjects).toEqual([{ code: 'Math' }]);
+    expect(parsed.lessons).toEqual([]);
+  });
+
+  it('rejects malformed JSON and YAML', () => {
+    expect(issuesOf('{"version": 1,')).toHaveLength(1);
+    expect(() => parseCurriculumBundle('version: [1', 'yaml')).toThrow('Invalid YAML');
+  });
+
+  it('rejects an unknown version', () => {
+    expect(issuesOf(JSON.stringify({ ...bundle(), version: 2 }))[0]).toMatch(/^version:/);
+  });
+
+  it('rejects KC codes that are not UPPER_SNAKE_CASE', () => {
+    const kc = { code: 'linear', subject: 'Math', topic: 'Algebra', name_en: 'Linear', name_ar: 'خطية' };
+
+    expect(issuesOf(JSON.stringify(bundle({ knowledge_components: [kc] })))[0]).toMatch(
+      /^knowledge_components\.0\.code: KC codes are UPPER_SNAKE_CASE/
+    );
+  });
+
+  it('rejects duplicate codes and undeclared subjects', () => {
+    const kc = { code: 'MATH_X', subject: 'Math', topic: 'Algebra', name_en: 'X', name_ar: 'س' };
+    const issues = issuesOf(
+      JSON.stringify(bundle({ knowledge_components: [kc, kc, { ...kc, code: 'PHYS_Y', subject: 'Physics' }] }))
+    );
+
+    expect(issues).toContain('knowledge_components.1.code: Duplicate code "MATH_X"');
+    expect(issues).toContain('knowledge_components.2.subject: Subject "Physics" is not declared in subjects');
+  });
+
+  it('rejects a multiple choice answer that is not a choice index', () => {
+    const issues = issuesOf(YAML_BUNDLE.replace('answer: 1', 'answer: 3'));
+
+    expect(issues.some((issue) => issue.endsWith('answer: answer must be the index of a choice'))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Curriculum Export
+ *
+ * Builds a bundle from knowledge_components and lessons, with UUID references
+ * turned back into codes and slugs, so it can be edited and re-imported.
+ * Lessons whose content does not match the block schema (legacy JSONB) are
+ * left out and reported, since they could not be imported again.
+ */
+
+import { stringify as stringifyYaml } from 'yaml';
+import { getAllKnowledgeComponents, getAllLessons } from '@/lib/supabase/database';
+import { lessonContentSchema } from '@/lib/lessons/content';
+import {
+  CURRICULUM_BUNDLE_VERSION,
+  curriculumBundleSchema,
+  type CurriculumBundle,
+  type CurriculumFormat,
+  type CurriculumKnowledgeComponent,
+  type CurriculumLesson,
+} from './schema';
+
+/**
+ * Exported bundle and the lessons that could not be included
+ */
+export interface CurriculumExportResult {
+  bundle: CurriculumBundle;
+  skippedLessons: Array<{ slug: string; reason: string }>;
+}
+
+/**
+ * Export the curriculum (optionally one subject)
+ */
+export async function exportCurriculumBundle(
+  options: { subject?: string } = {}
+): Promise<CurriculumExportResult> {
+  const [allKcs, lessons] = await Promise.all([
+    getAllKnowledgeComponents(),
+    getAllLessons(options.subject),
+  ]);
+
+  const codesById = new Map(allKcs.map((kc) => [kc.id, kc.code]));
+  const slugsById = new Map(lessons.map((lesson) => [lesson.id, lesson.slug]));
+  const toKeys = (ids: string[], keys: Map<string, string>) =>
+    ids.flatMap((id) => {
+      const key = keys.get(id);
+      return key ? [key] : [];
+    });
+
+  const kcs = options.subject ? allKcs.filter((kc) => kc.subject === options.subject) : allKcs;
+
+  const knowledgeComponents: CurriculumKnowledgeComponent[] = kcs.map((kc) => ({
+    code: kc.code,
+    subject: kc.subject,
+    topic: kc.topic,
+    ...(kc.subtopic && { subtopic: kc.subtopic }),
+    name_en: kc.name_en,
+    name_ar: kc.name_ar,
+    ...(kc.description_en && { description_en: kc.description_en }),
+    ...(kc.description_ar && { description_ar: kc.description_ar }),
+    difficulty: kc.difficulty,
+    prerequisites: toKeys(kc.prerequisites ?? [], codesById),
+    related: toKeys(kc.related_kcs ?? [], codesById),
+    learning_objectives: kc.learning_objectives ?? [],
+    misconceptions: kc.common_misconceptions ?? [],
+    ...(kc.estimated_time_minutes && { estimated_time_minutes: kc.estimated_time_minutes }),
+  }));
+
+  const skippedLessons: CurriculumExportResult['skippedLessons'] = [];
+  const bundleLessons: CurriculumLesson[] = [];
+
+  for (const lesson of lessons) {
+    const content = lessonContentSchema.safeParse(lesson.content);
+    if (!content.success) {
+      skippedLessons.push({
+        slug: lesson.slug,
+        reason: content.error.issues
+          .map((issue) => `${issue.path.join('.') || '(content)'}: ${issue.message}`)
+          .join('; '),
+      });
+      continue;
+    }
+
+    bundleLessons.push({
+      slug: lesson.slug,
+      subject: lesson.subject,
+      topic: lesson.topic,
+      title_en: lesson.title_en,
+      title_ar: lesson.title_ar,
+      ...(lesson.description_en && { description_en: lesson.description_en }),
+      ...(lesson.description_ar && { description_ar: lesson.description_ar }),
+      difficulty: lesson.difficulty,
+      knowledge_components: toKeys(lesson.kc_ids ?? [], codesById),
+      prerequisite_lessons: toKeys(lesson.prerequisite_lesson_ids ?? [], slugsById),
+      estimated_duration_minutes: lesson.estimated_duration_minutes,
+      published: lesson.is_published,
+      content: content.data,
+    });
+  }
+
+  const subjects = Array.from(
+    new Set([...knowledgeComponents, ...bundleLessons].map((item) => item.subject))
+  ).sort();
+
+  // Parsing guarantees the export can be imported as-is
+  const bundle = curriculumBundleSchema.parse({
+    version: CURRICULUM_BUNDLE_VERSION,
+    subjects: subjects.map((code) => ({ code })),
+    knowledge_components: knowledgeComponents,
+    lessons: bundleLessons,
+  });
+
+  return { bundle, skippedLessons };
+}
+
+/**
+ * Bundle as JSON or YAML text
+ */
+export function serializeCurriculumBundle(
+  bundle: CurriculumBundle,
+  format: CurriculumFormat = 'yaml'
+): string {
+  return format === 'json'
+    ? `${JSON.stringify(bundle, null, 2)}\n`
+    : stringifyYaml(bundle, { lineWidth: 0 });
+}
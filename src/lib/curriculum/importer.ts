@@ -0,0 +1,330 @@
+/**
+ * Curriculum Import
+ *
+ * Upserts a validated bundle into knowledge_components (by code) and lessons
+ * (by slug). Code and slug references are resolved against the bundle and
+ * the database; unresolved references and prerequisite cycles are errors and
+ * nothing is written. Rows that already exist with different values are
+ * reported as conflicts and either updated or left as they are.
+ * Writes use the service role key.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  getAllKnowledgeComponents,
+  getAllLessons,
+  upsertKnowledgeComponents,
+  upsertLessons,
+} from '@/lib/supabase/database';
+import { KnowledgeGraph, invalidateKnowledgeGraph } from '@/lib/learning/kc-graph';
+import { toJson } from '@/lib/agents/base/utils';
+import type { CurriculumBundle, CurriculumLesson, CurriculumKnowledgeComponent } from './schema';
+import type { Database } from '@/types/supabase';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+type Lesson = Database['public']['Tables']['lessons']['Row'];
+
+/**
+ * A bundle item whose stored row has different values
+ */
+export interface ImportConflict {
+  kind: 'knowledge_component' | 'lesson';
+  key: string; // KC code or lesson slug
+  fields: string[]; // Columns that differ
+  resolution: 'updated' | 'skipped';
+}
+
+/**
+ * Keys by outcome for one kind of item
+ */
+export interface ImportCounts {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  skipped: string[];
+}
+
+/**
+ * Outcome of an import (nothing is written when errors is non-empty)
+ */
+export interface CurriculumImportResult {
+  dryRun: boolean;
+  knowledgeComponents: ImportCounts;
+  lessons: ImportCounts;
+  conflicts: ImportConflict[];
+  errors: string[];
+}
+
+export interface CurriculumImportOptions {
+  dryRun?: boolean; // Validate and report without writing
+  onConflict?: 'update' | 'skip'; // Default: update
+}
+
+const KC_FIELDS = [
+  'name_en',
+  'name_ar',
+  'description_en',
+  'description_ar',
+  'subject',
+  'topic',
+  'subtopic',
+  'prerequisites',
+  'related_kcs',
+  'difficulty',
+  'learning_objectives',
+  'common_misconceptions',
+  'estimated_time_minutes',
+] as const;
+
+const LESSON_FIELDS = [
+  'title_en',
+  'title_ar',
+  'description_en',
+  'description_ar',
+  'content',
+  'subject',
+  'topic',
+  'difficulty',
+  'kc_ids',
+  'prerequisite_lesson_ids',
+  'estimated_duration_minutes',
+  'is_published',
+] as const;
+
+/**
+ * Import a bundle (already validated with parseCurriculumBundle)
+ */
+export async function importCurriculumBundle(
+  bundle: CurriculumBundle,
+  options: CurriculumImportOptions = {}
+): Promise<CurriculumImportResult> {
+  const onConflict = options.onConflict ?? 'update';
+  const result: CurriculumImportResult = {
+    dryRun: options.dryRun ?? false,
+    knowledgeComponents: emptyCounts(),
+    lessons: emptyCounts(),
+    conflicts: [],
+    errors: [],
+  };
+
+  const [existingKcs, existingLessons] = await Promise.all([
+    getAllKnowledgeComponents(),
+    getAllLessons(),
+  ]);
+
+  const kcsByCode = new Map(existingKcs.map((kc) => [kc.code, kc]));
+  const lessonsBySlug = new Map(existingLessons.map((lesson) => [lesson.slug, lesson]));
+
+  // New rows get their UUID up front so references within the bundle resolve
+  const kcIds = new Map(existingKcs.map((kc) => [kc.code, kc.id]));
+  for (const kc of bundle.knowledge_components) {
+    if (!kcIds.has(kc.code)) kcIds.set(kc.code, randomUUID());
+  }
+
+  const lessonIds = new Map(existingLessons.map((lesson) => [lesson.slug, lesson.id]));
+  for (const lesson of bundle.lessons) {
+    if (!lessonIds.has(lesson.slug)) lessonIds.set(lesson.slug, randomUUID());
+  }
+
+  const resolve = (ids: Map<string, string>, keys: string[], owner: string, label: string) =>
+    keys.flatMap((key) => {
+      const id = ids.get(key);
+      if (!id) result.errors.push(`${owner}: unknown ${label} "${key}"`);
+      return id ? [id] : [];
+    });
+
+  // Knowledge components
+  const kcRows = bundle.knowledge_components.map((kc) =>
+    toKnowledgeComponentRow(kc, kcsByCode.get(kc.code), {
+      id: kcIds.get(kc.code)!,
+      prerequisites: resolve(kcIds, kc.prerequisites, `KC ${kc.code}`, 'prerequisite'),
+      related: resolve(kcIds, kc.related, `KC ${kc.code}`, 'related KC'),
+    })
+  );
+
+  // The bundle's prerequisites must keep the graph acyclic
+  const bundleCodes = new Set(kcRows.map((kc) => kc.code));
+  const graph = new KnowledgeGraph([
+    ...existingKcs.filter((kc) => !bundleCodes.has(kc.code)),
+    ...kcRows,
+  ]);
+  for (const cycle of graph.findCycles()) {
+    const codes = cycle.map((id) => graph.get(id)?.code ?? id);
+    result.errors.push(`Prerequisite cycle: ${[...codes, codes[0]].join(' -> ')}`);
+  }
+
+  // Lessons
+  const lessonRows = bundle.lessons.map((lesson) => {
+    const exerciseKcs = lesson.content.sections.flatMap((section) =>
+      section.blocks.flatMap((block) => (block.type === 'exercise' && block.kc ? [block.kc] : []))
+    );
+    resolve(kcIds, exerciseKcs, `Lesson ${lesson.slug}`, 'exercise KC');
+
+    return toLessonRow(lesson, lessonsBySlug.get(lesson.slug), {
+      id: lessonIds.get(lesson.slug)!,
+      kcIds: resolve(kcIds, lesson.knowledge_components, `Lesson ${lesson.slug}`, 'KC'),
+      prerequisiteLessonIds: resolve(
+        lessonIds,
+        lesson.prerequisite_lessons,
+        `Lesson ${lesson.slug}`,
+        'prerequisite lesson'
+      ),
+    });
+  });
+
+  const kcWrites = classify(
+    'knowledge_component',
+    kcRows,
+    (kc) => kc.code,
+    (kc) => kcsByCode.get(kc.code),
+    KC_FIELDS,
+    onConflict,
+    result.knowledgeComponents,
+    result.conflicts
+  );
+  const lessonWrites = classify(
+    'lesson',
+    lessonRows,
+    (lesson) => lesson.slug,
+    (lesson) => lessonsBySlug.get(lesson.slug),
+    LESSON_FIELDS,
+    onConflict,
+    result.lessons,
+    result.conflicts
+  );
+
+  if (result.errors.length > 0 || result.dryRun) {
+    return result;
+  }
+
+  await upsertKnowledgeComponents(kcWrites.map(({ created_at, updated_at, ...row }) => row));
+  await upsertLessons(lessonWrites.map(({ created_at, updated_at, ...row }) => row));
+
+  invalidateKnowledgeGraph();
+
+  return result;
+}
+
+/**
+ * Sort rows into created / updated / unchanged / skipped; returns the rows to write
+ */
+function classify<Row extends Record<string, unknown>>(
+  kind: ImportConflict['kind'],
+  rows: Row[],
+  keyOf: (row: Row) => string,
+  existingOf: (row: Row) => Row | undefined,
+  fields: readonly (keyof Row & string)[],
+  onConflict: 'update' | 'skip',
+  counts: ImportCounts,
+  conflicts: ImportConflict[]
+): Row[] {
+  const writes: Row[] = [];
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    const existing = existingOf(row);
+
+    if (!existing) {
+      counts.created.push(key);
+      writes.push(row);
+      continue;
+    }
+
+    const changed = fields.filter((field) => !sameValue(existing[field], row[field]));
+    if (changed.length === 0) {
+      counts.unchanged.push(key);
+      continue;
+    }
+
+    const resolution = onConflict === 'update' ? 'updated' : 'skipped';
+    conflicts.push({ kind, key, fields: changed, resolution });
+    counts[resolution].push(key);
+    if (resolution === 'updated') writes.push(row);
+  }
+
+  return writes;
+}
+
+function toKnowledgeComponentRow(
+  kc: CurriculumKnowledgeComponent,
+  existing: KnowledgeComponent | undefined,
+  refs: { id: string; prerequisites: string[]; related: string[] }
+): KnowledgeComponent {
+  const now = new Date().toISOString();
+
+  return {
+    id: refs.id,
+    code: kc.code,
+    name_en: kc.name_en,
+    name_ar: kc.name_ar,
+    description_en: kc.description_en ?? null,
+    description_ar: kc.description_ar ?? null,
+    subject: kc.subject,
+    topic: kc.topic,
+    subtopic: kc.subtopic ?? null,
+    prerequisites: refs.prerequisites,
+    related_kcs: refs.related,
+    difficulty: kc.difficulty,
+    learning_objectives: kc.learning_objectives,
+    common_misconceptions: kc.misconceptions,
+    estimated_time_minutes: kc.estimated_time_minutes ?? null,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+}
+
+function toLessonRow(
+  lesson: CurriculumLesson,
+  existing: Lesson | undefined,
+  refs: { id: string; kcIds: string[]; prerequisiteLessonIds: string[] }
+): Lesson {
+  const now = new Date().toISOString();
+
+  return {
+    id: refs.id,
+    slug: lesson.slug,
+    title_en: lesson.title_en,
+    title_ar: lesson.title_ar,
+    description_en: lesson.description_en ?? null,
+    description_ar: lesson.description_ar ?? null,
+    content: toJson(lesson.content),
+    subject: lesson.subject,
+    topic: lesson.topic,
+    difficulty: lesson.difficulty,
+    kc_ids: refs.kcIds,
+    prerequisite_lesson_ids: refs.prerequisiteLessonIds,
+    estimated_duration_minutes: lesson.estimated_duration_minutes,
+    is_published: lesson.published,
+    // Keep the original publication date across re-imports
+    published_at: lesson.published ? (existing?.published_at ?? now) : null,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+}
+
+function emptyCounts(): ImportCounts {
+  return { created: [], updated: [], unchanged: [], skipped: [] };
+}
+
+/**
+ * Deep equality that ignores object key order (JSONB does not keep it)
+ * and treats arrays of IDs/strings as ordered lists
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a ?? null) === stableStringify(b ?? null);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
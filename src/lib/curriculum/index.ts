@@ -0,0 +1,9 @@
+/**
+ * Curriculum Bundles
+ *
+ * Authoring format for knowledge components and lessons, with import and export
+ */
+
+export * from './schema';
+export * from './importer';
+export * from './exporter';
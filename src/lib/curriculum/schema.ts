@@ -0,0 +1,181 @@
+/**
+ * Curriculum Bundle Format
+ *
+ * Versioned, Zod-validated format for authoring subjects, knowledge
+ * components and lessons outside the database (JSON or YAML). KCs are keyed
+ * by code and lessons by slug; references between them use those keys, never
+ * database UUIDs, so a bundle can be exported and re-imported anywhere.
+ * Lesson content uses the block schema from @/lib/lessons/content.
+ *
+ * Example (YAML):
+ *   version: 1
+ *   subjects:
+ *     - code: Math
+ *       name_ar: الرياضيات
+ *   knowledge_components:
+ *     - code: MATH_ALGEBRA_LINEAR_EQUATIONS
+ *       subject: Math
+ *       topic: Algebra
+ *       name_en: Linear equations
+ *       name_ar: المعادلات الخطية
+ *       prerequisites: []
+ *   lessons:
+ *     - slug: linear-equations
+ *       subject: Math
+ *       topic: Algebra
+ *       title_en: Linear equations
+ *       title_ar: المعادلات الخطية
+ *       knowledge_components: [MATH_ALGEBRA_LINEAR_EQUATIONS]
+ *       content:
+ *         sections:
+ *           - title_ar: ما المعادلة الخطية؟
+ *             blocks:
+ *               - type: text
+ *                 text: المعادلة الخطية هي ...
+ */
+
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { lessonContentSchema, kcCodeSchema } from '@/lib/lessons/content';
+
+/**
+ * Current bundle format version
+ */
+export const CURRICULUM_BUNDLE_VERSION = 1;
+
+const difficultySchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+
+const slugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slugs are lowercase words joined by hyphens');
+
+// ==================== BUNDLE ====================
+
+export const curriculumSubjectSchema = z.object({
+  code: z.string().min(1), // Stored in knowledge_components.subject / lessons.subject
+  name_ar: z.string().optional(),
+  name_en: z.string().optional(),
+});
+
+export const curriculumKnowledgeComponentSchema = z.object({
+  code: kcCodeSchema,
+  subject: z.string().min(1),
+  topic: z.string().min(1),
+  subtopic: z.string().optional(),
+  name_en: z.string().min(1),
+  name_ar: z.string().min(1),
+  description_en: z.string().optional(),
+  description_ar: z.string().optional(),
+  difficulty: difficultySchema.default('intermediate'),
+  prerequisites: z.array(kcCodeSchema).default([]), // KC codes
+  related: z.array(kcCodeSchema).default([]), // KC codes
+  learning_objectives: z.array(z.string()).default([]),
+  misconceptions: z.array(z.string()).default([]),
+  estimated_time_minutes: z.number().int().positive().optional(),
+});
+
+export const curriculumLessonSchema = z.object({
+  slug: slugSchema,
+  subject: z.string().min(1),
+  topic: z.string().min(1),
+  title_en: z.string().min(1),
+  title_ar: z.string().min(1),
+  description_en: z.string().optional(),
+  description_ar: z.string().optional(),
+  difficulty: difficultySchema.default('beginner'),
+  knowledge_components: z.array(kcCodeSchema).default([]), // KC codes
+  prerequisite_lessons: z.array(slugSchema).default([]), // Lesson slugs
+  estimated_duration_minutes: z.number().int().positive().default(30),
+  published: z.boolean().default(false),
+  content: lessonContentSchema,
+});
+
+export const curriculumBundleSchema = z
+  .object({
+    version: z.literal(CURRICULUM_BUNDLE_VERSION),
+    subjects: z.array(curriculumSubjectSchema).default([]),
+    knowledge_components: z.array(curriculumKnowledgeComponentSchema).default([]),
+    lessons: z.array(curriculumLessonSchema).default([]),
+  })
+  .superRefine((bundle, ctx) => {
+    const subjects = new Set(bundle.subjects.map((subject) => subject.code));
+
+    const checkUnique = (values: string[], path: string, key: string) => {
+      const seen = new Set<string>();
+      values.forEach((value, index) => {
+        if (seen.has(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path, index, key], message: `Duplicate ${key} "${value}"` });
+        }
+        seen.add(value);
+      });
+    };
+
+    checkUnique(bundle.subjects.map((s) => s.code), 'subjects', 'code');
+    checkUnique(bundle.knowledge_components.map((kc) => kc.code), 'knowledge_components', 'code');
+    checkUnique(bundle.lessons.map((lesson) => lesson.slug), 'lessons', 'slug');
+
+    // Subjects must be declared when the bundle declares any
+    if (subjects.size === 0) return;
+
+    for (const [path, items] of [
+      ['knowledge_components', bundle.knowledge_components],
+      ['lessons', bundle.lessons],
+    ] as const) {
+      items.forEach((item, index) => {
+        if (!subjects.has(item.subject)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [path, index, 'subject'],
+            message: `Subject "${item.subject}" is not declared in subjects`,
+          });
+        }
+      });
+    }
+  });
+
+// ==================== TYPES ====================
+
+export type CurriculumSubject = z.infer<typeof curriculumSubjectSchema>;
+export type CurriculumKnowledgeComponent = z.infer<typeof curriculumKnowledgeComponentSchema>;
+export type CurriculumLesson = z.infer<typeof curriculumLessonSchema>;
+export type CurriculumBundle = z.infer<typeof curriculumBundleSchema>;
+
+export type CurriculumFormat = 'json' | 'yaml';
+
+/**
+ * Bundle file that failed to parse or validate
+ */
+export class CurriculumValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'CurriculumValidationError';
+  }
+}
+
+/**
+ * Parse and validate a bundle from JSON or YAML text
+ * (format is detected from the first character when not given)
+ */
+export function parseCurriculumBundle(text: string, format?: CurriculumFormat): CurriculumBundle {
+  const detected = format ?? (/^\s*[{[]/.test(text) ? 'json' : 'yaml');
+
+  let raw: unknown;
+  try {
+    raw = detected === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new CurriculumValidationError(`Invalid ${detected.toUpperCase()}`, [(error as Error).message]);
+  }
+
+  const result = curriculumBundleSchema.safeParse(raw);
+  if (!result.success) {
+    throw new CurriculumValidationError(
+      'Curriculum bundle does not match the schema',
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyDialect,
+  detectConversationDialect,
+  normalizeArabic,
+  tokenizeArabic,
+} from '../classifier';
+import type { ChatMessage } from '@/lib/agents/base/types';
+
+describe('normalizeArabic / tokenizeArabic', () => {
+  it('unifies alef, alef maqsura and taa marbuta and strips diacritics', () => {
+    expect(normalizeArabic('إِلى مدرسةٌ')).toBe('الي مدرسه');
+  });
+
+  it('collapses letters repeated for emphasis', () => {
+    expect(normalizeArabic('حلوووو')).toBe('حلو');
+  });
+
+  it('keeps only Arabic words', () => {
+    expect(tokenizeArabic('ما هو x + 2 في المعادلة؟')).toEqual(['ما', 'هو', 'في', 'المعادله']);
+  });
+});
+
+describe('classifyDialect', () => {
+  it('returns null without Arabic words', () => {
+    expect(classifyDialect('solve x + 2 = 4')).toBeNull();
+  });
+
+  it.each([
+    ['Egyptian', 'ازيك، أنا عايز أفهم الدرس ده دلوقتي عشان مش فاهم خالص'],
+    ['Gulf', 'شلونك، أبغى أفهم الدرس الحين لأني ما فهمت وايد'],
+    ['Levantine', 'كيفك، بدي افهم هالدرس هلق لأنو كتير صعب هيك'],
+    ['Maghrebi', 'واش نقدر نفهم هاد الدرس دابا، بزاف صعيب علاش'],
+    ['MSA', 'أريد أن أفهم هذا الدرس الآن لأنني لم أفهمه جيدا'],
+  ] as const)('recognizes %s', (dialect, text) => {
+    const classification = classifyDialect(text);
+
+    expect(classification?.dialect).toBe(dialect);
+    expect(classification!.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('returns probabilities summing to 1 and lexicon evidence first', () => {
+    const classification = classifyDialect('أنا عايز أعرف إزاي أحل المسألة دي')!;
+    const total = Object.values(classification.scores).reduce((sum, p) => sum + p, 0);
+
+    expect(total).toBeCloseTo(1, 2);
+    expect(classification.evidence[0]?.kind).toBe('lexicon');
+    expect(classification.wordCount).toBe(7);
+  });
+
+  it('classifies textbook Arabic without dialect markers as MSA', () => {
+    expect(classifyDialect('احسب مساحة المثلث القائم')?.dialect).toBe('MSA');
+  });
+});
+
+describe('detectConversationDialect', () => {
+  it('uses only the student messages', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'عايز أفهم الكسور دي ازاي', timestamp: new Date() },
+      { role: 'agent', content: 'بالتأكيد، سنبدأ الآن بتعريف الكسر.', timestamp: new Date() },
+      { role: 'user', content: 'طب ليه كده؟', timestamp: new Date() },
+    ];
+
+    expect(detectConversationDialect(history)?.dialect).toBe('Egyptian');
+    expect(detectConversationDialect([])).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDialectRewritePrompt,
+  checkDialect,
+  preservesTechnicalContent,
+  protectTechnicalSegments,
+  restoreTechnicalSegments,
+} from '../rewrite';
+
+const ANSWER = 'لحل المعادلة $x + 2 = 4$ نطرح 2 من الطرفين:\n```python\nx = 4 - 2\n```\nثم نستخدم `print(x)`.';
+
+describe('protectTechnicalSegments / restoreTechnicalSegments', () => {
+  it('replaces code and equations with numbered placeholders', () => {
+    const { text, segments } = protectTechnicalSegments(ANSWER);
+
+    expect(segments).toEqual(['$x + 2 = 4$', '```python\nx = 4 - 2\n```', '`print(x)`']);
+    expect(text).toContain('⟦0⟧');
+    expect(text).toContain('⟦2⟧');
+    expect(text).not.toContain('python');
+  });
+
+  it('restores the original segments', () => {
+    const { text, segments } = protectTechnicalSegments(ANSWER);
+
+    expect(restoreTechnicalSegments(text, segments)).toBe(ANSWER);
+  });
+
+  it('rejects a rewrite that lost, duplicated or invented a placeholder', () => {
+    const { segments } = protectTechnicalSegments(ANSWER);
+
+    expect(restoreTechnicalSegments('⟦0⟧ ⟦1⟧', segments)).toBeNull();
+    expect(restoreTechnicalSegments('⟦0⟧ ⟦1⟧ ⟦2⟧ ⟦2⟧', segments)).toBeNull();
+    expect(restoreTechnicalSegments('⟦0⟧ ⟦1⟧ ⟦2⟧ ⟦3⟧', segments)).toBeNull();
+  });
+});
+
+describe('checkDialect', () => {
+  it('does not judge short answers', () => {
+    expect(checkDialect('تمام، ممتاز!', 'Egyptian').matches).toBe(true);
+  });
+
+  it('flags an answer in another dialect', () => {
+    const msa = 'يجب أن نطرح العدد من الطرفين لكي نحصل على قيمة المتغير في هذه المعادلة الخطية';
+    const check = checkDialect(msa, 'Egyptian');
+
+    expect(check.matches).toBe(false);
+    expect(check.classification?.dialect).toBe('MSA');
+    expect(checkDialect(msa, 'MSA').matches).toBe(true);
+  });
+});
+
+describe('preservesTechnicalContent', () => {
+  it('accepts a rewrite that only changes the prose', () => {
+    const rewritten = ANSWER.replace('لحل المعادلة', 'عشان نحل المعادلة').replace('ثم', 'وبعدين');
+
+    expect(preservesTechnicalContent(ANSWER, rewritten)).toBe(true);
+  });
+
+  it('rejects a rewrite that changed an equation or a Latin term', () => {
+    expect(preservesTechnicalContent(ANSWER, ANSWER.replace('$x + 2 = 4$', '$x + 2 = 5$'))).toBe(false);
+    expect(preservesTechnicalContent('نستخدم Python هنا', 'نستخدم بايثون هنا')).toBe(false);
+  });
+});
+
+describe('buildDialectRewritePrompt', () => {
+  it('names the target dialect in Arabic', () => {
+    expect(buildDialectRewritePrompt('⟦0⟧ نص', 'Levantine')).toContain('الشامي');
+  });
+});
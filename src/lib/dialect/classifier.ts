@@ -0,0 +1,344 @@
+/**
+ * Dialect Classifier
+ *
+ * Identifies which of the five supported varieties (MSA, Egyptian, Gulf,
+ * Levantine, Maghrebi) a text is written in, locally and without a model
+ * call. Two signals are combined:
+ *
+ * 1. Lexicon: words and word pairs from the bundled list (lexicon.ts). A
+ *    word listed under several dialects splits its weight between them.
+ * 2. Character n-grams: a naive Bayes model over 1-3 character n-grams
+ *    trained from the same list, which scores words that are not listed
+ *    (inflected verbs, spelling variants) by how much they look like each
+ *    dialect's vocabulary.
+ *
+ * The combined scores become probabilities; the most likely dialect is
+ * returned with its probability as the confidence and the matches that
+ * drove the decision as evidence. MSA gets a small prior, so text with no
+ * dialect markers (most textbook questions) is classified as MSA.
+ */
+
+import { DIALECT_LEXICON, SHARED_WORDS } from './lexicon';
+import type { ArabicDialect, ChatMessage } from '@/lib/agents/base/types';
+
+/**
+ * One piece of evidence behind a classification
+ */
+export interface DialectEvidence {
+  kind: 'lexicon' | 'ngram';
+  match: string; // Lexicon word/pair, or the word scored by the n-gram model
+  dialects: ArabicDialect[]; // Dialects the match points to
+  weight: number;
+}
+
+/**
+ * Classifier output
+ */
+export interface DialectClassification {
+  dialect: ArabicDialect;
+  confidence: number; // Probability of the chosen dialect (0-1)
+  scores: Record<ArabicDialect, number>; // Probabilities, summing to 1
+  evidence: DialectEvidence[]; // Strongest first
+  wordCount: number; // Arabic words considered
+}
+
+/**
+ * How the dialect of a chat turn was chosen
+ */
+export interface DialectDecision {
+  dialect: ArabicDialect | null; // null: none chosen (agents default to MSA)
+  source: 'request' | 'conversation' | 'profile' | 'detected' | 'none';
+  classification?: DialectClassification; // When the classifier ran
+}
+
+export const ARABIC_DIALECTS: ArabicDialect[] = ['MSA', 'Egyptian', 'Gulf', 'Levantine', 'Maghrebi'];
+
+/**
+ * Below this confidence a detected dialect is not used
+ */
+export const DIALECT_MIN_CONFIDENCE = 0.5;
+
+const LEXICON_WEIGHT = 2; // Per lexicon match (split between the dialects listing it)
+const NGRAM_WEIGHT = 1.5; // For the mean n-gram posterior over scored words
+const MSA_PRIOR = 0.75;
+const NGRAM_ORDER = 3;
+const NGRAM_SMOOTHING = 0.5;
+const NGRAM_MIN_WORD_LENGTH = 3;
+const MAX_EVIDENCE = 8;
+
+const DIACRITICS = /[ً-ْٰـ]/g; // Tashkeel, dagger alef, tatweel
+const ARABIC_WORD = /^[ء-يپچڤگ]+$/;
+
+/**
+ * Normalize Arabic spelling: strip diacritics and tatweel, unify alef,
+ * alef maqsura and taa marbuta, and collapse letters repeated for emphasis
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(DIACRITICS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/(.)\1{2,}/g, '$1');
+}
+
+/**
+ * Arabic words in a text (normalized)
+ */
+export function tokenizeArabic(text: string): string[] {
+  return normalizeArabic(text)
+    .split(/[^ء-يپچڤگ]+/)
+    .filter((word) => word.length > 0 && ARABIC_WORD.test(word));
+}
+
+/**
+ * Classify a text; null when it has no Arabic words
+ */
+export function classifyDialect(text: string): DialectClassification | null {
+  const words = tokenizeArabic(text);
+  if (words.length === 0) return null;
+
+  const model = getModel();
+  const evidence: DialectEvidence[] = [];
+  const logits = Object.fromEntries(
+    ARABIC_DIALECTS.map((dialect) => [dialect, dialect === 'MSA' ? MSA_PRIOR : 0])
+  ) as Record<ArabicDialect, number>;
+
+  // 1. Lexicon matches (word pairs first, then single words with و/ف stripped)
+  const unmatched: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const pair = i + 1 < words.length ? `${words[i]} ${words[i + 1]}` : null;
+    const pairDialects = pair ? model.lexicon.get(pair) : undefined;
+
+    if (pair && pairDialects) {
+      evidence.push(lexiconEvidence(pair, pairDialects));
+      i++;
+      continue;
+    }
+
+    const word = words[i]!;
+    const match = lookupWord(model, word);
+    if (match) {
+      evidence.push(lexiconEvidence(match.word, match.dialects));
+    } else if (word.length >= NGRAM_MIN_WORD_LENGTH && !model.shared.has(word)) {
+      unmatched.push(word);
+    }
+  }
+
+  for (const item of evidence) {
+    for (const dialect of item.dialects) {
+      logits[dialect] += LEXICON_WEIGHT * item.weight;
+    }
+  }
+
+  // 2. N-gram model over the words the lexicon did not cover
+  if (unmatched.length > 0) {
+    const meanPosterior = Object.fromEntries(ARABIC_DIALECTS.map((d) => [d, 0])) as Record<
+      ArabicDialect,
+      number
+    >;
+
+    for (const word of unmatched) {
+      const posterior = wordPosterior(model, word);
+      const best = argmax(posterior);
+
+      for (const dialect of ARABIC_DIALECTS) {
+        meanPosterior[dialect] += posterior[dialect] / unmatched.length;
+      }
+
+      evidence.push({
+        kind: 'ngram',
+        match: word,
+        dialects: [best],
+        weight: round(posterior[best] - 1 / ARABIC_DIALECTS.length),
+      });
+    }
+
+    // Few words give a weak n-gram signal
+    const strength = Math.min(1, unmatched.length / 3);
+    for (const dialect of ARABIC_DIALECTS) {
+      logits[dialect] += NGRAM_WEIGHT * strength * meanPosterior[dialect];
+    }
+  }
+
+  const scores = softmax(logits);
+  const dialect = argmax(scores);
+
+  return {
+    dialect,
+    confidence: round(scores[dialect]),
+    scores: Object.fromEntries(
+      ARABIC_DIALECTS.map((d) => [d, round(scores[d])])
+    ) as Record<ArabicDialect, number>,
+    evidence: evidence
+      .filter((item) => item.weight > 0)
+      .sort((a, b) => (a.kind === b.kind ? b.weight - a.weight : a.kind === 'lexicon' ? -1 : 1))
+      .slice(0, MAX_EVIDENCE),
+    wordCount: words.length,
+  };
+}
+
+/**
+ * Classify the student's recent messages in a conversation
+ */
+export function detectConversationDialect(
+  history: ChatMessage[],
+  recentMessages = 5
+): DialectClassification | null {
+  const text = history
+    .filter((message) => message.role === 'user')
+    .slice(-recentMessages)
+    .map((message) => message.content)
+    .join('\n');
+
+  return classifyDialect(text);
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+interface DialectModel {
+  lexicon: Map<string, ArabicDialect[]>;
+  shared: Set<string>;
+  ngramCounts: Record<ArabicDialect, Map<string, number>>;
+  ngramTotals: Record<ArabicDialect, number>;
+  vocabularySize: number;
+}
+
+let model: DialectModel | null = null;
+
+/**
+ * Model trained from the bundled word list (built on first use)
+ */
+function getModel(): DialectModel {
+  if (!model) {
+    model = trainModel(DIALECT_LEXICON);
+  }
+  return model;
+}
+
+function trainModel(lexicon: Record<ArabicDialect, string[]>): DialectModel {
+  const entries = new Map<string, ArabicDialect[]>();
+  const ngramCounts = {} as Record<ArabicDialect, Map<string, number>>;
+  const ngramTotals = {} as Record<ArabicDialect, number>;
+  const vocabulary = new Set<string>();
+
+  for (const dialect of ARABIC_DIALECTS) {
+    const counts = new Map<string, number>();
+    let total = 0;
+
+    for (const entry of lexicon[dialect]) {
+      const normalized = tokenizeArabic(entry).join(' ');
+      if (!normalized) continue;
+
+      const dialects = entries.get(normalized) ?? [];
+      if (!dialects.includes(dialect)) dialects.push(dialect);
+      entries.set(normalized, dialects);
+
+      for (const word of normalized.split(' ')) {
+        for (const gram of ngrams(word)) {
+          counts.set(gram, (counts.get(gram) ?? 0) + 1);
+          vocabulary.add(gram);
+          total += 1;
+        }
+      }
+    }
+
+    ngramCounts[dialect] = counts;
+    ngramTotals[dialect] = total;
+  }
+
+  return {
+    lexicon: entries,
+    shared: new Set(SHARED_WORDS.map(normalizeArabic)),
+    ngramCounts,
+    ngramTotals,
+    vocabularySize: vocabulary.size,
+  };
+}
+
+/**
+ * Character 1-3 grams of a word, with ^ and $ marking its boundaries
+ */
+function ngrams(word: string): string[] {
+  const padded = `^${word}$`;
+  const grams: string[] = [];
+
+  for (let n = 1; n <= NGRAM_ORDER; n++) {
+    for (let i = 0; i + n <= padded.length; i++) {
+      const gram = padded.slice(i, i + n);
+      if (gram !== '^' && gram !== '$') grams.push(gram);
+    }
+  }
+
+  return grams;
+}
+
+/**
+ * P(dialect | word) under the n-gram model (uniform prior)
+ */
+function wordPosterior(model: DialectModel, word: string): Record<ArabicDialect, number> {
+  const grams = ngrams(word);
+  const logLikelihood = {} as Record<ArabicDialect, number>;
+
+  for (const dialect of ARABIC_DIALECTS) {
+    const counts = model.ngramCounts[dialect];
+    const denominator = model.ngramTotals[dialect] + NGRAM_SMOOTHING * model.vocabularySize;
+    let sum = 0;
+
+    for (const gram of grams) {
+      sum += Math.log(((counts.get(gram) ?? 0) + NGRAM_SMOOTHING) / denominator);
+    }
+
+    // Per-gram average keeps long words from dominating
+    logLikelihood[dialect] = sum / grams.length;
+  }
+
+  return softmax(logLikelihood, grams.length);
+}
+
+/**
+ * Lexicon entry for a word, trying it without a leading و or ف
+ */
+function lookupWord(
+  model: DialectModel,
+  word: string
+): { word: string; dialects: ArabicDialect[] } | null {
+  const candidates = [word];
+  if (word.length > 2 && (word.startsWith('و') || word.startsWith('ف'))) {
+    candidates.push(word.slice(1));
+  }
+
+  for (const candidate of candidates) {
+    const dialects = model.lexicon.get(candidate);
+    if (dialects) return { word: candidate, dialects };
+  }
+
+  return null;
+}
+
+function lexiconEvidence(match: string, dialects: ArabicDialect[]): DialectEvidence {
+  return { kind: 'lexicon', match, dialects, weight: round(1 / dialects.length) };
+}
+
+function softmax(
+  logits: Record<ArabicDialect, number>,
+  temperature = 1
+): Record<ArabicDialect, number> {
+  const max = Math.max(...ARABIC_DIALECTS.map((d) => logits[d]));
+  const exps = ARABIC_DIALECTS.map((d) => Math.exp((logits[d] - max) * temperature));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+
+  return Object.fromEntries(
+    ARABIC_DIALECTS.map((d, index) => [d, exps[index]! / total])
+  ) as Record<ArabicDialect, number>;
+}
+
+function argmax(scores: Record<ArabicDialect, number>): ArabicDialect {
+  return ARABIC_DIALECTS.reduce((best, dialect) => (scores[dialect] > scores[best] ? dialect : best));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
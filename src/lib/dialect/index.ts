@@ -0,0 +1,10 @@
+/**
+ * Dialect Identification
+ *
+ * Local classifier for the five supported Arabic varieties, and helpers for
+ * rewriting agent answers into the student's dialect
+ */
+
+export * from './lexicon';
+export * from './classifier';
+export * from './rewrite';
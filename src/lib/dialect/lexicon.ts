@@ -0,0 +1,70 @@
+/**
+ * Dialect Lexicon
+ *
+ * Bundled word list for the dialect classifier: words that mark each dialect
+ * (function words, question words, common verbs and adverbs). Words used by
+ * more than one dialect may be listed under each; the classifier splits
+ * their weight between them. The character n-gram model is trained from
+ * this same list, so it generalizes to inflected forms that are not listed.
+ *
+ * Entries are normalized with normalizeArabic before use, so hamza and
+ * taa marbuta spellings do not need to be repeated.
+ */
+
+import type { ArabicDialect } from '@/lib/agents/base/types';
+
+export const DIALECT_LEXICON: Record<ArabicDialect, string[]> = {
+  MSA: [
+    'ماذا', 'لماذا', 'كيف', 'متى', 'أين', 'هل', 'هذا', 'هذه', 'ذلك', 'تلك', 'هؤلاء',
+    'الذي', 'التي', 'الذين', 'سوف', 'ليس', 'ليست', 'لقد', 'قد', 'إذن', 'أريد', 'نريد',
+    'الآن', 'جدا', 'حسنا', 'لكن', 'أيضا', 'يجب', 'يمكن', 'يمكنني', 'أستطيع', 'لن', 'لم',
+    'أن', 'إنه', 'إنها', 'كذلك', 'عندما', 'بينما', 'حيث', 'لذلك', 'ربما', 'فقط',
+    'شكرا', 'أرجو', 'من فضلك', 'أفهم', 'لا أفهم', 'أعرف', 'ماهو', 'ماهي', 'غدا', 'أمس',
+    'كثيرا', 'قليلا', 'شيء', 'أيها', 'نعم', 'سأ', 'سنذهب', 'سأشرح', 'ينبغي', 'بحيث',
+  ],
+  Egyptian: [
+    'ازيك', 'ازيكم', 'إيه', 'ازاي', 'عايز', 'عايزة', 'عايزين', 'عاوز', 'عاوزة', 'دلوقتي',
+    'كده', 'كدا', 'بتاع', 'بتاعة', 'بتوع', 'مش', 'أوي', 'قوي', 'إمتى', 'فين', 'ليه',
+    'خالص', 'ماشي', 'طب', 'ده', 'دي', 'دول', 'إحنا', 'إنتو', 'بقى', 'لسه', 'حاجة',
+    'كويس', 'كويسة', 'معلش', 'النهارده', 'بكره', 'امبارح', 'شوية', 'زي', 'عشان',
+    'علشان', 'جامد', 'مفيش', 'أيوه', 'لأ', 'عامل', 'عاملة', 'حضرتك', 'يعني', 'برضه',
+    'خلاص', 'إزيك', 'هو ده', 'مافيش', 'إنت', 'إنتي', 'مين', 'أصل', 'ياريت',
+    'هعمل', 'هنعمل', 'هيعمل', 'بيعمل', 'بيقول', 'بتقول', 'فاهم', 'مفهمتش', 'مش فاهم',
+    'بص', 'اتفضل', 'يابني', 'ياعم', 'بجد', 'إديني', 'ولا حاجة',
+  ],
+  Gulf: [
+    'شلونك', 'شلونكم', 'شلون', 'وش', 'ايش', 'وايد', 'زين', 'حيل', 'يبغى', 'أبغى',
+    'تبغى', 'نبغى', 'أبي', 'تبي', 'يبي', 'ودي', 'الحين', 'هالحين', 'شفيك',
+    'مب', 'مو', 'ترى', 'چذي', 'جذي', 'كذا', 'وين', 'ليش', 'شنو', 'شقد', 'هذي',
+    'باچر', 'باكر', 'شي', 'هني', 'خوش', 'عيل', 'ويا', 'سوالف', 'يالغالي',
+    'مشكور', 'يعطيك العافية', 'اشوف', 'أشوفك', 'تراني', 'مافي', 'شسالفة',
+    'زلمة', 'هاذي', 'هاذا', 'چان', 'جان', 'اشلون', 'يا ليت',
+    'قاعد', 'قاعدة', 'قاعدين', 'بسوي', 'نسوي', 'يسوي', 'سويت', 'وشو', 'إيه والله',
+  ],
+  Levantine: [
+    'كيفك', 'كيفكن', 'كيفكم', 'شو', 'هيك', 'هلق', 'هلأ', 'بدي', 'بدك', 'بدو', 'بدها',
+    'بدنا', 'بدكن', 'منيح', 'منيحة', 'كتير', 'هاد', 'هادا', 'هاي', 'هدول', 'لسا',
+    'يلا', 'مبلا', 'أديش', 'قديش', 'عنجد', 'تبع', 'تبعي', 'تبعك', 'هون', 'هنيك',
+    'منشان', 'مشان', 'كمان', 'ولك', 'بكرا', 'مبارح', 'عم', 'رح',
+    'ليش', 'وين', 'شي', 'إيمتى', 'أيمتى', 'مين', 'هيدا', 'هيدي', 'كرمال', 'مظبوط',
+    'معقول', 'شلون', 'بحكي', 'بتحكي', 'عم بدرس', 'عم بفكر', 'فيني', 'فيك', 'ما فيني',
+    'بعرف', 'ما بعرف', 'بتعرف', 'بفهم', 'ما بفهم', 'يسلمو', 'هلا',
+  ],
+  Maghrebi: [
+    'واش', 'كيداير', 'كيدايرة', 'لاباس', 'بزاف', 'دابا', 'درك', 'ضرك', 'علاش',
+    'كيفاش', 'مزيان', 'مزيانة', 'بغيت', 'نبغي', 'شحال', 'قداش', 'برشا', 'توا', 'باهي',
+    'ياسر', 'والو', 'راني', 'راك', 'راه', 'راهي', 'كاين', 'كاينة', 'ماكاينش', 'غادي',
+    'نتا', 'نتي', 'حنا', 'ديال', 'ديالي', 'ديالك', 'تاع', 'متاع', 'هادي', 'بلاك',
+    'صافي', 'واخا', 'زعما', 'مليح', 'خويا', 'فين', 'شنو', 'شكون', 'منين', 'كنقرا',
+    'كنفهم', 'مافهمتش', 'كيفاه', 'علاه', 'شنية', 'نحب', 'تحب', 'برك',
+    'بالزاف', 'هكا', 'هكاك', 'كيما', 'بصح', 'يزي', 'نجم', 'ننجم', 'مانجمش', 'الحاصول',
+  ],
+};
+
+/**
+ * Very common words used alike in every dialect (ignored by the n-gram model)
+ */
+export const SHARED_WORDS = [
+  'في', 'من', 'على', 'الى', 'إلى', 'عن', 'ما', 'لا', 'و', 'يا', 'انا', 'أنا', 'انت',
+  'أنت', 'هو', 'هي', 'مع', 'كل', 'او', 'أو', 'بس', 'الله', 'والله', 'ان', 'إن',
+];
@@ -0,0 +1,135 @@
+/**
+ * Dialect Rewriting
+ *
+ * Helpers for the dialect stage of the agent pipeline: check whether an
+ * answer is written in the student's dialect, build the rewrite prompt and
+ * verify the rewrite. Code, equations and Latin-script technical terms are
+ * swapped for placeholders before the model sees the answer and must come
+ * back unchanged, otherwise the rewrite is discarded.
+ */
+
+import { extractCodeBlocks, extractEquations } from '@/lib/agents/base/utils';
+import { classifyDialect, type DialectClassification } from './classifier';
+import type { ArabicDialect } from '@/lib/agents/base/types';
+
+/**
+ * Arabic names of the dialects (as used in prompts)
+ */
+export const DIALECT_NAMES_AR: Record<ArabicDialect, string> = {
+  MSA: 'الفصحى',
+  Egyptian: 'المصري',
+  Gulf: 'الخليجي',
+  Levantine: 'الشامي',
+  Maghrebi: 'المغربي',
+};
+
+/**
+ * Answers with fewer Arabic words are not checked (too little evidence)
+ */
+export const DIALECT_CHECK_MIN_WORDS = 8;
+
+export const DIALECT_REWRITE_SYSTEM_PROMPT = `أنت محرر لغوي. تعيد كتابة نصوص تعليمية باللهجة العربية المطلوبة دون تغيير معناها.
+- حافظ على المعنى والتنسيق (العناوين، القوائم، الفقرات، Markdown) كما هو.
+- لا تترجم المصطلحات العلمية والتقنية ولا تغيّرها.
+- انسخ كل رمز من الشكل ⟦N⟧ كما هو تماماً وفي موضعه، فهو يمثل كوداً أو معادلة.
+- أعد النص المعاد كتابته فقط، دون مقدمة أو تعليق.`;
+
+/**
+ * Result of checking an answer's dialect
+ */
+export interface DialectCheck {
+  matches: boolean;
+  classification: DialectClassification | null; // null: too little Arabic to tell
+}
+
+/**
+ * Answer with code and equations replaced by numbered placeholders
+ */
+export interface ProtectedText {
+  text: string;
+  segments: string[]; // segments[n] is the original of ⟦n⟧
+}
+
+// Fenced code, block equations, inline equations, inline code (in this order)
+const PROTECTED_PATTERN = /```[\s\S]*?```|\$\$[\s\S]*?\$\$|\$[^$\n]+\$|`[^`\n]+`/g;
+const PLACEHOLDER_PATTERN = /⟦(\d+)⟧/g;
+const LATIN_TERM_PATTERN = /[A-Za-z][A-Za-z0-9_+\-]*/g;
+
+/**
+ * Check whether an answer is written in the target dialect
+ * (code and equations are left out of the classification)
+ */
+export function checkDialect(content: string, target: ArabicDialect): DialectCheck {
+  const prose = content.replace(PROTECTED_PATTERN, ' ');
+  const classification = classifyDialect(prose);
+
+  if (!classification || classification.wordCount < DIALECT_CHECK_MIN_WORDS) {
+    return { matches: true, classification };
+  }
+
+  return { matches: classification.dialect === target, classification };
+}
+
+/**
+ * Replace code blocks, equations and inline code with placeholders
+ */
+export function protectTechnicalSegments(content: string): ProtectedText {
+  const segments: string[] = [];
+  const text = content.replace(PROTECTED_PATTERN, (segment) => {
+    segments.push(segment);
+    return `⟦${segments.length - 1}⟧`;
+  });
+
+  return { text, segments };
+}
+
+/**
+ * Put the original segments back; null when the rewrite lost, duplicated or
+ * invented a placeholder
+ */
+export function restoreTechnicalSegments(rewritten: string, segments: string[]): string | null {
+  const seen = new Set<number>();
+  let valid = true;
+
+  const restored = rewritten.replace(PLACEHOLDER_PATTERN, (placeholder, index: string) => {
+    const n = Number(index);
+    if (n >= segments.length || seen.has(n)) {
+      valid = false;
+      return placeholder;
+    }
+    seen.add(n);
+    return segments[n]!;
+  });
+
+  return valid && seen.size === segments.length ? restored : null;
+}
+
+/**
+ * Prompt asking for the protected answer in the target dialect
+ */
+export function buildDialectRewritePrompt(protectedText: string, target: ArabicDialect): string {
+  return `أعد كتابة النص التالي باللهجة ${DIALECT_NAMES_AR[target]}.
+
+النص:
+${protectedText}`;
+}
+
+/**
+ * True when the rewrite kept every code block, equation and Latin-script
+ * term of the original exactly
+ */
+export function preservesTechnicalContent(original: string, rewritten: string): boolean {
+  return (
+    sameItems(extractCodeBlocks(original), extractCodeBlocks(rewritten)) &&
+    sameItems(extractEquations(original), extractEquations(rewritten)) &&
+    sameItems(latinTerms(original), latinTerms(rewritten))
+  );
+}
+
+function latinTerms(text: string): string[] {
+  return (text.replace(PROTECTED_PATTERN, ' ').match(LATIN_TERM_PATTERN) ?? []).sort();
+}
+
+function sameItems(a: unknown[], b: unknown[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -9,14 +9,22 @@
  * - Cost tracking
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, TaskType } from '@google/generative-ai';
 import type {
   GenerateContentRequest,
   GenerateContentResult,
-  GenerateContentStreamResult,
   Content,
   Part,
+  Tool,
 } from '@google/generative-ai';
+import { getCacheManager } from './context-cache';
+import type {
+  LLMProvider,
+  LLMPrompt,
+  LLMGenerateOptions,
+  LLMTextResponse,
+  LLMEmbeddingTask,
+} from '@/lib/llm/types';
 
 /**
  * Gemini model types with pricing
@@ -47,6 +55,14 @@ export const GEMINI_MODELS = {
   },
 } as const;
 
+/**
+ * Embedding model (768 dimensions)
+ */
+export const EMBEDDING_MODEL = 'text-embedding-004';
+
+// batchEmbedContents accepts at most 100 requests
+const EMBEDDING_BATCH_SIZE = 100;
+
 /**
  * Configuration for Gemini client
  */
@@ -71,10 +87,34 @@ export interface GeminiResponse<T = GenerateContentResult> {
   durationMs: number;
 }
 
+/**
+ * Function call requested by the model
+ */
+export interface GeminiFunctionCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Response from a function-calling request
+ */
+export interface GeminiFunctionCallingResponse {
+  content: string;
+  functionCalls: GeminiFunctionCall[];
+  model: GeminiModel;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  costUsd: number;
+  durationMs: number;
+}
+
 /**
  * Main Gemini client class
  */
-export class GeminiClient {
+export class GeminiClient implements LLMProvider {
+  readonly name = 'gemini';
   private genAI: GoogleGenerativeAI;
   private defaultModel: GeminiModel;
   private config: GeminiConfig;
@@ -127,6 +167,8 @@ export class GeminiClient {
 
     try {
       const generativeModel = this.getModel(model);
+      const request =
+        typeof prompt === 'string' ? prompt : { contents: prompt };
 
       // Handle system instruction
       if (options.systemInstruction) {
@@ -140,13 +182,13 @@ export class GeminiClient {
           },
         });
 
-        const result = await modelWithSystem.generateContent(prompt);
+        const result = await modelWithSystem.generateContent(request);
         const durationMs = Date.now() - startTime;
 
         return this.buildResponse(result, model, durationMs);
       }
 
-      const result = await generativeModel.generateContent(prompt);
+      const result = await generativeModel.generateContent(request);
       const durationMs = Date.now() - startTime;
 
       return this.buildResponse(result, model, durationMs);
@@ -167,8 +209,9 @@ export class GeminiClient {
       model?: GeminiModel;
       systemInstruction?: string;
       temperature?: number;
+      maxOutputTokens?: number;
     } = {}
-  ): AsyncGenerator<string, GeminiResponse<GenerateContentStreamResult>, void> {
+  ): AsyncGenerator<string, GeminiResponse, void> {
     const model = options.model || this.defaultModel;
     const startTime = Date.now();
 
@@ -180,11 +223,15 @@ export class GeminiClient {
             generationConfig: {
               temperature:
                 options.temperature ?? this.config.temperature ?? 0.7,
+              maxOutputTokens:
+                options.maxOutputTokens ?? this.config.maxOutputTokens ?? 8192,
             },
           })
         : this.getModel(model);
+      const request =
+        typeof prompt === 'string' ? prompt : { contents: prompt };
 
-      const result = await generativeModel.generateContentStream(prompt);
+      const result = await generativeModel.generateContentStream(request);
 
       // Stream chunks
       for await (const chunk of result.stream) {
@@ -198,11 +245,7 @@ export class GeminiClient {
       const finalResult = await result.response;
       const durationMs = Date.now() - startTime;
 
-      return this.buildResponse(
-        { response: finalResult } as GenerateContentStreamResult,
-        model,
-        durationMs
-      );
+      return this.buildResponse({ response: finalResult }, model, durationMs);
     } catch (error) {
       console.error('Gemini streaming error:', error);
       throw new Error(
@@ -211,6 +254,164 @@ export class GeminiClient {
     }
   }
 
+  /**
+   * Generate text (LLMProvider)
+   */
+  async generateText(
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions = {}
+  ): Promise<LLMTextResponse> {
+    const response = await this.generate(prompt, options);
+    return this.toTextResponse(this.getText(response), response);
+  }
+
+  /**
+   * Stream text (LLMProvider)
+   */
+  async *streamText(
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions = {}
+  ): AsyncGenerator<string, LLMTextResponse, void> {
+    const stream = this.generateStream(prompt, options);
+    let text = '';
+
+    let next = await stream.next();
+    while (!next.done) {
+      text += next.value;
+      yield next.value;
+      next = await stream.next();
+    }
+
+    return this.toTextResponse(text, next.value);
+  }
+
+  /**
+   * Embed texts for retrieval (LLMProvider)
+   */
+  async embed(
+    texts: string[],
+    options: { task?: LLMEmbeddingTask } = {}
+  ): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: EMBEDDING_MODEL });
+    const taskType =
+      options.task === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+    const embeddings: number[][] = [];
+
+    try {
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const result = await model.batchEmbedContents({
+          requests: batch.map((text) => ({
+            content: { role: 'user', parts: [{ text }] },
+            taskType,
+          })),
+        });
+        embeddings.push(...result.embeddings.map((embedding) => embedding.values));
+      }
+    } catch (error) {
+      console.error('Gemini embedding error:', error);
+      throw new Error(
+        `Failed to embed content: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Cache a system instruction with Gemini context caching (LLMProvider)
+   */
+  async cacheSystemInstruction(
+    key: string,
+    systemInstruction: string,
+    ttlSeconds: number = 3600
+  ): Promise<number> {
+    await getCacheManager().getOrCreateCache(key, systemInstruction, { ttlSeconds });
+    return Math.floor(systemInstruction.length / 4);
+  }
+
+  /**
+   * Generate content with function calling (tools)
+   */
+  async generateWithFunctionCalling(
+    prompt: string | Content[],
+    options: {
+      model?: GeminiModel;
+      systemInstruction?: string;
+      tools?: Tool[];
+      temperature?: number;
+      maxOutputTokens?: number;
+      onToken?: (token: string) => void; // Stream text parts as they arrive
+    } = {}
+  ): Promise<GeminiFunctionCallingResponse> {
+    const model = options.model || this.defaultModel;
+    const startTime = Date.now();
+
+    try {
+      const generativeModel = this.genAI.getGenerativeModel({
+        model: GEMINI_MODELS[model].name,
+        systemInstruction: options.systemInstruction,
+        tools: options.tools,
+        generationConfig: {
+          temperature: options.temperature ?? this.config.temperature ?? 0.7,
+          maxOutputTokens:
+            options.maxOutputTokens ?? this.config.maxOutputTokens ?? 8192,
+        },
+      });
+
+      const request =
+        typeof prompt === 'string' ? prompt : { contents: prompt };
+
+      let result: GenerateContentResult;
+      if (options.onToken) {
+        const stream = await generativeModel.generateContentStream(request);
+        for await (const chunk of stream.stream) {
+          const text = chunk.text();
+          if (text) {
+            options.onToken(text);
+          }
+        }
+        result = { response: await stream.response };
+      } else {
+        result = await generativeModel.generateContent(request);
+      }
+
+      const response = this.buildResponse(result, model, Date.now() - startTime);
+
+      // text() throws when the candidate contains only function calls
+      let content = '';
+      try {
+        content = result.response.text();
+      } catch {
+        content = '';
+      }
+
+      const functionCalls = (result.response.functionCalls() || []).map(
+        (call) => ({
+          name: call.name,
+          args: (call.args || {}) as Record<string, any>,
+        })
+      );
+
+      return {
+        content,
+        functionCalls,
+        model,
+        tokensUsed: {
+          input: response.tokensInput || 0,
+          output: response.tokensOutput || 0,
+        },
+        costUsd: response.costUsd || 0,
+        durationMs: response.durationMs,
+      };
+    } catch (error) {
+      console.error('Gemini function calling error:', error);
+      throw new Error(
+        `Failed to generate with function calling: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Smart model routing based on complexity
    */
@@ -309,12 +510,11 @@ export class GeminiClient {
    * Build response with cost tracking
    */
   private buildResponse(
-    result: GenerateContentResult | GenerateContentStreamResult,
+    result: GenerateContentResult,
     model: GeminiModel,
     durationMs: number
   ): GeminiResponse {
-    const response =
-      'response' in result ? result.response : result.response;
+    const response = result.response;
 
     const usage = response.usageMetadata;
     const modelConfig = GEMINI_MODELS[model];
@@ -328,7 +528,7 @@ export class GeminiClient {
       (tokensOutput / 1_000_000) * modelConfig.outputCostPer1M;
 
     return {
-      result: result as GenerateContentResult,
+      result,
       model,
       tokensInput,
       tokensOutput,
@@ -337,6 +537,20 @@ export class GeminiClient {
     };
   }
 
+  /**
+   * Usage fields of a response as an LLMTextResponse
+   */
+  private toTextResponse(text: string, response: GeminiResponse<unknown>): LLMTextResponse {
+    return {
+      text,
+      model: response.model,
+      tokensInput: response.tokensInput || 0,
+      tokensOutput: response.tokensOutput || 0,
+      costUsd: response.costUsd || 0,
+      durationMs: response.durationMs,
+    };
+  }
+
   /**
    * Get text from response
    */
@@ -7,7 +7,7 @@
  * Cached content costs 25% of regular input tokens
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleAICacheManager } from '@google/generative-ai/server';
 import type { CachedContent } from '@google/generative-ai';
 
 export interface CacheConfig {
@@ -19,7 +19,7 @@ export interface CacheConfig {
  * Context cache manager
  */
 export class ContextCacheManager {
-  private genAI: GoogleGenerativeAI;
+  private cacheManager: GoogleAICacheManager;
   private caches: Map<string, CachedContent> = new Map();
 
   constructor(apiKey?: string) {
@@ -29,7 +29,7 @@ export class ContextCacheManager {
       throw new Error('Gemini API key required for context caching');
     }
 
-    this.genAI = new GoogleGenerativeAI(key);
+    this.cacheManager = new GoogleAICacheManager(key);
   }
 
   /**
@@ -54,9 +54,10 @@ export class ContextCacheManager {
 
     // Create new cache
     try {
-      const cache = await this.genAI.cacheManager.create({
+      const cache = await this.cacheManager.create({
         model: 'models/gemini-1.5-flash',
         displayName: config.displayName || key,
+        contents: [],
         systemInstruction,
         ttlSeconds: config.ttlSeconds || 3600, // 1 hour default
       });
@@ -81,9 +82,9 @@ export class ContextCacheManager {
    */
   async deleteCache(key: string): Promise<void> {
     const cache = this.caches.get(key);
-    if (cache) {
+    if (cache?.name) {
       try {
-        await this.genAI.cacheManager.delete(cache.name);
+        await this.cacheManager.delete(cache.name);
         this.caches.delete(key);
       } catch (error) {
         console.error('Failed to delete cache:', error);
@@ -96,7 +97,7 @@ export class ContextCacheManager {
    */
   async listCaches(): Promise<CachedContent[]> {
     try {
-      const caches = await this.genAI.cacheManager.list();
+      const caches = await this.cacheManager.list();
       return caches.cachedContents || [];
     } catch (error) {
       console.error('Failed to list caches:', error);
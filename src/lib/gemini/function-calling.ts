@@ -213,7 +213,15 @@ export const updateMasteryFunction = createFunctionDeclaration(
 /**
  * Common tool sets for different agent types
  */
-export const AGENT_TOOLS: Record<string, Tool> = {
+export const AGENT_TOOLS: Record<
+  | 'maestro'
+  | 'visualizer'
+  | 'socratic'
+  | 'problem_decomposer'
+  | 'spaced_repetition'
+  | 'wellbeing',
+  Tool
+> = {
   maestro: {
     functionDeclarations: [
       handoffToAgentFunction,
@@ -226,9 +234,13 @@ export const AGENT_TOOLS: Record<string, Tool> = {
   socratic: {
     functionDeclarations: [
       askSocraticQuestionFunction,
+      updateMasteryFunction,
       handoffToAgentFunction,
     ],
   },
+  problem_decomposer: {
+    functionDeclarations: [updateMasteryFunction],
+  },
   spaced_repetition: {
     functionDeclarations: [createFlashcardFunction, updateMasteryFunction],
   },
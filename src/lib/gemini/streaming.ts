@@ -2,10 +2,12 @@
  * Gemini Streaming Utilities
  *
  * Server-Sent Events (SSE) streaming for Next.js API routes
+ * (client-side consumers are in @/lib/streaming/consume)
  */
 
 import { GeminiClient } from './client';
 import type { GeminiModel } from './client';
+import type { AgentStreamEvent } from '@/lib/agents/base/types';
 
 /**
  * Stream configuration
@@ -61,17 +63,21 @@ export async function createStreamingResponse(
           temperature: config.temperature,
         });
 
-        for await (const chunk of generator) {
+        // Iterate by hand: for-await drops the generator's return value
+        let next = await generator.next();
+        while (!next.done) {
+          const chunk = next.value;
           config.onToken?.(chunk);
 
           // Send SSE format: data: {json}\n\n
           const data = JSON.stringify({ token: chunk });
           controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          next = await generator.next();
         }
 
         // Get final metadata
-        const finalResult = await generator.next();
-        if (!finalResult.done && finalResult.value) {
+        const finalResult = next;
+        if (finalResult.value) {
           const metadata = {
             tokensInput: finalResult.value.tokensInput,
             tokensOutput: finalResult.value.tokensOutput,
@@ -115,174 +121,54 @@ export async function createStreamingResponse(
 }
 
 /**
- * Client-side hook to consume SSE stream
+ * Create an SSE response that streams agent execution events
+ *
+ * The runner emits typed events; a thrown error is sent as an 'error' event
+ * and the stream always ends with [DONE].
  *
  * @example
  * ```ts
- * const { data, isLoading, error } = useGeminiStream('/api/chat', {
- *   message: 'Hello',
+ * return createAgentEventStream(async (emit) => {
+ *   const response = await maestro.executeWithPipeline(message, context, {
+ *     stream: true,
+ *     onEvent: emit,
+ *   });
+ *   emit({ type: 'done', data: { content: response.content } });
  * });
  * ```
  */
-export async function consumeStream(
-  url: string,
-  body: any,
-  callbacks: {
-    onToken?: (token: string) => void;
-    onComplete?: (fullText: string) => void;
-    onError?: (error: string) => void;
-  }
-): Promise<void> {
-  let fullText = '';
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-
-    if (!reader) {
-      throw new Error('No response body');
-    }
-
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) {
-        callbacks.onComplete?.(fullText);
-        break;
-      }
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-
-          if (data === '[DONE]') {
-            callbacks.onComplete?.(fullText);
-            return;
-          }
-
-          try {
-            const parsed = JSON.parse(data);
-
-            if (parsed.type === 'error') {
-              callbacks.onError?.(parsed.error);
-              return;
-            }
+export function createAgentEventStream(
+  run: (emit: (event: AgentStreamEvent) => void) => Promise<void>,
+  onError?: (error: Error) => { code: string; message: string }
+): Response {
+  const encoder = new TextEncoder();
 
-            if (parsed.type === 'metadata') {
-              // Handle metadata if needed
-              continue;
-            }
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit = (event: AgentStreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
 
-            if (parsed.token) {
-              fullText += parsed.token;
-              callbacks.onToken?.(parsed.token);
-            }
-          } catch (e) {
-            // Ignore parse errors for incomplete chunks
-          }
-        }
+      try {
+        await run(emit);
+      } catch (error) {
+        const errorObj = error instanceof Error ? error : new Error('Unknown error');
+        emit({
+          type: 'error',
+          error: onError?.(errorObj) ?? { code: 'STREAM_ERROR', message: errorObj.message },
+        });
       }
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    callbacks.onError?.(message);
-  }
-}
-
-/**
- * React hook for streaming (client-side)
- */
-export interface UseStreamOptions {
-  url: string;
-  body?: any;
-  auto?: boolean;
-}
-
-export interface UseStreamReturn {
-  text: string;
-  isLoading: boolean;
-  error: string | null;
-  start: () => Promise<void>;
-  reset: () => void;
-}
-
-/**
- * Simple streaming state manager (non-React)
- */
-export class StreamManager {
-  private text = '';
-  private isLoading = false;
-  private error: string | null = null;
-  private listeners: Set<(state: UseStreamReturn) => void> = new Set();
-
-  subscribe(listener: (state: UseStreamReturn) => void) {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
-  }
-
-  private notify() {
-    const state: UseStreamReturn = {
-      text: this.text,
-      isLoading: this.isLoading,
-      error: this.error,
-      start: this.start.bind(this),
-      reset: this.reset.bind(this),
-    };
-    this.listeners.forEach((listener) => listener(state));
-  }
 
-  async start(url: string, body: any) {
-    this.isLoading = true;
-    this.error = null;
-    this.text = '';
-    this.notify();
-
-    await consumeStream(url, body, {
-      onToken: (token) => {
-        this.text += token;
-        this.notify();
-      },
-      onComplete: () => {
-        this.isLoading = false;
-        this.notify();
-      },
-      onError: (error) => {
-        this.error = error;
-        this.isLoading = false;
-        this.notify();
-      },
-    });
-  }
-
-  reset() {
-    this.text = '';
-    this.isLoading = false;
-    this.error = null;
-    this.notify();
-  }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
 
-  getState(): UseStreamReturn {
-    return {
-      text: this.text,
-      isLoading: this.isLoading,
-      error: this.error,
-      start: this.start.bind(this),
-      reset: this.reset.bind(this),
-    };
-  }
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
 }
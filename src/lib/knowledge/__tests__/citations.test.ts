@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCitations,
+  extractCitationIndices,
+  findUnsupportedClaims,
+  formatCitationsForPrompt,
+  retrieveFromCorpus,
+} from '../citations';
+import type { KnowledgePassage } from '../search';
+
+describe('retrieveFromCorpus', () => {
+  it('finds entries by their tags', () => {
+    const entries = retrieveFromCorpus('من هو الخوارزمي وما علاقته بالجبر؟');
+
+    expect(entries.map((entry) => entry.id)).toContain('al-khwarizmi-algebra');
+  });
+
+  it('filters by subject and limit', () => {
+    expect(retrieveFromCorpus('الخوارزمي', { subjects: ['physics'] })).toEqual([]);
+    expect(retrieveFromCorpus('الخوارزمي', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns nothing for stop words only', () => {
+    expect(retrieveFromCorpus('ما هو')).toEqual([]);
+  });
+});
+
+describe('buildCitations / formatCitationsForPrompt', () => {
+  const passage: KnowledgePassage = {
+    id: 'chunk-1',
+    content: 'المعادلة الخطية معادلة من الدرجة الأولى.',
+    subject: 'Math',
+    topic: 'Algebra',
+    similarity: 0.8,
+    source: {
+      type: 'lesson_section',
+      id: 'lesson-1',
+      reference: 'lesson:linear-equations#0',
+      title: 'المعادلات الخطية',
+      lessonSlug: 'linear-equations',
+      sectionIndex: 0,
+    },
+  };
+
+  it('numbers passages first, then corpus entries', () => {
+    const citations = buildCitations([passage], retrieveFromCorpus('الخوارزمي', { limit: 1 }));
+
+    expect(citations.map((c) => c.index)).toEqual([1, 2]);
+    expect(citations[0]!.reference).toBe('lesson:linear-equations#0');
+    expect(citations[1]!.reference).toMatch(/^corpus:/);
+  });
+
+  it('lists only citations from the given index', () => {
+    const citations = buildCitations([passage], retrieveFromCorpus('الخوارزمي', { limit: 1 }));
+    const section = formatCitationsForPrompt(citations, 2);
+
+    expect(section).toContain('[2]');
+    expect(section).not.toContain('[1] ');
+    expect(formatCitationsForPrompt(citations, 3)).toBe('');
+  });
+});
+
+describe('extractCitationIndices', () => {
+  it('reads single, adjacent, comma-separated and Arabic-digit markers', () => {
+    expect(extractCitationIndices('نص [2] ونص [1][3] و[4، 5] و[٦]').sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('findUnsupportedClaims', () => {
+  const citations = buildCitations([], retrieveFromCorpus('الخوارزمي الجبر', { limit: 1 }));
+
+  it('accepts a claim its cited source supports', () => {
+    const content = 'ألّف الخوارزمي كتاب الجبر والمقابلة حوالي عام 820 م في بغداد [1].';
+
+    expect(findUnsupportedClaims(content, citations)).toEqual([]);
+  });
+
+  it('flags a cited claim with a number the source does not contain', () => {
+    const content = 'ألّف الخوارزمي كتاب الجبر والمقابلة عام 1200 م [1].';
+
+    expect(findUnsupportedClaims(content, citations)).toHaveLength(1);
+  });
+
+  it('flags citations of unknown sources', () => {
+    expect(findUnsupportedClaims('الخوارزمي عالم رياضيات [7].', citations)[0]).toMatch(/unknown source/);
+  });
+
+  it('checks uncited dates only when asked', () => {
+    const content = 'وُلد ابن سينا عام 1500 م.';
+
+    expect(findUnsupportedClaims(content, citations)).toEqual([]);
+    expect(findUnsupportedClaims(content, citations, { checkDates: true })).toHaveLength(1);
+  });
+});
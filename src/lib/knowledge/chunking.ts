@@ -0,0 +1,223 @@
+/**
+ * Knowledge Base Chunking
+ *
+ * Splits lessons.content (JSONB) into section passages and knowledge
+ * components into description passages, sized for embedding and citation.
+ */
+
+import type { Database, Json } from '@/types/supabase';
+
+type Lesson = Database['public']['Tables']['lessons']['Row'];
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+export type KnowledgeSourceType = 'lesson_section' | 'knowledge_component';
+
+/**
+ * A passage ready for embedding
+ */
+export interface KnowledgeChunkDraft {
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  chunkIndex: number;
+  subject: string;
+  topic: string;
+  title: string;
+  content: string;
+  metadata: {
+    lessonSlug?: string;
+    sectionIndex?: number;
+    sectionTitle?: string;
+    kcCode?: string;
+  };
+}
+
+/**
+ * Passage size limits (characters)
+ */
+export const MAX_CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// Keys holding section titles, and keys never worth embedding (URLs, IDs, styling)
+const TITLE_KEYS = ['title_ar', 'title', 'heading', 'title_en'];
+const SKIPPED_KEYS = new Set([
+  'id',
+  'type',
+  'url',
+  'src',
+  'href',
+  'image',
+  'video',
+  'audio',
+  'thumbnail',
+  'style',
+  'className',
+  'kc_id',
+  'kc_ids',
+  // Exercise solutions: retrieved passages must not give answers away
+  'answer',
+  'explanation',
+  'tolerance',
+]);
+
+/**
+ * Chunk a lesson: one or more passages per section
+ * Unpublished lessons have no chunks (ingesting one removes its stored chunks)
+ */
+export function chunkLesson(lesson: Lesson): KnowledgeChunkDraft[] {
+  const chunks: KnowledgeChunkDraft[] = [];
+  if (!lesson.is_published) return chunks;
+
+  getLessonSections(lesson.content).forEach((section, sectionIndex) => {
+    const sectionTitle = getSectionTitle(section);
+    const text = collectText(section, true).join('\n\n');
+
+    for (const content of splitText(text)) {
+      chunks.push({
+        sourceType: 'lesson_section',
+        sourceId: lesson.id,
+        chunkIndex: chunks.length,
+        subject: lesson.subject,
+        topic: lesson.topic,
+        title: sectionTitle ? `${lesson.title_ar} - ${sectionTitle}` : lesson.title_ar,
+        content,
+        metadata: {
+          lessonSlug: lesson.slug,
+          sectionIndex,
+          ...(sectionTitle && { sectionTitle }),
+        },
+      });
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Chunk a knowledge component: its descriptions, objectives and misconceptions
+ */
+export function chunkKnowledgeComponent(kc: KnowledgeComponent): KnowledgeChunkDraft[] {
+  const parts = [
+    kc.description_ar,
+    kc.description_en,
+    kc.learning_objectives?.length
+      ? `أهداف التعلم:\n${kc.learning_objectives.map((objective) => `- ${objective}`).join('\n')}`
+      : null,
+    kc.common_misconceptions?.length
+      ? `أخطاء شائعة:\n${kc.common_misconceptions.map((item) => `- ${item}`).join('\n')}`
+      : null,
+  ].filter((part): part is string => !!part && part.trim().length > 0);
+
+  if (parts.length === 0) {
+    return [];
+  }
+
+  return splitText(parts.join('\n\n')).map((content, chunkIndex) => ({
+    sourceType: 'knowledge_component' as const,
+    sourceId: kc.id,
+    chunkIndex,
+    subject: kc.subject,
+    topic: kc.topic,
+    title: `${kc.name_ar} (${kc.name_en})`,
+    content,
+    metadata: { kcCode: kc.code },
+  }));
+}
+
+/**
+ * Sections of a lesson: content.sections, content.blocks, a top-level array, or the whole object
+ */
+function getLessonSections(content: Json): Json[] {
+  if (Array.isArray(content)) {
+    return content;
+  }
+
+  if (content && typeof content === 'object') {
+    for (const key of ['sections', 'blocks']) {
+      const value = content[key];
+      if (Array.isArray(value)) {
+        return value;
+      }
+    }
+    return [content];
+  }
+
+  return typeof content === 'string' ? [content] : [];
+}
+
+function getSectionTitle(section: Json): string | undefined {
+  if (!section || typeof section !== 'object' || Array.isArray(section)) {
+    return undefined;
+  }
+
+  for (const key of TITLE_KEYS) {
+    const value = section[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * All text in a JSON value, depth-first (the section's own title is skipped)
+ */
+function collectText(value: Json | undefined, isSectionRoot = false): string[] {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    return text ? [text] : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => collectText(item));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => {
+      if (SKIPPED_KEYS.has(key) || (isSectionRoot && TITLE_KEYS.includes(key))) {
+        return [];
+      }
+      return collectText(item);
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Split text at paragraph (then sentence) boundaries into overlapping chunks
+ */
+function splitText(text: string): string[] {
+  const normalized = text.replace(/\n{3,}/g, '\n\n').trim();
+  if (!normalized) return [];
+  if (normalized.length <= MAX_CHUNK_CHARS) return [normalized];
+
+  const pieces = normalized
+    .split(/\n\n/)
+    .flatMap((paragraph) =>
+      paragraph.length <= MAX_CHUNK_CHARS
+        ? [paragraph]
+        : paragraph.match(new RegExp(`[^.!?؟。]{1,${MAX_CHUNK_CHARS}}[.!?؟。]?`, 'g')) || []
+    );
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+      chunks.push(current.trim());
+      // Carry the end of the previous chunk over for context (if it still fits)
+      current =
+        piece.length + CHUNK_OVERLAP_CHARS + 2 <= MAX_CHUNK_CHARS
+          ? current.slice(-CHUNK_OVERLAP_CHARS)
+          : '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
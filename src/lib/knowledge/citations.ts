@@ -0,0 +1,223 @@
+/**
+ * Retrieval and Citations
+ *
+ * Lexical retrieval over the curated corpus, numbered citations for prompts
+ * and responses, and a grounding check that flags claims (dates, figures,
+ * cited statements) that none of the retrieved sources support.
+ */
+
+import { CURATED_CORPUS, type CorpusEntry } from './corpus';
+import type { KnowledgePassage } from './search';
+
+/**
+ * A source an answer may cite as [index]
+ */
+export interface Citation {
+  index: number;
+  reference: string; // corpus:<id>, lesson:<slug>#<n> or kc:<code>
+  title: string;
+  source: string; // Where the passage was checked / comes from
+  url?: string;
+  excerpt: string; // Full passage text given to the model
+}
+
+export const DEFAULT_CORPUS_LIMIT = 3;
+
+// Below this score a corpus entry is not considered relevant
+const MIN_CORPUS_SCORE = 1;
+
+const STOP_WORDS = new Set([
+  'في', 'من', 'على', 'الى', 'عن', 'ما', 'ماذا', 'هو', 'هي', 'هل', 'كيف', 'لماذا', 'او', 'ثم', 'مع',
+  'هذا', 'هذه', 'ذلك', 'التي', 'الذي', 'كان', 'كانت', 'قد', 'لا', 'ان', 'الي', 'بين', 'كل', 'عند',
+  'the', 'a', 'an', 'of', 'in', 'on', 'to', 'and', 'or', 'is', 'are', 'what', 'how', 'why', 'who',
+]);
+
+/**
+ * Corpus entries most relevant to a query (tag matches count double)
+ */
+export function retrieveFromCorpus(
+  query: string,
+  options: { subjects?: CorpusEntry['subject'][]; limit?: number } = {}
+): CorpusEntry[] {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return [];
+
+  const entries = options.subjects
+    ? CURATED_CORPUS.filter((entry) => options.subjects!.includes(entry.subject))
+    : CURATED_CORPUS;
+
+  return entries
+    .map((entry) => ({ entry, score: scoreEntry(entry, queryTerms) }))
+    .filter(({ score }) => score >= MIN_CORPUS_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_CORPUS_LIMIT)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Number knowledge base passages (already in the prompt as [1]..[n]) and
+ * corpus entries after them
+ */
+export function buildCitations(
+  passages: KnowledgePassage[],
+  entries: CorpusEntry[]
+): Citation[] {
+  const citations: Citation[] = passages.map((passage, i) => ({
+    index: i + 1,
+    reference: passage.source.reference,
+    title: passage.source.title,
+    source: passage.source.type === 'knowledge_component' ? 'Knowledge component' : 'Lesson',
+    excerpt: passage.content,
+  }));
+
+  for (const entry of entries) {
+    citations.push({
+      index: citations.length + 1,
+      reference: `corpus:${entry.id}`,
+      title: entry.title,
+      source: entry.source.title,
+      ...(entry.source.url && { url: entry.source.url }),
+      excerpt: entry.text,
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Prompt section listing citations (optionally only those from index onwards)
+ */
+export function formatCitationsForPrompt(citations: Citation[], fromIndex = 1): string {
+  const listed = citations.filter((citation) => citation.index >= fromIndex);
+  if (listed.length === 0) return '';
+
+  const lines = ['### مصادر موثقة (استشهد بها بالرقم، مثل [1]):'];
+  for (const citation of listed) {
+    lines.push(`[${citation.index}] ${citation.title}`);
+    lines.push(citation.excerpt);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Citation numbers used in a text ("[2]", "[1][3]", "[1، 3]")
+ */
+export function extractCitationIndices(text: string): number[] {
+  const indices = new Set<number>();
+
+  for (const match of normalizeDigits(text).matchAll(/\[(\d+(?:\s*[,،]\s*\d+)*)\]/g)) {
+    for (const value of (match[1] ?? '').split(/[,،]/)) {
+      indices.add(Number(value.trim()));
+    }
+  }
+
+  return Array.from(indices);
+}
+
+/**
+ * Claims in an answer that no source supports
+ *
+ * Checked claims: sentences with citation markers (against the cited sources)
+ * and, when checkDates is set, sentences with a year or other number of 3+
+ * digits (against all sources). A source supports a claim when it contains
+ * every number in the claim and shares enough of its terms.
+ */
+export function findUnsupportedClaims(
+  content: string,
+  citations: Citation[],
+  options: { checkDates?: boolean } = {}
+): string[] {
+  const issues: string[] = [];
+
+  for (const sentence of splitSentences(content)) {
+    const cited = extractCitationIndices(sentence);
+    const claim = sentence.replace(/\[[\d\s,،٠-٩]+\]/g, '').trim();
+
+    if (cited.length > 0) {
+      const unknown = cited.filter((index) => !citations.some((c) => c.index === index));
+      if (unknown.length > 0) {
+        issues.push(`Cites unknown source [${unknown.join(', ')}]: "${truncate(claim)}"`);
+        continue;
+      }
+
+      const sources = citations.filter((c) => cited.includes(c.index));
+      if (!sources.some((source) => supportsClaim(source.excerpt, claim))) {
+        issues.push(`Unsupported claim (cited [${cited.join(', ')}]): "${truncate(claim)}"`);
+      }
+      continue;
+    }
+
+    if (options.checkDates && /\d{3,}/.test(normalizeDigits(claim))) {
+      if (!citations.some((source) => supportsClaim(source.excerpt, claim))) {
+        issues.push(`Unsupported claim: "${truncate(claim)}"`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+function supportsClaim(sourceText: string, claim: string): boolean {
+  const sourceNumbers = new Set(extractNumbers(sourceText));
+  if (!extractNumbers(claim).every((number) => sourceNumbers.has(number))) {
+    return false;
+  }
+
+  const claimTerms = new Set(tokenize(claim));
+  if (claimTerms.size === 0) return true;
+
+  const sourceTerms = new Set(tokenize(sourceText));
+  const shared = Array.from(claimTerms).filter((term) => sourceTerms.has(term)).length;
+
+  return shared / claimTerms.size >= 0.25;
+}
+
+function scoreEntry(entry: CorpusEntry, queryTerms: Set<string>): number {
+  const textTerms = new Set(tokenize(`${entry.title} ${entry.text}`));
+  const tagTerms = new Set(entry.tags.flatMap(tokenize));
+
+  let score = 0;
+  for (const term of Array.from(queryTerms)) {
+    if (tagTerms.has(term)) score += 2; // Tags are curated match terms
+    else if (textTerms.has(term)) score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * Normalized content terms: Arabic letters unified, diacritics, the article
+ * and common prefixes removed, stop words dropped
+ */
+function tokenize(text: string): string[] {
+  return normalizeDigits(text)
+    .toLowerCase()
+    .replace(/[ً-ْـ]/g, '') // Diacritics and tatweel
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .split(/[^\p{L}\p{N}]+/u)
+    .map((word) => word.replace(/^(وال|بال|كال|فال|لل|ال)(?=\p{L}{3})/u, ''))
+    .filter((word) => word.length >= 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+function extractNumbers(text: string): string[] {
+  return normalizeDigits(text).match(/\d+/g) || [];
+}
+
+function normalizeDigits(text: string): string {
+  return text.replace(/[٠-٩]/g, (digit) => String('٠١٢٣٤٥٦٧٨٩'.indexOf(digit)));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!؟?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/^[\s*#>\-]+/, '').trim())
+    .filter((sentence) => sentence.length >= 15);
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
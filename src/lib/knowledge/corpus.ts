@@ -0,0 +1,276 @@
+/**
+ * Curated Corpus
+ *
+ * Short, reviewed passages that Narrator and Problem Decomposer retrieve
+ * before answering, so dates, attributions and formulas come from a source
+ * rather than the model's memory. Each entry names the reference it was
+ * checked against. Keep passages factual and conservative: where historians
+ * disagree, give the range ("حوالي").
+ */
+
+export interface CorpusEntry {
+  id: string; // Cited as corpus:<id>
+  title: string;
+  subject: 'history' | 'math' | 'physics' | 'chemistry';
+  tags: string[]; // Extra match terms (Arabic and English)
+  text: string;
+  source: {
+    title: string;
+    url?: string;
+  };
+}
+
+const BRITANNICA = 'Encyclopaedia Britannica';
+
+export const CURATED_CORPUS: CorpusEntry[] = [
+  // ==========================================================================
+  // History of science
+  // ==========================================================================
+  {
+    id: 'al-khwarizmi-algebra',
+    title: 'الخوارزمي وكتاب الجبر والمقابلة',
+    subject: 'history',
+    tags: ['الخوارزمي', 'al-khwarizmi', 'جبر', 'algebra', 'معادلة', 'بيت الحكمة'],
+    text:
+      'محمد بن موسى الخوارزمي (حوالي 780 - حوالي 850 م) عالم رياضيات وفلك عمل في بيت الحكمة ببغداد في عهد الخليفة المأمون. ' +
+      'ألّف حوالي عام 820 م كتاب "المختصر في حساب الجبر والمقابلة" الذي عرض فيه طرقاً منهجية لحل المعادلات الخطية والتربيعية، ' +
+      'ومن كلمة "الجبر" في عنوانه جاءت كلمة algebra.',
+    source: { title: `${BRITANNICA}: al-Khwarizmi` },
+  },
+  {
+    id: 'al-khwarizmi-numerals',
+    title: 'الخوارزمي والأرقام الهندية العربية',
+    subject: 'history',
+    tags: ['الخوارزمي', 'al-khwarizmi', 'أرقام', 'numerals', 'خوارزمية', 'algorithm'],
+    text:
+      'كتب الخوارزمي كتاباً في الحساب بالأرقام الهندية ونظام القيمة المكانية العشري، وانتقل هذا النظام إلى أوروبا عبر ترجمته اللاتينية. ' +
+      'ومن الصيغة اللاتينية لاسمه (Algoritmi) اشتُقت كلمة algorithm (خوارزمية).',
+    source: { title: `${BRITANNICA}: al-Khwarizmi` },
+  },
+  {
+    id: 'house-of-wisdom',
+    title: 'بيت الحكمة في بغداد',
+    subject: 'history',
+    tags: ['بيت الحكمة', 'house of wisdom', 'بغداد', 'المأمون', 'ترجمة', 'العصر الذهبي'],
+    text:
+      'بيت الحكمة مؤسسة علمية في بغداد العباسية ازدهرت في عهد الخليفة المأمون (حكم 813 - 833 م)، ' +
+      'واشتهرت بترجمة الكتب اليونانية والفارسية والهندية إلى العربية، وعمل فيها علماء منهم الخوارزمي.',
+    source: { title: `${BRITANNICA}: House of Wisdom` },
+  },
+  {
+    id: 'al-biruni-earth-radius',
+    title: 'البيروني وقياس نصف قطر الأرض',
+    subject: 'history',
+    tags: ['البيروني', 'al-biruni', 'الأرض', 'earth', 'نصف قطر', 'radius', 'قياس', 'جبل'],
+    text:
+      'أبو الريحان البيروني (973 - حوالي 1050 م) وُلد في خوارزم. قدّر نصف قطر الأرض بطريقة جديدة: ' +
+      'قاس ارتفاع جبل ثم قاس زاوية انخفاض الأفق من قمته، واستخدم حساب المثلثات لاستنتاج نصف القطر. ' +
+      'أجرى القياس قرب قلعة نندنة في الهند (باكستان اليوم)، وكانت نتيجته قريبة جداً من القيمة الحديثة.',
+    source: { title: `${BRITANNICA}: al-Biruni` },
+  },
+  {
+    id: 'al-biruni-works',
+    title: 'مؤلفات البيروني',
+    subject: 'history',
+    tags: ['البيروني', 'al-biruni', 'الهند', 'القانون المسعودي', 'الآثار الباقية', 'فلك'],
+    text:
+      'من أشهر مؤلفات البيروني "تحقيق ما للهند من مقولة" عن علوم الهند وعاداتها، و"القانون المسعودي" في الفلك، ' +
+      'و"الآثار الباقية عن القرون الخالية" في التقاويم وتاريخ الأمم. وكتب في الفلك والرياضيات والجغرافيا والمعادن والصيدلة.',
+    source: { title: `${BRITANNICA}: al-Biruni` },
+  },
+  {
+    id: 'ibn-al-haytham-optics',
+    title: 'ابن الهيثم وكتاب المناظر',
+    subject: 'history',
+    tags: ['ابن الهيثم', 'al-haytham', 'alhazen', 'بصريات', 'optics', 'ضوء', 'الرؤية', 'تجربة'],
+    text:
+      'الحسن بن الهيثم (حوالي 965 - حوالي 1040 م) وُلد في البصرة وعمل في القاهرة. ' +
+      'في "كتاب المناظر" بيّن أن الرؤية تحدث عندما يدخل الضوء المنعكس عن الأجسام إلى العين، لا بشعاع يخرج من العين، ' +
+      'واعتمد على التجربة المضبوطة والقياس لاختبار فرضياته، ودرس الانعكاس والانكسار والغرفة المظلمة.',
+    source: { title: `${BRITANNICA}: Ibn al-Haytham` },
+  },
+  {
+    id: 'ibn-sina-canon',
+    title: 'ابن سينا وكتاب القانون في الطب',
+    subject: 'history',
+    tags: ['ابن سينا', 'ibn sina', 'avicenna', 'طب', 'medicine', 'القانون', 'الشفاء'],
+    text:
+      'ابن سينا (980 - 1037 م) وُلد قرب بخارى. كتابه "القانون في الطب" موسوعة طبية تُرجمت إلى اللاتينية ' +
+      'وبقيت مرجعاً أساسياً في تدريس الطب بالجامعات الأوروبية حتى القرن السابع عشر تقريباً. ومن مؤلفاته الفلسفية "الشفاء".',
+    source: { title: `${BRITANNICA}: Avicenna` },
+  },
+  {
+    id: 'al-razi-smallpox',
+    title: 'الرازي والتمييز بين الجدري والحصبة',
+    subject: 'history',
+    tags: ['الرازي', 'al-razi', 'rhazes', 'جدري', 'حصبة', 'smallpox', 'measles', 'طب', 'مستشفى'],
+    text:
+      'أبو بكر الرازي (حوالي 865 - حوالي 925 م) طبيب من مدينة الري أدار مستشفى في الري ثم في بغداد. ' +
+      'في رسالته "الجدري والحصبة" وصف المرضين وصفاً سريرياً دقيقاً وميّز بينهما. ومن أكبر مؤلفاته الطبية "الحاوي".',
+    source: { title: `${BRITANNICA}: al-Razi` },
+  },
+  {
+    id: 'al-battani-solar-year',
+    title: 'البتاني وطول السنة الشمسية',
+    subject: 'history',
+    tags: ['البتاني', 'al-battani', 'فلك', 'astronomy', 'السنة الشمسية', 'الزيج', 'كوبرنيكوس'],
+    text:
+      'البتاني (حوالي 858 - 929 م) فلكي عمل في الرقة. حسب طول السنة الشمسية بـ 365 يوماً و5 ساعات و46 دقيقة و24 ثانية، ' +
+      'وجمع أرصاده في "الزيج الصابئ". ترجمت أعماله إلى اللاتينية واستشهد بها كوبرنيكوس.',
+    source: { title: `${BRITANNICA}: al-Battani` },
+  },
+  {
+    id: 'al-jazari-devices',
+    title: 'الجزري وكتاب الحيل الميكانيكية',
+    subject: 'history',
+    tags: ['الجزري', 'al-jazari', 'آلة', 'machine', 'روبوت', 'ساعة مائية', 'ميكانيكا'],
+    text:
+      'بديع الزمان الجزري (1136 - 1206 م) مهندس عمل في بلاط الأراتقة في ديار بكر. ' +
+      'في كتابه "الجامع بين العلم والعمل النافع في صناعة الحيل" (1206 م) وصف خمسين آلة ميكانيكية مع طريقة صنعها، ' +
+      'منها الساعات المائية والآلات الذاتية الحركة وآلات رفع الماء.',
+    source: { title: `${BRITANNICA}: al-Jazari` },
+  },
+  {
+    id: 'al-kindi-cryptanalysis',
+    title: 'الكندي وتحليل الشفرات',
+    subject: 'history',
+    tags: ['الكندي', 'al-kindi', 'تشفير', 'شفرة', 'crypto', 'cipher', 'تحليل التكرار'],
+    text:
+      'يعقوب بن إسحاق الكندي (حوالي 801 - حوالي 873 م) فيلسوف وعالم عاش في بغداد. ' +
+      'في "رسالة في استخراج المعمّى" وصف طريقة تحليل تكرار الحروف لكسر الشفرات، وهي أقدم وصف معروف لهذه الطريقة.',
+    source: { title: `${BRITANNICA}: al-Kindi` },
+  },
+  {
+    id: 'al-idrisi-map',
+    title: 'الإدريسي وخريطة العالم',
+    subject: 'history',
+    tags: ['الإدريسي', 'al-idrisi', 'خريطة', 'map', 'جغرافيا', 'geography', 'صقلية'],
+    text:
+      'الشريف الإدريسي (1100 - حوالي 1165 م) جغرافي عمل في صقلية في بلاط الملك روجر الثاني. ' +
+      'أتم عام 1154 م كتاب "نزهة المشتاق في اختراق الآفاق" مع خريطة للعالم المعروف آنذاك.',
+    source: { title: `${BRITANNICA}: al-Idrisi` },
+  },
+
+  // ==========================================================================
+  // Mathematics
+  // ==========================================================================
+  {
+    id: 'quadratic-formula',
+    title: 'القانون العام لحل المعادلة التربيعية',
+    subject: 'math',
+    tags: ['معادلة تربيعية', 'quadratic', 'القانون العام', 'المميز', 'discriminant', 'x²'],
+    text:
+      'المعادلة التربيعية صورتها ax² + bx + c = 0 حيث a ≠ 0، وحلولها x = (-b ± √(b² - 4ac)) / 2a. ' +
+      'المميز Δ = b² - 4ac: إذا كان موجباً فللمعادلة حلان حقيقيان مختلفان، وإذا كان صفراً فلها حل حقيقي مكرر، ' +
+      'وإذا كان سالباً فليس لها حلول حقيقية.',
+    source: {
+      title: 'OpenStax College Algebra 2e, Section 2.5: Quadratic Equations',
+      url: 'https://openstax.org/details/books/college-algebra-2e',
+    },
+  },
+  {
+    id: 'linear-equations',
+    title: 'حل المعادلة الخطية',
+    subject: 'math',
+    tags: ['معادلة خطية', 'linear', 'equation', 'حل', 'طرفين'],
+    text:
+      'لحل معادلة خطية في مجهول واحد نجري العملية نفسها على طرفي المعادلة حتى يبقى المجهول وحده. ' +
+      'مثلاً في ax + b = c حيث a ≠ 0 نطرح b من الطرفين ثم نقسم على a فنحصل على x = (c - b) / a. ' +
+      'ويُتحقق من الحل بالتعويض في المعادلة الأصلية.',
+    source: {
+      title: 'OpenStax College Algebra 2e, Section 2.2: Linear Equations in One Variable',
+      url: 'https://openstax.org/details/books/college-algebra-2e',
+    },
+  },
+  {
+    id: 'pythagorean-theorem',
+    title: 'مبرهنة فيثاغورس',
+    subject: 'math',
+    tags: ['فيثاغورس', 'pythagorean', 'مثلث قائم', 'وتر', 'hypotenuse'],
+    text:
+      'في المثلث القائم الزاوية، مربع طول الوتر يساوي مجموع مربعي طولي الضلعين الآخرين: a² + b² = c² حيث c طول الوتر.',
+    source: {
+      title: 'OpenStax College Algebra 2e, Section 2.5: Quadratic Equations',
+      url: 'https://openstax.org/details/books/college-algebra-2e',
+    },
+  },
+  {
+    id: 'area-formulas',
+    title: 'قوانين المساحة والمحيط',
+    subject: 'math',
+    tags: ['مساحة', 'area', 'محيط', 'perimeter', 'دائرة', 'circle', 'مستطيل', 'مثلث'],
+    text:
+      'مساحة الدائرة πr² ومحيطها 2πr حيث r نصف القطر. مساحة المستطيل = الطول × العرض ومحيطه = 2 × (الطول + العرض). ' +
+      'مساحة المثلث = ½ × القاعدة × الارتفاع.',
+    source: {
+      title: 'OpenStax Prealgebra 2e, Chapter 9: Math Models and Geometry',
+      url: 'https://openstax.org/details/books/prealgebra-2e',
+    },
+  },
+  {
+    id: 'power-rule-derivative',
+    title: 'قاعدة القوة في الاشتقاق',
+    subject: 'math',
+    tags: ['تفاضل', 'اشتقاق', 'derivative', 'قاعدة القوة', 'power rule'],
+    text:
+      'مشتقة xⁿ بالنسبة إلى x هي n·xⁿ⁻¹ لأي عدد حقيقي n. ومشتقة الثابت صفر، ومشتقة مجموع دالتين هي مجموع مشتقتيهما.',
+    source: {
+      title: 'OpenStax Calculus Volume 1, Section 3.3: Differentiation Rules',
+      url: 'https://openstax.org/details/books/calculus-volume-1',
+    },
+  },
+  {
+    id: 'power-rule-integral',
+    title: 'قاعدة القوة في التكامل',
+    subject: 'math',
+    tags: ['تكامل', 'integral', 'قاعدة القوة', 'power rule', 'مشتقة عكسية'],
+    text:
+      'التكامل غير المحدد لـ xⁿ هو xⁿ⁺¹ / (n + 1) + C بشرط n ≠ -1، حيث C ثابت التكامل. وتكامل 1/x هو ln|x| + C.',
+    source: {
+      title: 'OpenStax Calculus Volume 1, Section 4.10: Antiderivatives',
+      url: 'https://openstax.org/details/books/calculus-volume-1',
+    },
+  },
+
+  // ==========================================================================
+  // Physics and chemistry
+  // ==========================================================================
+  {
+    id: 'newtons-second-law',
+    title: 'قانون نيوتن الثاني',
+    subject: 'physics',
+    tags: ['نيوتن', 'newton', 'قوة', 'force', 'تسارع', 'acceleration', 'كتلة'],
+    text:
+      'القوة المحصلة المؤثرة في جسم تساوي كتلته مضروبة في تسارعه: F = ma، حيث تقاس القوة بالنيوتن والكتلة بالكيلوغرام والتسارع بـ m/s².',
+    source: {
+      title: "OpenStax University Physics Volume 1, Section 5.3: Newton's Second Law",
+      url: 'https://openstax.org/details/books/university-physics-volume-1',
+    },
+  },
+  {
+    id: 'constant-acceleration',
+    title: 'معادلات الحركة بتسارع ثابت',
+    subject: 'physics',
+    tags: ['سرعة', 'velocity', 'تسارع', 'acceleration', 'حركة', 'إزاحة'],
+    text:
+      'للحركة في خط مستقيم بتسارع ثابت a: v = v₀ + at، و x = x₀ + v₀t + ½at²، و v² = v₀² + 2a(x - x₀)، ' +
+      'حيث v₀ السرعة الابتدائية و t الزمن.',
+    source: {
+      title: 'OpenStax University Physics Volume 1, Section 3.4: Motion with Constant Acceleration',
+      url: 'https://openstax.org/details/books/university-physics-volume-1',
+    },
+  },
+  {
+    id: 'moles-concentration',
+    title: 'المول والتركيز المولاري',
+    subject: 'chemistry',
+    tags: ['مول', 'mole', 'تركيز', 'concentration', 'مولارية', 'molarity', 'كتلة مولية'],
+    text:
+      'عدد المولات n = m / M حيث m الكتلة و M الكتلة المولية. والتركيز المولاري c = n / V حيث V حجم المحلول باللتر، ' +
+      'ووحدته mol/L.',
+    source: {
+      title: 'OpenStax Chemistry 2e, Sections 3.1 and 3.3',
+      url: 'https://openstax.org/details/books/chemistry-2e',
+    },
+  },
+];
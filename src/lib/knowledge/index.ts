@@ -0,0 +1,11 @@
+/**
+ * Knowledge Base
+ *
+ * Embedded lesson sections and knowledge component descriptions
+ */
+
+export * from './chunking';
+export * from './ingest';
+export * from './search';
+export * from './corpus';
+export * from './citations';
@@ -0,0 +1,176 @@
+/**
+ * Knowledge Base Ingestion
+ *
+ * Chunks published lessons and knowledge components, embeds new or changed
+ * chunks, and writes them to knowledge_chunks. Unchanged chunks (same content
+ * hash) are not re-embedded, and chunks of lessons that are no longer
+ * published are removed. Writes use the service role key.
+ */
+
+import { createHash } from 'crypto';
+import {
+  getPublishedLessons,
+  getAllKnowledgeComponents,
+  getKnowledgeChunkHashes,
+  getKnowledgeChunkSources,
+  upsertKnowledgeChunks,
+  deleteKnowledgeChunks,
+} from '@/lib/supabase/database';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
+import { toJson } from '@/lib/agents/base/utils';
+import {
+  chunkLesson,
+  chunkKnowledgeComponent,
+  type KnowledgeChunkDraft,
+  type KnowledgeSourceType,
+} from './chunking';
+import type { Database } from '@/types/supabase';
+
+type Lesson = Database['public']['Tables']['lessons']['Row'];
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+/**
+ * Counts from an ingestion run
+ */
+export interface IngestionResult {
+  sources: number;
+  chunks: number;
+  embedded: number; // New or changed chunks
+  removed: number; // Sources whose stale trailing chunks were deleted
+  errors: Array<{ sourceType: KnowledgeSourceType; sourceId: string; error: string }>;
+}
+
+/**
+ * Ingest one lesson's sections
+ */
+export async function ingestLesson(
+  lesson: Lesson,
+  provider: LLMProvider = getLLMProvider()
+): Promise<IngestionResult> {
+  return ingestSource('lesson_section', lesson.id, chunkLesson(lesson), provider);
+}
+
+/**
+ * Ingest one knowledge component's descriptions
+ */
+export async function ingestKnowledgeComponent(
+  kc: KnowledgeComponent,
+  provider: LLMProvider = getLLMProvider()
+): Promise<IngestionResult> {
+  return ingestSource('knowledge_component', kc.id, chunkKnowledgeComponent(kc), provider);
+}
+
+/**
+ * Ingest all published lessons and all knowledge components, and remove the
+ * chunks of unpublished or deleted lessons
+ * A failing source is recorded in errors; the run continues
+ */
+export async function ingestKnowledgeBase(
+  options: { subject?: string; provider?: LLMProvider } = {}
+): Promise<IngestionResult> {
+  const provider = options.provider ?? getLLMProvider();
+  const total = emptyResult();
+
+  const lessons: Lesson[] = await getPublishedLessons(options.subject);
+  const kcs = (await getAllKnowledgeComponents()).filter(
+    (kc) => !options.subject || kc.subject.toLowerCase() === options.subject.toLowerCase()
+  );
+
+  const sources = [
+    ...lessons.map((lesson) => () => ingestLesson(lesson, provider)),
+    ...kcs.map((kc) => () => ingestKnowledgeComponent(kc, provider)),
+    ...(await getWithdrawnLessonIds(lessons, options.subject)).map(
+      (lessonId) => () => ingestSource('lesson_section', lessonId, [], provider)
+    ),
+  ];
+
+  for (const ingest of sources) {
+    const result = await ingest();
+    total.sources += result.sources;
+    total.chunks += result.chunks;
+    total.embedded += result.embedded;
+    total.removed += result.removed;
+    total.errors.push(...result.errors);
+  }
+
+  return total;
+}
+
+/**
+ * Embed changed chunks of a source and replace its stored chunks
+ */
+async function ingestSource(
+  sourceType: KnowledgeSourceType,
+  sourceId: string,
+  drafts: KnowledgeChunkDraft[],
+  provider: LLMProvider
+): Promise<IngestionResult> {
+  const result = emptyResult();
+  result.sources = 1;
+  result.chunks = drafts.length;
+
+  try {
+    const stored = await getKnowledgeChunkHashes(sourceType, sourceId);
+    const storedHashes = new Map(stored.map((row) => [row.chunk_index, row.content_hash]));
+
+    const changed = drafts
+      .map((draft) => ({ draft, hash: hashChunk(draft) }))
+      .filter(({ draft, hash }) => storedHashes.get(draft.chunkIndex) !== hash);
+
+    if (changed.length > 0) {
+      // Titles are embedded with the passage so section headings help matching
+      const embeddings = await provider.embed(
+        changed.map(({ draft }) => `${draft.title}\n\n${draft.content}`),
+        { task: 'document' }
+      );
+
+      await upsertKnowledgeChunks(
+        changed.map(({ draft, hash }, i) => ({
+          source_type: draft.sourceType,
+          source_id: draft.sourceId,
+          chunk_index: draft.chunkIndex,
+          subject: draft.subject,
+          topic: draft.topic,
+          title: draft.title,
+          content: draft.content,
+          content_hash: hash,
+          embedding: JSON.stringify(embeddings[i] ?? []),
+          metadata: toJson(draft.metadata),
+        }))
+      );
+      result.embedded = changed.length;
+    }
+
+    // The source got shorter: drop chunks past the new end
+    if (stored.some((row) => row.chunk_index >= drafts.length)) {
+      await deleteKnowledgeChunks(sourceType, sourceId, drafts.length);
+      result.removed = 1;
+    }
+  } catch (error) {
+    result.errors.push({ sourceType, sourceId, error: (error as Error).message });
+  }
+
+  return result;
+}
+
+/**
+ * Lessons with stored chunks that are not (or no longer) published
+ */
+async function getWithdrawnLessonIds(published: Lesson[], subject?: string): Promise<string[]> {
+  const publishedIds = new Set(published.map((lesson) => lesson.id));
+
+  return (await getKnowledgeChunkSources('lesson_section'))
+    .filter((source) => !subject || source.subject.toLowerCase() === subject.toLowerCase())
+    .filter((source) => !publishedIds.has(source.source_id))
+    .map((source) => source.source_id);
+}
+
+function hashChunk(draft: KnowledgeChunkDraft): string {
+  return createHash('sha256')
+    .update(`${draft.subject}\n${draft.topic}\n${draft.title}\n${draft.content}`)
+    .digest('hex');
+}
+
+function emptyResult(): IngestionResult {
+  return { sources: 0, chunks: 0, embedded: 0, removed: 0, errors: [] };
+}
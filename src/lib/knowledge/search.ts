@@ -0,0 +1,134 @@
+/**
+ * Knowledge Base Search
+ *
+ * Semantic search over knowledge_chunks (search_knowledge_base). Every
+ * passage carries a source reference agents can cite, e.g.
+ * "lesson:quadratic-equations#2" or "kc:MATH_ALGEBRA_QUADRATIC_FORMULA".
+ */
+
+import { matchKnowledgeChunks } from '@/lib/supabase/database';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
+import type { KnowledgeSourceType } from './chunking';
+
+/**
+ * Where a passage comes from
+ */
+export interface KnowledgeSource {
+  type: KnowledgeSourceType;
+  id: string; // lessons.id or knowledge_components.id
+  reference: string; // Stable citation key
+  title: string;
+  lessonSlug?: string;
+  sectionIndex?: number;
+  kcCode?: string;
+}
+
+/**
+ * A retrieved passage
+ */
+export interface KnowledgePassage {
+  id: string; // knowledge_chunks.id
+  content: string;
+  subject: string;
+  topic: string | null;
+  similarity: number;
+  source: KnowledgeSource;
+}
+
+/**
+ * Arguments of the search_knowledge_base tool
+ */
+export interface KnowledgeSearchParams {
+  query: string;
+  subject?: string;
+  limit?: number; // 1-20, default 5
+}
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+
+/**
+ * Passages below this cosine similarity are not returned
+ */
+export const MIN_SIMILARITY = 0.5;
+
+/**
+ * Find passages relevant to a query
+ */
+export async function searchKnowledgeBase(
+  params: KnowledgeSearchParams,
+  provider: LLMProvider = getLLMProvider()
+): Promise<KnowledgePassage[]> {
+  const query = params.query.trim();
+  if (!query) return [];
+
+  const limit = Math.min(
+    MAX_SEARCH_LIMIT,
+    Math.max(1, Math.round(params.limit ?? DEFAULT_SEARCH_LIMIT))
+  );
+
+  const [embedding] = await provider.embed([query], { task: 'query' });
+  if (!embedding) return [];
+
+  const rows = await matchKnowledgeChunks(embedding, {
+    subject: params.subject?.trim() || undefined,
+    limit,
+  });
+
+  return rows
+    .filter((row) => row.similarity >= MIN_SIMILARITY)
+    .map((row) => {
+      const metadata = (row.metadata ?? {}) as {
+        lessonSlug?: string;
+        sectionIndex?: number;
+        kcCode?: string;
+      };
+
+      return {
+        id: row.id,
+        content: row.content,
+        subject: row.subject,
+        topic: row.topic,
+        similarity: Math.round(row.similarity * 1000) / 1000,
+        source: {
+          type: row.source_type,
+          id: row.source_id,
+          reference: buildReference(row.source_type, row.source_id, metadata),
+          title: row.title,
+          ...(metadata.lessonSlug && { lessonSlug: metadata.lessonSlug }),
+          ...(metadata.sectionIndex !== undefined && { sectionIndex: metadata.sectionIndex }),
+          ...(metadata.kcCode && { kcCode: metadata.kcCode }),
+        },
+      };
+    });
+}
+
+/**
+ * Passages as a prompt section, numbered for citation ([1], [2], ...)
+ */
+export function formatPassagesForPrompt(passages: KnowledgePassage[]): string {
+  if (passages.length === 0) return '';
+
+  const lines = ['### مصادر من قاعدة المعرفة (استشهد بها بالرقم، مثل [1]):'];
+
+  passages.forEach((passage, index) => {
+    lines.push(`[${index + 1}] ${passage.source.title} (${passage.source.reference})`);
+    lines.push(passage.content);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+function buildReference(
+  type: KnowledgeSourceType,
+  sourceId: string,
+  metadata: { lessonSlug?: string; sectionIndex?: number; kcCode?: string }
+): string {
+  if (type === 'knowledge_component') {
+    return `kc:${metadata.kcCode ?? sourceId}`;
+  }
+
+  const section = metadata.sectionIndex !== undefined ? `#${metadata.sectionIndex + 1}` : '';
+  return `lesson:${metadata.lessonSlug ?? sourceId}${section}`;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BKT_PARAMETERS,
+  MASTERY_THRESHOLD,
+  isMastered,
+  predictCorrect,
+  updateKnowledge,
+  updateKnowledgeSequence,
+} from '../bkt';
+
+const PARAMS = { pKnow: 0.4, pLearn: 0.2, pSlip: 0.1, pGuess: 0.2 };
+
+describe('updateKnowledge', () => {
+  it('raises P(L) after a correct answer', () => {
+    const update = updateKnowledge(PARAMS, true);
+
+    // 0.4 * 0.9 / (0.4 * 0.9 + 0.6 * 0.2)
+    expect(update.pKnowPosterior).toBeCloseTo(0.75, 5);
+    expect(update.pKnowAfter).toBeCloseTo(0.75 + 0.25 * 0.2, 5);
+    expect(update.pCorrectPredicted).toBeCloseTo(0.48, 5);
+  });
+
+  it('lowers P(L) after a wrong answer (before learning)', () => {
+    const update = updateKnowledge(PARAMS, false);
+
+    // 0.4 * 0.1 / (1 - 0.48)
+    expect(update.pKnowPosterior).toBeCloseTo(0.04 / 0.52, 3);
+    expect(update.pKnowPosterior).toBeLessThan(PARAMS.pKnow);
+  });
+
+  it('lets a student with no prior knowledge learn from the opportunity', () => {
+    const update = updateKnowledge(DEFAULT_BKT_PARAMETERS, false);
+
+    expect(update.pKnowBefore).toBe(0);
+    expect(update.pKnowAfter).toBeCloseTo(DEFAULT_BKT_PARAMETERS.pLearn, 5);
+  });
+
+  it('keeps probabilities inside [0, 1]', () => {
+    const update = updateKnowledge({ ...PARAMS, pKnow: 1.5 }, true);
+
+    expect(update.pKnowBefore).toBeLessThanOrEqual(1);
+    expect(update.pKnowAfter).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('updateKnowledgeSequence', () => {
+  it('chains updates and reaches mastery after enough correct answers', () => {
+    const updates = updateKnowledgeSequence(PARAMS, [true, true, true, true]);
+
+    expect(updates).toHaveLength(4);
+    updates.slice(1).forEach((update, i) => {
+      expect(update.pKnowBefore).toBe(updates[i]!.pKnowAfter);
+    });
+    expect(isMastered(updates[updates.length - 1]!.pKnowAfter)).toBe(true);
+  });
+});
+
+describe('predictCorrect / isMastered', () => {
+  it('predicts guess rate for unknown and 1 - slip for known KCs', () => {
+    expect(predictCorrect({ ...PARAMS, pKnow: 0 })).toBeCloseTo(PARAMS.pGuess, 5);
+    expect(predictCorrect({ ...PARAMS, pKnow: 1 })).toBeCloseTo(1 - PARAMS.pSlip, 5);
+  });
+
+  it('uses the mastery threshold inclusively', () => {
+    expect(isMastered(MASTERY_THRESHOLD)).toBe(true);
+    expect(isMastered(MASTERY_THRESHOLD - 0.01)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FSRSScheduler,
+  Rating,
+  createEmptyCard,
+  toStoredDifficulty,
+  fromStoredDifficulty,
+  parseCardState,
+} from '../fsrs';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+describe('FSRSScheduler', () => {
+  const scheduler = new FSRSScheduler();
+
+  it('rejects weights of the wrong length', () => {
+    expect(() => new FSRSScheduler({ weights: [1, 2, 3] })).toThrow(/weights/);
+  });
+
+  it('keeps a new card rated Good in learning, due within minutes', () => {
+    const { card } = scheduler.review(createEmptyCard(NOW), Rating.Good, NOW);
+
+    expect(card.state).toBe('learning');
+    expect(card.reps).toBe(1);
+    expect(card.scheduledDays).toBe(0);
+    expect(card.due.getTime() - NOW.getTime()).toBeLessThan(MS_PER_DAY);
+  });
+
+  it('graduates a new card rated Easy past the Good graduation interval', () => {
+    const learning = scheduler.review(createEmptyCard(NOW), Rating.Good, NOW).card;
+    const graduated = scheduler.review(learning, Rating.Good, NOW).card;
+    const easy = scheduler.review(createEmptyCard(NOW), Rating.Easy, NOW).card;
+
+    expect(graduated.state).toBe('review');
+    expect(easy.state).toBe('review');
+    expect(easy.scheduledDays).toBeGreaterThan(scheduler.nextInterval(learning.stability));
+  });
+
+  it('sends a lapsed review card to relearning and counts the lapse', () => {
+    const review = scheduler.review(createEmptyCard(NOW), Rating.Easy, NOW).card;
+    const later = new Date(review.due.getTime());
+    const { card, retrievability } = scheduler.review(review, Rating.Again, later);
+
+    expect(card.state).toBe('relearning');
+    expect(card.lapses).toBe(review.lapses + 1);
+    expect(card.stability).toBeLessThanOrEqual(review.stability);
+    expect(retrievability).toBeGreaterThan(0);
+    expect(retrievability).toBeLessThan(1);
+  });
+
+  it('grows the interval of a card recalled on time', () => {
+    const review = scheduler.review(createEmptyCard(NOW), Rating.Easy, NOW).card;
+    const next = scheduler.review(review, Rating.Good, review.due).card;
+
+    expect(next.state).toBe('review');
+    expect(next.scheduledDays).toBeGreaterThan(review.scheduledDays);
+  });
+
+  it('previews every rating without changing the card', () => {
+    const card = createEmptyCard(NOW);
+    const preview = scheduler.preview(card, NOW);
+
+    expect(Object.keys(preview)).toHaveLength(4);
+    expect(card.reps).toBe(0);
+    expect(card.state).toBe('new');
+  });
+
+  it('has no retrievability for a new card', () => {
+    expect(scheduler.getRetrievability(createEmptyCard(NOW), NOW)).toBe(0);
+  });
+});
+
+describe('card helpers', () => {
+  it('round-trips difficulty through storage', () => {
+    for (const difficulty of [1, 5.5, 10]) {
+      expect(fromStoredDifficulty(toStoredDifficulty(difficulty))).toBeCloseTo(difficulty, 2);
+    }
+  });
+
+  it('parses unknown card states as new', () => {
+    expect(parseCardState('relearning')).toBe('relearning');
+    expect(parseCardState('bogus')).toBe('new');
+    expect(parseCardState(null)).toBe('new');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { KnowledgeGraph } from '../kc-graph';
+import type { Database } from '@/types/supabase';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+function kc(id: string, prerequisites: string[] = []): KnowledgeComponent {
+  return {
+    id,
+    code: `KC_${id.toUpperCase()}`,
+    name_en: id,
+    name_ar: id,
+    description_en: null,
+    description_ar: null,
+    subject: 'Math',
+    topic: 'Algebra',
+    subtopic: null,
+    prerequisites,
+    related_kcs: [],
+    difficulty: 'intermediate',
+    learning_objectives: [],
+    common_misconceptions: [],
+    estimated_time_minutes: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+// a <- b <- d, a <- c <- d (d needs b and c, both need a)
+const DIAMOND = [kc('a'), kc('b', ['a']), kc('c', ['a']), kc('d', ['b', 'c'])];
+
+describe('KnowledgeGraph', () => {
+  it('looks up KCs by id or code', () => {
+    const graph = new KnowledgeGraph(DIAMOND);
+
+    expect(graph.size).toBe(4);
+    expect(graph.get('b')?.code).toBe('KC_B');
+    expect(graph.get('KC_B')?.id).toBe('b');
+    expect(graph.get('missing')).toBeUndefined();
+  });
+
+  it('ignores unknown prerequisite ids', () => {
+    const graph = new KnowledgeGraph([kc('a', ['ghost'])]);
+
+    expect(graph.prerequisitesOf('a')).toEqual([]);
+  });
+
+  it('finds transitive prerequisites with their shortest distance', () => {
+    const ancestors = new KnowledgeGraph(DIAMOND).ancestors('d');
+
+    expect(Object.fromEntries(ancestors)).toEqual({ b: 1, c: 1, a: 2 });
+  });
+
+  it('orders prerequisites before dependents, ties by code', () => {
+    const graph = new KnowledgeGraph(DIAMOND);
+
+    expect(graph.topologicalOrder().map((k) => k.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(graph.pathTo('b').map((k) => k.id)).toEqual(['a', 'b']);
+  });
+
+  it('detects cycles and appends their KCs to the order', () => {
+    const graph = new KnowledgeGraph([kc('a'), kc('x', ['y']), kc('y', ['x'])]);
+
+    expect(graph.findCycles()).toEqual([['x', 'y']]);
+    expect(graph.topologicalOrder().map((k) => k.id)).toEqual(['a', 'x', 'y']);
+    expect(graph.findCycles(['a'])).toEqual([]);
+  });
+
+  it('ranks missing prerequisites: ready first, then weakest, then most foundational', () => {
+    const graph = new KnowledgeGraph(DIAMOND);
+
+    // a mastered: b and c are ready; c is weaker
+    const ready = graph.missingPrerequisites('d', { a: 0.97, b: 0.6, c: 0.3 });
+    expect(ready.map((m) => [m.kc.id, m.ready])).toEqual([
+      ['c', true],
+      ['b', true],
+    ]);
+
+    // Nothing mastered: only a is ready
+    const none = graph.missingPrerequisites('d', {}, 2);
+    expect(none).toHaveLength(2);
+    expect(none[0]).toMatchObject({ pKnow: 0, distance: 2, ready: true });
+    expect(none[0]!.kc.id).toBe('a');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as search from '@/lib/knowledge/search';
+import * as graph from '../kc-graph';
+import { KnowledgeGraph } from '../kc-graph';
+import { tagContext, tagMessage } from '../kc-tagger';
+import type { Database } from '@/types/supabase';
+
+vi.mock('../kc-graph', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../kc-graph')>()),
+  getKnowledgeGraph: vi.fn(),
+}));
+
+vi.mock('../mastery', () => ({
+  loadMasteryLevels: vi.fn(async () => ({ quadratic: 0.4 })),
+}));
+
+vi.mock('@/lib/knowledge/search', () => ({
+  searchKnowledgeBase: vi.fn(async () => []),
+}));
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+function kc(id: string, code: string, nameAr: string, nameEn: string): KnowledgeComponent {
+  return {
+    id,
+    code,
+    name_en: nameEn,
+    name_ar: nameAr,
+    description_en: null,
+    description_ar: null,
+    subject: 'Math',
+    topic: 'Algebra',
+    subtopic: null,
+    prerequisites: [],
+    related_kcs: [],
+    difficulty: 'intermediate',
+    learning_objectives: [],
+    common_misconceptions: [],
+    estimated_time_minutes: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+const QUADRATIC = kc(
+  'quadratic',
+  'MATH_QUADRATIC_EQUATIONS',
+  'المعادلات التربيعية',
+  'Quadratic equations'
+);
+const LINEAR = kc('linear', 'MATH_LINEAR_EQUATIONS', 'المعادلات الخطية', 'Linear equations');
+
+type KnowledgePassage = Awaited<ReturnType<typeof search.searchKnowledgeBase>>[number];
+
+function kcPassage(code: string, similarity: number): KnowledgePassage {
+  return {
+    id: `chunk-${code}`,
+    content: code,
+    subject: 'Math',
+    topic: 'Algebra',
+    similarity,
+    source: {
+      type: 'knowledge_component',
+      id: code,
+      reference: `kc:${code}`,
+      title: code,
+      kcCode: code,
+    },
+  };
+}
+
+describe('KC tagging', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(graph.getKnowledgeGraph).mockResolvedValue(new KnowledgeGraph([QUADRATIC, LINEAR]));
+  });
+
+  it('tags a KC whose whole name appears in the message', async () => {
+    const { topic, tags } = await tagMessage('كيف أحل المعادلات التربيعية؟');
+
+    expect(topic).toBe('Algebra');
+    expect(tags.map((tag) => tag.code)).toEqual(['MATH_QUADRATIC_EQUATIONS']);
+    expect(tags[0]).toMatchObject({ lexicalScore: 1, semanticScore: 0 });
+  });
+
+  it('needs semantic evidence to tag a partial name match', async () => {
+    expect((await tagMessage('ما هي المعادلات؟')).tags).toEqual([]);
+
+    vi.mocked(search.searchKnowledgeBase).mockResolvedValueOnce([
+      kcPassage('MATH_LINEAR_EQUATIONS', 0.8),
+    ]);
+    const { tags } = await tagMessage('ما هي المعادلات؟');
+
+    expect(tags.map((tag) => tag.code)).toEqual(['MATH_LINEAR_EQUATIONS']);
+    expect(tags[0]!.semanticScore).toBe(0.75);
+  });
+
+  it('falls back to lexical matching when the search fails', async () => {
+    vi.mocked(search.searchKnowledgeBase).mockRejectedValueOnce(new Error('no embeddings'));
+
+    const { tags } = await tagMessage('solve these linear equations');
+
+    expect(tags.map((tag) => tag.code)).toEqual(['MATH_LINEAR_EQUATIONS']);
+  });
+
+  it('sets the topic, active KCs and mastery on the context', async () => {
+    const context = {
+      userId: 'student-1',
+      conversationHistory: [],
+      sessionId: 'session-1',
+      timestamp: new Date(),
+    };
+
+    await tagContext(context, 'Quadratic equations');
+
+    expect(context).toMatchObject({
+      currentTopic: 'Algebra',
+      activeKnowledgeComponents: ['quadratic'],
+      masteryLevels: { quadratic: 0.4 },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import { recordMasteryObservation, resolveKnowledgeComponentId } from '../mastery';
+
+vi.mock('@/lib/supabase/database', () => ({
+  getStudentMastery: vi.fn(),
+  getStudentMasteryRows: vi.fn(),
+  updateStudentMastery: vi.fn(),
+  getKnowledgeComponentByCode: vi.fn(),
+}));
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const KC_ID = '00000000-0000-0000-0000-0000000000aa';
+
+type MasteryRow = NonNullable<Awaited<ReturnType<typeof db.getStudentMastery>>>;
+
+describe('recordMasteryObservation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('averages response time over timed attempts only', async () => {
+    vi.mocked(db.getStudentMastery).mockResolvedValue({
+      p_know: 0.3,
+      total_correct: 3,
+      total_incorrect: 1,
+      total_time_spent_seconds: 20,
+      average_response_time_seconds: 10,
+      timed_attempts: 1,
+    } as MasteryRow);
+
+    await recordMasteryObservation(USER_ID, { kcId: KC_ID, correct: true, responseTimeSeconds: 20 });
+
+    expect(db.updateStudentMastery).toHaveBeenCalledWith(
+      USER_ID,
+      KC_ID,
+      expect.objectContaining({
+        total_correct: 4,
+        average_response_time_seconds: 15,
+        timed_attempts: 2,
+      })
+    );
+  });
+
+  it('keeps the mean when the attempt is untimed', async () => {
+    vi.mocked(db.getStudentMastery).mockResolvedValue({
+      p_know: 0.3,
+      total_correct: 0,
+      total_incorrect: 0,
+      total_time_spent_seconds: 0,
+      average_response_time_seconds: 12,
+      timed_attempts: 1,
+    } as MasteryRow);
+
+    await recordMasteryObservation(USER_ID, { kcId: KC_ID, correct: false });
+
+    expect(db.updateStudentMastery).toHaveBeenCalledWith(
+      USER_ID,
+      KC_ID,
+      expect.objectContaining({ average_response_time_seconds: 12, timed_attempts: 1 })
+    );
+  });
+
+  it('rejects an unknown knowledge component', async () => {
+    vi.mocked(db.getKnowledgeComponentByCode).mockResolvedValue(null);
+
+    await expect(
+      recordMasteryObservation(USER_ID, { kcId: 'NOT_A_KC', correct: true })
+    ).rejects.toThrow('Unknown knowledge component');
+    expect(await resolveKnowledgeComponentId('NOT_A_KC')).toBeNull();
+    expect(db.updateStudentMastery).not.toHaveBeenCalled();
+  });
+});
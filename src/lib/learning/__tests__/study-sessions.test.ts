@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import {
+  STUDY_BREAK_SECONDS,
+  STUDY_IDLE_TIMEOUT_SECONDS,
+  getStudySummary,
+  recordStudyActivity,
+} from '../study-sessions';
+
+vi.mock('@/lib/supabase/database', () => ({
+  recordStudyActivity: vi.fn(),
+  closeIdleStudySessions: vi.fn(),
+  getStudySessionsSince: vi.fn(),
+  getStudyStreak: vi.fn(),
+  getOrCreateUserProfile: vi.fn(),
+}));
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const KC_ID = '00000000-0000-0000-0000-0000000000aa';
+
+type StudySession = Awaited<ReturnType<typeof db.getStudySessionsSince>>[number];
+type UserProfile = Awaited<ReturnType<typeof db.getOrCreateUserProfile>>;
+
+describe('study sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records activity with unique KC IDs only', async () => {
+    await recordStudyActivity(USER_ID, {
+      kcIds: [KC_ID, 'MATH_FRACTIONS', KC_ID],
+      exercises: { total: 2, correct: 1 },
+    });
+
+    expect(db.recordStudyActivity).toHaveBeenCalledWith(USER_ID, {
+      idleTimeoutSeconds: STUDY_IDLE_TIMEOUT_SECONDS,
+      breakSeconds: STUDY_BREAK_SECONDS,
+      lessonIds: [],
+      kcIds: [KC_ID],
+      exercises: 2,
+      correct: 1,
+      flashcards: 0,
+    });
+  });
+
+  it('never fails the request that caused the activity', async () => {
+    vi.mocked(db.recordStudyActivity).mockRejectedValue(new Error('connection reset'));
+
+    await expect(recordStudyActivity(USER_ID)).resolves.toBeNull();
+  });
+
+  it('sums today against the daily goal after closing idle sessions', async () => {
+    vi.mocked(db.getStudyStreak).mockResolvedValue(3);
+    vi.mocked(db.getStudySessionsSince).mockResolvedValue([
+      { id: 'session-1', active_seconds: 600, ended_at: '2026-01-01T08:10:00Z' },
+      { id: 'session-2', active_seconds: 330, ended_at: null },
+    ] as StudySession[]);
+    vi.mocked(db.getOrCreateUserProfile).mockResolvedValue({
+      daily_goal_minutes: 20,
+    } as UserProfile);
+
+    const summary = await getStudySummary(USER_ID);
+
+    expect(db.closeIdleStudySessions).toHaveBeenCalledWith(USER_ID, STUDY_IDLE_TIMEOUT_SECONDS);
+    expect(summary).toMatchObject({
+      streakDays: 3,
+      todayMinutes: 15,
+      dailyGoalMinutes: 20,
+      goalProgress: 0.75,
+      goalReached: false,
+      sessionsToday: 2,
+    });
+    expect(summary.currentSession?.id).toBe('session-2');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * BKT - Bayesian Knowledge Tracing
+ *
+ * Hidden Markov model of whether a student knows a knowledge component (KC).
+ * Each graded observation updates P(L) - the probability the KC is known:
+ * 1. Posterior given the observation (accounting for slips and guesses)
+ * 2. Learning transition: the student may learn from the opportunity itself
+ *
+ * Parameters mirror the student_mastery columns (p_know, p_learn, p_slip, p_guess).
+ */
+
+/**
+ * BKT parameters for one student/KC pair
+ */
+export interface BKTParameters {
+  pKnow: number; // P(L) - probability the KC is known
+  pLearn: number; // P(T) - probability of learning per opportunity
+  pSlip: number; // P(S) - probability of a mistake despite knowing
+  pGuess: number; // P(G) - probability of a correct guess without knowing
+}
+
+/**
+ * Result of a single BKT update
+ */
+export interface BKTUpdate {
+  pKnowBefore: number;
+  pKnowPosterior: number; // After evidence, before learning transition
+  pKnowAfter: number; // After learning transition
+  pCorrectPredicted: number; // Predicted P(correct) before the observation
+}
+
+/**
+ * Default parameters (match the student_mastery column defaults)
+ */
+export const DEFAULT_BKT_PARAMETERS: BKTParameters = {
+  pKnow: 0,
+  pLearn: 0.3,
+  pSlip: 0.1,
+  pGuess: 0.25,
+};
+
+/**
+ * P(L) at which a KC counts as mastered (matches student_mastery.is_mastered)
+ */
+export const MASTERY_THRESHOLD = 0.95;
+
+/**
+ * Predicted probability of a correct answer
+ */
+export function predictCorrect(params: BKTParameters): number {
+  const { pKnow, pSlip, pGuess } = normalizeParameters(params);
+  return pKnow * (1 - pSlip) + (1 - pKnow) * pGuess;
+}
+
+/**
+ * Update P(L) from one correct/incorrect observation
+ */
+export function updateKnowledge(params: BKTParameters, correct: boolean): BKTUpdate {
+  const { pKnow, pLearn, pSlip, pGuess } = normalizeParameters(params);
+
+  const pCorrectPredicted = pKnow * (1 - pSlip) + (1 - pKnow) * pGuess;
+
+  const posterior = correct
+    ? (pKnow * (1 - pSlip)) / pCorrectPredicted
+    : (pKnow * pSlip) / (1 - pCorrectPredicted);
+
+  const pKnowAfter = posterior + (1 - posterior) * pLearn;
+
+  return {
+    pKnowBefore: pKnow,
+    pKnowPosterior: clampProbability(posterior),
+    pKnowAfter: clampProbability(pKnowAfter),
+    pCorrectPredicted,
+  };
+}
+
+/**
+ * Apply a sequence of observations in order
+ */
+export function updateKnowledgeSequence(
+  params: BKTParameters,
+  observations: boolean[]
+): BKTUpdate[] {
+  const updates: BKTUpdate[] = [];
+  let current = params;
+
+  for (const correct of observations) {
+    const update = updateKnowledge(current, correct);
+    updates.push(update);
+    current = { ...current, pKnow: update.pKnowAfter };
+  }
+
+  return updates;
+}
+
+/**
+ * Check whether P(L) has reached mastery
+ */
+export function isMastered(pKnow: number): boolean {
+  return pKnow >= MASTERY_THRESHOLD;
+}
+
+/**
+ * Keep parameters inside the ranges where the model is identifiable
+ * (slip and guess above 0.5 would make "knowing" indistinguishable from not)
+ */
+function normalizeParameters(params: BKTParameters): BKTParameters {
+  return {
+    pKnow: clampProbability(params.pKnow),
+    pLearn: clampProbability(params.pLearn),
+    pSlip: Math.min(0.5, clampProbability(params.pSlip)),
+    pGuess: Math.min(0.5, clampProbability(params.pGuess)),
+  };
+}
+
+/**
+ * Clamp to [0, 1] and round to the 3 decimals stored in DECIMAL(4,3)
+ */
+function clampProbability(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+}
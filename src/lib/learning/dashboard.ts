@@ -0,0 +1,256 @@
+/**
+ * Student Dashboard
+ *
+ * Gathers everything the progress dashboard shows in one place: overall and
+ * per-subject mastery, the study streak calendar, what is due for review,
+ * achievements, and the student's history with each agent.
+ */
+
+import { MASTERY_THRESHOLD } from './bkt';
+import { getKnowledgeGraph } from './kc-graph';
+import { getStudySummary } from './study-sessions';
+import { getAchievementStatuses, type AchievementStatus } from '@/lib/achievements';
+import { getAgentInfo } from '@/lib/agents/registry';
+import {
+  getOverallMastery,
+  getStudentMasteryRows,
+  getKCsNeedingReview,
+  getFlashcardsDue,
+  getStudySessionsSince,
+  getRecentAgentSessions,
+} from '@/lib/supabase/database';
+import type { Database } from '@/types/supabase';
+
+type AgentSession = Database['public']['Tables']['agent_sessions']['Row'];
+
+/**
+ * KC mastery within one subject
+ */
+export interface SubjectMastery {
+  subject: string;
+  totalKcs: number;
+  practicedKcs: number;
+  masteredKcs: number;
+  averageMastery: number; // Mean p_know over practiced KCs
+}
+
+/**
+ * One day of the streak calendar (UTC days, like get_study_streak)
+ */
+export interface StudyDay {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  goalReached: boolean;
+}
+
+/**
+ * Flashcard due for review
+ */
+export interface DueFlashcard {
+  id: string;
+  front: string;
+  kcName: string | null;
+  dueDate: string;
+  state: string;
+}
+
+/**
+ * A student's interactions with one agent
+ */
+export interface AgentHistory {
+  agentId: string;
+  name: string;
+  arabicName: string;
+  interactions: number;
+  lastInteractionAt: string;
+  averageRating: number | null; // 1-5, from student feedback
+  recent: Array<{ id: string; input: string; createdAt: string; wasHelpful: boolean | null }>;
+}
+
+export interface DashboardSummary {
+  overallMastery: number;
+  subjects: SubjectMastery[];
+  study: {
+    streakDays: number;
+    todayMinutes: number;
+    dailyGoalMinutes: number;
+    goalProgress: number;
+    calendar: StudyDay[];
+  };
+  review: {
+    flashcardsDue: DueFlashcard[];
+    kcsNeedingReview: number;
+  };
+  achievements: {
+    recent: AchievementStatus[];
+    next: AchievementStatus[]; // Locked, closest to unlocking first
+    unlocked: number;
+    total: number;
+    points: number;
+  };
+  agents: AgentHistory[];
+}
+
+/**
+ * Days shown in the streak calendar (five weeks)
+ */
+export const STUDY_CALENDAR_DAYS = 35;
+
+const RECENT_ACHIEVEMENTS = 6;
+const NEXT_ACHIEVEMENTS = 3;
+const AGENT_SESSIONS_SCANNED = 200; // Agent history covers the most recent sessions
+const RECENT_INTERACTIONS_PER_AGENT = 3;
+
+/**
+ * Build the dashboard for a student
+ */
+export async function getDashboardSummary(userId: string): Promise<DashboardSummary> {
+  const calendarStart = new Date();
+  calendarStart.setUTCHours(0, 0, 0, 0);
+  calendarStart.setUTCDate(calendarStart.getUTCDate() - (STUDY_CALENDAR_DAYS - 1));
+
+  const [
+    overallMastery,
+    masteryRows,
+    graph,
+    studySummary,
+    sessions,
+    kcsNeedingReview,
+    flashcards,
+    achievements,
+    agentSessions,
+  ] = await Promise.all([
+    getOverallMastery(userId),
+    getStudentMasteryRows(userId),
+    getKnowledgeGraph(),
+    getStudySummary(userId),
+    getStudySessionsSince(userId, calendarStart),
+    getKCsNeedingReview(userId),
+    getFlashcardsDue(userId, 10),
+    getAchievementStatuses(userId),
+    getRecentAgentSessions(userId, AGENT_SESSIONS_SCANNED),
+  ]);
+
+  // Per-subject mastery: every KC in the curriculum, practiced or not
+  const subjects = new Map<string, SubjectMastery & { pKnowTotal: number }>();
+  const subjectOf = (subject: string) => {
+    let entry = subjects.get(subject);
+    if (!entry) {
+      entry = { subject, totalKcs: 0, practicedKcs: 0, masteredKcs: 0, averageMastery: 0, pKnowTotal: 0 };
+      subjects.set(subject, entry);
+    }
+    return entry;
+  };
+
+  for (const kc of graph.components()) {
+    subjectOf(kc.subject).totalKcs += 1;
+  }
+
+  for (const row of masteryRows) {
+    const kc = graph.get(row.kc_id);
+    if (!kc) continue;
+
+    const entry = subjectOf(kc.subject);
+    entry.practicedKcs += 1;
+    entry.pKnowTotal += row.p_know;
+    if (row.is_mastered || row.p_know >= MASTERY_THRESHOLD) entry.masteredKcs += 1;
+  }
+
+  // Streak calendar: study minutes per day, oldest first
+  const minutesByDay = new Map<string, number>();
+  for (const session of sessions) {
+    const day = session.started_at.slice(0, 10);
+    minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + session.active_seconds / 60);
+  }
+
+  const calendar: StudyDay[] = [];
+  for (let offset = 0; offset < STUDY_CALENDAR_DAYS; offset++) {
+    const day = new Date(calendarStart);
+    day.setUTCDate(day.getUTCDate() + offset);
+
+    const date = day.toISOString().slice(0, 10);
+    const minutes = Math.floor(minutesByDay.get(date) ?? 0);
+    calendar.push({ date, minutes, goalReached: minutes >= studySummary.dailyGoalMinutes });
+  }
+
+  const unlocked = achievements
+    .filter((achievement) => achievement.unlocked)
+    .sort((a, b) => (b.unlockedAt ?? '').localeCompare(a.unlockedAt ?? ''));
+  const locked = achievements
+    .filter((achievement) => !achievement.unlocked)
+    .sort((a, b) => b.progress - a.progress);
+
+  return {
+    overallMastery: Number(overallMastery),
+    subjects: Array.from(subjects.values())
+      .map(({ pKnowTotal, ...entry }) => ({
+        ...entry,
+        averageMastery: entry.practicedKcs > 0 ? pKnowTotal / entry.practicedKcs : 0,
+      }))
+      .sort((a, b) => a.subject.localeCompare(b.subject)),
+    study: {
+      streakDays: studySummary.streakDays,
+      todayMinutes: studySummary.todayMinutes,
+      dailyGoalMinutes: studySummary.dailyGoalMinutes,
+      goalProgress: studySummary.goalProgress,
+      calendar,
+    },
+    review: {
+      flashcardsDue: flashcards.map((card) => ({
+        id: card.id,
+        front: card.front_text,
+        kcName: graph.get(card.kc_id)?.name_ar ?? null,
+        dueDate: card.due_date,
+        state: card.state,
+      })),
+      kcsNeedingReview: kcsNeedingReview?.length ?? 0,
+    },
+    achievements: {
+      recent: unlocked.slice(0, RECENT_ACHIEVEMENTS),
+      next: locked.slice(0, NEXT_ACHIEVEMENTS),
+      unlocked: unlocked.length,
+      total: achievements.length,
+      points: unlocked.reduce((total, achievement) => total + achievement.points, 0),
+    },
+    agents: summarizeAgentSessions(agentSessions ?? []),
+  };
+}
+
+/**
+ * Group agent sessions (newest first) by agent, most used agent first
+ */
+function summarizeAgentSessions(sessions: AgentSession[]): AgentHistory[] {
+  const byAgent = new Map<string, AgentSession[]>();
+
+  for (const session of sessions) {
+    const group = byAgent.get(session.agent_type) ?? [];
+    group.push(session);
+    byAgent.set(session.agent_type, group);
+  }
+
+  return Array.from(byAgent.entries())
+    .map(([agentType, group]) => {
+      const agentId = agentType.replace(/_/g, '-');
+      const info = getAgentInfo(agentId);
+      const ratings = group
+        .map((session) => session.student_feedback)
+        .filter((rating): rating is number => rating !== null);
+
+      return {
+        agentId,
+        name: info?.name ?? agentId,
+        arabicName: info?.arabicName ?? agentId,
+        interactions: group.length,
+        lastInteractionAt: group[0]?.created_at ?? '',
+        averageRating:
+          ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+        recent: group.slice(0, RECENT_INTERACTIONS_PER_AGENT).map((session) => ({
+          id: session.id,
+          input: session.input,
+          createdAt: session.created_at,
+          wasHelpful: session.was_helpful,
+        })),
+      };
+    })
+    .sort((a, b) => b.interactions - a.interactions);
+}
@@ -0,0 +1,344 @@
+/**
+ * FSRS - Free Spaced Repetition Scheduler
+ *
+ * Pure TypeScript implementation of FSRS v4.5 used by the Spaced Repetition agent.
+ * Models memory with three variables:
+ * - Stability (S): days until retrievability drops from 100% to 90%
+ * - Difficulty (D): inherent difficulty of the card (1-10)
+ * - Retrievability (R): probability of recall at a given moment
+ *
+ * Reference: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ */
+
+/**
+ * Review rating (matches review_history.rating: 1=again, 2=hard, 3=good, 4=easy)
+ */
+export enum Rating {
+  Again = 1,
+  Hard = 2,
+  Good = 3,
+  Easy = 4,
+}
+
+/**
+ * Card learning state (matches flashcards.state)
+ */
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+/**
+ * Scheduler-side card representation
+ */
+export interface FSRSCard {
+  state: CardState;
+  stability: number; // Days
+  difficulty: number; // 1-10
+  due: Date;
+  lastReview?: Date;
+  elapsedDays: number;
+  scheduledDays: number;
+  reps: number;
+  lapses: number;
+}
+
+/**
+ * Result of scheduling a single review
+ */
+export interface SchedulingResult {
+  card: FSRSCard;
+  rating: Rating;
+  retrievability: number; // Recall probability at review time
+  reviewedAt: Date;
+}
+
+/**
+ * Scheduler parameters
+ */
+export interface FSRSParameters {
+  weights: number[]; // 17 model weights (w0-w16)
+  requestRetention: number; // Target recall probability (0-1)
+  maximumInterval: number; // Days
+  learningStepsMinutes: number[]; // Short-term steps for new/lapsed cards
+}
+
+/**
+ * Default FSRS v4.5 weights (trained on the open FSRS dataset)
+ */
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DEFAULT_PARAMETERS: FSRSParameters = {
+  weights: DEFAULT_FSRS_WEIGHTS,
+  requestRetention: 0.9,
+  maximumInterval: 36500,
+  learningStepsMinutes: [1, 10],
+};
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 0.9
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * FSRS scheduler
+ */
+export class FSRSScheduler {
+  private params: FSRSParameters;
+
+  constructor(params: Partial<FSRSParameters> = {}) {
+    this.params = { ...DEFAULT_PARAMETERS, ...params };
+
+    if (this.params.weights.length !== DEFAULT_FSRS_WEIGHTS.length) {
+      throw new Error(
+        `FSRS requires ${DEFAULT_FSRS_WEIGHTS.length} weights, got ${this.params.weights.length}`
+      );
+    }
+  }
+
+  /**
+   * Schedule a card after a review with the given rating
+   */
+  review(card: FSRSCard, rating: Rating, now: Date = new Date()): SchedulingResult {
+    const elapsedDays = card.lastReview
+      ? Math.max(0, (now.getTime() - card.lastReview.getTime()) / MS_PER_DAY)
+      : 0;
+    const retrievability =
+      card.state === 'new' ? 0 : this.forgettingCurve(elapsedDays, card.stability);
+
+    const next: FSRSCard = {
+      ...card,
+      lastReview: now,
+      elapsedDays: Math.floor(elapsedDays),
+      reps: card.reps + 1,
+    };
+
+    if (card.state === 'new') {
+      next.stability = this.initStability(rating);
+      next.difficulty = this.initDifficulty(rating);
+    } else {
+      next.difficulty = this.nextDifficulty(card.difficulty, rating);
+      next.stability =
+        rating === Rating.Again
+          ? this.nextForgetStability(card.difficulty, card.stability, retrievability)
+          : this.nextRecallStability(card.difficulty, card.stability, retrievability, rating);
+    }
+
+    switch (card.state) {
+      case 'new':
+      case 'learning':
+      case 'relearning':
+        this.scheduleShortTerm(next, card.state, rating, now);
+        break;
+
+      case 'review':
+        if (rating === Rating.Again) {
+          next.lapses = card.lapses + 1;
+          next.state = 'relearning';
+          this.scheduleMinutes(next, this.params.learningStepsMinutes[0] ?? 1, now);
+        } else {
+          this.scheduleDays(next, this.nextInterval(next.stability), now);
+        }
+        break;
+    }
+
+    return { card: next, rating, retrievability, reviewedAt: now };
+  }
+
+  /**
+   * Preview the outcome of every rating without committing
+   */
+  preview(card: FSRSCard, now: Date = new Date()): Record<Rating, SchedulingResult> {
+    return {
+      [Rating.Again]: this.review(card, Rating.Again, now),
+      [Rating.Hard]: this.review(card, Rating.Hard, now),
+      [Rating.Good]: this.review(card, Rating.Good, now),
+      [Rating.Easy]: this.review(card, Rating.Easy, now),
+    };
+  }
+
+  /**
+   * Current recall probability for a card
+   */
+  getRetrievability(card: FSRSCard, now: Date = new Date()): number {
+    if (card.state === 'new' || !card.lastReview) return 0;
+    const elapsedDays = Math.max(0, (now.getTime() - card.lastReview.getTime()) / MS_PER_DAY);
+    return this.forgettingCurve(elapsedDays, card.stability);
+  }
+
+  /**
+   * Interval (days) at which recall drops to the requested retention
+   */
+  nextInterval(stability: number): number {
+    const interval =
+      (stability / FACTOR) * (Math.pow(this.params.requestRetention, 1 / DECAY) - 1);
+    return Math.min(Math.max(1, Math.round(interval)), this.params.maximumInterval);
+  }
+
+  /**
+   * Handle new / learning / relearning cards (minute-level steps)
+   */
+  private scheduleShortTerm(
+    next: FSRSCard,
+    state: CardState,
+    rating: Rating,
+    now: Date
+  ): void {
+    const steps = this.params.learningStepsMinutes;
+
+    if (rating === Rating.Easy || (rating === Rating.Good && state !== 'new')) {
+      next.state = 'review';
+      let interval = this.nextInterval(next.stability);
+      if (rating === Rating.Easy && state === 'new') {
+        // Easy on a new card should never be shorter than Good would graduate to
+        interval = Math.max(interval, this.nextInterval(this.initStability(Rating.Good)) + 1);
+      }
+      this.scheduleDays(next, interval, now);
+      return;
+    }
+
+    next.state = state === 'relearning' ? 'relearning' : 'learning';
+
+    const stepIndex =
+      rating === Rating.Again ? 0 : rating === Rating.Hard ? 0 : steps.length - 1;
+    const minutes = steps[stepIndex] ?? 10;
+    // Hard repeats the current step with a slightly longer delay
+    this.scheduleMinutes(next, rating === Rating.Hard ? Math.ceil(minutes * 1.5) : minutes, now);
+  }
+
+  private scheduleDays(card: FSRSCard, days: number, now: Date): void {
+    card.scheduledDays = days;
+    card.due = new Date(now.getTime() + days * MS_PER_DAY);
+  }
+
+  private scheduleMinutes(card: FSRSCard, minutes: number, now: Date): void {
+    card.scheduledDays = 0;
+    card.due = new Date(now.getTime() + minutes * MS_PER_MINUTE);
+  }
+
+  /**
+   * R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+   */
+  private forgettingCurve(elapsedDays: number, stability: number): number {
+    if (stability <= 0) return 0;
+    return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+  }
+
+  /**
+   * S0(G) = w[G-1]
+   */
+  private initStability(rating: Rating): number {
+    return Math.max(this.w(rating - 1), 0.1);
+  }
+
+  /**
+   * D0(G) = w4 - (G - 3) * w5
+   */
+  private initDifficulty(rating: Rating): number {
+    return clampDifficulty(this.w(4) - (rating - 3) * this.w(5));
+  }
+
+  /**
+   * D' = w7 * D0(3) + (1 - w7) * (D - w6 * (G - 3))
+   */
+  private nextDifficulty(difficulty: number, rating: Rating): number {
+    const nextD = difficulty - this.w(6) * (rating - 3);
+    const meanReverted = this.w(7) * this.initDifficulty(Rating.Good) + (1 - this.w(7)) * nextD;
+    return clampDifficulty(meanReverted);
+  }
+
+  /**
+   * Stability after a successful recall
+   */
+  private nextRecallStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+    rating: Rating
+  ): number {
+    const hardPenalty = rating === Rating.Hard ? this.w(15) : 1;
+    const easyBonus = rating === Rating.Easy ? this.w(16) : 1;
+
+    return (
+      stability *
+      (1 +
+        Math.exp(this.w(8)) *
+          (11 - difficulty) *
+          Math.pow(stability, -this.w(9)) *
+          (Math.exp(this.w(10) * (1 - retrievability)) - 1) *
+          hardPenalty *
+          easyBonus)
+    );
+  }
+
+  /**
+   * Stability after a lapse (forgotten card)
+   */
+  private nextForgetStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number
+  ): number {
+    const forgetStability =
+      this.w(11) *
+      Math.pow(difficulty, -this.w(12)) *
+      (Math.pow(stability + 1, this.w(13)) - 1) *
+      Math.exp(this.w(14) * (1 - retrievability));
+
+    // A lapse should never increase stability
+    return Math.max(0.1, Math.min(forgetStability, stability));
+  }
+
+  private w(index: number): number {
+    return this.params.weights[index] ?? 0;
+  }
+}
+
+/**
+ * Create a fresh, never-reviewed card
+ */
+export function createEmptyCard(now: Date = new Date()): FSRSCard {
+  return {
+    state: 'new',
+    stability: 0,
+    difficulty: 0,
+    due: now,
+    elapsedDays: 0,
+    scheduledDays: 0,
+    reps: 0,
+    lapses: 0,
+  };
+}
+
+/**
+ * Convert FSRS difficulty (1-10) to the 0-1 scale stored in the database
+ */
+export function toStoredDifficulty(difficulty: number): number {
+  return Math.round(((clampDifficulty(difficulty) - 1) / 9) * 1000) / 1000;
+}
+
+/**
+ * Convert stored difficulty (0-1) back to the FSRS 1-10 scale
+ */
+export function fromStoredDifficulty(stored: number): number {
+  return clampDifficulty(1 + Math.min(1, Math.max(0, stored)) * 9);
+}
+
+/**
+ * Parse a stored card state, defaulting unknown values to 'new'
+ */
+export function parseCardState(state: string | null | undefined): CardState {
+  return state === 'learning' || state === 'review' || state === 'relearning'
+    ? state
+    : 'new';
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+/**
+ * Default scheduler instance
+ */
+export const fsrs = new FSRSScheduler();
@@ -0,0 +1,299 @@
+/**
+ * Knowledge Component Graph
+ *
+ * The prerequisite DAG over knowledge_components (prerequisites / related_kcs
+ * are KC UUID arrays). Provides cycle detection, topological learning paths
+ * and the weakest missing prerequisites for a target KC given the student's
+ * p_know values from student_mastery.
+ */
+
+import { MASTERY_THRESHOLD, DEFAULT_BKT_PARAMETERS } from './bkt';
+import { getAllKnowledgeComponents, getStudentMasteryRows } from '@/lib/supabase/database';
+import type { Database } from '@/types/supabase';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+/**
+ * A prerequisite the student has not mastered yet
+ */
+export interface MissingPrerequisite {
+  kc: KnowledgeComponent;
+  pKnow: number;
+  distance: number; // 1 = direct prerequisite of the target
+  ready: boolean; // All of its own prerequisites are mastered
+}
+
+/**
+ * One step of a learning path
+ */
+export interface LearningPathStep {
+  kc: KnowledgeComponent;
+  pKnow: number;
+  isMastered: boolean;
+}
+
+/**
+ * Ordered route to a target KC for one student
+ */
+export interface LearningPath {
+  target: KnowledgeComponent;
+  steps: LearningPathStep[]; // Prerequisites first, target last
+  missingPrerequisites: MissingPrerequisite[]; // Revisit order
+  cycles: string[][]; // Prerequisite cycles (KC codes) touching the path
+}
+
+/**
+ * Graph cache lifetime (knowledge components change rarely)
+ */
+const GRAPH_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Prerequisite graph over knowledge components
+ */
+export class KnowledgeGraph {
+  private nodes = new Map<string, KnowledgeComponent>();
+  private byCode = new Map<string, KnowledgeComponent>();
+
+  constructor(components: KnowledgeComponent[]) {
+    for (const kc of components) {
+      this.nodes.set(kc.id, kc);
+      this.byCode.set(kc.code, kc);
+    }
+  }
+
+  /**
+   * Look up a KC by UUID or code
+   */
+  get(idOrCode: string): KnowledgeComponent | undefined {
+    return this.nodes.get(idOrCode) ?? this.byCode.get(idOrCode);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * All KCs in the graph
+   */
+  components(): KnowledgeComponent[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Direct prerequisites (unknown IDs are ignored)
+   */
+  prerequisitesOf(kcId: string): KnowledgeComponent[] {
+    return (this.nodes.get(kcId)?.prerequisites ?? [])
+      .map((id) => this.nodes.get(id))
+      .filter((kc): kc is KnowledgeComponent => kc !== undefined);
+  }
+
+  /**
+   * Related (non-prerequisite) KCs
+   */
+  relatedTo(kcId: string): KnowledgeComponent[] {
+    return (this.nodes.get(kcId)?.related_kcs ?? [])
+      .map((id) => this.nodes.get(id))
+      .filter((kc): kc is KnowledgeComponent => kc !== undefined);
+  }
+
+  /**
+   * All transitive prerequisites with their distance from the KC
+   */
+  ancestors(kcId: string): Map<string, number> {
+    const distances = new Map<string, number>();
+    const queue: Array<[string, number]> = [[kcId, 0]];
+
+    while (queue.length > 0) {
+      const [id, distance] = queue.shift()!;
+
+      for (const prerequisite of this.prerequisitesOf(id)) {
+        if (prerequisite.id === kcId || distances.has(prerequisite.id)) continue;
+        distances.set(prerequisite.id, distance + 1);
+        queue.push([prerequisite.id, distance + 1]);
+      }
+    }
+
+    return distances;
+  }
+
+  /**
+   * Prerequisite cycles, each as a list of KC IDs (optionally only within some KCs)
+   */
+  findCycles(kcIds?: Iterable<string>): string[][] {
+    const scope = new Set(kcIds ?? this.nodes.keys());
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      for (const prerequisite of this.prerequisitesOf(id)) {
+        if (!scope.has(prerequisite.id)) continue;
+
+        const prerequisiteState = state.get(prerequisite.id);
+        if (prerequisiteState === 'visiting') {
+          cycles.push(stack.slice(stack.indexOf(prerequisite.id)));
+        } else if (prerequisiteState === undefined) {
+          visit(prerequisite.id);
+        }
+      }
+
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    for (const id of Array.from(scope).sort()) {
+      if (this.nodes.has(id) && !state.has(id)) visit(id);
+    }
+
+    return cycles;
+  }
+
+  /**
+   * KCs ordered so every prerequisite comes before the KCs that need it
+   * (ties broken by code). KCs caught in a cycle are appended at the end.
+   */
+  topologicalOrder(kcIds?: Iterable<string>): KnowledgeComponent[] {
+    const scope = new Set(Array.from(kcIds ?? this.nodes.keys()).filter((id) => this.nodes.has(id)));
+    const pending = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const id of Array.from(scope)) {
+      const prerequisites = this.prerequisitesOf(id).filter((kc) => scope.has(kc.id));
+      pending.set(id, prerequisites.length);
+      for (const prerequisite of prerequisites) {
+        dependents.set(prerequisite.id, [...(dependents.get(prerequisite.id) ?? []), id]);
+      }
+    }
+
+    const byCode = (a: string, b: string) =>
+      this.nodes.get(a)!.code.localeCompare(this.nodes.get(b)!.code);
+
+    const ready = Array.from(scope).filter((id) => pending.get(id) === 0).sort(byCode);
+    const ordered: KnowledgeComponent[] = [];
+
+    while (ready.length > 0) {
+      const id = ready.shift()!;
+      ordered.push(this.nodes.get(id)!);
+      pending.delete(id);
+
+      for (const dependent of dependents.get(id) ?? []) {
+        const remaining = (pending.get(dependent) ?? 0) - 1;
+        pending.set(dependent, remaining);
+        if (remaining === 0) {
+          ready.push(dependent);
+          ready.sort(byCode);
+        }
+      }
+    }
+
+    // Whatever is left is part of (or depends on) a cycle
+    for (const id of Array.from(pending.keys()).sort(byCode)) {
+      ordered.push(this.nodes.get(id)!);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * The target and all its prerequisites in learning order
+   */
+  pathTo(targetId: string): KnowledgeComponent[] {
+    return this.topologicalOrder([...Array.from(this.ancestors(targetId).keys()), targetId]);
+  }
+
+  /**
+   * Unmastered prerequisites of a target, in the order to revisit them:
+   * ready ones (own prerequisites mastered) first, then lowest p_know, then
+   * the most foundational (furthest from the target)
+   */
+  missingPrerequisites(
+    targetId: string,
+    masteryLevels: Record<string, number>,
+    limit?: number
+  ): MissingPrerequisite[] {
+    const pKnowOf = (id: string) => masteryLevels[id] ?? DEFAULT_BKT_PARAMETERS.pKnow;
+    const isMissing = (id: string) => pKnowOf(id) < MASTERY_THRESHOLD;
+
+    const missing = Array.from(this.ancestors(targetId).entries())
+      .filter(([id]) => isMissing(id))
+      .map(([id, distance]) => ({
+        kc: this.nodes.get(id)!,
+        pKnow: pKnowOf(id),
+        distance,
+        ready: !this.prerequisitesOf(id).some((kc) => isMissing(kc.id)),
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.ready) - Number(a.ready) ||
+          a.pKnow - b.pKnow ||
+          b.distance - a.distance ||
+          a.kc.code.localeCompare(b.kc.code)
+      );
+
+    return limit !== undefined ? missing.slice(0, limit) : missing;
+  }
+}
+
+let cachedGraph: { graph: Promise<KnowledgeGraph>; loadedAt: number } | null = null;
+
+/**
+ * Load the KC graph (cached for a few minutes)
+ */
+export function getKnowledgeGraph(): Promise<KnowledgeGraph> {
+  if (!cachedGraph || Date.now() - cachedGraph.loadedAt > GRAPH_CACHE_TTL_MS) {
+    const graph = getAllKnowledgeComponents().then((components) => new KnowledgeGraph(components));
+
+    // A failed load should not be cached
+    graph.catch(() => {
+      cachedGraph = null;
+    });
+
+    cachedGraph = { graph, loadedAt: Date.now() };
+  }
+
+  return cachedGraph.graph;
+}
+
+/**
+ * Drop the cached graph (after knowledge components are edited)
+ */
+export function invalidateKnowledgeGraph(): void {
+  cachedGraph = null;
+}
+
+/**
+ * Learning path to a target KC (UUID or code) for one student
+ * Returns null when the target does not exist
+ */
+export async function getLearningPath(
+  userId: string,
+  target: string
+): Promise<LearningPath | null> {
+  const graph = await getKnowledgeGraph();
+  const targetKc = graph.get(target.trim());
+  if (!targetKc) return null;
+
+  const path = graph.pathTo(targetKc.id);
+  const rows = await getStudentMasteryRows(userId, path.map((kc) => kc.id));
+
+  const masteryLevels: Record<string, number> = {};
+  for (const row of rows) {
+    masteryLevels[row.kc_id] = row.p_know;
+  }
+
+  return {
+    target: targetKc,
+    steps: path.map((kc) => {
+      const pKnow = masteryLevels[kc.id] ?? DEFAULT_BKT_PARAMETERS.pKnow;
+      return { kc, pKnow, isMastered: pKnow >= MASTERY_THRESHOLD };
+    }),
+    missingPrerequisites: graph.missingPrerequisites(targetKc.id, masteryLevels),
+    cycles: graph
+      .findCycles(path.map((kc) => kc.id))
+      .map((cycle) => cycle.map((id) => graph.get(id)!.code)),
+  };
+}
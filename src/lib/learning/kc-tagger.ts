@@ -0,0 +1,214 @@
+/**
+ * Knowledge Component Tagging
+ *
+ * Maps a student message to the knowledge components it is about, so
+ * routing, prompts and mastery updates know which KCs a turn concerns.
+ * Two signals are combined per KC code:
+ *
+ * 1. Lexical: how much of the KC's Arabic or English name appears in the
+ *    message (Arabic spelling normalized, the article and clitics stripped).
+ *    Only the whole name (or most of a longer one) can tag a KC on its own.
+ * 2. Semantic: similarity of the message to the KC's embedded description
+ *    (knowledge_chunks with source type knowledge_component).
+ *
+ * Tagging never throws: without embeddings (or on a search error) only the
+ * lexical signal is used, and without a KC graph nothing is tagged.
+ */
+
+import { getKnowledgeGraph } from './kc-graph';
+import { loadMasteryLevels } from './mastery';
+import { searchKnowledgeBase } from '@/lib/knowledge/search';
+import { normalizeArabic } from '@/lib/dialect/classifier';
+import type { LLMProvider } from '@/lib/llm';
+import type { AgentContext } from '@/lib/agents/base/types';
+import type { Database } from '@/types/supabase';
+
+type KnowledgeComponent = Database['public']['Tables']['knowledge_components']['Row'];
+
+/**
+ * A KC the message was tagged with
+ */
+export interface KnowledgeComponentTag {
+  kcId: string;
+  code: string;
+  nameAr: string;
+  topic: string;
+  score: number; // Combined (0-1)
+  lexicalScore: number; // Share of the best-matching name found in the message (0-1; partial matches halved)
+  semanticScore: number; // Rescaled embedding similarity (0-1; 0 when not retrieved)
+}
+
+/**
+ * Tags of one message, best first
+ */
+export interface MessageTagging {
+  topic: string | null; // Topic of the best tag
+  tags: KnowledgeComponentTag[];
+}
+
+export const MAX_KC_TAGS = 3;
+
+/**
+ * Tags scoring below this are dropped
+ */
+export const MIN_KC_TAG_SCORE = 0.5;
+
+const SEMANTIC_SEARCH_LIMIT = 10;
+const SEMANTIC_FLOOR = 0.5; // Similarity mapped to 0 (search minimum)
+const SEMANTIC_CEILING = 0.9; // Similarity mapped to 1
+const MIN_NAME_WORD_LENGTH = 3;
+const MOST_OF_NAME = 2 / 3; // Share of a name of 3+ words that counts as a full match
+const PARTIAL_MATCH_WEIGHT = 0.5; // Partial matches stay below MIN_KC_TAG_SCORE alone
+
+const NAME_STOPWORDS = new Set([
+  'the', 'and', 'of', 'in', 'to', 'for', 'with', 'its', 'from',
+  'في', 'من', 'علي', 'الي', 'عن', 'مع', 'او', 'بين',
+]);
+
+/**
+ * Find the KCs a message is about
+ */
+export async function tagMessage(
+  message: string,
+  provider?: LLMProvider
+): Promise<MessageTagging> {
+  try {
+    const graph = await getKnowledgeGraph();
+    if (graph.size === 0) return { topic: null, tags: [] };
+
+    const messageWords = new Set(nameWords(message));
+    const semanticScores = await loadSemanticScores(message, provider);
+
+    const tags = graph
+      .components()
+      .map((kc) => {
+        const lexicalScore = Math.max(
+          nameMatch(kc.name_ar, messageWords),
+          nameMatch(kc.name_en, messageWords)
+        );
+        const semanticScore = semanticScores.get(kc.code) ?? 0;
+
+        return buildTag(kc, lexicalScore, semanticScore);
+      })
+      .filter((tag) => tag.score >= MIN_KC_TAG_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_KC_TAGS);
+
+    return { topic: tags[0]?.topic ?? null, tags };
+  } catch (error) {
+    console.error('Failed to tag message with knowledge components:', error);
+    return { topic: null, tags: [] };
+  }
+}
+
+/**
+ * Tag the student's message and set currentTopic, activeKnowledgeComponents
+ * and masteryLevels on the context (before Maestro routes)
+ */
+export async function tagContext(
+  context: AgentContext,
+  message: string,
+  provider?: LLMProvider
+): Promise<MessageTagging> {
+  const [tagging, masteryLevels] = await Promise.all([
+    tagMessage(message, provider),
+    loadMasteryLevels(context.userId),
+  ]);
+
+  context.masteryLevels = masteryLevels;
+  if (tagging.tags.length > 0) {
+    context.activeKnowledgeComponents = tagging.tags.map((tag) => tag.kcId);
+  }
+  if (tagging.topic) {
+    context.currentTopic = tagging.topic;
+  }
+
+  return tagging;
+}
+
+/**
+ * Rescaled similarity of the message to each KC's embedded chunks, by KC code
+ */
+async function loadSemanticScores(
+  message: string,
+  provider?: LLMProvider
+): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+
+  try {
+    const passages = await searchKnowledgeBase(
+      { query: message, limit: SEMANTIC_SEARCH_LIMIT },
+      provider
+    );
+
+    for (const passage of passages) {
+      const code = passage.source.kcCode;
+      if (passage.source.type !== 'knowledge_component' || !code) continue;
+
+      const score = Math.min(
+        1,
+        Math.max(0, (passage.similarity - SEMANTIC_FLOOR) / (SEMANTIC_CEILING - SEMANTIC_FLOOR))
+      );
+      scores.set(code, Math.max(scores.get(code) ?? 0, score));
+    }
+  } catch (error) {
+    // Lexical matching still works without embeddings
+    console.error('KC tagging: semantic search failed:', error);
+  }
+
+  return scores;
+}
+
+function buildTag(
+  kc: KnowledgeComponent,
+  lexicalScore: number,
+  semanticScore: number
+): KnowledgeComponentTag {
+  // Either signal alone can tag a KC; agreement raises the score
+  const score = 1 - (1 - lexicalScore) * (1 - semanticScore);
+
+  return {
+    kcId: kc.id,
+    code: kc.code,
+    nameAr: kc.name_ar,
+    topic: kc.topic,
+    score: round(score),
+    lexicalScore: round(lexicalScore),
+    semanticScore: round(semanticScore),
+  };
+}
+
+/**
+ * Share of a KC name's words that occur in the message; a partial match
+ * (e.g. one word of a two-word name) is down-weighted so it needs semantic
+ * evidence to tag the KC
+ */
+function nameMatch(name: string, messageWords: Set<string>): number {
+  const words = nameWords(name);
+  if (words.length === 0) return 0;
+
+  const share = words.filter((word) => messageWords.has(word)).length / words.length;
+  const mostOfName = share === 1 || (words.length > 2 && share >= MOST_OF_NAME);
+
+  return mostOfName ? share : share * PARTIAL_MATCH_WEIGHT;
+}
+
+/**
+ * Comparable words of a text: Arabic normalized with the article, attached
+ * conjunctions/prepositions and plural/feminine endings removed, English
+ * lowercased
+ */
+function nameWords(text: string): string[] {
+  return normalizeArabic(text.toLowerCase())
+    .split(/[^a-z0-9ء-ي]+/)
+    .map((word) =>
+      word
+        .replace(/^(?:[وفبك]?ال|لل|[وف](?=.{3,}))/, '')
+        .replace(/(?<=.{3})(?:ات|ون|ين|ه)$/, '')
+    )
+    .filter((word) => word.length >= MIN_NAME_WORD_LENGTH && !NAME_STOPWORDS.has(word));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,142 @@
+/**
+ * Student Mastery Tracking
+ *
+ * Applies BKT observations to student_mastery and loads mastery levels
+ * into the agent context. Every graded interaction (Socratic answers,
+ * worked-problem attempts, flashcard reviews, assessment items) goes through
+ * recordMasteryObservation so the counters and p_know stay consistent.
+ */
+
+import { updateKnowledge, isMastered, DEFAULT_BKT_PARAMETERS } from './bkt';
+import {
+  getStudentMastery,
+  getStudentMasteryRows,
+  updateStudentMastery,
+  getKnowledgeComponentByCode,
+} from '@/lib/supabase/database';
+
+/**
+ * A single graded observation for one knowledge component
+ */
+export interface MasteryObservation {
+  kcId: string; // KC UUID or code
+  correct: boolean;
+  responseTimeSeconds?: number;
+}
+
+/**
+ * Outcome of recording an observation
+ */
+export interface MasteryUpdate {
+  kcId: string;
+  correct: boolean;
+  pKnowBefore: number;
+  pKnowAfter: number;
+  isMastered: boolean;
+  totalCorrect: number;
+  totalIncorrect: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Update p_know and performance counters from one observation
+ */
+export async function recordMasteryObservation(
+  userId: string,
+  observation: MasteryObservation
+): Promise<MasteryUpdate> {
+  const kcId = await resolveKnowledgeComponentId(observation.kcId);
+  if (!kcId) {
+    throw new Error(`Unknown knowledge component: ${observation.kcId}`);
+  }
+
+  const existing = await getStudentMastery(userId, kcId);
+
+  const update = updateKnowledge(
+    {
+      pKnow: existing?.p_know ?? DEFAULT_BKT_PARAMETERS.pKnow,
+      pLearn: existing?.p_learn ?? DEFAULT_BKT_PARAMETERS.pLearn,
+      pSlip: existing?.p_slip ?? DEFAULT_BKT_PARAMETERS.pSlip,
+      pGuess: existing?.p_guess ?? DEFAULT_BKT_PARAMETERS.pGuess,
+    },
+    observation.correct
+  );
+
+  const totalCorrect = (existing?.total_correct ?? 0) + (observation.correct ? 1 : 0);
+  const totalIncorrect = (existing?.total_incorrect ?? 0) + (observation.correct ? 0 : 1);
+
+  // Running mean over timed attempts only
+  let averageResponseTime = existing?.average_response_time_seconds ?? null;
+  let timedAttempts = existing?.timed_attempts ?? 0;
+  const responseTime = observation.responseTimeSeconds;
+  if (typeof responseTime === 'number' && Number.isFinite(responseTime) && responseTime >= 0) {
+    timedAttempts += 1;
+    averageResponseTime =
+      averageResponseTime === null
+        ? responseTime
+        : averageResponseTime + (responseTime - averageResponseTime) / timedAttempts;
+    averageResponseTime = Math.round(averageResponseTime * 100) / 100;
+  }
+
+  await updateStudentMastery(userId, kcId, {
+    p_know: update.pKnowAfter,
+    total_correct: totalCorrect,
+    total_incorrect: totalIncorrect,
+    total_time_spent_seconds:
+      (existing?.total_time_spent_seconds ?? 0) + Math.round(responseTime ?? 0),
+    average_response_time_seconds: averageResponseTime,
+    timed_attempts: timedAttempts,
+  });
+
+  return {
+    kcId,
+    correct: observation.correct,
+    pKnowBefore: update.pKnowBefore,
+    pKnowAfter: update.pKnowAfter,
+    isMastered: isMastered(update.pKnowAfter),
+    totalCorrect,
+    totalIncorrect,
+  };
+}
+
+/**
+ * Load p_know per KC for AgentContext.masteryLevels
+ * Returns an empty map when mastery cannot be loaded (e.g. database unavailable)
+ */
+export async function loadMasteryLevels(
+  userId: string,
+  kcIds?: string[]
+): Promise<Record<string, number>> {
+  try {
+    const rows = await getStudentMasteryRows(userId, kcIds);
+    const levels: Record<string, number> = {};
+
+    for (const row of rows) {
+      levels[row.kc_id] = row.p_know;
+    }
+
+    return levels;
+  } catch (error) {
+    console.error('Failed to load mastery levels:', error);
+    return {};
+  }
+}
+
+/**
+ * Accept a KC UUID or code; null when it names no knowledge component
+ */
+export async function resolveKnowledgeComponentId(
+  kcIdOrCode: unknown
+): Promise<string | null> {
+  if (typeof kcIdOrCode === 'string' && UUID_PATTERN.test(kcIdOrCode)) {
+    return kcIdOrCode;
+  }
+
+  if (typeof kcIdOrCode === 'string' && kcIdOrCode.trim()) {
+    const kc = await getKnowledgeComponentByCode(kcIdOrCode.trim());
+    if (kc) return kc.id;
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Study Session Tracking
+ *
+ * Study sessions follow real activity: the first activity (a chat message,
+ * an agent call, an exercise, a flashcard review, a lesson update) opens a
+ * session, later activity extends it and adds the KCs, lessons, exercises
+ * and flashcards touched, and a session idle for longer than
+ * STUDY_IDLE_TIMEOUT_SECONDS is closed at its last activity. Gaps longer
+ * than STUDY_BREAK_SECONDS count as breaks and are not study time.
+ *
+ * The study streak and daily goal progress are computed from these sessions.
+ */
+
+import {
+  recordStudyActivity as recordStudyActivityRpc,
+  closeIdleStudySessions,
+  getStudySessionsSince,
+  getStudyStreak,
+  getOrCreateUserProfile,
+} from '@/lib/supabase/database';
+import type { Database } from '@/types/supabase';
+
+type StudySession = Database['public']['Tables']['study_sessions']['Row'];
+type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+
+/**
+ * What one activity touched
+ */
+export interface StudyActivity {
+  kcIds?: string[];
+  lessonIds?: string[];
+  exercises?: { total: number; correct: number };
+  flashcardsReviewed?: number;
+}
+
+/**
+ * Streak and today's progress towards the daily goal
+ */
+export interface StudySummary {
+  streakDays: number;
+  todayMinutes: number;
+  dailyGoalMinutes: number;
+  goalProgress: number; // 0-1
+  goalReached: boolean;
+  sessionsToday: number;
+  currentSession: StudySession | null;
+}
+
+/**
+ * A session with no activity for this long is closed
+ */
+export const STUDY_IDLE_TIMEOUT_SECONDS = 15 * 60;
+
+/**
+ * Gaps between activities longer than this are breaks, not study time
+ */
+export const STUDY_BREAK_SECONDS = 5 * 60;
+
+const DEFAULT_DAILY_GOAL_MINUTES = 30;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Record study activity for a student. Tracking never fails the request
+ * that caused it: errors are logged and null is returned.
+ */
+export async function recordStudyActivity(
+  userId: string,
+  activity: StudyActivity = {}
+): Promise<StudySession | null> {
+  try {
+    return await recordStudyActivityRpc(userId, {
+      idleTimeoutSeconds: STUDY_IDLE_TIMEOUT_SECONDS,
+      breakSeconds: STUDY_BREAK_SECONDS,
+      lessonIds: uniqueIds(activity.lessonIds),
+      kcIds: uniqueIds(activity.kcIds),
+      exercises: Math.max(0, activity.exercises?.total ?? 0),
+      correct: Math.max(0, activity.exercises?.correct ?? 0),
+      flashcards: Math.max(0, activity.flashcardsReviewed ?? 0),
+    });
+  } catch (error) {
+    console.error('Failed to record study activity:', error);
+    return null;
+  }
+}
+
+/**
+ * Study streak and today's progress towards the student's daily goal.
+ * Days follow the database's CURRENT_DATE (UTC), like get_study_streak.
+ */
+export async function getStudySummary(userId: string): Promise<StudySummary> {
+  await closeIdleStudySessions(userId, STUDY_IDLE_TIMEOUT_SECONDS);
+
+  const startOfToday = new Date();
+  startOfToday.setUTCHours(0, 0, 0, 0);
+
+  const [streakDays, sessions, profile]: [number, StudySession[], UserProfile] = await Promise.all([
+    getStudyStreak(userId),
+    getStudySessionsSince(userId, startOfToday),
+    getOrCreateUserProfile(userId),
+  ]);
+
+  const todayMinutes = Math.floor(
+    sessions.reduce((total, session) => total + session.active_seconds, 0) / 60
+  );
+  const dailyGoalMinutes = profile.daily_goal_minutes || DEFAULT_DAILY_GOAL_MINUTES;
+
+  return {
+    streakDays,
+    todayMinutes,
+    dailyGoalMinutes,
+    goalProgress: Math.min(1, todayMinutes / dailyGoalMinutes),
+    goalReached: todayMinutes >= dailyGoalMinutes,
+    sessionsToday: sessions.length,
+    currentSession: sessions.find((session) => session.ended_at === null) ?? null,
+  };
+}
+
+/**
+ * The columns are UUID arrays: KC codes and duplicates are dropped
+ */
+function uniqueIds(ids: string[] = []): string[] {
+  return Array.from(new Set(ids.filter((id) => UUID_PATTERN.test(id))));
+}
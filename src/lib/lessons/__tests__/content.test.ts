@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  gradeExercise,
+  parseLessonContent,
+  toPlayerContent,
+  type ExerciseBlock,
+  type LessonContent,
+} from '../content';
+
+const LESSON: LessonContent = {
+  sections: [
+    {
+      title_ar: 'الكسور',
+      blocks: [
+        { type: 'text', text: 'الكسر جزء من كل.' },
+        {
+          type: 'exercise',
+          id: 'half',
+          kind: 'multiple_choice',
+          prompt: 'أي كسر يساوي النصف؟',
+          choices: ['1/3', '2/4'],
+          answer: 1,
+          explanation: '2/4 = 1/2',
+        },
+      ],
+    },
+  ],
+};
+
+function exercise(fields: Partial<ExerciseBlock>): ExerciseBlock {
+  return { type: 'exercise', id: 'e', kind: 'short_answer', prompt: '؟', answer: '', ...fields };
+}
+
+describe('lesson content', () => {
+  it('rejects a multiple choice answer that is not a choice index', () => {
+    const invalid = structuredClone(LESSON);
+    (invalid.sections[0]!.blocks[1] as ExerciseBlock).answer = 2;
+
+    expect(parseLessonContent(LESSON)).not.toBeNull();
+    expect(parseLessonContent(invalid)).toBeNull();
+  });
+
+  it('rejects duplicate exercise IDs', () => {
+    const duplicated = structuredClone(LESSON);
+    duplicated.sections.push(structuredClone(LESSON.sections[0]!));
+
+    expect(parseLessonContent(duplicated)).toBeNull();
+  });
+
+  it('grades numeric answers typed with Arabic-Indic digits', () => {
+    const numeric = exercise({ kind: 'numeric', answer: 0.5, tolerance: 0.01 });
+
+    expect(gradeExercise(numeric, '٠٫٥')).toBe(true);
+    expect(gradeExercise(numeric, '0.6')).toBe(false);
+    expect(gradeExercise(numeric, '')).toBe(false);
+  });
+
+  it('grades short answers ignoring case and spacing', () => {
+    expect(gradeExercise(exercise({ answer: 'Common  Denominator' }), ' common denominator ')).toBe(
+      true
+    );
+  });
+
+  it('keeps answers and explanations out of the player content', () => {
+    const [, block] = toPlayerContent(LESSON).sections[0]!.blocks;
+
+    expect(block).toMatchObject({ id: 'half', choices: ['1/3', '2/4'] });
+    expect(block).not.toHaveProperty('answer');
+    expect(block).not.toHaveProperty('explanation');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import * as mastery from '@/lib/learning/mastery';
+import { LessonProgressError, MAX_SECONDS_PER_UPDATE, recordLessonProgress } from '../progress';
+import type { LessonContent } from '../content';
+
+vi.mock('@/lib/supabase/database', () => ({
+  getStudentProgress: vi.fn(),
+  getStudentMasteryRows: vi.fn(async () => []),
+  updateStudentProgress: vi.fn(async (_userId: string, lessonId: string, progress: object) => ({
+    lesson_id: lessonId,
+    ...progress,
+  })),
+}));
+
+vi.mock('@/lib/learning/mastery', () => ({
+  recordMasteryObservation: vi.fn(async (_userId: string, observation: { kcId: string }) => ({
+    kcId: observation.kcId,
+  })),
+}));
+
+vi.mock('@/lib/learning/study-sessions', () => ({
+  recordStudyActivity: vi.fn(),
+}));
+
+const USER_ID = 'student-1';
+
+type Lesson = Parameters<typeof recordLessonProgress>[1];
+type StudentProgress = NonNullable<Awaited<ReturnType<typeof db.getStudentProgress>>>;
+
+const LESSON = { id: 'lesson-1', kc_ids: ['kc-1'] } as Lesson;
+
+const CONTENT: LessonContent = {
+  sections: [
+    {
+      title_ar: 'الكسور',
+      blocks: [
+        { type: 'text', text: 'الكسر جزء من كل.' },
+        {
+          type: 'exercise',
+          id: 'half',
+          kind: 'numeric',
+          prompt: 'كم يساوي 2/4؟',
+          answer: 0.5,
+          kc: 'MATH_FRACTIONS',
+        },
+      ],
+    },
+  ],
+};
+
+function savedProgress() {
+  return vi.mocked(db.updateStudentProgress).mock.calls.at(-1)![2];
+}
+
+describe('recordLessonProgress', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getStudentProgress).mockResolvedValue(null);
+  });
+
+  it('tracks the position and caps the time credited per update', async () => {
+    await recordLessonProgress(USER_ID, LESSON, CONTENT, {
+      position: { section: 0, block: 0 },
+      timeSpentSeconds: 3_600,
+    });
+
+    expect(savedProgress()).toMatchObject({
+      status: 'in_progress',
+      progress_percent: 50,
+      time_spent_seconds: MAX_SECONDS_PER_UPDATE,
+    });
+  });
+
+  it('completes the lesson once every block is reached and answered', async () => {
+    vi.mocked(db.getStudentProgress).mockResolvedValue({
+      status: 'in_progress',
+      progress_percent: 50,
+      time_spent_seconds: 60,
+      last_position: { section: 0, block: 0, furthest: 0, exercises: {} },
+    } as unknown as StudentProgress);
+
+    const outcome = await recordLessonProgress(USER_ID, LESSON, CONTENT, {
+      position: { section: 0, block: 1 },
+      exercise: { id: 'half', answer: '0.5' },
+    });
+
+    expect(outcome.exercise).toMatchObject({ id: 'half', correct: true });
+    expect(savedProgress()).toMatchObject({
+      status: 'completed',
+      progress_percent: 100,
+      quiz_score: 100,
+      exercises_correct: 1,
+    });
+  });
+
+  it('records mastery only until the exercise is answered correctly', async () => {
+    vi.mocked(db.getStudentProgress).mockResolvedValue({
+      status: 'in_progress',
+      last_position: {
+        section: 0,
+        block: 1,
+        furthest: 1,
+        exercises: { half: { correct: true, attempts: 1, answer: 0.5, answeredAt: '' } },
+      },
+    } as unknown as StudentProgress);
+
+    await recordLessonProgress(USER_ID, LESSON, CONTENT, { exercise: { id: 'half', answer: 0.5 } });
+
+    expect(mastery.recordMasteryObservation).not.toHaveBeenCalled();
+    expect(savedProgress().last_position).toMatchObject({ exercises: { half: { attempts: 2 } } });
+  });
+
+  it('never moves the status back', async () => {
+    vi.mocked(db.getStudentProgress).mockResolvedValue({
+      status: 'mastered',
+      last_position: null,
+    } as unknown as StudentProgress);
+
+    await recordLessonProgress(USER_ID, LESSON, CONTENT, { position: { section: 0, block: 0 } });
+
+    expect(savedProgress().status).toBe('mastered');
+  });
+
+  it('rejects a position outside the lesson', async () => {
+    await expect(
+      recordLessonProgress(USER_ID, LESSON, CONTENT, { position: { section: 2, block: 0 } })
+    ).rejects.toBeInstanceOf(LessonProgressError);
+    expect(db.updateStudentProgress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Lesson Content Model
+ *
+ * Typed schema for lessons.content: sections of blocks, discriminated by
+ * `type` (text, equation, visualization, exercise, agent_prompt). Used by the
+ * lesson player, progress tracking and curriculum bundles.
+ */
+
+import { z } from 'zod';
+
+export const kcCodeSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]*$/, 'KC codes are UPPER_SNAKE_CASE (e.g. MATH_ALGEBRA_QUADRATIC_FORMULA)');
+
+/**
+ * Lesson content blocks (stored as-is in lessons.content)
+ */
+export const textBlockSchema = z.object({
+  type: z.literal('text'),
+  text: z.string().min(1), // Markdown
+});
+
+export const equationBlockSchema = z.object({
+  type: z.literal('equation'),
+  latex: z.string().min(1),
+  caption: z.string().optional(),
+});
+
+export const visualizationBlockSchema = z.object({
+  type: z.literal('visualization'),
+  spec: z.object({
+    type: z.enum(['code', 'math', 'physics', 'chart', 'chemistry', '3d']),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    code: z.string().optional(),
+    data: z.unknown().optional(),
+    config: z.record(z.unknown()).optional(),
+  }),
+  caption: z.string().optional(),
+});
+
+export const exerciseBlockSchema = z
+  .object({
+    type: z.literal('exercise'),
+    id: z.string().min(1), // Stable within the lesson (results are stored by this ID)
+    kind: z.enum(['multiple_choice', 'numeric', 'short_answer']),
+    prompt: z.string().min(1),
+    choices: z.array(z.string().min(1)).min(2).optional(), // multiple_choice only
+    answer: z.union([z.string().min(1), z.number()]), // Choice index for multiple_choice
+    tolerance: z.number().nonnegative().optional(), // numeric only
+    hints: z.array(z.string()).optional(),
+    explanation: z.string().optional(),
+    kc: kcCodeSchema.optional(), // KC the exercise is evidence for
+  })
+  .superRefine((exercise, ctx) => {
+    if (exercise.kind !== 'multiple_choice') return;
+
+    const index = exercise.answer;
+    if (!exercise.choices) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['choices'], message: 'multiple_choice exercises need choices' });
+    } else if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= exercise.choices.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['answer'], message: 'answer must be the index of a choice' });
+    }
+  });
+
+export const agentPromptBlockSchema = z.object({
+  type: z.literal('agent_prompt'),
+  agent: z.string().min(1), // Agent ID, e.g. "socratic"
+  prompt: z.string().min(1), // Sent to the agent when the student opens the block
+  label: z.string().optional(), // Button text
+});
+
+export const lessonBlockSchema = z.union([
+  textBlockSchema,
+  equationBlockSchema,
+  visualizationBlockSchema,
+  exerciseBlockSchema,
+  agentPromptBlockSchema,
+]);
+
+export const lessonSectionSchema = z.object({
+  title_ar: z.string().min(1),
+  title_en: z.string().optional(),
+  blocks: z.array(lessonBlockSchema).min(1),
+});
+
+export const lessonContentSchema = z
+  .object({
+    sections: z.array(lessonSectionSchema).min(1),
+  })
+  .superRefine((content, ctx) => {
+    const ids = new Set<string>();
+
+    content.sections.forEach((section, sectionIndex) => {
+      section.blocks.forEach((block, blockIndex) => {
+        if (block.type !== 'exercise') return;
+        if (ids.has(block.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['sections', sectionIndex, 'blocks', blockIndex, 'id'],
+            message: `Duplicate exercise id "${block.id}"`,
+          });
+        }
+        ids.add(block.id);
+      });
+    });
+  });
+
+export type TextBlock = z.infer<typeof textBlockSchema>;
+export type EquationBlock = z.infer<typeof equationBlockSchema>;
+export type VisualizationBlock = z.infer<typeof visualizationBlockSchema>;
+export type ExerciseBlock = z.infer<typeof exerciseBlockSchema>;
+export type AgentPromptBlock = z.infer<typeof agentPromptBlockSchema>;
+export type LessonBlock = z.infer<typeof lessonBlockSchema>;
+export type LessonSection = z.infer<typeof lessonSectionSchema>;
+export type LessonContent = z.infer<typeof lessonContentSchema>;
+
+/**
+ * A block's place in a lesson
+ */
+export interface LessonPosition {
+  section: number;
+  block: number;
+}
+
+/**
+ * Parse lessons.content; null when it does not match the schema (legacy JSONB)
+ */
+export function parseLessonContent(content: unknown): LessonContent | null {
+  const result = lessonContentSchema.safeParse(content);
+  return result.success ? result.data : null;
+}
+
+/**
+ * All blocks in reading order with their positions
+ */
+export function flattenBlocks(
+  content: LessonContent
+): Array<{ block: LessonBlock; position: LessonPosition; index: number }> {
+  const blocks: Array<{ block: LessonBlock; position: LessonPosition; index: number }> = [];
+
+  content.sections.forEach((section, sectionIndex) => {
+    section.blocks.forEach((block, blockIndex) => {
+      blocks.push({ block, position: { section: sectionIndex, block: blockIndex }, index: blocks.length });
+    });
+  });
+
+  return blocks;
+}
+
+/**
+ * Exercise blocks by ID
+ */
+export function getExercises(content: LessonContent): Map<string, ExerciseBlock> {
+  const exercises = new Map<string, ExerciseBlock>();
+
+  for (const { block } of flattenBlocks(content)) {
+    if (block.type === 'exercise') exercises.set(block.id, block);
+  }
+
+  return exercises;
+}
+
+/**
+ * Grade an answer against an exercise
+ * (multiple_choice: choice index; numeric: within tolerance; short_answer:
+ * case- and whitespace-insensitive match)
+ */
+export function gradeExercise(exercise: ExerciseBlock, answer: string | number): boolean {
+  switch (exercise.kind) {
+    case 'multiple_choice':
+      return Number(answer) === Number(exercise.answer);
+
+    case 'numeric': {
+      const value = typeof answer === 'number' ? answer : parseNumber(String(answer));
+      const expected = Number(exercise.answer);
+      if (!Number.isFinite(value) || !Number.isFinite(expected)) return false;
+      return Math.abs(value - expected) <= (exercise.tolerance ?? 1e-9);
+    }
+
+    case 'short_answer':
+      return normalizeAnswer(String(answer)) === normalizeAnswer(String(exercise.answer));
+  }
+}
+
+/**
+ * Number typed by a student (Arabic-Indic digits and decimal separators allowed)
+ */
+function parseNumber(text: string): number {
+  const normalized = text
+    .trim()
+    .replace(/[٠-٩]/g, (digit) => String('٠١٢٣٤٥٦٧٨٩'.indexOf(digit)))
+    .replace(/[٫,]/g, '.');
+  return normalized ? Number(normalized) : NaN;
+}
+
+function normalizeAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Exercise as sent to the player (answer and explanation stay on the server)
+ */
+export type PlayerExerciseBlock = Omit<ExerciseBlock, 'answer' | 'tolerance' | 'explanation'>;
+export type PlayerLessonBlock = Exclude<LessonBlock, ExerciseBlock> | PlayerExerciseBlock;
+export interface PlayerLessonContent {
+  sections: Array<Omit<LessonSection, 'blocks'> & { blocks: PlayerLessonBlock[] }>;
+}
+
+/**
+ * Content without exercise answers, for the lesson player
+ */
+export function toPlayerContent(content: LessonContent): PlayerLessonContent {
+  return {
+    sections: content.sections.map((section) => ({
+      ...section,
+      blocks: section.blocks.map((block): PlayerLessonBlock => {
+        if (block.type !== 'exercise') return block;
+        const { answer, tolerance, explanation, ...exercise } = block;
+        return exercise;
+      }),
+    })),
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Lesson Progress
+ *
+ * Applies lesson player updates (position, time on task, exercise answers) to
+ * student_progress. The player state - current position, furthest block and
+ * per-exercise results - is stored in last_position. Status moves
+ * not_started -> in_progress -> completed (every block reached, every
+ * exercise answered) -> mastered (all of the lesson's KCs mastered) and
+ * never moves back.
+ */
+
+import { MASTERY_THRESHOLD } from '@/lib/learning/bkt';
+import { recordMasteryObservation, type MasteryUpdate } from '@/lib/learning/mastery';
+import { recordStudyActivity } from '@/lib/learning/study-sessions';
+import {
+  getStudentProgress,
+  getStudentMasteryRows,
+  updateStudentProgress,
+} from '@/lib/supabase/database';
+import { toJson } from '@/lib/agents/base/utils';
+import {
+  flattenBlocks,
+  getExercises,
+  gradeExercise,
+  type LessonContent,
+  type LessonPosition,
+} from './content';
+import type { Database } from '@/types/supabase';
+
+type Lesson = Database['public']['Tables']['lessons']['Row'];
+type StudentProgress = Database['public']['Tables']['student_progress']['Row'];
+type ProgressStatus = StudentProgress['status'];
+
+/**
+ * Result of one exercise for a student
+ */
+export interface ExerciseResult {
+  correct: boolean;
+  attempts: number;
+  answer: string | number; // Latest answer
+  answeredAt: string;
+}
+
+/**
+ * Player state stored in student_progress.last_position
+ */
+export interface LessonPlayerState extends LessonPosition {
+  furthest: number; // Furthest block reached (index in reading order)
+  exercises: Record<string, ExerciseResult>;
+}
+
+/**
+ * One update from the lesson player
+ */
+export interface LessonProgressUpdate {
+  position?: LessonPosition;
+  timeSpentSeconds?: number; // Since the previous update
+  exercise?: { id: string; answer: string | number };
+}
+
+/**
+ * Saved progress, plus feedback when an exercise was answered
+ */
+export interface LessonProgressOutcome {
+  progress: StudentProgress;
+  state: LessonPlayerState;
+  exercise?: {
+    id: string;
+    correct: boolean;
+    explanation?: string;
+    mastery?: MasteryUpdate;
+  };
+}
+
+/**
+ * Time credited per update at most (a tab left open is not study time)
+ */
+export const MAX_SECONDS_PER_UPDATE = 300;
+
+const STATUS_ORDER: ProgressStatus[] = ['not_started', 'in_progress', 'completed', 'mastered'];
+
+/**
+ * Unknown exercise ID or a position outside the lesson
+ */
+export class LessonProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LessonProgressError';
+  }
+}
+
+/**
+ * Record a player update for a lesson
+ */
+export async function recordLessonProgress(
+  userId: string,
+  lesson: Lesson,
+  content: LessonContent,
+  update: LessonProgressUpdate
+): Promise<LessonProgressOutcome> {
+  const existing = await getStudentProgress(userId, lesson.id);
+  const state = readPlayerState(existing?.last_position);
+  const blocks = flattenBlocks(content);
+
+  const indexOf = (position: LessonPosition) =>
+    blocks.findIndex(
+      (entry) => entry.position.section === position.section && entry.position.block === position.block
+    );
+
+  if (update.position) {
+    const index = indexOf(update.position);
+    if (index === -1) {
+      throw new LessonProgressError(
+        `Position ${update.position.section}:${update.position.block} is outside the lesson`
+      );
+    }
+
+    state.section = update.position.section;
+    state.block = update.position.block;
+    state.furthest = Math.max(state.furthest, index);
+  }
+
+  let exerciseFeedback: LessonProgressOutcome['exercise'];
+
+  if (update.exercise) {
+    const exercise = getExercises(content).get(update.exercise.id);
+    if (!exercise) {
+      throw new LessonProgressError(`Unknown exercise: ${update.exercise.id}`);
+    }
+
+    const correct = gradeExercise(exercise, update.exercise.answer);
+    const previous = state.exercises[exercise.id];
+
+    state.exercises[exercise.id] = {
+      correct,
+      attempts: (previous?.attempts ?? 0) + 1,
+      answer: update.exercise.answer,
+      answeredAt: new Date().toISOString(),
+    };
+
+    // Answers after a correct one are practice, not new evidence
+    let mastery: MasteryUpdate | undefined;
+    if (exercise.kc && !previous?.correct) {
+      mastery = await recordMasteryObservation(userId, { kcId: exercise.kc, correct });
+    }
+
+    exerciseFeedback = {
+      id: exercise.id,
+      correct,
+      ...(exercise.explanation && { explanation: exercise.explanation }),
+      ...(mastery && { mastery }),
+    };
+  }
+
+  // Progress: blocks reached, with exercises counting once answered
+  const results = Object.values(state.exercises);
+  const exercises = blocks.filter((entry) => entry.block.type === 'exercise');
+  const done = blocks.filter((entry) =>
+    entry.block.type === 'exercise'
+      ? state.exercises[entry.block.id] !== undefined
+      : entry.index <= state.furthest
+  ).length;
+  const progressPercent = blocks.length > 0 ? Math.round((done / blocks.length) * 100) : 0;
+
+  const exercisesCorrect = results.filter((result) => result.correct).length;
+  const allAnswered = exercises.length > 0 && results.length >= exercises.length;
+
+  let status: ProgressStatus = progressPercent >= 100 ? 'completed' : 'in_progress';
+  if (status === 'completed' && (await areKnowledgeComponentsMastered(userId, lesson.kc_ids ?? []))) {
+    status = 'mastered';
+  }
+  status = laterStatus(existing?.status ?? 'not_started', status);
+
+  const now = new Date().toISOString();
+  const timeSpent = Math.min(
+    MAX_SECONDS_PER_UPDATE,
+    Math.max(0, Math.round(update.timeSpentSeconds ?? 0))
+  );
+
+  const progress = await updateStudentProgress(userId, lesson.id, {
+    status,
+    progress_percent: Math.max(existing?.progress_percent ?? 0, progressPercent),
+    time_spent_seconds: (existing?.time_spent_seconds ?? 0) + timeSpent,
+    last_position: toJson(state),
+    exercises_completed: results.length,
+    exercises_correct: exercisesCorrect,
+    quiz_score: allAnswered
+      ? Math.round((exercisesCorrect / exercises.length) * 100)
+      : (existing?.quiz_score ?? null),
+    started_at: existing?.started_at ?? now,
+    completed_at:
+      existing?.completed_at ?? (STATUS_ORDER.indexOf(status) >= 2 ? now : null),
+    last_accessed_at: now,
+  });
+
+  await recordStudyActivity(userId, {
+    lessonIds: [lesson.id],
+    kcIds: exerciseFeedback?.mastery ? [exerciseFeedback.mastery.kcId] : [],
+    ...(exerciseFeedback && {
+      exercises: { total: 1, correct: exerciseFeedback.correct ? 1 : 0 },
+    }),
+  });
+
+  return { progress, state, ...(exerciseFeedback && { exercise: exerciseFeedback }) };
+}
+
+/**
+ * Player state from student_progress.last_position (empty when missing)
+ */
+export function readPlayerState(lastPosition: unknown): LessonPlayerState {
+  const stored = (lastPosition ?? {}) as Partial<LessonPlayerState>;
+
+  return {
+    section: typeof stored.section === 'number' ? stored.section : 0,
+    block: typeof stored.block === 'number' ? stored.block : 0,
+    furthest: typeof stored.furthest === 'number' ? stored.furthest : -1,
+    exercises:
+      stored.exercises && typeof stored.exercises === 'object' ? { ...stored.exercises } : {},
+  };
+}
+
+async function areKnowledgeComponentsMastered(userId: string, kcIds: string[]): Promise<boolean> {
+  if (kcIds.length === 0) return false;
+
+  const rows = await getStudentMasteryRows(userId, kcIds);
+  return kcIds.every((kcId) =>
+    rows.some((row) => row.kc_id === kcId && (row.is_mastered || row.p_know >= MASTERY_THRESHOLD))
+  );
+}
+
+function laterStatus(a: ProgressStatus, b: ProgressStatus): ProgressStatus {
+  return STATUS_ORDER.indexOf(a) >= STATUS_ORDER.indexOf(b) ? a : b;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptedLLMProvider, UsageMeter, meterProvider } from '@/lib/llm';
+
+describe('UsageMeter', () => {
+  it('records every call made while the meter is active, and nothing outside it', async () => {
+    const provider = meterProvider(
+      new ScriptedLLMProvider({ fallback: { text: 'رد', tokensInput: 10, tokensOutput: 5 } })
+    );
+    const meter = new UsageMeter();
+
+    await provider.generateText('خارج الدورة');
+    await meter.run(async () => {
+      await Promise.all([provider.generateText('أ'), provider.generateWithFunctionCalling('ب')]);
+      for await (const _chunk of provider.streamText('ج')) {
+        // Drain the stream
+      }
+      await provider.embed(['abcdefgh']);
+    });
+
+    expect(meter.usage).toMatchObject({ input: 32, output: 15, calls: 4 });
+  });
+
+  it('wraps a provider only once', () => {
+    const provider = meterProvider(new ScriptedLLMProvider());
+
+    expect(meterProvider(provider)).toBe(provider);
+  });
+});
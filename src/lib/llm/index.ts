@@ -0,0 +1,61 @@
+/**
+ * LLM Providers
+ *
+ * Agents get their model backend from here. LLM_PROVIDER=mock selects the
+ * offline ScriptedLLMProvider (fixtures from LLM_FIXTURES_PATH when set);
+ * otherwise the Gemini client is used. Every provider handed out is metered
+ * (see usage.ts).
+ */
+
+import { getGeminiClient } from '@/lib/gemini/client';
+import { ScriptedLLMProvider, loadFixtures } from './mock';
+import { meterProvider } from './usage';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export {
+  ScriptedLLMProvider,
+  RecordingLLMProvider,
+  loadFixtures,
+  type LLMFixture,
+  type LLMMethod,
+  type ScriptedResponse,
+  type RecordedLLMCall,
+} from './mock';
+export {
+  UsageMeter,
+  MeteredLLMProvider,
+  currentUsageMeter,
+  meterProvider,
+  type UsageTotals,
+} from './usage';
+
+let defaultProvider: LLMProvider | null = null;
+
+/**
+ * Provider selected by the environment (created on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = meterProvider(createLLMProvider());
+  }
+  return defaultProvider;
+}
+
+/**
+ * Replace the default provider (e.g., a ScriptedLLMProvider in tests)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  defaultProvider = provider && meterProvider(provider);
+}
+
+function createLLMProvider(): LLMProvider {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    const fixturesPath = process.env.LLM_FIXTURES_PATH;
+    return new ScriptedLLMProvider({
+      fixtures: fixturesPath ? loadFixtures(fixturesPath) : [],
+    });
+  }
+
+  return getGeminiClient();
+}
@@ -0,0 +1,403 @@
+/**
+ * Offline LLM Providers
+ *
+ * ScriptedLLMProvider answers from queued responses and recorded fixtures,
+ * so agents, Maestro routing and the chat route can run without network
+ * access or an API key. RecordingLLMProvider wraps a real provider and
+ * captures its responses as fixtures for later replay.
+ */
+
+import { readFileSync } from 'fs';
+import { GEMINI_MODELS, type GeminiModel } from '@/lib/gemini/client';
+import {
+  EMBEDDING_DIMENSIONS,
+  type LLMProvider,
+  type LLMPrompt,
+  type LLMGenerateOptions,
+  type LLMFunctionCallingOptions,
+  type LLMTextResponse,
+  type LLMFunctionCall,
+  type LLMFunctionCallingResponse,
+  type LLMEmbeddingTask,
+} from './types';
+
+export type LLMMethod = 'generateText' | 'streamText' | 'generateWithFunctionCalling';
+
+/**
+ * Scripted reply (text, function calls, or an error to throw)
+ */
+export interface ScriptedResponse {
+  text?: string;
+  functionCalls?: LLMFunctionCall[];
+  tokensInput?: number; // Estimated from the prompt when omitted
+  tokensOutput?: number; // Estimated from the text when omitted
+  error?: string;
+}
+
+/**
+ * Reply used when a call matches (all given conditions must hold)
+ */
+export interface LLMFixture {
+  match?: {
+    method?: LLMMethod;
+    promptIncludes?: string;
+    systemIncludes?: string;
+    model?: GeminiModel;
+    hasTools?: boolean;
+  };
+  response: ScriptedResponse;
+  once?: boolean; // Remove after the first match
+}
+
+/**
+ * A call received by the provider
+ */
+export interface RecordedLLMCall {
+  method: LLMMethod;
+  prompt: string;
+  systemInstruction?: string;
+  model: GeminiModel;
+  toolNames: string[];
+}
+
+const DEFAULT_MODEL: GeminiModel = 'flash';
+
+/**
+ * Deterministic provider for tests and offline development
+ *
+ * Resolution order: queued responses, then fixtures (first match), then the
+ * fallback reply.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly calls: RecordedLLMCall[] = [];
+  private queue: ScriptedResponse[] = [];
+  private fixtures: LLMFixture[];
+  private fallback: ScriptedResponse;
+
+  constructor(options: { fixtures?: LLMFixture[]; fallback?: ScriptedResponse } = {}) {
+    this.fixtures = [...(options.fixtures || [])];
+    this.fallback = options.fallback || { text: 'هذا رد تجريبي.' };
+  }
+
+  /**
+   * Queue replies for the next calls, in order
+   */
+  enqueue(...responses: ScriptedResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Add fixtures (checked after the queue)
+   */
+  addFixtures(...fixtures: LLMFixture[]): this {
+    this.fixtures.push(...fixtures);
+    return this;
+  }
+
+  /**
+   * Clear queued replies, fixtures and recorded calls
+   */
+  reset(): void {
+    this.queue = [];
+    this.fixtures = [];
+    this.calls.length = 0;
+  }
+
+  async generateText(prompt: LLMPrompt, options: LLMGenerateOptions = {}): Promise<LLMTextResponse> {
+    const startTime = Date.now();
+    const response = this.resolve('generateText', prompt, options);
+    return this.toTextResponse(response, prompt, options, startTime);
+  }
+
+  async *streamText(
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions = {}
+  ): AsyncGenerator<string, LLMTextResponse, void> {
+    const startTime = Date.now();
+    const response = this.resolve('streamText', prompt, options);
+
+    for (const chunk of splitIntoChunks(response.text || '')) {
+      yield chunk;
+    }
+
+    return this.toTextResponse(response, prompt, options, startTime);
+  }
+
+  async generateWithFunctionCalling(
+    prompt: LLMPrompt,
+    options: LLMFunctionCallingOptions = {}
+  ): Promise<LLMFunctionCallingResponse> {
+    const startTime = Date.now();
+    const response = this.resolve('generateWithFunctionCalling', prompt, options, options.tools);
+
+    if (options.onToken) {
+      for (const chunk of splitIntoChunks(response.text || '')) {
+        options.onToken(chunk);
+      }
+    }
+
+    const usage = this.toTextResponse(response, prompt, options, startTime);
+
+    return {
+      content: usage.text,
+      functionCalls: response.functionCalls || [],
+      model: usage.model,
+      tokensUsed: { input: usage.tokensInput, output: usage.tokensOutput },
+      costUsd: usage.costUsd,
+      durationMs: usage.durationMs,
+    };
+  }
+
+  /**
+   * Hashed bag-of-words vectors: texts sharing words score as similar
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(hashEmbedding);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  async cacheSystemInstruction(): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Record the call and pick its reply
+   */
+  private resolve(
+    method: LLMMethod,
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions,
+    tools: LLMFunctionCallingOptions['tools'] = []
+  ): ScriptedResponse {
+    const call: RecordedLLMCall = {
+      method,
+      prompt: promptToText(prompt),
+      systemInstruction: options.systemInstruction,
+      model: options.model || DEFAULT_MODEL,
+      toolNames: tools.flatMap((tool) =>
+        'functionDeclarations' in tool
+          ? (tool.functionDeclarations || []).map((declaration) => declaration.name)
+          : []
+      ),
+    };
+    this.calls.push(call);
+
+    const response =
+      this.queue.shift() ?? this.takeFixture(call) ?? this.fallback;
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response;
+  }
+
+  /**
+   * First fixture matching the call (removed when marked once)
+   */
+  private takeFixture(call: RecordedLLMCall): ScriptedResponse | undefined {
+    const index = this.fixtures.findIndex((fixture) => matchesFixture(fixture, call));
+    const fixture = this.fixtures[index];
+
+    if (!fixture) {
+      return undefined;
+    }
+
+    if (fixture.once) {
+      this.fixtures.splice(index, 1);
+    }
+
+    return fixture.response;
+  }
+
+  /**
+   * Usage for a scripted reply (priced like the real model)
+   */
+  private toTextResponse(
+    response: ScriptedResponse,
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions,
+    startTime: number
+  ): LLMTextResponse {
+    const model = options.model || DEFAULT_MODEL;
+    const text = response.text || '';
+    const tokensInput =
+      response.tokensInput ??
+      estimateTokens(promptToText(prompt) + (options.systemInstruction || ''));
+    const tokensOutput = response.tokensOutput ?? estimateTokens(text);
+
+    return {
+      text,
+      model,
+      tokensInput,
+      tokensOutput,
+      costUsd:
+        (tokensInput / 1_000_000) * GEMINI_MODELS[model].inputCostPer1M +
+        (tokensOutput / 1_000_000) * GEMINI_MODELS[model].outputCostPer1M,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Wraps a provider and records its replies as fixtures
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string;
+  private recorded: LLMFixture[] = [];
+
+  constructor(private inner: LLMProvider) {
+    this.name = `recording:${inner.name}`;
+  }
+
+  async generateText(prompt: LLMPrompt, options: LLMGenerateOptions = {}): Promise<LLMTextResponse> {
+    const response = await this.inner.generateText(prompt, options);
+    this.record('generateText', prompt, options, {
+      text: response.text,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+    });
+    return response;
+  }
+
+  async *streamText(
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions = {}
+  ): AsyncGenerator<string, LLMTextResponse, void> {
+    const response = yield* this.inner.streamText(prompt, options);
+    this.record('streamText', prompt, options, {
+      text: response.text,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+    });
+    return response;
+  }
+
+  async generateWithFunctionCalling(
+    prompt: LLMPrompt,
+    options: LLMFunctionCallingOptions = {}
+  ): Promise<LLMFunctionCallingResponse> {
+    const response = await this.inner.generateWithFunctionCalling(prompt, options);
+    this.record('generateWithFunctionCalling', prompt, options, {
+      text: response.content,
+      functionCalls: response.functionCalls,
+      tokensInput: response.tokensUsed.input,
+      tokensOutput: response.tokensUsed.output,
+    });
+    return response;
+  }
+
+  embed(texts: string[], options?: { task?: LLMEmbeddingTask }): Promise<number[][]> {
+    return this.inner.embed(texts, options);
+  }
+
+  countTokens(text: string, model?: GeminiModel): Promise<number> {
+    return this.inner.countTokens(text, model);
+  }
+
+  cacheSystemInstruction(key: string, systemInstruction: string, ttlSeconds?: number): Promise<number> {
+    return this.inner.cacheSystemInstruction(key, systemInstruction, ttlSeconds);
+  }
+
+  /**
+   * Recorded replies, replayable in call order by ScriptedLLMProvider
+   */
+  toFixtures(): LLMFixture[] {
+    return [...this.recorded];
+  }
+
+  private record(
+    method: LLMMethod,
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions,
+    response: ScriptedResponse
+  ): void {
+    this.recorded.push({
+      match: {
+        method,
+        promptIncludes: promptToText(prompt).slice(-200),
+        ...(options.model && { model: options.model }),
+      },
+      response,
+      once: true,
+    });
+  }
+}
+
+/**
+ * Load fixtures from a JSON file (an array of LLMFixture)
+ */
+export function loadFixtures(path: string): LLMFixture[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`LLM fixtures file must contain an array: ${path}`);
+  }
+
+  return parsed as LLMFixture[];
+}
+
+function matchesFixture(fixture: LLMFixture, call: RecordedLLMCall): boolean {
+  const match = fixture.match;
+  if (!match) return true;
+
+  if (match.method && match.method !== call.method) return false;
+  if (match.model && match.model !== call.model) return false;
+  if (match.promptIncludes && !call.prompt.includes(match.promptIncludes)) return false;
+  if (match.systemIncludes && !(call.systemInstruction || '').includes(match.systemIncludes)) {
+    return false;
+  }
+  if (match.hasTools !== undefined && match.hasTools !== call.toolNames.length > 0) return false;
+
+  return true;
+}
+
+/**
+ * Flatten a prompt to text (text parts of each content, one per line)
+ */
+function promptToText(prompt: LLMPrompt): string {
+  if (typeof prompt === 'string') {
+    return prompt;
+  }
+
+  return prompt
+    .map((content) => content.parts.map((part) => part.text || '').join(''))
+    .join('\n');
+}
+
+/**
+ * Rough token estimate: ~4 chars per token
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic unit vector from hashed words
+ */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS] = (vector[hash % EMBEDDING_DIMENSIONS] ?? 0) + 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Word-sized chunks for simulated streaming (whitespace kept)
+ */
+function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
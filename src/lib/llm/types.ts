@@ -0,0 +1,125 @@
+/**
+ * LLM Provider Types
+ *
+ * The interface agents use to talk to a language model. GeminiClient is the
+ * production implementation; ScriptedLLMProvider replays fixtures offline.
+ */
+
+import type { Content, Tool } from '@google/generative-ai';
+import type { GeminiModel } from '@/lib/gemini/client';
+
+/**
+ * Prompt: plain text or a multi-turn content list
+ */
+export type LLMPrompt = string | Content[];
+
+/**
+ * Tool declarations offered to the model (Gemini function declaration format)
+ */
+export type LLMTool = Tool;
+
+/**
+ * Options shared by all generation calls
+ */
+export interface LLMGenerateOptions {
+  model?: GeminiModel;
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Options for function calling
+ */
+export interface LLMFunctionCallingOptions extends LLMGenerateOptions {
+  tools?: LLMTool[];
+  onToken?: (token: string) => void; // Stream text parts as they arrive
+}
+
+/**
+ * Embeddings are tuned for the side of a retrieval they are used on
+ */
+export type LLMEmbeddingTask = 'document' | 'query';
+
+/**
+ * Embedding size shared by all providers (matches knowledge_chunks.embedding)
+ */
+export const EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * Text generation result with usage
+ */
+export interface LLMTextResponse {
+  text: string;
+  model: GeminiModel;
+  tokensInput: number;
+  tokensOutput: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * Function call requested by the model
+ */
+export interface LLMFunctionCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Function-calling result with usage
+ */
+export interface LLMFunctionCallingResponse {
+  content: string;
+  functionCalls: LLMFunctionCall[];
+  model: GeminiModel;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * A language model backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Generate a complete text response
+   */
+  generateText(prompt: LLMPrompt, options?: LLMGenerateOptions): Promise<LLMTextResponse>;
+
+  /**
+   * Stream text chunks; the generator's return value carries the usage
+   */
+  streamText(
+    prompt: LLMPrompt,
+    options?: LLMGenerateOptions
+  ): AsyncGenerator<string, LLMTextResponse, void>;
+
+  /**
+   * Generate with tools; returns text and any requested function calls
+   */
+  generateWithFunctionCalling(
+    prompt: LLMPrompt,
+    options?: LLMFunctionCallingOptions
+  ): Promise<LLMFunctionCallingResponse>;
+
+  /**
+   * Embed texts (EMBEDDING_DIMENSIONS values each, in input order)
+   */
+  embed(texts: string[], options?: { task?: LLMEmbeddingTask }): Promise<number[][]>;
+
+  /**
+   * Count tokens in text
+   */
+  countTokens(text: string, model?: GeminiModel): Promise<number>;
+
+  /**
+   * Cache a system instruction; returns the number of cached tokens (0 if not cached)
+   */
+  cacheSystemInstruction(key: string, systemInstruction: string, ttlSeconds?: number): Promise<number>;
+}
@@ -0,0 +1,124 @@
+/**
+ * Usage Metering
+ *
+ * Counts every model call of a chat turn, whichever agent, tool or pipeline
+ * stage made it: routing, knowledge search embeddings, sub-agents, history
+ * summaries, dialect rewrites and failed or retried attempts. The meter is
+ * bound to the turn with AsyncLocalStorage, so the shared provider needs no
+ * per-request state; MeteredLLMProvider records into whichever meter is
+ * active when a call completes.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { GeminiModel } from '@/lib/gemini/client';
+import type {
+  LLMProvider,
+  LLMPrompt,
+  LLMGenerateOptions,
+  LLMTextResponse,
+  LLMFunctionCallingOptions,
+  LLMFunctionCallingResponse,
+  LLMEmbeddingTask,
+} from './types';
+
+/**
+ * Totals of a metered turn
+ */
+export interface UsageTotals {
+  input: number;
+  output: number;
+  costUsd: number;
+  calls: number;
+}
+
+const activeMeter = new AsyncLocalStorage<UsageMeter>();
+
+/**
+ * Model usage of one turn
+ */
+export class UsageMeter {
+  private totals: UsageTotals = { input: 0, output: 0, costUsd: 0, calls: 0 };
+
+  /**
+   * Run fn with this meter active (nested calls record into it)
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return activeMeter.run(this, fn);
+  }
+
+  record(tokensInput: number, tokensOutput: number, costUsd: number): void {
+    this.totals.input += tokensInput;
+    this.totals.output += tokensOutput;
+    this.totals.costUsd += costUsd;
+    this.totals.calls += 1;
+  }
+
+  get usage(): UsageTotals {
+    return { ...this.totals };
+  }
+}
+
+/**
+ * Meter of the current turn (undefined outside a metered turn)
+ */
+export function currentUsageMeter(): UsageMeter | undefined {
+  return activeMeter.getStore();
+}
+
+/**
+ * Provider decorator that records each call into the active meter
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider) {
+    this.name = inner.name;
+  }
+
+  async generateText(prompt: LLMPrompt, options: LLMGenerateOptions = {}): Promise<LLMTextResponse> {
+    const response = await this.inner.generateText(prompt, options);
+    currentUsageMeter()?.record(response.tokensInput, response.tokensOutput, response.costUsd);
+    return response;
+  }
+
+  async *streamText(
+    prompt: LLMPrompt,
+    options: LLMGenerateOptions = {}
+  ): AsyncGenerator<string, LLMTextResponse, void> {
+    const response = yield* this.inner.streamText(prompt, options);
+    currentUsageMeter()?.record(response.tokensInput, response.tokensOutput, response.costUsd);
+    return response;
+  }
+
+  async generateWithFunctionCalling(
+    prompt: LLMPrompt,
+    options: LLMFunctionCallingOptions = {}
+  ): Promise<LLMFunctionCallingResponse> {
+    const response = await this.inner.generateWithFunctionCalling(prompt, options);
+    currentUsageMeter()?.record(response.tokensUsed.input, response.tokensUsed.output, response.costUsd);
+    return response;
+  }
+
+  async embed(texts: string[], options?: { task?: LLMEmbeddingTask }): Promise<number[][]> {
+    const embeddings = await this.inner.embed(texts, options);
+    // The embedding API reports no usage: estimate the input (~4 characters per token)
+    const tokens = texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+    currentUsageMeter()?.record(tokens, 0, 0);
+    return embeddings;
+  }
+
+  countTokens(text: string, model?: GeminiModel): Promise<number> {
+    return this.inner.countTokens(text, model);
+  }
+
+  cacheSystemInstruction(key: string, systemInstruction: string, ttlSeconds?: number): Promise<number> {
+    return this.inner.cacheSystemInstruction(key, systemInstruction, ttlSeconds);
+  }
+}
+
+/**
+ * Wrap a provider for metering (once)
+ */
+export function meterProvider(provider: LLMProvider): LLMProvider {
+  return provider instanceof MeteredLLMProvider ? provider : new MeteredLLMProvider(provider);
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import type { AgentStreamEvent } from '@/lib/agents/base/types';
+import { consumeAgentEventStream } from '../consume';
+
+function sseResponse(...chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe('consumeAgentEventStream', () => {
+  it('parses events split across network chunks', async () => {
+    const events: AgentStreamEvent[] = [];
+    const response = sseResponse(
+      'data: {"type":"token","agentId":"narrator","tok',
+      'en":"مرحبا"}\n\ndata: [DONE]\n\n'
+    );
+
+    await consumeAgentEventStream(response, (event) => events.push(event));
+
+    expect(events).toEqual([{ type: 'token', agentId: 'narrator', token: 'مرحبا' }]);
+  });
+
+  it('rejects after delivering an error event', async () => {
+    const events: AgentStreamEvent[] = [];
+    const response = sseResponse(
+      'data: {"type":"error","error":{"code":"RATE_LIMIT","message":"Too many requests"}}\n\n'
+    );
+
+    await expect(
+      consumeAgentEventStream(response, (event) => events.push(event))
+    ).rejects.toThrow('Too many requests');
+    expect(events).toHaveLength(1);
+  });
+});
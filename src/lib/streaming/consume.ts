@@ -0,0 +1,237 @@
+/**
+ * Stream Consumers (client-side)
+ *
+ * Read the SSE streams sent by the API routes. Kept apart from
+ * @/lib/gemini/streaming, which imports the Gemini client, so client
+ * components can import these without bundling server code.
+ */
+
+import type { AgentStreamEvent } from '@/lib/agents/base/types';
+
+/**
+ * Consume an agent event stream (client-side)
+ * Buffers partial lines so events split across network chunks are parsed intact.
+ * Rejects when onEvent throws or after delivering an error event, so the
+ * caller's catch handles failed turns.
+ */
+export async function consumeAgentEventStream(
+  response: Response,
+  onEvent: (event: AgentStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const raw of events) {
+      if (!raw.startsWith('data: ')) continue;
+
+      const data = raw.slice(6);
+      if (data === '[DONE]') return;
+
+      let event: AgentStreamEvent;
+      try {
+        event = JSON.parse(data) as AgentStreamEvent;
+      } catch {
+        // Ignore malformed events
+        continue;
+      }
+
+      try {
+        onEvent(event);
+        if (event.type === 'error') {
+          throw new Error(event.error.message);
+        }
+      } catch (error) {
+        await reader.cancel();
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Client-side hook to consume SSE stream
+ *
+ * @example
+ * ```ts
+ * const { data, isLoading, error } = useGeminiStream('/api/chat', {
+ *   message: 'Hello',
+ * });
+ * ```
+ */
+export async function consumeStream(
+  url: string,
+  body: any,
+  callbacks: {
+    onToken?: (token: string) => void;
+    onComplete?: (fullText: string) => void;
+    onError?: (error: string) => void;
+  }
+): Promise<void> {
+  let fullText = '';
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        callbacks.onComplete?.(fullText);
+        break;
+      }
+
+      const chunk = decoder.decode(value);
+      const lines = chunk.split('\n\n');
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6);
+
+          if (data === '[DONE]') {
+            callbacks.onComplete?.(fullText);
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+
+            if (parsed.type === 'error') {
+              callbacks.onError?.(parsed.error);
+              return;
+            }
+
+            if (parsed.type === 'metadata') {
+              // Handle metadata if needed
+              continue;
+            }
+
+            if (parsed.token) {
+              fullText += parsed.token;
+              callbacks.onToken?.(parsed.token);
+            }
+          } catch (e) {
+            // Ignore parse errors for incomplete chunks
+          }
+        }
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    callbacks.onError?.(message);
+  }
+}
+
+/**
+ * React hook for streaming (client-side)
+ */
+export interface UseStreamOptions {
+  url: string;
+  body?: any;
+  auto?: boolean;
+}
+
+export interface UseStreamReturn {
+  text: string;
+  isLoading: boolean;
+  error: string | null;
+  start: (url: string, body: any) => Promise<void>;
+  reset: () => void;
+}
+
+/**
+ * Simple streaming state manager (non-React)
+ */
+export class StreamManager {
+  private text = '';
+  private isLoading = false;
+  private error: string | null = null;
+  private listeners: Set<(state: UseStreamReturn) => void> = new Set();
+
+  subscribe(listener: (state: UseStreamReturn) => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    const state: UseStreamReturn = {
+      text: this.text,
+      isLoading: this.isLoading,
+      error: this.error,
+      start: this.start.bind(this),
+      reset: this.reset.bind(this),
+    };
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  async start(url: string, body: any) {
+    this.isLoading = true;
+    this.error = null;
+    this.text = '';
+    this.notify();
+
+    await consumeStream(url, body, {
+      onToken: (token) => {
+        this.text += token;
+        this.notify();
+      },
+      onComplete: () => {
+        this.isLoading = false;
+        this.notify();
+      },
+      onError: (error) => {
+        this.error = error;
+        this.isLoading = false;
+        this.notify();
+      },
+    });
+  }
+
+  reset() {
+    this.text = '';
+    this.isLoading = false;
+    this.error = null;
+    this.notify();
+  }
+
+  getState(): UseStreamReturn {
+    return {
+      text: this.text,
+      isLoading: this.isLoading,
+      error: this.error,
+      start: this.start.bind(this),
+      reset: this.reset.bind(this),
+    };
+  }
+}
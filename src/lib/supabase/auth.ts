@@ -113,7 +113,7 @@ export async function getCurrentSession(): Promise<Session | null> {
  * Get the current user (server-side)
  */
 export async function getServerUser(): Promise<User | null> {
-  const supabase = createServerComponentClient();
+  const supabase = await createServerComponentClient();
 
   const {
     data: { user },
@@ -126,7 +126,7 @@ export async function getServerUser(): Promise<User | null> {
  * Get the current session (server-side)
  */
 export async function getServerSession(): Promise<Session | null> {
-  const supabase = createServerComponentClient();
+  const supabase = await createServerComponentClient();
 
   const {
     data: { session },
@@ -193,6 +193,15 @@ export async function requireAuth(): Promise<User> {
   return user;
 }
 
+/**
+ * Check if user is an administrator
+ * The role is read from app_metadata, which only the service role can set
+ * (user_metadata is editable by the user)
+ */
+export function isAdmin(user: User): boolean {
+  return user.app_metadata?.role === 'admin';
+}
+
 /**
  * Subscribe to auth state changes
  */
@@ -7,6 +7,7 @@
 
 import { createBrowserClient } from '@supabase/ssr';
 import { createServerClient } from '@supabase/ssr';
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import type { Database } from '@/types/supabase';
 
@@ -55,20 +56,29 @@ export function createClient() {
  * import { createServerComponentClient } from '@/lib/supabase/client'
  *
  * export async function MyServerComponent() {
- *   const supabase = createServerComponentClient()
+ *   const supabase = await createServerComponentClient()
  *   const { data } = await supabase.from('lessons').select('*')
  *   // ...
  * }
  * ```
  */
-export function createServerComponentClient() {
+export async function createServerComponentClient() {
   const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig();
-  const cookieStore = cookies();
+  const cookieStore = await cookies();
 
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
     cookies: {
-      get(name: string) {
-        return cookieStore.get(name)?.value;
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          for (const { name, value, options } of cookiesToSet) {
+            cookieStore.set(name, value, options);
+          }
+        } catch {
+          // Server Components cannot set cookies; route handlers can
+        }
       },
     },
   });
@@ -83,25 +93,24 @@ export function createServerComponentClient() {
  *
  * export async function myServerAction() {
  *   'use server'
- *   const supabase = createActionClient()
+ *   const supabase = await createActionClient()
  *   // Use supabase client...
  * }
  * ```
  */
-export function createActionClient() {
+export async function createActionClient() {
   const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig();
-  const cookieStore = cookies();
+  const cookieStore = await cookies();
 
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
     cookies: {
-      get(name: string) {
-        return cookieStore.get(name)?.value;
-      },
-      set(name: string, value: string, options: any) {
-        cookieStore.set({ name, value, ...options });
+      getAll() {
+        return cookieStore.getAll();
       },
-      remove(name: string, options: any) {
-        cookieStore.set({ name, value: '', ...options });
+      setAll(cookiesToSet) {
+        for (const { name, value, options } of cookiesToSet) {
+          cookieStore.set(name, value, options);
+        }
       },
     },
   });
@@ -131,7 +140,8 @@ export function createAdminClient() {
     );
   }
 
-  return createServerClient<Database>(supabaseUrl, supabaseServiceKey, {
-    cookies: {},
+  // No user session: the service role key is the credential
+  return createSupabaseClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
   });
 }
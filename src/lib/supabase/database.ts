@@ -1,11 +1,15 @@
 /**
  * Supabase Database Utilities
  *
- * Helper functions for common database operations
+ * Helper functions for common database operations (server-side only)
+ *
+ * Every helper uses the service role client, so RLS does not apply: helpers
+ * for student data filter by the userId they are given, which callers take
+ * from the authenticated session (getServerUser), never from the request body.
  */
 
-import { createClient, createServerComponentClient } from './client';
-import type { Database } from '@/types/supabase';
+import { createAdminClient } from './client';
+import type { Database, Json } from '@/types/supabase';
 
 type Tables = Database['public']['Tables'];
 type UserProfile = Tables['user_profiles']['Row'];
@@ -13,13 +17,31 @@ type StudentMastery = Tables['student_mastery']['Row'];
 type Lesson = Tables['lessons']['Row'];
 type StudentProgress = Tables['student_progress']['Row'];
 type AgentSession = Tables['agent_sessions']['Row'];
+type AgentSessionInsert = Tables['agent_sessions']['Insert'];
 type Flashcard = Tables['flashcards']['Row'];
+type FlashcardInsert = Tables['flashcards']['Insert'];
+type KnowledgeComponent = Tables['knowledge_components']['Row'];
+type KnowledgeComponentInsert = Tables['knowledge_components']['Insert'];
+type LessonInsert = Tables['lessons']['Insert'];
+type Conversation = Tables['conversations']['Row'];
+type ConversationInsert = Tables['conversations']['Insert'];
+type ConversationMessage = Tables['conversation_messages']['Row'];
+type ConversationMessageInsert = Tables['conversation_messages']['Insert'];
+type UserBudget = Tables['user_budgets']['Row'];
+type StudySession = Tables['study_sessions']['Row'];
+type Achievement = Tables['achievements']['Row'];
+type StudentAchievement = Tables['student_achievements']['Row'];
+type AgentMemoryRow = Tables['agent_memories']['Row'];
+type KnowledgeChunk = Tables['knowledge_chunks']['Row'];
+type KnowledgeChunkInsert = Tables['knowledge_chunks']['Insert'];
+type KnowledgeChunkMatch = Database['public']['Functions']['match_knowledge_chunks']['Returns'][number];
+type AgentFeedbackStats = Database['public']['Views']['agent_feedback_stats']['Row'];
 
 /**
  * Get or create user profile
  */
 export async function getOrCreateUserProfile(userId: string) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   // Try to get existing profile
   const { data: existingProfile } = await supabase
@@ -38,7 +60,7 @@ export async function getOrCreateUserProfile(userId: string) {
     .insert({
       id: userId,
       display_name: null,
-      preferred_dialect: 'MSA',
+      preferred_dialect: null, // Detected from chat messages until the student picks one
       learning_style: 'mixed',
     })
     .select()
@@ -58,7 +80,7 @@ export async function updateUserProfile(
   userId: string,
   updates: Partial<UserProfile>
 ) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('user_profiles')
@@ -74,11 +96,57 @@ export async function updateUserProfile(
   return data;
 }
 
+/**
+ * Get a knowledge component by its code (e.g. "MATH_ALGEBRA_QUADRATIC_FORMULA")
+ */
+export async function getKnowledgeComponentByCode(
+  code: string
+): Promise<KnowledgeComponent | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('knowledge_components')
+    .select('*')
+    .eq('code', code)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get knowledge components by ID
+ */
+export async function getKnowledgeComponentsByIds(
+  ids: string[]
+): Promise<KnowledgeComponent[]> {
+  if (ids.length === 0) return [];
+
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('knowledge_components')
+    .select('*')
+    .in('id', ids);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
 /**
  * Get student mastery for a knowledge component
  */
-export async function getStudentMastery(userId: string, kcId: string) {
-  const supabase = createClient();
+export async function getStudentMastery(
+  userId: string,
+  kcId: string
+): Promise<StudentMastery | null> {
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('student_mastery')
@@ -95,6 +163,30 @@ export async function getStudentMastery(userId: string, kcId: string) {
   return data;
 }
 
+/**
+ * Get all mastery rows for a student (optionally restricted to some KCs)
+ */
+export async function getStudentMasteryRows(
+  userId: string,
+  kcIds?: string[]
+): Promise<StudentMastery[]> {
+  const supabase = createAdminClient();
+
+  let query = supabase.from('student_mastery').select('*').eq('user_id', userId);
+
+  if (kcIds && kcIds.length > 0) {
+    query = query.in('kc_id', kcIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
 /**
  * Update student mastery (FSRS + BKT parameters)
  */
@@ -103,7 +195,7 @@ export async function updateStudentMastery(
   kcId: string,
   updates: Partial<StudentMastery>
 ) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('student_mastery')
@@ -131,7 +223,7 @@ export async function updateStudentMastery(
  * Get all mastered knowledge components for a student
  */
 export async function getMasteredKCs(userId: string) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('student_mastery')
@@ -150,7 +242,7 @@ export async function getMasteredKCs(userId: string) {
  * Get knowledge components that need review
  */
 export async function getKCsNeedingReview(userId: string, limit = 20) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const now = new Date().toISOString();
 
@@ -173,7 +265,7 @@ export async function getKCsNeedingReview(userId: string, limit = 20) {
  * Get all published lessons
  */
 export async function getPublishedLessons(subject?: string) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   let query = supabase
     .from('lessons')
@@ -197,8 +289,8 @@ export async function getPublishedLessons(subject?: string) {
 /**
  * Get lesson by slug
  */
-export async function getLessonBySlug(slug: string) {
-  const supabase = createClient();
+export async function getLessonBySlug(slug: string): Promise<Lesson | null> {
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('lessons')
@@ -207,7 +299,7 @@ export async function getLessonBySlug(slug: string) {
     .eq('is_published', true)
     .single();
 
-  if (error) {
+  if (error && error.code !== 'PGRST116') {
     throw error;
   }
 
@@ -217,8 +309,11 @@ export async function getLessonBySlug(slug: string) {
 /**
  * Get student progress for a lesson
  */
-export async function getStudentProgress(userId: string, lessonId: string) {
-  const supabase = createClient();
+export async function getStudentProgress(
+  userId: string,
+  lessonId: string
+): Promise<StudentProgress | null> {
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('student_progress')
@@ -241,8 +336,8 @@ export async function updateStudentProgress(
   userId: string,
   lessonId: string,
   updates: Partial<StudentProgress>
-) {
-  const supabase = createClient();
+): Promise<StudentProgress> {
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('student_progress')
@@ -271,9 +366,9 @@ export async function updateStudentProgress(
  */
 export async function logAgentSession(
   userId: string,
-  session: Partial<AgentSession>
-) {
-  const supabase = createClient();
+  session: Omit<AgentSessionInsert, 'user_id'>
+): Promise<AgentSession> {
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('agent_sessions')
@@ -291,11 +386,51 @@ export async function logAgentSession(
   return data;
 }
 
+/**
+ * Record student feedback on the user's own agent sessions (rating and/or
+ * helpfulness; the only columns students may update, see 002)
+ */
+export async function updateAgentSessionFeedback(
+  userId: string,
+  sessionIds: string[],
+  feedback: { student_feedback?: number; was_helpful?: boolean }
+): Promise<AgentSession[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('agent_sessions')
+    .update(feedback)
+    .in('id', sessionIds)
+    .eq('user_id', userId)
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get feedback aggregates per agent
+ */
+export async function getAgentFeedbackStats(): Promise<AgentFeedbackStats[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.from('agent_feedback_stats').select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
 /**
  * Get recent agent sessions for a user
  */
 export async function getRecentAgentSessions(userId: string, limit = 50) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('agent_sessions')
@@ -311,11 +446,391 @@ export async function getRecentAgentSessions(userId: string, limit = 50) {
   return data;
 }
 
+/**
+ * Get a student's budget overrides (null = plan defaults)
+ */
+export async function getUserBudget(userId: string): Promise<UserBudget | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('user_budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get a student's agent usage (tokens, cost, calls) since a point in time
+ */
+export async function getAgentUsage(
+  userId: string,
+  since: Date
+): Promise<{ tokensUsed: number; costUsd: number; calls: number }> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('get_agent_usage', {
+    student_id: userId,
+    since: since.toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: Database['public']['Functions']['get_agent_usage']['Returns'] = data || [];
+  const row = rows[0];
+
+  return {
+    tokensUsed: Number(row?.tokens_used ?? 0),
+    costUsd: Number(row?.cost_usd ?? 0),
+    calls: Number(row?.calls ?? 0),
+  };
+}
+
+/**
+ * Count one request against several shared rate limit windows at once:
+ * either every key is counted or, when any is at its limit, none is
+ * (service role only; clients cannot call consume_rate_limits)
+ */
+export async function consumeRateLimits(
+  limits: Array<{ key: string; maxRequests: number }>,
+  windowSeconds: number
+): Promise<Array<{ key: string; allowed: boolean; requestCount: number; resetAt: Date }>> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('consume_rate_limits', {
+    limit_keys: limits.map((limit) => limit.key),
+    max_requests: limits.map((limit) => limit.maxRequests),
+    window_seconds: windowSeconds,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: Database['public']['Functions']['consume_rate_limits']['Returns'] = data || [];
+
+  return limits.map(({ key }) => {
+    const row = rows.find((r) => r.limit_key === key);
+    if (!row) {
+      throw new Error(`consume_rate_limits returned no result for ${key}`);
+    }
+
+    return {
+      key,
+      allowed: row.allowed,
+      requestCount: row.request_count,
+      resetAt: new Date(row.reset_at),
+    };
+  });
+}
+
+/**
+ * Create a conversation (chat thread)
+ */
+export async function createConversation(
+  conversation: ConversationInsert
+): Promise<Conversation> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert(conversation)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get a conversation owned by the user
+ */
+export async function getConversation(
+  userId: string,
+  conversationId: string
+): Promise<Conversation | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get a user's conversations, most recently active first
+ */
+export async function getConversations(
+  userId: string,
+  limit = 20
+): Promise<Conversation[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_message_at', { ascending: false, nullsFirst: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the latest messages of a user's conversation, oldest first
+ */
+export async function getConversationMessages(
+  userId: string,
+  conversationId: string,
+  limit = 100
+): Promise<ConversationMessage[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).reverse();
+}
+
+/**
+ * Append a message to a conversation (the caller resolves the conversation
+ * for message.user_id first)
+ */
+export async function addConversationMessage(
+  message: ConversationMessageInsert
+): Promise<ConversationMessage> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .insert(message)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get all knowledge components
+ */
+export async function getAllKnowledgeComponents(): Promise<KnowledgeComponent[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('knowledge_components')
+    .select('*')
+    .order('code', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get all lessons, published or not (optionally for one subject)
+ */
+export async function getAllLessons(subject?: string): Promise<Lesson[]> {
+  const supabase = createAdminClient();
+
+  let query = supabase.from('lessons').select('*').order('slug', { ascending: true });
+
+  if (subject) {
+    query = query.eq('subject', subject);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Insert or update knowledge components by code (service role; used by curriculum import)
+ */
+export async function upsertKnowledgeComponents(
+  components: KnowledgeComponentInsert[]
+): Promise<void> {
+  if (components.length === 0) return;
+
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('knowledge_components')
+    .upsert(components, { onConflict: 'code' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Insert or update lessons by slug (service role; used by curriculum import)
+ */
+export async function upsertLessons(lessons: LessonInsert[]): Promise<void> {
+  if (lessons.length === 0) return;
+
+  const supabase = createAdminClient();
+
+  const { error } = await supabase.from('lessons').upsert(lessons, { onConflict: 'slug' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get stored chunk hashes for a knowledge base source
+ */
+export async function getKnowledgeChunkHashes(
+  sourceType: KnowledgeChunk['source_type'],
+  sourceId: string
+): Promise<Pick<KnowledgeChunk, 'chunk_index' | 'content_hash'>[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('knowledge_chunks')
+    .select('chunk_index, content_hash')
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the sources that have stored chunks, with their subject (service role; used by ingestion)
+ */
+export async function getKnowledgeChunkSources(
+  sourceType: KnowledgeChunk['source_type']
+): Promise<Pick<KnowledgeChunk, 'source_id' | 'subject'>[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('knowledge_chunks')
+    .select('source_id, subject')
+    .eq('source_type', sourceType)
+    .eq('chunk_index', 0);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Insert or replace knowledge base chunks (service role; used by ingestion)
+ */
+export async function upsertKnowledgeChunks(chunks: KnowledgeChunkInsert[]): Promise<void> {
+  if (chunks.length === 0) return;
+
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('knowledge_chunks')
+    .upsert(chunks, { onConflict: 'source_type,source_id,chunk_index' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a source's chunks from chunk_index onwards (service role; used by ingestion)
+ */
+export async function deleteKnowledgeChunks(
+  sourceType: KnowledgeChunk['source_type'],
+  sourceId: string,
+  fromIndex = 0
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('knowledge_chunks')
+    .delete()
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .gte('chunk_index', fromIndex);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Find the chunks closest to a query embedding
+ */
+export async function matchKnowledgeChunks(
+  embedding: number[],
+  options: { subject?: string; limit?: number } = {}
+): Promise<KnowledgeChunkMatch[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    query_embedding: JSON.stringify(embedding),
+    match_count: options.limit ?? 5,
+    filter_subject: options.subject ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: Database['public']['Functions']['match_knowledge_chunks']['Returns'] = data || [];
+  return rows;
+}
+
 /**
  * Get flashcards due for review
  */
-export async function getFlashcardsDue(userId: string, limit = 20) {
-  const supabase = createClient();
+export async function getFlashcardsDue(
+  userId: string,
+  limit = 20
+): Promise<Flashcard[]> {
+  const supabase = createAdminClient();
 
   const now = new Date().toISOString();
 
@@ -324,7 +839,7 @@ export async function getFlashcardsDue(userId: string, limit = 20) {
     .select('*')
     .eq('user_id', userId)
     .lte('due_date', now)
-    .in('state', ['new', 'learning', 'review'])
+    .in('state', ['new', 'learning', 'review', 'relearning'])
     .order('due_date', { ascending: true })
     .limit(limit);
 
@@ -335,19 +850,87 @@ export async function getFlashcardsDue(userId: string, limit = 20) {
   return data;
 }
 
+/**
+ * Get one of a student's flashcards
+ */
+export async function getFlashcard(
+  userId: string,
+  flashcardId: string
+): Promise<Flashcard | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select('*')
+    .eq('id', flashcardId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Find a student's flashcard by its front text (to avoid duplicate cards)
+ */
+export async function findFlashcardByFront(
+  userId: string,
+  frontText: string
+): Promise<Flashcard | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('front_text', frontText)
+    .limit(1)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Create a new flashcard
+ */
+export async function createFlashcard(flashcard: FlashcardInsert): Promise<Flashcard> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('flashcards')
+    .insert(flashcard)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
 /**
  * Update flashcard after review
  */
 export async function updateFlashcard(
+  userId: string,
   flashcardId: string,
   updates: Partial<Flashcard>
 ) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('flashcards')
     .update(updates)
     .eq('id', flashcardId)
+    .eq('user_id', userId)
     .select()
     .single();
 
@@ -373,7 +956,7 @@ export async function logFlashcardReview(review: {
   stability_after: number;
   difficulty_after: number;
 }) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('review_history')
@@ -392,7 +975,7 @@ export async function logFlashcardReview(review: {
  * Get student's overall mastery score
  */
 export async function getOverallMastery(userId: string): Promise<number> {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase.rpc('get_student_overall_mastery', {
     student_id: userId,
@@ -409,7 +992,7 @@ export async function getOverallMastery(userId: string): Promise<number> {
  * Get student's current study streak
  */
 export async function getStudyStreak(userId: string): Promise<number> {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase.rpc('get_study_streak', {
     student_id: userId,
@@ -426,7 +1009,7 @@ export async function getStudyStreak(userId: string): Promise<number> {
  * Start a new study session
  */
 export async function startStudySession(userId: string) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('study_sessions')
@@ -448,6 +1031,7 @@ export async function startStudySession(userId: string) {
  * End a study session
  */
 export async function endStudySession(
+  userId: string,
   sessionId: string,
   updates: {
     ended_at?: string;
@@ -459,7 +1043,7 @@ export async function endStudySession(
     breaks_taken?: number;
   }
 ) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
 
   const { data, error } = await supabase
     .from('study_sessions')
@@ -468,6 +1052,7 @@ export async function endStudySession(
       ...updates,
     })
     .eq('id', sessionId)
+    .eq('user_id', userId)
     .select()
     .single();
 
@@ -477,3 +1062,284 @@ export async function endStudySession(
 
   return data;
 }
+
+/**
+ * Record one study activity, opening a session when none is active
+ */
+export async function recordStudyActivity(
+  userId: string,
+  activity: {
+    idleTimeoutSeconds: number;
+    breakSeconds: number;
+    lessonIds: string[];
+    kcIds: string[];
+    exercises: number;
+    correct: number;
+    flashcards: number;
+  }
+): Promise<StudySession> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('record_study_activity', {
+    student_id: userId,
+    idle_timeout_seconds: activity.idleTimeoutSeconds,
+    break_seconds: activity.breakSeconds,
+    activity_lesson_ids: activity.lessonIds,
+    activity_kc_ids: activity.kcIds,
+    exercises: activity.exercises,
+    correct: activity.correct,
+    flashcards: activity.flashcards,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Close a student's sessions that have been idle past the timeout
+ */
+export async function closeIdleStudySessions(
+  userId: string,
+  idleTimeoutSeconds: number
+): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('close_idle_study_sessions', {
+    student_id: userId,
+    idle_timeout_seconds: idleTimeoutSeconds,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || 0;
+}
+
+/**
+ * Get a student's study sessions started since a point in time
+ */
+export async function getStudySessionsSince(userId: string, since: Date): Promise<StudySession[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('started_at', since.toISOString())
+    .order('started_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get all achievements
+ */
+export async function getAchievements(): Promise<Achievement[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('achievements')
+    .select('*')
+    .order('points', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a student's unlocked achievements (most recent first)
+ */
+export async function getStudentAchievements(userId: string): Promise<StudentAchievement[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('student_achievements')
+    .select('*')
+    .eq('user_id', userId)
+    .order('unlocked_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Unlock an achievement for a student
+ * Returns null when it was already unlocked
+ */
+export async function unlockAchievement(
+  userId: string,
+  achievementId: string
+): Promise<StudentAchievement | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('student_achievements')
+    .upsert(
+      { user_id: userId, achievement_id: achievementId },
+      { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Get the IDs of lessons a student has completed (or mastered)
+ */
+export async function getCompletedLessonIds(userId: string): Promise<string[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('student_progress')
+    .select('lesson_id')
+    .eq('user_id', userId)
+    .in('status', ['completed', 'mastered']);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((row) => row.lesson_id);
+}
+
+/**
+ * Count a student's flashcard reviews
+ */
+export async function countFlashcardReviews(userId: string): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { count, error } = await supabase
+    .from('review_history')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Count a student's agent sessions (optionally for one agent type)
+ */
+export async function countAgentSessions(
+  userId: string,
+  agentType?: AgentSession['agent_type']
+): Promise<number> {
+  const supabase = createAdminClient();
+
+  let query = supabase
+    .from('agent_sessions')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (agentType) {
+    query = query.eq('agent_type', agentType);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Store an agent memory, pruning expired memories and old entries under the same key
+ */
+export async function storeAgentMemory(memory: {
+  userId: string;
+  agentId: string;
+  key: string;
+  value: Json | null;
+  createdAt: Date;
+  expiresAt?: Date;
+  maxEntries: number;
+}): Promise<AgentMemoryRow> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc('store_agent_memory', {
+    student_id: memory.userId,
+    memory_agent_id: memory.agentId,
+    memory_key: memory.key,
+    memory_value: memory.value,
+    memory_created_at: memory.createdAt.toISOString(),
+    memory_expires_at: memory.expiresAt?.toISOString() ?? null,
+    max_entries: memory.maxEntries,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get a student's unexpired memories for an agent (oldest first)
+ */
+export async function getAgentMemories(
+  userId: string,
+  agentId: string,
+  key?: string
+): Promise<AgentMemoryRow[]> {
+  const supabase = createAdminClient();
+
+  let query = supabase
+    .from('agent_memories')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('agent_id', agentId)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true });
+
+  if (key) {
+    query = query.eq('key', key);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Delete a student's memories for an agent
+ */
+export async function deleteAgentMemories(userId: string, agentId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('agent_memories')
+    .delete()
+    .eq('user_id', userId)
+    .eq('agent_id', agentId);
+
+  if (error) {
+    throw error;
+  }
+}
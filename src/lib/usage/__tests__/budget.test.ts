@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import { AgentError } from '@/lib/agents/base/types';
+import { downgradeModel, enforceBudget, getBudgetSummary, resolveBudgetStatus } from '../budget';
+
+vi.mock('@/lib/supabase/database', () => ({
+  getAgentUsage: vi.fn(),
+  getUserBudget: vi.fn(),
+}));
+
+vi.mock('@/lib/agents/base/profile', () => ({
+  loadStudentProfile: vi.fn(async (userId: string) => ({ userId, plan: 'student' })),
+}));
+
+const USER_ID = 'student-1';
+
+type UserBudget = NonNullable<Awaited<ReturnType<typeof db.getUserBudget>>>;
+
+function usage(daily: { costUsd: number; tokensUsed: number }, monthly = daily) {
+  vi.mocked(db.getAgentUsage)
+    .mockResolvedValueOnce({ ...daily, calls: 1 })
+    .mockResolvedValueOnce({ ...monthly, calls: 1 });
+}
+
+describe('usage budgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getUserBudget).mockResolvedValue(null);
+  });
+
+  it('uses the plan from the profile and reports near_limit from 80%', async () => {
+    usage({ costUsd: 0.2, tokensUsed: 0 }); // Student plan: $0.25 a day
+
+    const summary = await getBudgetSummary(USER_ID);
+
+    expect(summary.plan).toBe('student');
+    expect(summary.status).toBe('near_limit');
+    expect(summary.daily).toMatchObject({ ratio: 0.8, remaining: { costUsd: 0.05 } });
+  });
+
+  it('applies per-student overrides', async () => {
+    vi.mocked(db.getUserBudget).mockResolvedValue({ daily_tokens: 1_000 } as UserBudget);
+    usage({ costUsd: 0, tokensUsed: 500 });
+
+    const summary = await getBudgetSummary(USER_ID, 'free');
+
+    expect(summary.daily.limit).toEqual({ costUsd: 0.05, tokens: 1_000 });
+    expect(summary.status).toBe('ok');
+  });
+
+  it('rejects calls once the monthly budget is used up', async () => {
+    usage({ costUsd: 0, tokensUsed: 0 }, { costUsd: 1.5, tokensUsed: 0 });
+
+    const error = await enforceBudget(USER_ID, 'narrator', 'free').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AgentError);
+    expect((error as AgentError).metadata).toMatchObject({ plan: 'free', period: 'monthly' });
+  });
+
+  it('allows the call when usage cannot be loaded', async () => {
+    vi.mocked(db.getAgentUsage).mockRejectedValue(new Error('connection reset'));
+
+    await expect(resolveBudgetStatus(USER_ID, 'narrator', 'free')).resolves.toBe('ok');
+  });
+
+  it('downgrades one tier at a time', () => {
+    expect(downgradeModel('pro')).toBe('flash');
+    expect(downgradeModel('flash')).toBe('flash-lite');
+    expect(downgradeModel('flash-lite')).toBe('flash-lite');
+  });
+});
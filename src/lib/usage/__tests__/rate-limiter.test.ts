@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as db from '@/lib/supabase/database';
+import { AgentError } from '@/lib/agents/base/types';
+import {
+  InMemoryRateLimitStore,
+  SupabaseRateLimitStore,
+  enforceRateLimits,
+  setRateLimitStore,
+} from '../rate-limiter';
+
+vi.mock('@/lib/supabase/database', () => ({
+  consumeRateLimits: vi.fn(),
+}));
+
+const WINDOW_MS = 60_000;
+
+describe('InMemoryRateLimitStore', () => {
+  let store: InMemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new InMemoryRateLimitStore();
+  });
+
+  it('counts a request against no key when one key is at its limit', async () => {
+    await store.consume([{ key: 'user', limit: 1 }], WINDOW_MS);
+
+    const [user, model] = await store.consume(
+      [
+        { key: 'user', limit: 1 },
+        { key: 'model', limit: 5 },
+      ],
+      WINDOW_MS
+    );
+
+    expect(user).toMatchObject({ allowed: false, remaining: 0 });
+    expect(user!.retryAfterMs).toBeGreaterThan(0);
+    expect(model).toMatchObject({ allowed: true, remaining: 5 });
+  });
+});
+
+describe('SupabaseRateLimitStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports the shared counters', async () => {
+    const resetAt = new Date(Date.now() + 30_000);
+    vi.mocked(db.consumeRateLimits).mockResolvedValue([
+      { key: 'user', allowed: false, requestCount: 20, resetAt },
+    ]);
+
+    const [result] = await new SupabaseRateLimitStore().consume(
+      [{ key: 'user', limit: 20 }],
+      WINDOW_MS
+    );
+
+    expect(db.consumeRateLimits).toHaveBeenCalledWith([{ key: 'user', maxRequests: 20 }], 60);
+    expect(result).toMatchObject({ allowed: false, remaining: 0, resetAt });
+    expect(result!.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('falls back to the in-memory store when the database is unreachable', async () => {
+    vi.mocked(db.consumeRateLimits).mockRejectedValue(new Error('connection refused'));
+    const fallback = new InMemoryRateLimitStore();
+
+    const [result] = await new SupabaseRateLimitStore(fallback).consume(
+      [{ key: 'user', limit: 2 }],
+      WINDOW_MS
+    );
+
+    expect(result).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
+
+describe('enforceRateLimits', () => {
+  const params = {
+    userId: 'student-1',
+    agentId: 'narrator',
+    model: 'flash',
+    maxRequestsPerMinute: 1,
+  } as const;
+
+  beforeEach(() => {
+    setRateLimitStore(new InMemoryRateLimitStore());
+  });
+
+  it('rejects over the agent limit with retry-after information', async () => {
+    await enforceRateLimits(params);
+
+    const error = await enforceRateLimits(params).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AgentError);
+    expect((error as AgentError).metadata).toMatchObject({ scope: 'user_agent', limit: 1 });
+    expect((error as AgentError).metadata?.retryAfterSeconds).toBeGreaterThanOrEqual(1);
+  });
+
+  it('keeps limits separate per student and agent', async () => {
+    await enforceRateLimits(params);
+
+    await expect(enforceRateLimits({ ...params, agentId: 'socratic' })).resolves.toBeUndefined();
+    await expect(enforceRateLimits({ ...params, userId: 'student-2' })).resolves.toBeUndefined();
+  });
+});
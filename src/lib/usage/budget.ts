@@ -0,0 +1,229 @@
+/**
+ * Usage Budgets
+ *
+ * Daily and monthly token/cost budgets per student, tracked from the usage
+ * logged in agent_sessions. Plans set the default limits; user_budgets can
+ * override them per student. Near the limit, agents drop to a cheaper model;
+ * over the limit, calls fail with a RATE_LIMIT AgentError.
+ */
+
+import { getAgentUsage, getUserBudget } from '@/lib/supabase/database';
+import { loadStudentProfile } from '@/lib/agents/base/profile';
+import { AgentError, AgentErrorCode, type GeminiModel } from '@/lib/agents/base/types';
+import type { Database } from '@/types/supabase';
+
+export type SubscriptionPlan = Database['public']['Enums']['subscription_plan'];
+
+/**
+ * Limits for one budget period (0 = unlimited)
+ */
+export interface BudgetLimits {
+  costUsd: number;
+  tokens: number;
+}
+
+/**
+ * Daily and monthly limits of a plan
+ */
+export interface PlanBudget {
+  daily: BudgetLimits;
+  monthly: BudgetLimits;
+}
+
+/**
+ * ok: full models / near_limit: downgraded models / exceeded: calls rejected
+ */
+export type BudgetStatus = 'ok' | 'near_limit' | 'exceeded';
+
+/**
+ * Usage against one budget period
+ */
+export interface BudgetPeriodUsage {
+  used: BudgetLimits & { calls: number };
+  limit: BudgetLimits;
+  remaining: BudgetLimits;
+  ratio: number; // Highest of cost and token usage ratios (0-1+)
+  resetsAt: string;
+}
+
+/**
+ * A student's budget state
+ */
+export interface BudgetSummary {
+  userId: string;
+  plan: SubscriptionPlan;
+  status: BudgetStatus;
+  daily: BudgetPeriodUsage;
+  monthly: BudgetPeriodUsage;
+}
+
+/**
+ * Default budgets per plan
+ */
+export const PLAN_BUDGETS: Record<SubscriptionPlan, PlanBudget> = {
+  free: {
+    daily: { costUsd: 0.05, tokens: 200_000 },
+    monthly: { costUsd: 1, tokens: 4_000_000 },
+  },
+  student: {
+    daily: { costUsd: 0.25, tokens: 1_000_000 },
+    monthly: { costUsd: 5, tokens: 20_000_000 },
+  },
+  premium: {
+    daily: { costUsd: 1, tokens: 4_000_000 },
+    monthly: { costUsd: 20, tokens: 80_000_000 },
+  },
+};
+
+/**
+ * Share of a budget after which agents switch to cheaper models
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Load usage and limits for a student (plan is read from the profile when not given)
+ */
+export async function getBudgetSummary(
+  userId: string,
+  plan?: SubscriptionPlan
+): Promise<BudgetSummary> {
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const [resolvedPlan, overrides, dailyUsage, monthlyUsage] = await Promise.all([
+    plan ?? loadStudentProfile(userId).then((profile) => profile.plan ?? 'free'),
+    getUserBudget(userId),
+    getAgentUsage(userId, dayStart),
+    getAgentUsage(userId, monthStart),
+  ]);
+
+  const planBudget = PLAN_BUDGETS[resolvedPlan];
+
+  const daily = buildPeriodUsage(
+    dailyUsage,
+    {
+      costUsd: overrides?.daily_cost_usd ?? planBudget.daily.costUsd,
+      tokens: overrides?.daily_tokens ?? planBudget.daily.tokens,
+    },
+    new Date(dayStart.getTime() + 24 * 60 * 60 * 1000)
+  );
+
+  const monthly = buildPeriodUsage(
+    monthlyUsage,
+    {
+      costUsd: overrides?.monthly_cost_usd ?? planBudget.monthly.costUsd,
+      tokens: overrides?.monthly_tokens ?? planBudget.monthly.tokens,
+    },
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  );
+
+  return {
+    userId,
+    plan: resolvedPlan,
+    status: getBudgetStatus(Math.max(daily.ratio, monthly.ratio)),
+    daily,
+    monthly,
+  };
+}
+
+/**
+ * Check the budget before running agents
+ * Throws a RATE_LIMIT AgentError when the daily or monthly budget is used up
+ */
+export async function enforceBudget(
+  userId: string,
+  agentId: string,
+  plan?: SubscriptionPlan
+): Promise<BudgetSummary> {
+  const summary = await getBudgetSummary(userId, plan);
+
+  if (summary.status === 'exceeded') {
+    const period = summary.daily.ratio >= 1 ? summary.daily : summary.monthly;
+
+    throw new AgentError(
+      `Usage budget exceeded; resets at ${period.resetsAt}`,
+      agentId,
+      AgentErrorCode.RATE_LIMIT,
+      {
+        plan: summary.plan,
+        period: period === summary.daily ? 'daily' : 'monthly',
+        resetsAt: period.resetsAt,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((new Date(period.resetsAt).getTime() - Date.now()) / 1000)
+        ),
+      }
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Budget status for a call
+ * RATE_LIMIT errors propagate; if usage cannot be loaded the call is allowed
+ */
+export async function resolveBudgetStatus(
+  userId: string,
+  agentId: string,
+  plan?: SubscriptionPlan
+): Promise<BudgetStatus> {
+  try {
+    const summary = await enforceBudget(userId, agentId, plan);
+    return summary.status;
+  } catch (error) {
+    if (error instanceof AgentError) {
+      throw error;
+    }
+
+    console.error('Failed to check usage budget:', error);
+    return 'ok';
+  }
+}
+
+/**
+ * Next cheaper model (flash-lite is the floor)
+ */
+export function downgradeModel(model: GeminiModel): GeminiModel {
+  switch (model) {
+    case 'pro':
+      return 'flash';
+    case 'flash':
+      return 'flash-lite';
+    default:
+      return 'flash-lite';
+  }
+}
+
+/**
+ * Budget status from the highest usage ratio
+ */
+function getBudgetStatus(ratio: number): BudgetStatus {
+  if (ratio >= 1) return 'exceeded';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'near_limit';
+  return 'ok';
+}
+
+/**
+ * Usage, remaining budget and ratio for one period
+ */
+function buildPeriodUsage(
+  usage: { tokensUsed: number; costUsd: number; calls: number },
+  limit: BudgetLimits,
+  resetsAt: Date
+): BudgetPeriodUsage {
+  const costRatio = limit.costUsd > 0 ? usage.costUsd / limit.costUsd : 0;
+  const tokenRatio = limit.tokens > 0 ? usage.tokensUsed / limit.tokens : 0;
+
+  return {
+    used: { costUsd: usage.costUsd, tokens: usage.tokensUsed, calls: usage.calls },
+    limit,
+    remaining: {
+      costUsd: Math.max(0, Math.round((limit.costUsd - usage.costUsd) * 1_000_000) / 1_000_000),
+      tokens: Math.max(0, limit.tokens - usage.tokensUsed),
+    },
+    ratio: Math.round(Math.max(costRatio, tokenRatio) * 1000) / 1000,
+    resetsAt: resetsAt.toISOString(),
+  };
+}
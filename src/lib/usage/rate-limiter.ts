@@ -0,0 +1,223 @@
+/**
+ * Rate Limiting
+ *
+ * Request limits keyed by (userId, agentId) plus global per-model quotas.
+ * The Supabase store shares counters across serverless instances; the
+ * in-memory store is the local fallback (dev, or when the database is unreachable).
+ * Exceeded limits surface as RATE_LIMIT AgentErrors with retry-after information.
+ */
+
+import { consumeRateLimits } from '@/lib/supabase/database';
+import { AgentError, AgentErrorCode, type GeminiModel } from '@/lib/agents/base/types';
+
+/**
+ * Outcome of counting one request
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterMs: number; // 0 when allowed
+}
+
+/**
+ * One limit a request counts against
+ */
+export interface RateLimitRequest {
+  key: string;
+  limit: number;
+}
+
+/**
+ * Backend that counts requests per key
+ *
+ * consume() counts one request against every key or, when any key is at its
+ * limit, against none. Results are in the order of the requests; only the
+ * keys at their limit are reported as not allowed.
+ */
+export interface RateLimitStore {
+  consume(requests: RateLimitRequest[], windowMs: number): Promise<RateLimitResult[]>;
+}
+
+/**
+ * Requests per minute for one student and agent (unless the agent configures maxRequestsPerMinute)
+ */
+export const DEFAULT_USER_AGENT_LIMIT = 20;
+
+/**
+ * Global requests per minute per model, across all students
+ */
+export const MODEL_RATE_LIMITS: Record<GeminiModel, number> = {
+  'flash-lite': 1000,
+  flash: 1000,
+  pro: 150,
+};
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Sliding-window limiter held in process memory (per instance)
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private requests: Map<string, number[]> = new Map();
+
+  async consume(requests: RateLimitRequest[], windowMs: number): Promise<RateLimitResult[]> {
+    const now = Date.now();
+
+    // Remove old requests outside the window
+    const windows = requests.map(({ key }) =>
+      (this.requests.get(key) || []).filter((timestamp) => now - timestamp < windowMs)
+    );
+    const allowed = requests.every(({ limit }, index) => windows[index]!.length < limit);
+
+    return requests.map(({ key, limit }, index) => {
+      const recent = windows[index]!;
+      const oldestRequest = recent[0];
+
+      // A key at its limit blocks the request
+      if (recent.length >= limit && oldestRequest !== undefined) {
+        const retryAfterMs = windowMs - (now - oldestRequest);
+
+        return {
+          allowed: false,
+          limit,
+          remaining: 0,
+          resetAt: new Date(now + retryAfterMs),
+          retryAfterMs,
+        };
+      }
+
+      // Record this request only when every limit allows it
+      if (allowed) recent.push(now);
+      this.requests.set(key, recent);
+
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(0, limit - recent.length),
+        resetAt: new Date((recent[0] ?? now) + windowMs),
+        retryAfterMs: 0,
+      };
+    });
+  }
+
+  reset(): void {
+    this.requests.clear();
+  }
+}
+
+/**
+ * Fixed-window counters in Postgres (consume_rate_limits), shared by all instances
+ * Falls back to the in-memory store if the database cannot be reached
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private fallback: RateLimitStore = new InMemoryRateLimitStore()) {}
+
+  async consume(requests: RateLimitRequest[], windowMs: number): Promise<RateLimitResult[]> {
+    try {
+      const rows = await consumeRateLimits(
+        requests.map(({ key, limit }) => ({ key, maxRequests: limit })),
+        Math.max(1, Math.round(windowMs / 1000))
+      );
+
+      return rows.map(({ allowed, requestCount, resetAt }, index) => {
+        const limit = requests[index]!.limit;
+
+        return {
+          allowed,
+          limit,
+          remaining: Math.max(0, limit - requestCount),
+          resetAt,
+          retryAfterMs: allowed ? 0 : Math.max(0, resetAt.getTime() - Date.now()),
+        };
+      });
+    } catch (error) {
+      console.error('Shared rate limit unavailable, using in-memory fallback:', error);
+      return this.fallback.consume(requests, windowMs);
+    }
+  }
+}
+
+/**
+ * Shared store when Supabase admin credentials are configured, in-memory
+ * otherwise (RATE_LIMIT_STORE=memory forces the in-memory store)
+ */
+function createRateLimitStore(): RateLimitStore {
+  const hasSupabase =
+    !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  return hasSupabase && process.env.RATE_LIMIT_STORE !== 'memory'
+    ? new SupabaseRateLimitStore()
+    : new InMemoryRateLimitStore();
+}
+
+let store: RateLimitStore = createRateLimitStore();
+
+/**
+ * Replace the rate limit store (e.g., a custom backend)
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Count one agent call against the student's agent limit and the model quota
+ * Both are checked before either is counted, so a call rejected by one limit
+ * does not use up the other. Throws a RATE_LIMIT AgentError
+ * (metadata.retryAfterSeconds) when either is exhausted.
+ */
+export async function enforceRateLimits(params: {
+  userId: string;
+  agentId: string;
+  model: GeminiModel;
+  maxRequestsPerMinute?: number;
+}): Promise<void> {
+  const { userId, agentId, model } = params;
+
+  const [userLimit, modelLimit] = await store.consume(
+    [
+      {
+        key: `user:${userId}:agent:${agentId}`,
+        limit: params.maxRequestsPerMinute ?? DEFAULT_USER_AGENT_LIMIT,
+      },
+      { key: `model:${model}`, limit: MODEL_RATE_LIMITS[model] },
+    ],
+    WINDOW_MS
+  );
+
+  if (userLimit && !userLimit.allowed) {
+    throw buildRateLimitError(agentId, 'user_agent', userLimit);
+  }
+
+  if (modelLimit && !modelLimit.allowed) {
+    throw buildRateLimitError(agentId, 'model', modelLimit, model);
+  }
+}
+
+/**
+ * RATE_LIMIT error with retry-after information for the API routes
+ */
+function buildRateLimitError(
+  agentId: string,
+  scope: 'user_agent' | 'model',
+  result: RateLimitResult,
+  model?: GeminiModel
+): AgentError {
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+
+  return new AgentError(
+    scope === 'model'
+      ? `Model ${model} is at capacity; retry in ${retryAfterSeconds}s`
+      : `Too many requests to ${agentId}; retry in ${retryAfterSeconds}s`,
+    agentId,
+    AgentErrorCode.RATE_LIMIT,
+    {
+      scope,
+      ...(model && { model }),
+      limit: result.limit,
+      resetAt: result.resetAt.toISOString(),
+      retryAfterSeconds,
+    }
+  );
+}
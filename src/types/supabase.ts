@@ -15,7 +15,7 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[];
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
       user_profiles: {
@@ -24,7 +24,7 @@ export interface Database {
           display_name: string | null;
           bio: string | null;
           avatar_url: string | null;
-          preferred_dialect: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
+          preferred_dialect: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
           learning_style: 'visual' | 'auditory' | 'kinesthetic' | 'reading_writing' | 'mixed';
           native_language: string;
           target_languages: string[];
@@ -35,6 +35,7 @@ export interface Database {
           timezone: string;
           country_code: string | null;
           education_level: string | null;
+          plan: 'free' | 'student' | 'premium';
           created_at: string;
           updated_at: string;
           last_active_at: string;
@@ -44,7 +45,7 @@ export interface Database {
           display_name?: string | null;
           bio?: string | null;
           avatar_url?: string | null;
-          preferred_dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
+          preferred_dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
           learning_style?: 'visual' | 'auditory' | 'kinesthetic' | 'reading_writing' | 'mixed';
           native_language?: string;
           target_languages?: string[];
@@ -55,6 +56,7 @@ export interface Database {
           timezone?: string;
           country_code?: string | null;
           education_level?: string | null;
+          plan?: 'free' | 'student' | 'premium';
           created_at?: string;
           updated_at?: string;
           last_active_at?: string;
@@ -64,7 +66,7 @@ export interface Database {
           display_name?: string | null;
           bio?: string | null;
           avatar_url?: string | null;
-          preferred_dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
+          preferred_dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
           learning_style?: 'visual' | 'auditory' | 'kinesthetic' | 'reading_writing' | 'mixed';
           native_language?: string;
           target_languages?: string[];
@@ -75,9 +77,11 @@ export interface Database {
           timezone?: string;
           country_code?: string | null;
           education_level?: string | null;
+          plan?: 'free' | 'student' | 'premium';
           updated_at?: string;
           last_active_at?: string;
         };
+        Relationships: [];
       };
       knowledge_components: {
         Row: {
@@ -135,6 +139,7 @@ export interface Database {
           estimated_time_minutes?: number | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       student_mastery: {
         Row: {
@@ -155,6 +160,7 @@ export interface Database {
           total_incorrect: number;
           total_time_spent_seconds: number;
           average_response_time_seconds: number | null;
+          timed_attempts: number;
           mastery_level: number;
           is_mastered: boolean;
           created_at: string;
@@ -178,6 +184,7 @@ export interface Database {
           total_incorrect?: number;
           total_time_spent_seconds?: number;
           average_response_time_seconds?: number | null;
+          timed_attempts?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -196,8 +203,25 @@ export interface Database {
           total_incorrect?: number;
           total_time_spent_seconds?: number;
           average_response_time_seconds?: number | null;
+          timed_attempts?: number;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'student_mastery_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'student_mastery_kc_id_fkey';
+            columns: ['kc_id'];
+            isOneToOne: false;
+            referencedRelation: 'knowledge_components';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       lessons: {
         Row: {
@@ -255,6 +279,7 @@ export interface Database {
           published_at?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       student_progress: {
         Row: {
@@ -304,6 +329,22 @@ export interface Database {
           last_accessed_at?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'student_progress_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'student_progress_lesson_id_fkey';
+            columns: ['lesson_id'];
+            isOneToOne: false;
+            referencedRelation: 'lessons';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       agent_sessions: {
         Row: {
@@ -363,6 +404,15 @@ export interface Database {
           dialect_used?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
           error_message?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'agent_sessions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       flashcards: {
         Row: {
@@ -418,6 +468,22 @@ export interface Database {
           last_reviewed_at?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'flashcards_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'flashcards_kc_id_fkey';
+            columns: ['kc_id'];
+            isOneToOne: false;
+            referencedRelation: 'knowledge_components';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       review_history: {
         Row: {
@@ -458,6 +524,22 @@ export interface Database {
           stability_after?: number | null;
           difficulty_after?: number | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'review_history_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'review_history_flashcard_id_fkey';
+            columns: ['flashcard_id'];
+            isOneToOne: false;
+            referencedRelation: 'flashcards';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       achievements: {
         Row: {
@@ -497,6 +579,7 @@ export interface Database {
           criteria?: Json;
           points?: number;
         };
+        Relationships: [];
       };
       student_achievements: {
         Row: {
@@ -511,7 +594,25 @@ export interface Database {
           achievement_id: string;
           unlocked_at?: string;
         };
-        Update: {};
+        Update: {
+          [_ in never]: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'student_achievements_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'student_achievements_achievement_id_fkey';
+            columns: ['achievement_id'];
+            isOneToOne: false;
+            referencedRelation: 'achievements';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       study_sessions: {
         Row: {
@@ -527,6 +628,8 @@ export interface Database {
           flashcards_reviewed: number;
           focus_score: number | null;
           breaks_taken: number;
+          last_activity_at: string;
+          active_seconds: number;
           created_at: string;
         };
         Insert: {
@@ -542,6 +645,8 @@ export interface Database {
           flashcards_reviewed?: number;
           focus_score?: number | null;
           breaks_taken?: number;
+          last_activity_at?: string;
+          active_seconds?: number;
           created_at?: string;
         };
         Update: {
@@ -554,10 +659,241 @@ export interface Database {
           flashcards_reviewed?: number;
           focus_score?: number | null;
           breaks_taken?: number;
+          last_activity_at?: string;
+          active_seconds?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'study_sessions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      conversations: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string | null;
+          dialect: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
+          message_count: number;
+          last_message_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title?: string | null;
+          dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
+          message_count?: number;
+          last_message_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string | null;
+          dialect?: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi' | null;
+          message_count?: number;
+          last_message_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'conversations_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      conversation_messages: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          user_id: string;
+          role: 'user' | 'agent' | 'system';
+          content: string;
+          agent_id: string | null;
+          metadata: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          user_id: string;
+          role: 'user' | 'agent' | 'system';
+          content: string;
+          agent_id?: string | null;
+          metadata?: Json;
+          created_at?: string;
         };
+        Update: {
+          content?: string;
+          metadata?: Json;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'conversation_messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'conversation_messages_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_budgets: {
+        Row: {
+          user_id: string;
+          daily_cost_usd: number | null;
+          monthly_cost_usd: number | null;
+          daily_tokens: number | null;
+          monthly_tokens: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          daily_cost_usd?: number | null;
+          monthly_cost_usd?: number | null;
+          daily_tokens?: number | null;
+          monthly_tokens?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          daily_cost_usd?: number | null;
+          monthly_cost_usd?: number | null;
+          daily_tokens?: number | null;
+          monthly_tokens?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_budgets_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rate_limit_counters: {
+        Row: {
+          key: string;
+          window_start: string;
+          request_count: number;
+        };
+        Insert: {
+          key: string;
+          window_start: string;
+          request_count?: number;
+        };
+        Update: {
+          request_count?: number;
+        };
+        Relationships: [];
+      };
+      knowledge_chunks: {
+        Row: {
+          id: string;
+          source_type: 'lesson_section' | 'knowledge_component';
+          source_id: string;
+          chunk_index: number;
+          subject: string;
+          topic: string | null;
+          title: string;
+          content: string;
+          content_hash: string;
+          embedding: string; // pgvector literal, e.g. "[0.1,0.2,...]"
+          metadata: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          source_type: 'lesson_section' | 'knowledge_component';
+          source_id: string;
+          chunk_index?: number;
+          subject: string;
+          topic?: string | null;
+          title: string;
+          content: string;
+          content_hash: string;
+          embedding: string;
+          metadata?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          subject?: string;
+          topic?: string | null;
+          title?: string;
+          content?: string;
+          content_hash?: string;
+          embedding?: string;
+          metadata?: Json;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      agent_memories: {
+        Row: {
+          id: string;
+          user_id: string;
+          agent_id: string;
+          key: string;
+          value: Json | null;
+          created_at: string;
+          expires_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          agent_id: string;
+          key: string;
+          value?: Json | null;
+          created_at?: string;
+          expires_at?: string | null;
+        };
+        Update: {
+          [_ in never]: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'agent_memories_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      agent_feedback_stats: {
+        Row: {
+          agent_type: 'visualizer' | 'narrator' | 'problem_decomposer' | 'simulator' | 'socratic' | 'spaced_repetition' | 'adaptive_assessor' | 'cognitive_mirror' | 'memory_architect' | 'context_weaver' | 'research_companion' | 'language_coach' | 'engagement_monitor' | 'wellbeing' | 'maestro';
+          total_sessions: number;
+          rated_sessions: number;
+          average_rating: number | null;
+          helpful_count: number;
+          not_helpful_count: number;
+          helpful_ratio: number | null;
+        };
+        Relationships: [];
       };
     };
-    Views: {};
     Functions: {
       get_student_overall_mastery: {
         Args: { student_id: string };
@@ -567,6 +903,58 @@ export interface Database {
         Args: { student_id: string };
         Returns: number;
       };
+      record_study_activity: {
+        Args: {
+          student_id: string;
+          idle_timeout_seconds?: number;
+          break_seconds?: number;
+          activity_lesson_ids?: string[];
+          activity_kc_ids?: string[];
+          exercises?: number;
+          correct?: number;
+          flashcards?: number;
+        };
+        Returns: Database['public']['Tables']['study_sessions']['Row'];
+      };
+      close_idle_study_sessions: {
+        Args: { student_id?: string | null; idle_timeout_seconds?: number };
+        Returns: number;
+      };
+      store_agent_memory: {
+        Args: {
+          student_id: string;
+          memory_agent_id: string;
+          memory_key: string;
+          memory_value: Json | null;
+          memory_created_at?: string;
+          memory_expires_at?: string | null;
+          max_entries?: number;
+        };
+        Returns: Database['public']['Tables']['agent_memories']['Row'];
+      };
+      get_agent_usage: {
+        Args: { student_id: string; since: string };
+        Returns: { tokens_used: number; cost_usd: number; calls: number }[];
+      };
+      consume_rate_limits: {
+        Args: { limit_keys: string[]; max_requests: number[]; window_seconds: number };
+        Returns: { limit_key: string; allowed: boolean; request_count: number; reset_at: string }[];
+      };
+      match_knowledge_chunks: {
+        Args: { query_embedding: string; match_count?: number; filter_subject?: string | null };
+        Returns: {
+          id: string;
+          source_type: 'lesson_section' | 'knowledge_component';
+          source_id: string;
+          chunk_index: number;
+          subject: string;
+          topic: string | null;
+          title: string;
+          content: string;
+          metadata: Json;
+          similarity: number;
+        }[];
+      };
     };
     Enums: {
       arabic_dialect: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
@@ -574,6 +962,10 @@ export interface Database {
       difficulty_level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
       progress_status: 'not_started' | 'in_progress' | 'completed' | 'mastered';
       agent_type: 'visualizer' | 'narrator' | 'problem_decomposer' | 'simulator' | 'socratic' | 'spaced_repetition' | 'adaptive_assessor' | 'cognitive_mirror' | 'memory_architect' | 'context_weaver' | 'research_companion' | 'language_coach' | 'engagement_monitor' | 'wellbeing' | 'maestro';
+      subscription_plan: 'free' | 'student' | 'premium';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
-}
+};
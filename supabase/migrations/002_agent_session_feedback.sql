@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Al-Biruni EDU - Agent Session Feedback
+-- Migration: 002_agent_session_feedback
+-- Description: Let students rate agent answers and aggregate feedback per agent
+-- ============================================================================
+
+-- Students can rate their own sessions. The policy selects the rows; the
+-- column grant limits updates to the feedback columns (usage, cost and
+-- errors stay as the server logged them)
+CREATE POLICY "Users can update own sessions" ON agent_sessions
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON agent_sessions FROM anon, authenticated;
+GRANT UPDATE (student_feedback, was_helpful) ON agent_sessions TO authenticated;
+
+-- ============================================================================
+-- FEEDBACK AGGREGATES
+-- ============================================================================
+
+-- Per-agent feedback summary (anonymous aggregate across all students)
+CREATE VIEW agent_feedback_stats AS
+SELECT
+  agent_type,
+  COUNT(*) AS total_sessions,
+  COUNT(student_feedback) AS rated_sessions,
+  ROUND(AVG(student_feedback)::NUMERIC, 2) AS average_rating,
+  COUNT(*) FILTER (WHERE was_helpful IS TRUE) AS helpful_count,
+  COUNT(*) FILTER (WHERE was_helpful IS FALSE) AS not_helpful_count,
+  ROUND(
+    (COUNT(*) FILTER (WHERE was_helpful IS TRUE))::NUMERIC / NULLIF(COUNT(was_helpful), 0),
+    3
+  ) AS helpful_ratio
+FROM agent_sessions
+GROUP BY agent_type;
+
+CREATE INDEX idx_agent_sessions_feedback ON agent_sessions(agent_type)
+  WHERE student_feedback IS NOT NULL OR was_helpful IS NOT NULL;
+
+COMMENT ON VIEW agent_feedback_stats IS 'Student feedback (ratings, helpfulness) aggregated per agent';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
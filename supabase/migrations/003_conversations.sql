@@ -0,0 +1,112 @@
+-- ============================================================================
+-- Al-Biruni EDU - Conversations
+-- Migration: 003_conversations
+-- Description: Store chat conversations and their messages server-side so the
+--              client only sends the session ID and the new message
+-- ============================================================================
+
+-- ============================================================================
+-- CONVERSATIONS
+-- ============================================================================
+
+-- One chat thread (the chat sessionId)
+CREATE TABLE conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  -- Display
+  title TEXT, -- First student message, truncated
+
+  -- Session State
+  dialect arabic_dialect,
+  message_count INTEGER DEFAULT 0,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_conversations_user ON conversations(user_id, last_message_at DESC NULLS LAST);
+
+-- ============================================================================
+-- CONVERSATION MESSAGES
+-- ============================================================================
+
+-- Messages in a conversation, in order
+CREATE TABLE conversation_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  -- Message
+  role TEXT NOT NULL CHECK (role IN ('user', 'agent', 'system')),
+  content TEXT NOT NULL,
+  agent_id TEXT, -- Registry ID of the answering agent (e.g., "problem-decomposer")
+  metadata JSONB DEFAULT '{}', -- Visualizations, questions, agentSessionIds, usage
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_conversation_messages_conversation ON conversation_messages(conversation_id, created_at);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_conversations_updated_at BEFORE UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep message_count and last_message_at in sync with conversation_messages
+CREATE OR REPLACE FUNCTION update_conversation_on_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET message_count = message_count + 1,
+      last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_conversation_on_message AFTER INSERT ON conversation_messages
+  FOR EACH ROW EXECUTE FUNCTION update_conversation_on_message();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+
+-- Conversations: Users can manage their own conversations
+CREATE POLICY "Users can view own conversations" ON conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own conversations" ON conversations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations" ON conversations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations" ON conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Conversation Messages: Users can read/create messages in their own conversations
+CREATE POLICY "Users can view own messages" ON conversation_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own messages" ON conversation_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_id AND conversations.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE conversations IS 'Chat threads; the ID is the chat sessionId';
+COMMENT ON TABLE conversation_messages IS 'Ordered messages of a chat thread (student, agent and system)';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
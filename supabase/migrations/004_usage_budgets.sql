@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Al-Biruni EDU - Usage Budgets
+-- Migration: 004_usage_budgets
+-- Description: Subscription plans, per-user budget overrides and usage totals
+--              from agent_sessions for daily/monthly token and cost budgets
+-- ============================================================================
+
+-- ============================================================================
+-- PLANS
+-- ============================================================================
+
+-- Subscription plans (plan budgets are defined in application config)
+CREATE TYPE subscription_plan AS ENUM (
+  'free',
+  'student',
+  'premium'
+);
+
+ALTER TABLE user_profiles
+  ADD COLUMN plan subscription_plan NOT NULL DEFAULT 'free';
+
+-- ============================================================================
+-- PER-USER BUDGET OVERRIDES
+-- ============================================================================
+
+-- Optional per-student limits (NULL = use the plan budget)
+CREATE TABLE user_budgets (
+  user_id UUID PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+  daily_cost_usd DECIMAL(10,4),
+  monthly_cost_usd DECIMAL(10,4),
+  daily_tokens INTEGER,
+  monthly_tokens INTEGER,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_user_budgets_updated_at BEFORE UPDATE ON user_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Budgets are set by admins (service role); students can only read their own
+CREATE POLICY "Users can view own budget" ON user_budgets
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- USAGE TOTALS
+-- ============================================================================
+
+CREATE INDEX idx_agent_sessions_user_created ON agent_sessions(user_id, created_at DESC);
+
+-- Tokens, cost and calls since a point in time
+-- Only top-level sessions count: sub-agent rows (context.parentAgentId set)
+-- are already included in their orchestrator's totals. Failed turns count
+-- too (their rows carry the usage spent before the error)
+CREATE OR REPLACE FUNCTION get_agent_usage(student_id UUID, since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (tokens_used BIGINT, cost_usd DECIMAL, calls BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(COALESCE(s.tokens_input, 0) + COALESCE(s.tokens_output, 0)), 0)::BIGINT,
+    COALESCE(SUM(s.cost_usd), 0)::DECIMAL,
+    COUNT(*)::BIGINT
+  FROM agent_sessions s
+  WHERE s.user_id = student_id
+    AND s.created_at >= since
+    AND (s.context->>'parentAgentId') IS NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- Al-Biruni EDU - Rate Limits
+-- Migration: 005_rate_limits
+-- Description: Shared fixed-window request counters so rate limits hold across
+--              serverless instances (keys: user + agent, global per model)
+-- ============================================================================
+
+-- One counter per key and window
+CREATE TABLE rate_limit_counters (
+  key TEXT NOT NULL, -- e.g., "user:<uuid>:agent:socratic", "model:pro"
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX idx_rate_limit_counters_window ON rate_limit_counters(window_start);
+
+-- Counters are only touched through consume_rate_limits (no direct access)
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Count one request against every key, or against none: when any key is at
+-- its limit nothing is counted, so a rejected call uses up no other limit
+CREATE OR REPLACE FUNCTION consume_rate_limits(
+  limit_keys TEXT[],
+  max_requests INTEGER[],
+  window_seconds INTEGER
+)
+RETURNS TABLE (
+  limit_key TEXT,
+  allowed BOOLEAN,
+  request_count INTEGER,
+  reset_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE :=
+    to_timestamp(floor(extract(epoch FROM NOW()) / window_seconds) * window_seconds);
+  all_allowed BOOLEAN;
+BEGIN
+  -- Make sure every counter exists, then lock them in key order (no deadlocks)
+  INSERT INTO rate_limit_counters (key, window_start, request_count)
+  SELECT k, current_window, 0 FROM unnest(limit_keys) AS k
+  ON CONFLICT ON CONSTRAINT rate_limit_counters_pkey DO NOTHING;
+
+  PERFORM 1 FROM rate_limit_counters c
+  WHERE c.key = ANY(limit_keys) AND c.window_start = current_window
+  ORDER BY c.key
+  FOR UPDATE;
+
+  SELECT bool_and(c.request_count < l.max_count) INTO all_allowed
+  FROM unnest(limit_keys, max_requests) AS l(k, max_count)
+  JOIN rate_limit_counters c ON c.key = l.k AND c.window_start = current_window;
+
+  IF all_allowed THEN
+    UPDATE rate_limit_counters c SET request_count = c.request_count + 1
+    WHERE c.key = ANY(limit_keys) AND c.window_start = current_window;
+  END IF;
+
+  -- Occasionally drop expired windows
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters WHERE window_start < NOW() - INTERVAL '1 day';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.k,
+    CASE WHEN all_allowed THEN TRUE ELSE c.request_count < l.max_count END,
+    c.request_count,
+    current_window + make_interval(secs => window_seconds)
+  FROM unnest(limit_keys, max_requests) AS l(k, max_count)
+  JOIN rate_limit_counters c ON c.key = l.k AND c.window_start = current_window;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Server-side only (service role): clients must not spend other students' or the models' limits
+REVOKE EXECUTE ON FUNCTION consume_rate_limits(TEXT[], INTEGER[], INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE rate_limit_counters IS 'Fixed-window request counters shared by all server instances';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
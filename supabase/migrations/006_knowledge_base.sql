@@ -0,0 +1,108 @@
+-- ============================================================================
+-- Al-Biruni EDU - Knowledge Base
+-- Migration: 006_knowledge_base
+-- Description: Embedded chunks of lesson sections and knowledge component
+--              descriptions for semantic search (search_knowledge_base)
+-- ============================================================================
+
+-- ============================================================================
+-- KNOWLEDGE CHUNKS
+-- ============================================================================
+
+-- Searchable passages with their embeddings (Gemini text-embedding-004, 768 dims)
+CREATE TABLE knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- Source
+  source_type TEXT NOT NULL CHECK (source_type IN ('lesson_section', 'knowledge_component')),
+  source_id UUID NOT NULL, -- lessons.id or knowledge_components.id
+  chunk_index INTEGER NOT NULL DEFAULT 0,
+
+  -- Classification (copied from the source for filtering)
+  subject TEXT NOT NULL,
+  topic TEXT,
+
+  -- Content
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL, -- Skip re-embedding unchanged chunks
+  embedding vector(768) NOT NULL,
+  metadata JSONB DEFAULT '{}', -- lessonSlug, sectionIndex, sectionTitle, kcCode
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(source_type, source_id, chunk_index)
+);
+
+-- Indexes
+CREATE INDEX idx_knowledge_chunks_source ON knowledge_chunks(source_type, source_id);
+CREATE INDEX idx_knowledge_chunks_subject ON knowledge_chunks(subject);
+CREATE INDEX idx_knowledge_chunks_embedding ON knowledge_chunks
+  USING hnsw (embedding vector_cosine_ops);
+
+CREATE TRIGGER update_knowledge_chunks_updated_at BEFORE UPDATE ON knowledge_chunks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Chunks are public course material; they are written by the ingestion job (service role)
+-- Lesson chunks are visible only while their lesson is published
+ALTER TABLE knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view knowledge chunks" ON knowledge_chunks
+  FOR SELECT USING (
+    source_type <> 'lesson_section' OR
+    EXISTS (SELECT 1 FROM lessons l WHERE l.id = source_id AND l.is_published = true)
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Nearest chunks to a query embedding (cosine similarity), optionally within a subject
+CREATE OR REPLACE FUNCTION match_knowledge_chunks(
+  query_embedding vector(768),
+  match_count INTEGER DEFAULT 5,
+  filter_subject TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  source_type TEXT,
+  source_id UUID,
+  chunk_index INTEGER,
+  subject TEXT,
+  topic TEXT,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity DOUBLE PRECISION
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.source_type,
+    c.source_id,
+    c.chunk_index,
+    c.subject,
+    c.topic,
+    c.title,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM knowledge_chunks c
+  WHERE filter_subject IS NULL OR lower(c.subject) = lower(filter_subject)
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(GREATEST(match_count, 1), 20);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON TABLE knowledge_chunks IS 'Embedded lesson sections and knowledge component descriptions for semantic search';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
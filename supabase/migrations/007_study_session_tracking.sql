@@ -0,0 +1,134 @@
+-- ============================================================================
+-- Al-Biruni EDU - Study Session Tracking
+-- Migration: 007_study_session_tracking
+-- Description: Sessions opened on first activity and closed after an idle
+--              timeout, with the KCs, lessons, exercises and flashcards touched;
+--              study streak counted from yesterday when there is no activity today
+-- ============================================================================
+
+ALTER TABLE study_sessions
+  ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN active_seconds INTEGER NOT NULL DEFAULT 0; -- Time between activities, breaks excluded
+
+UPDATE study_sessions SET last_activity_at = COALESCE(ended_at, started_at);
+
+ALTER TABLE study_sessions ALTER COLUMN last_activity_at SET DEFAULT NOW();
+
+-- At most one open session per student is looked up on every activity
+CREATE INDEX idx_study_sessions_open ON study_sessions(user_id) WHERE ended_at IS NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Close open sessions idle for longer than the timeout (one student, or all).
+-- A closed session ends at its last activity.
+CREATE OR REPLACE FUNCTION close_idle_study_sessions(
+  student_id UUID DEFAULT NULL,
+  idle_timeout_seconds INTEGER DEFAULT 900
+)
+RETURNS INTEGER AS $$
+DECLARE
+  closed INTEGER;
+BEGIN
+  UPDATE study_sessions s
+  SET ended_at = s.last_activity_at,
+      duration_seconds = GREATEST(0, EXTRACT(EPOCH FROM s.last_activity_at - s.started_at))::INTEGER,
+      focus_score = LEAST(1, s.active_seconds::DECIMAL
+        / GREATEST(1, EXTRACT(EPOCH FROM s.last_activity_at - s.started_at)))
+  WHERE s.ended_at IS NULL
+    AND (student_id IS NULL OR s.user_id = student_id)
+    AND s.last_activity_at < NOW() - make_interval(secs => idle_timeout_seconds);
+
+  GET DIAGNOSTICS closed = ROW_COUNT;
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record one study activity: continue the open session (counting a break when
+-- the gap is longer than break_seconds) or open a new one after closing an
+-- idle session. Returns the session.
+CREATE OR REPLACE FUNCTION record_study_activity(
+  student_id UUID,
+  idle_timeout_seconds INTEGER DEFAULT 900,
+  break_seconds INTEGER DEFAULT 300,
+  activity_lesson_ids UUID[] DEFAULT '{}',
+  activity_kc_ids UUID[] DEFAULT '{}',
+  exercises INTEGER DEFAULT 0,
+  correct INTEGER DEFAULT 0,
+  flashcards INTEGER DEFAULT 0
+)
+RETURNS study_sessions AS $$
+DECLARE
+  current_session study_sessions;
+  gap_seconds INTEGER;
+BEGIN
+  PERFORM close_idle_study_sessions(student_id, idle_timeout_seconds);
+
+  SELECT * INTO current_session
+  FROM study_sessions
+  WHERE user_id = student_id AND ended_at IS NULL
+  ORDER BY started_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO study_sessions (user_id, started_at, last_activity_at, duration_seconds, lesson_ids, kc_ids)
+    VALUES (student_id, NOW(), NOW(), 0, '{}', '{}')
+    RETURNING * INTO current_session;
+  END IF;
+
+  gap_seconds := GREATEST(0, EXTRACT(EPOCH FROM NOW() - current_session.last_activity_at))::INTEGER;
+
+  UPDATE study_sessions s
+  SET last_activity_at = NOW(),
+      active_seconds = s.active_seconds + CASE WHEN gap_seconds > break_seconds THEN 0 ELSE gap_seconds END,
+      breaks_taken = s.breaks_taken + CASE WHEN gap_seconds > break_seconds THEN 1 ELSE 0 END,
+      duration_seconds = GREATEST(0, EXTRACT(EPOCH FROM NOW() - s.started_at))::INTEGER,
+      lesson_ids = ARRAY(SELECT DISTINCT unnest(COALESCE(s.lesson_ids, '{}') || activity_lesson_ids)),
+      kc_ids = ARRAY(SELECT DISTINCT unnest(COALESCE(s.kc_ids, '{}') || activity_kc_ids)),
+      total_exercises = s.total_exercises + exercises,
+      correct_exercises = s.correct_exercises + correct,
+      flashcards_reviewed = s.flashcards_reviewed + flashcards
+  WHERE s.id = current_session.id
+  RETURNING * INTO current_session;
+
+  RETURN current_session;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Study streak: consecutive days with a session, ending today, or yesterday
+-- when the student has not studied yet today
+CREATE OR REPLACE FUNCTION get_study_streak(student_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  streak INTEGER := 0;
+  check_date DATE := CURRENT_DATE;
+  has_activity BOOLEAN;
+BEGIN
+  LOOP
+    SELECT EXISTS (
+      SELECT 1 FROM study_sessions
+      WHERE user_id = student_id
+        AND DATE(started_at) = check_date
+    ) INTO has_activity;
+
+    IF NOT has_activity THEN
+      -- Today is not over yet: the streak may still continue from yesterday
+      IF check_date = CURRENT_DATE THEN
+        check_date := check_date - INTERVAL '1 day';
+        CONTINUE;
+      END IF;
+      EXIT;
+    END IF;
+
+    streak := streak + 1;
+    check_date := check_date - INTERVAL '1 day';
+  END LOOP;
+
+  RETURN streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN study_sessions.last_activity_at IS 'Last recorded activity; sessions idle past the timeout are closed';
+COMMENT ON COLUMN study_sessions.active_seconds IS 'Seconds between activities, excluding breaks (focus_score = active / duration)';
@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Al-Biruni EDU - Achievement Criteria
+-- Migration: 008_achievement_criteria
+-- Description: Starter achievements using the criteria language in
+--              src/lib/achievements/criteria.ts
+-- ============================================================================
+
+-- Criteria are thresholds on one metric, or "all"/"any" combinations:
+--   {"type": "streak", "days": 7}
+--   {"type": "mastered_kcs", "count": 10, "subject": "Math"}
+--   {"type": "lessons_completed", "count": 1}
+--   {"type": "flashcards_reviewed", "count": 100}
+--   {"type": "agent_interactions", "count": 20, "agent": "socratic"}
+--   {"type": "all", "rules": [...]}  /  {"type": "any", "rules": [...]}
+
+INSERT INTO achievements (code, name_en, name_ar, description_en, description_ar, color, criteria, points) VALUES
+  ('FIRST_LESSON', 'First Lesson', 'الدرس الأول',
+   'Complete your first lesson', 'أكمل أول درس لك',
+   '#22c55e', '{"type": "lessons_completed", "count": 1}', 10),
+  ('LESSONS_10', 'Dedicated Learner', 'متعلم مثابر',
+   'Complete 10 lessons', 'أكمل ١٠ دروس',
+   '#16a34a', '{"type": "lessons_completed", "count": 10}', 50),
+  ('WEEK_STREAK_3', 'Getting Started', 'بداية موفقة',
+   'Study 3 days in a row', 'ادرس ٣ أيام متتالية',
+   '#f59e0b', '{"type": "streak", "days": 3}', 15),
+  ('WEEK_STREAK_7', 'Week Streak', 'أسبوع متواصل',
+   'Study 7 days in a row', 'ادرس ٧ أيام متتالية',
+   '#f97316', '{"type": "streak", "days": 7}', 50),
+  ('MONTH_STREAK_30', 'Month Streak', 'شهر من المثابرة',
+   'Study 30 days in a row', 'ادرس ٣٠ يوماً متتالياً',
+   '#ea580c', '{"type": "streak", "days": 30}', 200),
+  ('FIRST_MASTERY', 'First Mastery', 'أول إتقان',
+   'Master your first concept', 'أتقن أول مفهوم',
+   '#3b82f6', '{"type": "mastered_kcs", "count": 1}', 10),
+  ('MASTERY_25', 'Concept Collector', 'جامع المفاهيم',
+   'Master 25 concepts', 'أتقن ٢٥ مفهوماً',
+   '#2563eb', '{"type": "mastered_kcs", "count": 25}', 100),
+  ('FLASHCARDS_100', 'Memory Builder', 'بنّاء الذاكرة',
+   'Review 100 flashcards', 'راجع ١٠٠ بطاقة',
+   '#8b5cf6', '{"type": "flashcards_reviewed", "count": 100}', 40),
+  ('CURIOUS_MIND', 'Curious Mind', 'عقل فضولي',
+   'Have 20 conversations with the Socratic tutor', 'حاور المعلم السقراطي ٢٠ مرة',
+   '#06b6d4', '{"type": "agent_interactions", "count": 20, "agent": "socratic"}', 30),
+  ('WELL_ROUNDED', 'Well Rounded', 'متعلم متكامل',
+   'Complete 5 lessons, master 10 concepts and keep a 7 day streak',
+   'أكمل ٥ دروس وأتقن ١٠ مفاهيم وحافظ على ٧ أيام متتالية',
+   '#eab308',
+   '{"type": "all", "rules": [
+      {"type": "lessons_completed", "count": 5},
+      {"type": "mastered_kcs", "count": 10},
+      {"type": "streak", "days": 7}
+    ]}', 150)
+ON CONFLICT (code) DO NOTHING;
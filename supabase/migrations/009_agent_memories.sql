@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Al-Biruni EDU - Agent Memories
+-- Migration: 009_agent_memories
+-- Description: Persistent per-student agent memory (last interaction, pending
+--              flashcard, assessment state) shared by all server instances
+-- ============================================================================
+
+CREATE TABLE agent_memories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL, -- Registry id, e.g., "spaced-repetition"
+  key TEXT NOT NULL, -- e.g., "last_interaction", "pending_flashcard"
+
+  value JSONB,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE -- NULL = never expires
+);
+
+CREATE INDEX idx_agent_memories_lookup ON agent_memories(user_id, agent_id, key, created_at);
+CREATE INDEX idx_agent_memories_expiry ON agent_memories(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE agent_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent memories" ON agent_memories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own agent memories" ON agent_memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own agent memories" ON agent_memories
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Store one memory, then drop the student's expired memories for the agent and
+-- all but the newest max_entries memories under the same key
+CREATE OR REPLACE FUNCTION store_agent_memory(
+  student_id UUID,
+  memory_agent_id TEXT,
+  memory_key TEXT,
+  memory_value JSONB,
+  memory_created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  memory_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  max_entries INTEGER DEFAULT 20
+)
+RETURNS agent_memories AS $$
+DECLARE
+  stored agent_memories;
+BEGIN
+  INSERT INTO agent_memories (user_id, agent_id, key, value, created_at, expires_at)
+  VALUES (student_id, memory_agent_id, memory_key, memory_value, memory_created_at, memory_expires_at)
+  RETURNING * INTO stored;
+
+  DELETE FROM agent_memories
+  WHERE user_id = student_id
+    AND agent_id = memory_agent_id
+    AND expires_at IS NOT NULL
+    AND expires_at <= NOW();
+
+  DELETE FROM agent_memories
+  WHERE id IN (
+    SELECT id FROM agent_memories
+    WHERE user_id = student_id AND agent_id = memory_agent_id AND key = memory_key
+    ORDER BY created_at DESC, id DESC
+    OFFSET max_entries
+  );
+
+  RETURN stored;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE agent_memories IS 'Per-student agent memory; entries past expires_at are ignored and pruned';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Al-Biruni EDU - Optional Dialect Preference
+-- Migration: 010_optional_dialect_preference
+-- Description: New profiles start without a preferred dialect, so chat can
+--              identify the student's dialect from their messages until they
+--              choose one (existing preferences are kept as they are)
+-- ============================================================================
+
+ALTER TABLE user_profiles ALTER COLUMN preferred_dialect DROP DEFAULT;
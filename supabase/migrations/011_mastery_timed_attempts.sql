@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Al-Biruni EDU - Timed Mastery Attempts
+-- Migration: 011_mastery_timed_attempts
+-- Description: Count the attempts that reported a response time, so the mean
+--              response time is not diluted by untimed attempts
+-- ============================================================================
+
+ALTER TABLE student_mastery
+  ADD COLUMN timed_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Existing means were averaged over all attempts
+UPDATE student_mastery
+SET timed_attempts = total_correct + total_incorrect
+WHERE average_response_time_seconds IS NOT NULL;
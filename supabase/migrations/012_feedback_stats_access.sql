@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Al-Biruni EDU - Feedback Stats Access
+-- Migration: 012_feedback_stats_access
+-- Description: agent_feedback_stats aggregates every student's sessions and,
+--              like any view, bypasses agent_sessions RLS; only the service
+--              role (GET /api/feedback, admins only) may read it
+-- ============================================================================
+
+REVOKE ALL ON agent_feedback_stats FROM anon, authenticated;